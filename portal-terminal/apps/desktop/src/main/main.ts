@@ -1,15 +1,92 @@
-import { app, BrowserWindow, ipcMain } from 'electron';
+import { app, BrowserWindow, ipcMain, shell } from 'electron';
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
 import * as path from 'path';
-import { PortalTerminal, IntegratedTerminal } from '@portal/terminal-core';
+import { fileURLToPath } from 'url';
+import {
+  PortalTerminal,
+  IntegratedTerminal,
+  TerminalManager,
+  CommandBlock,
+  CommandOutputEvent,
+  ConfirmationRequest,
+  CommandHistory,
+  AuditLog,
+  EnvironmentTrustStore,
+  EnvironmentTrustRequest,
+  DirectoryEnvironmentStatus,
+  SessionStore,
+  AnsiParser,
+  CommandValidator,
+  ShellDetector,
+  ShellHistoryImporter,
+  FixMemory,
+  ResourceSampler,
+} from '@portal/terminal-core';
 import { AITerminalIntegration } from '@portal/ai-providers';
 import { WorkingMCPClient } from '@portal/mcp-client';
-import type { ITerminalCreateOptions } from '../shared/types';
+import type {
+  ITerminalCreateOptions,
+  BlockSignal,
+  IConfirmationResponse,
+  CommandSource,
+  IAuditQuery,
+  ImportedHistoryShell,
+} from '../shared/types';
 
 let mainWindow: BrowserWindow | null = null;
 const terminals = new Map<string, PortalTerminal>();
 const integratedTerminals = new Map<string, IntegratedTerminal>();
 const aiIntegrations = new Map<string, AITerminalIntegration>();
 const mcpClients = new Map<string, WorkingMCPClient>();
+// One history store shared by every terminal window and session
+const commandHistory = new CommandHistory();
+// Hash-chained record of every command run, in ~/.portal/audit.jsonl
+const auditLog = new AuditLog();
+// Directories whose .portal/env may be loaded, in ~/.portal/trusted-environments.json
+const environmentTrust = new EnvironmentTrustStore();
+// Commands that fixed an error before, in ~/.portal/learned-fixes.json
+const fixMemory = new FixMemory();
+// CPU and memory of the app, its window and every terminal's commands
+const resourceSampler = new ResourceSampler();
+resourceSampler.addProcessSource(() => {
+  const pid = mainWindow?.webContents.getOSProcessId();
+  return pid ? [{ pid, role: 'renderer' as const }] : [];
+});
+// Snapshots open sessions to ~/.portal/sessions on a timer and on quit
+const sessionStore = new SessionStore();
+// Sessions open at last quit, handed out in order to terminals asking to restore
+let lastSessionNames: Promise<string[]> | null = null;
+const claimedSessionNames = new Set<string>();
+let isQuitting = false;
+
+type EditorLineArgs = (file: string, line: number, column: number) => string[];
+
+const gotoArgs: EditorLineArgs = (file, line, column) => ['--goto', `${file}:${line}:${column}`];
+const suffixArgs: EditorLineArgs = (file, line, column) => [`${file}:${line}:${column}`];
+const jetbrainsArgs: EditorLineArgs = (file, line, column) => ['--line', String(line), '--column', String(column), file];
+
+// How GUI editors are told the line to open a file at. Terminal editors like
+// vim have no window to open in, so their files go to the default app instead
+const EDITOR_LINE_ARGS: Record<string, EditorLineArgs> = {
+  code: gotoArgs,
+  'code-insiders': gotoArgs,
+  codium: gotoArgs,
+  cursor: gotoArgs,
+  windsurf: gotoArgs,
+  subl: suffixArgs,
+  zed: suffixArgs,
+  idea: jetbrainsArgs,
+  webstorm: jetbrainsArgs,
+  pycharm: jetbrainsArgs,
+  goland: jetbrainsArgs,
+  clion: jetbrainsArgs,
+  rustrover: jetbrainsArgs,
+  mate: (file, line) => ['-l', String(line), file],
+  gvim: (file, line) => [`+${line}`, file],
+  mvim: (file, line) => [`+${line}`, file],
+  emacsclient: (file, line, column) => ['-n', `+${line}:${column}`, file],
+};
 
 const createWindow = (): void => {
   mainWindow = new BrowserWindow({
@@ -38,6 +115,22 @@ const createWindow = (): void => {
     mainWindow.loadFile(path.join(__dirname, '../renderer/index.html'));
   }
 
+  // Hyperlinks in command output open in the browser, never in the app
+  // window. Any program can print a file: link, so those are only shown in
+  // the file manager; opening one could launch an executable or app bundle.
+  mainWindow.webContents.setWindowOpenHandler(({ url }: { url: string }) => {
+    if (/^https?:/.test(url)) {
+      shell.openExternal(url);
+    } else if (/^file:/.test(url)) {
+      try {
+        shell.showItemInFolder(fileURLToPath(url));
+      } catch (error) {
+        console.warn(`Ignoring link ${url}:`, error);
+      }
+    }
+    return { action: 'deny' };
+  });
+
   mainWindow.once('ready-to-show', () => {
     mainWindow?.show();
   });
@@ -50,7 +143,23 @@ const createWindow = (): void => {
   });
 };
 
-app.whenReady().then(createWindow);
+app.whenReady().then(() => {
+  sessionStore.startAutoSave();
+  createWindow();
+  importShellHistoryOnFirstRun();
+});
+
+// Flush every session to disk before the terminals are torn down
+app.on('before-quit', (event) => {
+  if (isQuitting) return;
+
+  event.preventDefault();
+  isQuitting = true;
+  sessionStore.stopAutoSave();
+  sessionStore.saveAll()
+    .catch((error: Error) => console.warn('Failed to save sessions on quit:', error))
+    .finally(() => app.quit());
+});
 
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
@@ -67,16 +176,26 @@ app.on('activate', () => {
 // Enhanced terminal creation with full integration
 ipcMain.handle('terminal:create-integrated', async (event, options: any = {}) => {
   const terminalId = Date.now().toString();
+  const sessionName = await resolveSessionName(options, terminalId);
   
   // Create integrated terminal with AI and MCP
   const terminal = new IntegratedTerminal({
     ...options,
+    sessionName,
+    validator: await CommandValidator.load({ cwd: options.cwd }),
+    commandHistory,
+    auditLog,
+    environmentTrust,
+    fixMemory,
+    resourceSampler,
+    sessionId: terminalId,
     aiEnabled: true,
     mcpEnabled: true,
     autoSuggestions: true,
     errorAnalysis: true,
     performanceMonitoring: true,
   });
+  await restoreSession(terminal, sessionName);
 
   // Create AI integration
   const aiIntegration = new AITerminalIntegration({
@@ -116,12 +235,12 @@ ipcMain.handle('terminal:create-integrated', async (event, options: any = {}) =>
       mainWindow?.webContents.send('mcp:context-update', terminalId, context);
     });
 
-    // Command completion events
-    terminal.onCommandComplete?.((block: any) => {
-      mainWindow?.webContents.send('terminal:command-complete', terminalId, block);
-    });
+    // Command block lifecycle events
+    forwardCommandEvents(terminalId, terminal);
+    forwardEnvironmentEvents(terminalId, terminal);
     
     terminal.start();
+    sessionStore.track(terminal.getSession());
     
     // Store references
     integratedTerminals.set(terminalId, terminal);
@@ -140,13 +259,23 @@ ipcMain.handle('terminal:create-integrated', async (event, options: any = {}) =>
 // Legacy terminal creation (for compatibility)
 ipcMain.handle('terminal:create', async (event, options: ITerminalCreateOptions = {}) => {
   const terminalId = Date.now().toString();
+  const sessionName = await resolveSessionName(options, terminalId);
   const terminal = new PortalTerminal({
     ...options,
+    sessionName,
+    validator: await CommandValidator.load({ cwd: options.cwd }),
+    commandHistory,
+    auditLog,
+    environmentTrust,
+    fixMemory,
+    resourceSampler,
+    sessionId: terminalId,
     enableAllFeatures: true,
     aiProvider: 'gpt-oss-20b',
     mcpServers: ['context7', 'memory', 'filesystem'],
     theme: 'dark',
   });
+  await restoreSession(terminal, sessionName);
   
   // Set up terminal event listeners
   terminal.onData((data: string) => {
@@ -155,24 +284,29 @@ ipcMain.handle('terminal:create', async (event, options: ITerminalCreateOptions
   
   terminal.onExit((exitCode: number) => {
     mainWindow?.webContents.send('terminal:exit', terminalId, exitCode);
+    closeSession(terminal);
     terminals.delete(terminalId);
   });
+
+  forwardCommandEvents(terminalId, terminal);
+  forwardEnvironmentEvents(terminalId, terminal);
   
   terminal.start();
+  sessionStore.track(terminal.getSession());
   terminals.set(terminalId, terminal);
   
   return terminalId;
 });
 
 ipcMain.handle('terminal:write', async (event, terminalId: string, data: string) => {
-  const terminal = terminals.get(terminalId);
+  const terminal = terminals.get(terminalId) || integratedTerminals.get(terminalId);
   if (terminal) {
     await terminal.write(data);
   }
 });
 
 ipcMain.handle('terminal:resize', async (event, terminalId: string, cols: number, rows: number) => {
-  const terminal = terminals.get(terminalId);
+  const terminal = terminals.get(terminalId) || integratedTerminals.get(terminalId);
   if (terminal) {
     terminal.resize(cols, rows);
   }
@@ -181,16 +315,75 @@ ipcMain.handle('terminal:resize', async (event, terminalId: string, cols: number
 ipcMain.handle('terminal:kill', async (event, terminalId: string) => {
   const terminal = terminals.get(terminalId);
   if (terminal) {
+    closeSession(terminal);
     terminal.destroy();
     terminals.delete(terminalId);
   }
 });
 
+// Per-block process control; unlike terminal:kill these leave the terminal running
+ipcMain.handle('terminal:cancel-block', async (event, terminalId: string, blockId: string) => {
+  const terminal = terminals.get(terminalId) || integratedTerminals.get(terminalId);
+  return terminal?.cancelBlock(blockId) ?? false;
+});
+
+ipcMain.handle('terminal:signal-block', async (event, terminalId: string, blockId: string, signal: BlockSignal) => {
+  const terminal = terminals.get(terminalId) || integratedTerminals.get(terminalId);
+  return terminal?.signalBlock(blockId, signal) ?? false;
+});
+
+ipcMain.handle('terminal:write-stdin', async (event, terminalId: string, blockId: string, data: string) => {
+  const terminal = terminals.get(terminalId) || integratedTerminals.get(terminalId);
+  return terminal?.writeStdin(blockId, data) ?? false;
+});
+
+// Trust or deny the .portal/env of the project a terminal is in
+ipcMain.handle('terminal:respond-environment-trust', async (
+  event,
+  terminalId: string,
+  directory: string,
+  trusted: boolean
+) => {
+  const terminal = terminals.get(terminalId) || integratedTerminals.get(terminalId);
+  return terminal?.respondToEnvironmentTrust(directory, trusted) ?? false;
+});
+
+// Approve or decline a command held back by a confirm rule
+ipcMain.handle('terminal:respond-confirmation', async (
+  event,
+  terminalId: string,
+  blockId: string,
+  response: IConfirmationResponse
+) => {
+  const terminal = terminals.get(terminalId) || integratedTerminals.get(terminalId);
+  return terminal?.respondToConfirmation(blockId, response) ?? false;
+});
+
+// Dry run of a command; the block lists the files it would remove, move or change
+ipcMain.handle('terminal:preview-command', async (event, terminalId: string, command: string) => {
+  const terminal = terminals.get(terminalId) || integratedTerminals.get(terminalId);
+  if (!terminal) {
+    throw new Error(`Terminal ${terminalId} not found`);
+  }
+  return terminal.previewCommand(command).toJSON();
+});
+
+ipcMain.handle('terminal:get-block-output', async (event, terminalId: string, blockId: string, start: number, end: number) => {
+  const terminal = terminals.get(terminalId) || integratedTerminals.get(terminalId);
+  const lines: string[] = (await terminal?.getBlockOutputLines(blockId, start, end)) ?? [];
+  return lines.map(line => AnsiParser.strip(line));
+});
+
+ipcMain.handle('terminal:get-session', async (event, terminalId: string) => {
+  const terminal = terminals.get(terminalId) || integratedTerminals.get(terminalId);
+  return terminal?.getSession().toSnapshot() || null;
+});
+
 // Command execution with MCP enhancement
-ipcMain.handle('terminal:execute-command', async (event, terminalId: string, command: string) => {
+ipcMain.handle('terminal:execute-command', async (event, terminalId: string, command: string, source?: CommandSource) => {
   const terminal = terminals.get(terminalId);
   if (terminal) {
-    const block = await terminal.executeCommand(command);
+    const block = await terminal.executeCommand(command, { source });
     return block.toJSON();
   }
   throw new Error(`Terminal ${terminalId} not found`);
@@ -210,6 +403,7 @@ ipcMain.handle('ai:get-suggestions', async (event, terminalId: string, command:
         recentCommands: context.recentCommands,
         gitContext: context.gitContext,
         projectContext: context.projectContext,
+        environmentNotes: context.environmentNotes,
       });
       
       return { suggestions: suggestions.map(s => ({ text: s, confidence: 85, type: 'suggestion' })) };
@@ -222,6 +416,24 @@ ipcMain.handle('ai:get-suggestions', async (event, terminalId: string, command:
   return { suggestions: [] };
 });
 
+ipcMain.handle('ai:get-safer-alternative', async (event, terminalId: string, command: string, reason: string) => {
+  const aiIntegration = aiIntegrations.get(terminalId);
+  const terminal = integratedTerminals.get(terminalId);
+  if (!aiIntegration || !terminal) {
+    return null;
+  }
+
+  const context = terminal.getTerminalContext();
+  return aiIntegration.suggestSaferAlternative(command, reason, {
+    workingDirectory: context.workingDirectory,
+    shellType: context.shellType,
+    recentCommands: context.recentCommands,
+    gitContext: context.gitContext,
+    projectContext: context.projectContext,
+    environmentNotes: context.environmentNotes,
+  });
+});
+
 ipcMain.handle('ai:get-contextual-help', async (event, terminalId: string, query: string) => {
   const aiIntegration = aiIntegrations.get(terminalId);
   const terminal = integratedTerminals.get(terminalId);
@@ -235,6 +447,7 @@ ipcMain.handle('ai:get-contextual-help', async (event, terminalId: string, query
         recentCommands: context.recentCommands,
         gitContext: context.gitContext,
         projectContext: context.projectContext,
+        environmentNotes: context.environmentNotes,
       });
       
       return response.text;
@@ -254,11 +467,9 @@ ipcMain.handle('terminal:execute-enhanced', async (event, terminalId: string, co
   if (terminal) {
     try {
       const result = await terminal.executeEnhancedCommand(command, options);
-      
-      // Send command completion event
-      mainWindow?.webContents.send('terminal:command-complete', terminalId, result.block);
-      
-      return result;
+
+      // Completion is already sent through terminal:command-complete
+      return { ...result, block: result.block.toJSON() };
     } catch (error) {
       console.error('Enhanced command execution failed:', error);
       throw error;
@@ -268,6 +479,46 @@ ipcMain.handle('terminal:execute-enhanced', async (event, terminalId: string, co
   throw new Error('Integrated terminal not found');
 });
 
+// Command history
+ipcMain.handle('history:search', async (event, query: string, options: any = {}) => {
+  await commandHistory.load();
+  return commandHistory.search(query, options);
+});
+
+ipcMain.handle('history:get-recent', async (event, limit: number = 50) => {
+  await commandHistory.load();
+  return commandHistory.getRecent(limit);
+});
+
+ipcMain.handle('history:import', async (event, shells?: ImportedHistoryShell[]) => {
+  return importShellHistory(shells);
+});
+
+// Audit log
+ipcMain.handle('audit:query', async (event, query: IAuditQuery = {}) => {
+  await auditLog.load();
+  return auditLog.query(query);
+});
+
+ipcMain.handle('audit:verify', async () => {
+  return auditLog.verify();
+});
+
+// Saved sessions
+ipcMain.handle('session:list', async () => {
+  return sessionStore.list();
+});
+
+// Shells a new terminal can be started with
+ipcMain.handle('shell:list', async () => {
+  return ShellDetector.listShells();
+});
+
+// Problems panel: show a diagnostic's file at its line
+ipcMain.handle('editor:open', async (event, file: string, cwd: string | undefined, line?: number, column?: number) => {
+  return openInEditor(await resolveProblemFile(file, cwd), line, column);
+});
+
 // System status handlers
 ipcMain.handle('terminal:get-system-status', async (event, terminalId: string) => {
   const terminal = integratedTerminals.get(terminalId);
@@ -306,9 +557,178 @@ ipcMain.handle('mcp:get-health-report', async (event, terminalId: string) => {
   return mcpClient?.getHealthReport() || null;
 });
 
+// Stream command blocks to the renderer while they run. Blocks are event
+// emitters, so only their serialized form crosses IPC
+function forwardCommandEvents(terminalId: string, terminal: TerminalManager): void {
+  terminal.onCommandStart((block: CommandBlock) => {
+    mainWindow?.webContents.send('terminal:command-start', terminalId, block.toJSON());
+  });
+
+  terminal.onCommandOutput((block: CommandBlock, event: CommandOutputEvent) => {
+    mainWindow?.webContents.send(
+      'terminal:command-output',
+      terminalId,
+      block.id,
+      event,
+      block.outputInfo,
+      block.takeStyledUpdate()
+    );
+  });
+
+  terminal.onCommandComplete((block: CommandBlock) => {
+    mainWindow?.webContents.send('terminal:command-complete', terminalId, block.toJSON());
+  });
+
+  terminal.onConfirmationRequest((request: ConfirmationRequest) => {
+    mainWindow?.webContents.send('terminal:confirmation-request', terminalId, request);
+  });
+}
+
+// Ask the renderer before loading a project's .portal/env, and keep the
+// status bar in step with the environment that's active
+function forwardEnvironmentEvents(terminalId: string, terminal: IntegratedTerminal): void {
+  terminal.onEnvironmentTrustRequest((request: EnvironmentTrustRequest) => {
+    mainWindow?.webContents.send('terminal:environment-trust-request', terminalId, request);
+  });
+
+  terminal.onDirectoryEnvironmentChange((status: DirectoryEnvironmentStatus | null) => {
+    mainWindow?.webContents.send('terminal:directory-environment-change', terminalId, status);
+  });
+}
+
+// An explicit name wins; otherwise restoring picks up the next session that
+// was open at last quit, and anything else gets a fresh per-terminal name
+async function resolveSessionName(options: ITerminalCreateOptions, terminalId: string): Promise<string> {
+  if (options.sessionName) {
+    return options.sessionName;
+  }
+
+  if (options.restoreLastSession !== false) {
+    const names = await getLastSessionNames();
+    const next = names.find(name => !claimedSessionNames.has(name));
+    if (next) {
+      // Claimed up front so terminals created concurrently restore different sessions
+      claimedSessionNames.add(next);
+      return next;
+    }
+  }
+
+  return `session-${terminalId}`;
+}
+
+function getLastSessionNames(): Promise<string[]> {
+  if (!lastSessionNames) {
+    lastSessionNames = sessionStore.getLastSessions() as Promise<string[]>;
+  }
+  return lastSessionNames;
+}
+
+async function restoreSession(terminal: TerminalManager, sessionName: string): Promise<void> {
+  const saved = await sessionStore.load(sessionName);
+  if (saved) {
+    terminal.restoreSession(saved);
+  }
+}
+
+// Save a closing session one last time, unless the app is quitting and
+// saveAll() still needs it listed as open
+function closeSession(terminal: TerminalManager): void {
+  if (isQuitting) return;
+
+  const session = terminal.getSession();
+  sessionStore.untrack(session);
+  sessionStore.save(session).catch((error: Error) => console.warn('Failed to save session:', error));
+}
+
+async function importShellHistory(shells?: ImportedHistoryShell[]): Promise<number> {
+  const imported = await commandHistory.import(await ShellHistoryImporter.readAll({ shells }));
+  if (imported > 0) {
+    mainWindow?.webContents.send('history:imported', imported);
+  }
+  return imported;
+}
+
+// A new install starts from the user's bash, zsh and fish history instead of nothing
+async function importShellHistoryOnFirstRun(): Promise<void> {
+  try {
+    await commandHistory.load();
+    if (commandHistory.getEntries().length === 0) {
+      await importShellHistory();
+    }
+  } catch (error) {
+    console.warn('Failed to import shell history:', error);
+  }
+}
+
+// Source files a diagnostic can point at, safe to hand to their default app
+const DEFAULT_APP_EXTENSIONS = new Set([
+  '.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.json',
+  '.rs', '.go', '.toml', '.md', '.css', '.scss', '.html', '.vue', '.svelte',
+]);
+
+/**
+ * A diagnostic's file comes from command output, so it is only opened when
+ * it is an existing regular file under the command's directory. Links are
+ * resolved first so one can't point outside it.
+ */
+async function resolveProblemFile(file: string, cwd?: string): Promise<string> {
+  if (!cwd) {
+    throw new Error(`Not opening ${file}: the command's directory is unknown`);
+  }
+
+  const [realFile, realCwd] = await Promise.all([fs.realpath(path.resolve(cwd, file)), fs.realpath(cwd)]);
+  const relative = path.relative(realCwd, realFile);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`Not opening ${file}: it is outside ${cwd}`);
+  }
+  if (!(await fs.stat(realFile)).isFile()) {
+    throw new Error(`Not opening ${file}: it is not a regular file`);
+  }
+  return realFile;
+}
+
+async function openInEditor(file: string, line: number = 1, column: number = 1): Promise<void> {
+  const [program, ...args] = (process.env.VISUAL || process.env.EDITOR || '').trim().split(/\s+/);
+  const lineArgs = program ? EDITOR_LINE_ARGS[path.basename(program).replace(/\.(exe|cmd)$/i, '')] : undefined;
+
+  if (lineArgs) {
+    try {
+      // The editor outlives the request, so it isn't waited on
+      const editor = spawn(program, [...args.filter(arg => arg !== '--wait' && arg !== '-w'), ...lineArgs(file, line, column)], {
+        detached: true,
+        stdio: 'ignore',
+      });
+      await new Promise<void>((resolve, reject) => {
+        editor.once('spawn', resolve);
+        editor.once('error', reject);
+      });
+      editor.unref();
+      return;
+    } catch (error) {
+      console.warn(`Failed to start ${program}, opening ${file} in its default app:`, error);
+    }
+  }
+
+  // The default app of anything else could be the file itself, e.g. a
+  // .command, .desktop or executable script, so it is only shown
+  const { mode } = await fs.stat(file);
+  if (!DEFAULT_APP_EXTENSIONS.has(path.extname(file).toLowerCase()) || (mode & 0o111) !== 0) {
+    shell.showItemInFolder(file);
+    return;
+  }
+
+  const error = await shell.openPath(file);
+  if (error) {
+    throw new Error(error);
+  }
+}
+
 // Utility function for cleanup
 function cleanup(terminalId: string): void {
   const terminal = integratedTerminals.get(terminalId);
+  if (terminal) {
+    closeSession(terminal);
+  }
   const aiIntegration = aiIntegrations.get(terminalId);
   const mcpClient = mcpClients.get(terminalId);
   
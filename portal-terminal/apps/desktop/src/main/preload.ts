@@ -1,4 +1,4 @@
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
 import type { IElectronAPI } from '../shared/types';
 
 const electronAPI: IElectronAPI = {
@@ -8,25 +8,77 @@ const electronAPI: IElectronAPI = {
     write: (terminalId, data) => ipcRenderer.invoke('terminal:write', terminalId, data),
     resize: (terminalId, cols, rows) => ipcRenderer.invoke('terminal:resize', terminalId, cols, rows),
     kill: (terminalId) => ipcRenderer.invoke('terminal:kill', terminalId),
-    executeCommand: (terminalId, command) => ipcRenderer.invoke('terminal:execute-command', terminalId, command),
+    executeCommand: (terminalId, command, source) => ipcRenderer.invoke('terminal:execute-command', terminalId, command, source),
     executeEnhanced: (terminalId, command, options) => ipcRenderer.invoke('terminal:execute-enhanced', terminalId, command, options),
     getSystemStatus: (terminalId) => ipcRenderer.invoke('terminal:get-system-status', terminalId),
     getContext: (terminalId) => ipcRenderer.invoke('terminal:get-context', terminalId),
     getPerformanceMetrics: (terminalId) => ipcRenderer.invoke('terminal:get-performance-metrics', terminalId),
     healthCheck: (terminalId) => ipcRenderer.invoke('terminal:health-check', terminalId),
+    getSession: (terminalId) => ipcRenderer.invoke('terminal:get-session', terminalId),
+    cancelBlock: (terminalId, blockId) => ipcRenderer.invoke('terminal:cancel-block', terminalId, blockId),
+    signalBlock: (terminalId, blockId, signal) => ipcRenderer.invoke('terminal:signal-block', terminalId, blockId, signal),
+    writeStdin: (terminalId, blockId, data) => ipcRenderer.invoke('terminal:write-stdin', terminalId, blockId, data),
+    getBlockOutput: (terminalId, blockId, start, end) => ipcRenderer.invoke('terminal:get-block-output', terminalId, blockId, start, end),
+    respondToConfirmation: (terminalId, blockId, response) =>
+      ipcRenderer.invoke('terminal:respond-confirmation', terminalId, blockId, response),
+    previewCommand: (terminalId, command) => ipcRenderer.invoke('terminal:preview-command', terminalId, command),
+    respondToEnvironmentTrust: (terminalId, directory, trusted) =>
+      ipcRenderer.invoke('terminal:respond-environment-trust', terminalId, directory, trusted),
     onData: (callback) => {
       ipcRenderer.on('terminal:data', (_, terminalId, data) => callback(terminalId, data));
     },
     onExit: (callback) => {
       ipcRenderer.on('terminal:exit', (_, terminalId, exitCode) => callback(terminalId, exitCode));
     },
+    onCommandStart: (callback) => {
+      ipcRenderer.on('terminal:command-start', (_, terminalId, block) => callback(terminalId, block));
+    },
+    onCommandOutput: (callback) => {
+      ipcRenderer.on('terminal:command-output', (_, terminalId, blockId, event, info, styled) =>
+        callback(terminalId, blockId, event, info, styled)
+      );
+    },
     onCommandComplete: (callback) => {
       ipcRenderer.on('terminal:command-complete', (_, terminalId, block) => callback(terminalId, block));
     },
+    onConfirmationRequest: (callback) => {
+      ipcRenderer.on('terminal:confirmation-request', (_, terminalId, request) => callback(terminalId, request));
+    },
+    onEnvironmentTrustRequest: (callback) => {
+      ipcRenderer.on('terminal:environment-trust-request', (_, terminalId, request) => callback(terminalId, request));
+    },
+    onDirectoryEnvironmentChange: (callback) => {
+      ipcRenderer.on('terminal:directory-environment-change', (_, terminalId, status) => callback(terminalId, status));
+    },
+  },
+  history: {
+    search: (query, options) => ipcRenderer.invoke('history:search', query, options),
+    getRecent: (limit) => ipcRenderer.invoke('history:get-recent', limit),
+    import: (shells) => ipcRenderer.invoke('history:import', shells),
+    onImported: (callback) => {
+      const listener = (_: IpcRendererEvent, count: number) => callback(count);
+      ipcRenderer.on('history:imported', listener);
+      return () => ipcRenderer.removeListener('history:imported', listener);
+    },
+  },
+  audit: {
+    query: (query) => ipcRenderer.invoke('audit:query', query),
+    verify: () => ipcRenderer.invoke('audit:verify'),
+  },
+  session: {
+    list: () => ipcRenderer.invoke('session:list'),
+  },
+  shell: {
+    list: () => ipcRenderer.invoke('shell:list'),
+  },
+  editor: {
+    open: (file, cwd, line, column) => ipcRenderer.invoke('editor:open', file, cwd, line, column),
   },
   ai: {
     getSuggestions: (terminalId, command) => ipcRenderer.invoke('ai:get-suggestions', terminalId, command),
     getContextualHelp: (terminalId, query) => ipcRenderer.invoke('ai:get-contextual-help', terminalId, query),
+    getSaferAlternative: (terminalId, command, reason) =>
+      ipcRenderer.invoke('ai:get-safer-alternative', terminalId, command, reason),
     onSuggestion: (callback) => {
       ipcRenderer.on('ai:suggestion', (_, terminalId, suggestion) => callback(terminalId, suggestion));
     },
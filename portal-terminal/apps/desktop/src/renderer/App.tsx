@@ -9,8 +9,14 @@ const App: React.FC = () => {
   const [terminalId, setTerminalId] = useState<string | null>(null);
   const [showTerminal, setShowTerminal] = useState(false); // Start with welcome screen
   const [useEnhancedTerminal, setUseEnhancedTerminal] = useState(true); // Toggle between old and new terminal
+  const [shell, setShell] = useState<string | undefined>(); // Picked on the welcome screen; default shell otherwise
 
   const handleStartTerminal = () => {
+    // The enhanced view simulates commands without a shell, so a picked
+    // shell opens the terminal that runs it
+    if (shell) {
+      setUseEnhancedTerminal(false);
+    }
     setShowTerminal(true);
   };
 
@@ -21,6 +27,8 @@ const App: React.FC = () => {
         <AppLayout 
           showWelcomeScreen={!showTerminal}
           onStartTerminal={handleStartTerminal}
+          shell={shell}
+          onShellChange={setShell}
         >
           {showTerminal && (
             <div className="h-full">
@@ -28,7 +36,7 @@ const App: React.FC = () => {
                 <TerminalView className="h-full" />
               ) : (
                 <div className="h-full p-4">
-                  <WarpTerminal onTerminalCreated={setTerminalId} />
+                  <WarpTerminal shell={shell} onTerminalCreated={setTerminalId} />
                 </div>
               )}
               
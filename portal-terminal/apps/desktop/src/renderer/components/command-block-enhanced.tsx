@@ -12,11 +12,15 @@ import {
   SparklesIcon,
 } from '@heroicons/react/24/outline';
 import { BookmarkIcon as BookmarkSolidIcon } from '@heroicons/react/24/solid';
+import type { IStyledSpan } from '../../shared/types';
+import { StyledOutput } from './styled-output';
 
 export interface ICommandBlock {
   id: string;
   command: string;
   output: string;
+  // Output with escape sequences applied; `output` is shown when absent
+  styledLines?: IStyledSpan[][];
   exitCode: number;
   startTime: Date;
   endTime?: Date;
@@ -281,7 +285,7 @@ export const CommandBlockEnhanced: React.FC<CommandBlockEnhancedProps> = ({
             block.isExpanded ? 'max-h-none' : 'max-h-32 overflow-hidden'
           }`}
         >
-          {block.output}
+          {block.styledLines ? <StyledOutput lines={block.styledLines} /> : block.output}
           
           {/* Fade overlay when collapsed */}
           {!block.isExpanded && block.output.length > 200 && (
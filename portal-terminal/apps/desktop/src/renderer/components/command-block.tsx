@@ -1,15 +1,35 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { CommandBlock as CommandBlockModel } from '@portal/terminal-core';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import {
+  CommandBlock as CommandBlockModel,
+  CommandAttempt,
+  OutputChunk,
+  OutputInfo,
+  StyledLine,
+  StyledSpan,
+} from '@portal/terminal-core';
+import { VirtualizedOutput } from './virtualized-output';
+import { StyledOutput } from './styled-output';
 
 interface ICommandBlockProps {
   block: CommandBlockModel;
+  // Recovery actions the ErrorHandler ran for this block's failure
+  recoveryBlocks?: CommandBlockModel[];
   onRerun?: (command: string) => void;
   onAIHelp?: (command: string) => void;
+  onCancel?: (blockId: string) => void;
+  onSendInput?: (blockId: string, data: string) => void;
+  onLoadOutput?: (blockId: string, start: number, end: number) => Promise<string[]>;
   aiSuggestion?: string;
   mcpContext?: any;
   className?: string;
 }
 
+// Past this many lines output is rendered virtualized instead of as one <pre>
+const VIRTUALIZE_LINES = 1000;
+
+export const isVirtualizedOutput = (info?: OutputInfo): boolean =>
+  !!info && (info.spilledBytes > 0 || info.lineCount > VIRTUALIZE_LINES);
+
 interface IBlockActions {
   rerun: boolean;
   copy: boolean;
@@ -17,10 +37,20 @@ interface IBlockActions {
   aiHelp: boolean;
 }
 
+const describeRecovery = (child: CommandBlockModel) => {
+  if (child.status === 'pending') return 'waiting for approval to run';
+  if (child.status === 'running') return 'running';
+  return 'ran';
+};
+
 export const CommandBlockComponent: React.FC<ICommandBlockProps> = ({
   block,
+  recoveryBlocks = [],
   onRerun,
   onAIHelp,
+  onCancel,
+  onSendInput,
+  onLoadOutput,
   aiSuggestion,
   mcpContext,
   className = '',
@@ -28,6 +58,7 @@ export const CommandBlockComponent: React.FC<ICommandBlockProps> = ({
   const [isHovered, setIsHovered] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
   const [showActions, setShowActions] = useState(false);
+  const [stdinValue, setStdinValue] = useState('');
   const outputRef = useRef<HTMLDivElement>(null);
 
   const getStatusColor = () => {
@@ -72,7 +103,73 @@ export const CommandBlockComponent: React.FC<ICommandBlockProps> = ({
     navigator.clipboard.writeText(JSON.stringify(shareData, null, 2));
   };
 
+  const handleStdinKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      onSendInput?.(block.id, stdinValue + '\n');
+      setStdinValue('');
+    } else if (e.key === 'c' && e.ctrlKey) {
+      e.preventDefault();
+      onCancel?.(block.id);
+    }
+  };
+
   const isLongOutput = block.output.length > 1000 || block.output.split('\n').length > 20;
+  const isRunning = block.status === 'running';
+  const outputInfo: OutputInfo | undefined = block.outputInfo;
+  const isVirtualized = isVirtualizedOutput(outputInfo);
+  const truncationMarker = outputInfo && outputInfo.spilledBytes > 0
+    ? `output truncated, ${(outputInfo.spilledBytes / (1024 * 1024)).toFixed(1)} MB on disk`
+    : null;
+
+  // Keep the newest output in view while the command is still streaming
+  useEffect(() => {
+    if (isRunning && !isVirtualized && outputRef.current) {
+      outputRef.current.scrollTop = outputRef.current.scrollHeight;
+    }
+  }, [block.output, isRunning]);
+
+  const loadOutputLines = useCallback(
+    (start: number, end: number) => onLoadOutput!(block.id, start, end),
+    [onLoadOutput, block.id]
+  );
+
+  // Styled lines show colors and resolve progress-bar overwrites. Plain
+  // output with stderr in it keeps the stderr tint instead.
+  const hasStderr = block.chunks?.some((chunk: OutputChunk) => chunk.stream === 'stderr');
+  const styledLines: StyledLine[] | undefined = block.styledLines;
+  const useStyledLines = !!styledLines && (!hasStderr || styledLines.some((line: StyledLine) =>
+    line.some((span: StyledSpan) => span.style || span.href)
+  ));
+
+  const renderOutput = () => {
+    if (useStyledLines) {
+      return <StyledOutput lines={styledLines!} />;
+    }
+
+    if (!hasStderr) {
+      return block.output;
+    }
+
+    return block.chunks.map((chunk: OutputChunk, index: number) => (
+      <span key={index} className={`output-${chunk.stream}`}>
+        {chunk.data}
+      </span>
+    ));
+  };
+
+  const getCollapsedOutput = () => {
+    if (useStyledLines) {
+      return isRunning
+        ? <>{'...\n'}<StyledOutput lines={styledLines!.slice(-10)} /></>
+        : <><StyledOutput lines={styledLines!.slice(0, 10)} />{'\n...'}</>;
+    }
+
+    const lines = block.output.split('\n');
+    return isRunning
+      ? '...\n' + lines.slice(-10).join('\n')
+      : lines.slice(0, 10).join('\n') + '\n...';
+  };
 
   return (
     <div 
@@ -94,6 +191,21 @@ export const CommandBlockComponent: React.FC<ICommandBlockProps> = ({
           <span className="command-text">
             {block.command}
           </span>
+          {block.attempts && block.attempts.length > 1 && (
+            <span
+              className="command-attempts"
+              title={block.attempts
+                .map((attempt: CommandAttempt) => `#${attempt.attempt}: exit ${attempt.exitCode ?? '…'}${attempt.errorType ? ` (${attempt.errorType})` : ''}`)
+                .join('\n')}
+            >
+              🔁 {block.attempts.length} attempts
+            </span>
+          )}
+          {block.dryRun && (
+            <span className="command-dry-run" title="Nothing was run; the output lists what the command would change">
+              🔍 Dry run
+            </span>
+          )}
           {block.duration > 0 && (
             <span className="command-duration">
               {formatDuration(block.duration)}
@@ -101,6 +213,27 @@ export const CommandBlockComponent: React.FC<ICommandBlockProps> = ({
           )}
         </div>
         
+        {/* Always visible while running, unlike the hover actions */}
+        {isRunning && onCancel && (
+          <button
+            className="stop-btn"
+            onClick={() => onCancel(block.id)}
+            title="Stop (send SIGINT)"
+          >
+            ⏹
+          </button>
+        )}
+
+        {block.dryRun && !isRunning && onRerun && (
+          <button
+            className="run-for-real-btn"
+            onClick={() => onRerun(block.command)}
+            title="Run the command; any confirm rules still apply"
+          >
+            ▶ Run for real
+          </button>
+        )}
+
         <div className="command-actions">
           {isHovered && (
             <>
@@ -154,16 +287,33 @@ export const CommandBlockComponent: React.FC<ICommandBlockProps> = ({
       )}
 
       {/* Command Output */}
-      {block.output && (
+      {block.output && isVirtualized && outputInfo && (
+        <div className="command-output-container">
+          {truncationMarker && (
+            <div className="output-truncated" title="Scroll up to page earlier output back in from disk">
+              ✂️ {truncationMarker}
+            </div>
+          )}
+          <div className="command-output">
+            <VirtualizedOutput
+              output={block.output}
+              lineCount={outputInfo.lineCount}
+              windowStartLine={outputInfo.windowStartLine}
+              startsMidLine={outputInfo.spilledBytes > 0}
+              follow={isRunning}
+              onLoadLines={onLoadOutput ? loadOutputLines : undefined}
+            />
+          </div>
+        </div>
+      )}
+
+      {block.output && !isVirtualized && (
         <div className="command-output-container">
           <div 
             ref={outputRef}
             className={`command-output ${isLongOutput && !isExpanded ? 'collapsed' : ''}`}
           >
-            <pre>{isLongOutput && !isExpanded ? 
-              block.output.split('\n').slice(0, 10).join('\n') + '\n...' : 
-              block.output
-            }</pre>
+            <pre>{isLongOutput && !isExpanded ? getCollapsedOutput() : renderOutput()}</pre>
           </div>
           
           {isLongOutput && (
@@ -187,6 +337,29 @@ export const CommandBlockComponent: React.FC<ICommandBlockProps> = ({
         </div>
       )}
 
+      {recoveryBlocks.length > 0 && (
+        <div className="recovery-actions">
+          {recoveryBlocks.map((child: CommandBlockModel) => (
+            <div key={child.id} className="recovery-action" title={child.output}>
+              🔧 {describeRecovery(child)} <code>{child.command}</code>
+              {child.finding && `: ${child.finding}`}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Input for commands waiting on stdin */}
+      {isRunning && onSendInput && (
+        <input
+          className="block-stdin"
+          value={stdinValue}
+          onChange={(e) => setStdinValue(e.target.value)}
+          onKeyDown={handleStdinKeyDown}
+          placeholder="Send input to this command (Enter to send, Ctrl+C to stop)"
+          spellCheck={false}
+        />
+      )}
+
       {/* MCP Context (if available) */}
       {mcpContext && isHovered && (
         <div className="mcp-context">
@@ -268,6 +441,22 @@ export const CommandBlockComponent: React.FC<ICommandBlockProps> = ({
           border-radius: 3px;
         }
 
+        .command-attempts {
+          font-size: 11px;
+          color: #ffd93d;
+          background: rgba(255, 217, 61, 0.1);
+          padding: 2px 6px;
+          border-radius: 3px;
+        }
+
+        .command-dry-run {
+          font-size: 11px;
+          color: #7aa2f7;
+          background: rgba(122, 162, 247, 0.1);
+          padding: 2px 6px;
+          border-radius: 3px;
+        }
+
         .command-actions {
           display: flex;
           gap: 4px;
@@ -295,6 +484,66 @@ export const CommandBlockComponent: React.FC<ICommandBlockProps> = ({
           background: rgba(255, 255, 255, 0.1);
         }
 
+        .stop-btn {
+          background: rgba(255, 107, 107, 0.1);
+          border: 1px solid rgba(255, 107, 107, 0.3);
+          color: #ff6b6b;
+          cursor: pointer;
+          padding: 2px 8px;
+          border-radius: 3px;
+          font-size: 12px;
+          margin-right: 4px;
+          transition: all 0.2s ease;
+        }
+
+        .stop-btn:hover {
+          background: rgba(255, 107, 107, 0.2);
+        }
+
+        .run-for-real-btn {
+          background: rgba(0, 212, 170, 0.1);
+          border: 1px solid rgba(0, 212, 170, 0.3);
+          color: #00d4aa;
+          cursor: pointer;
+          padding: 2px 8px;
+          border-radius: 3px;
+          font-size: 12px;
+          margin-right: 4px;
+          transition: all 0.2s ease;
+        }
+
+        .run-for-real-btn:hover {
+          background: rgba(0, 212, 170, 0.2);
+        }
+
+        .recovery-actions {
+          margin-top: 8px;
+          font-size: 12px;
+          color: #a0a0a0;
+        }
+
+        .recovery-action code {
+          font-family: 'JetBrains Mono', monospace;
+          color: #e0e0e0;
+        }
+
+        .block-stdin {
+          width: 100%;
+          box-sizing: border-box;
+          background: rgba(0, 0, 0, 0.3);
+          border: 1px solid rgba(255, 255, 255, 0.1);
+          border-radius: 4px;
+          color: #e0e0e0;
+          font-family: 'JetBrains Mono', monospace;
+          font-size: 12px;
+          padding: 4px 8px;
+          outline: none;
+        }
+
+        .block-stdin:focus {
+          border-color: rgba(0, 212, 170, 0.4);
+        }
+
         .ai-suggestion {
           margin: 8px 0;
           padding: 8px 12px;
@@ -345,6 +594,19 @@ export const CommandBlockComponent: React.FC<ICommandBlockProps> = ({
           pointer-events: none;
         }
 
+        .output-truncated {
+          font-size: 11px;
+          color: #ffd93d;
+          background: rgba(255, 217, 61, 0.1);
+          padding: 2px 8px;
+          border-radius: 3px;
+          margin-top: 8px;
+        }
+
+        .command-output .output-stderr {
+          color: #ff8a8a;
+        }
+
         .command-output pre {
           font-family: 'JetBrains Mono', monospace;
           font-size: 12px;
@@ -4,6 +4,12 @@ import { useUIStore, selectCommandState, selectTerminalContext, selectAIState }
 import { AIModelSelector } from './ai-model-selector';
 import { AISuggestionsList } from './ai-suggestions-list';
 
+interface IReverseSearch {
+  query: string;
+  matches: string[];
+  index: number;
+}
+
 interface CommandInputProps {
   onExecuteCommand?: (command: string) => void;
   className?: string;
@@ -16,6 +22,7 @@ export const CommandInput: React.FC<CommandInputProps> = ({
   const inputRef = useRef<HTMLInputElement>(null);
   const [isFocused, setIsFocused] = useState(false);
   const [showSuggestions, setShowSuggestions] = useState(false);
+  const [reverseSearch, setReverseSearch] = useState<IReverseSearch | null>(null);
   
   const { currentCommand, hasHistory } = useUIStore(selectCommandState);
   const { displayDirectory, gitBranch, gitStatus } = useUIStore(selectTerminalContext);
@@ -25,6 +32,7 @@ export const CommandInput: React.FC<CommandInputProps> = ({
   const addToHistory = useUIStore((state) => state.addToHistory);
   const navigateHistory = useUIStore((state) => state.navigateHistory);
   const clearCurrentCommand = useUIStore((state) => state.clearCurrentCommand);
+  const setCommandHistory = useUIStore((state) => state.setCommandHistory);
 
   // Focus input on mount and when command changes
   useEffect(() => {
@@ -33,8 +41,55 @@ export const CommandInput: React.FC<CommandInputProps> = ({
     }
   }, []);
 
+  // Load persisted history so ↑↓ works across reloads, and again once shell history is imported
+  useEffect(() => {
+    const loadHistory = () => window.electronAPI?.history.getRecent(100)
+      .then(recent => setCommandHistory([...recent].reverse()))
+      .catch(error => console.warn('Failed to load command history:', error));
+
+    loadHistory();
+    return window.electronAPI?.history.onImported(loadHistory);
+  }, [setCommandHistory]);
+
+  const updateReverseSearch = async (query: string) => {
+    const matches = await window.electronAPI.history.search(query, { limit: 20 });
+    setReverseSearch({ query, matches: matches.map(match => match.command), index: 0 });
+  };
+
+  const closeReverseSearch = (accept: boolean) => {
+    if (accept && reverseSearch?.matches[reverseSearch.index]) {
+      setCurrentCommand(reverseSearch.matches[reverseSearch.index]);
+    }
+    setReverseSearch(null);
+  };
+
+  const handleReverseSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!reverseSearch) return;
+
+    if (e.key === 'r' && e.ctrlKey) {
+      // Ctrl+R again steps to the next older match
+      e.preventDefault();
+      setReverseSearch({
+        ...reverseSearch,
+        index: Math.min(reverseSearch.index + 1, Math.max(0, reverseSearch.matches.length - 1)),
+      });
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      closeReverseSearch(true);
+    } else if (e.key === 'Escape' || (e.key === 'g' && e.ctrlKey)) {
+      e.preventDefault();
+      closeReverseSearch(false);
+    }
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
+
+    if (reverseSearch) {
+      updateReverseSearch(value).catch(() => undefined);
+      return;
+    }
+
     setCurrentCommand(value);
     
     // Show suggestions when typing and AI suggestions are enabled
@@ -46,6 +101,18 @@ export const CommandInput: React.FC<CommandInputProps> = ({
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (reverseSearch) {
+      handleReverseSearchKeyDown(e);
+      return;
+    }
+
+    if (e.key === 'r' && e.ctrlKey) {
+      e.preventDefault();
+      setShowSuggestions(false);
+      updateReverseSearch('').catch(() => undefined);
+      return;
+    }
+
     switch (e.key) {
       case 'Enter':
         if (currentCommand.trim()) {
@@ -170,7 +237,7 @@ export const CommandInput: React.FC<CommandInputProps> = ({
           <input
             ref={inputRef}
             type="text"
-            value={currentCommand}
+            value={reverseSearch ? reverseSearch.query : currentCommand}
             onChange={handleInputChange}
             onKeyDown={handleKeyDown}
             onFocus={() => setIsFocused(true)}
@@ -200,6 +267,17 @@ export const CommandInput: React.FC<CommandInputProps> = ({
         </div>
       </div>
 
+      {/* Reverse History Search */}
+      {reverseSearch && (
+        <div className="absolute top-full left-0 right-0 mt-2 px-4 py-2 bg-portal-card 
+                        border border-portal-border rounded-lg text-xs font-mono z-40">
+          <span className="text-portal-text-secondary">(reverse-i-search)`{reverseSearch.query}': </span>
+          <span className="text-portal-text-primary">
+            {reverseSearch.matches[reverseSearch.index] ?? 'no match'}
+          </span>
+        </div>
+      )}
+
       {/* AI Suggestions */}
       {showSuggestions && aiSuggestionsEnabled && currentCommand.trim() && (
         <AISuggestionsList
@@ -211,7 +289,7 @@ export const CommandInput: React.FC<CommandInputProps> = ({
       )}
 
       {/* Keyboard Hints */}
-      {isFocused && !showSuggestions && (
+      {isFocused && !showSuggestions && !reverseSearch && (
         <div className="absolute top-full left-0 right-0 mt-2 px-4 py-2 bg-portal-card/80 
                         border border-portal-border rounded-lg text-xs text-portal-text-secondary 
                         backdrop-blur-sm">
@@ -219,6 +297,9 @@ export const CommandInput: React.FC<CommandInputProps> = ({
             <span>
               <kbd className="px-1.5 py-0.5 bg-portal-muted rounded text-xs">↑↓</kbd> History
             </span>
+            <span>
+              <kbd className="px-1.5 py-0.5 bg-portal-muted rounded text-xs">Ctrl+R</kbd> Search
+            </span>
             <span>
               <kbd className="px-1.5 py-0.5 bg-portal-muted rounded text-xs">Tab</kbd> Complete
             </span>
@@ -89,22 +89,20 @@ export const CommandPalette: React.FC<ICommandPaletteProps> = ({
   };
 
   const getRecentCommands = async (searchQuery: string): Promise<ICommand[]> => {
-    if (!terminalId) return [];
-
     try {
-      const context = await window.electronAPI.terminal.getContext(terminalId);
-      const recentCommands = context?.recentCommands || [];
-      
-      return recentCommands
-        .filter((cmd: string) => !searchQuery || cmd.toLowerCase().includes(searchQuery.toLowerCase()))
-        .slice(0, 5)
-        .map((cmd: string) => ({
-          text: cmd,
-          description: 'Recently used command',
-          category: 'recent' as const,
-          icon: '🕐',
-          confidence: 70,
-        }));
+      const matches = await window.electronAPI.history.search(searchQuery, { limit: 5 });
+
+      // Scale history scores into the palette's confidence range so they sort alongside AI and MCP results
+      const topScore = matches[0]?.score || 1;
+      return matches.map(match => ({
+        text: match.command,
+        description: `Used ${match.count} time${match.count === 1 ? '' : 's'} · ${
+          match.lastEntry.importedFrom ? `from ${match.lastEntry.importedFrom} history` : match.lastEntry.cwd
+        }`,
+        category: 'recent' as const,
+        icon: '🕐',
+        confidence: Math.round(60 + 30 * (match.score / topScore)),
+      }));
     } catch (error) {
       return [];
     }
@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import type { IConfirmationRequest, IConfirmationResponse } from '../../shared/types';
+
+interface IConfirmationModalProps {
+  request: IConfirmationRequest;
+  terminalId: string | null;
+  onRespond: (response: IConfirmationResponse) => void;
+  // Decline the request and put this command in the input instead
+  onUseAlternative: (command: string) => void;
+  // Decline the request and show a dry run of the command instead
+  onPreview: (command: string) => void;
+}
+
+const overlayStyle: React.CSSProperties = {
+  position: 'fixed',
+  inset: 0,
+  background: 'rgba(0, 0, 0, 0.6)',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  zIndex: 1000,
+};
+
+const dialogStyle: React.CSSProperties = {
+  width: 520,
+  maxWidth: '90vw',
+  background: '#1a1a1a',
+  border: '1px solid #f59e0b',
+  borderRadius: 8,
+  padding: 20,
+  color: '#e0e0e0',
+  fontSize: 14,
+};
+
+const commandStyle: React.CSSProperties = {
+  background: '#0d0d0d',
+  borderRadius: 4,
+  padding: '8px 12px',
+  margin: '12px 0',
+  fontFamily: '"JetBrains Mono", "Fira Code", monospace',
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-all',
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '6px 14px',
+  borderRadius: 4,
+  border: '1px solid #3a3a3a',
+  background: '#2a2a2a',
+  color: '#e0e0e0',
+  cursor: 'pointer',
+};
+
+/**
+ * Asks before running a command that matched a confirm rule. Shows the
+ * rules and why they matched, and looks for a safer alternative with the AI
+ * while the user decides.
+ */
+export const ConfirmationModal: React.FC<IConfirmationModalProps> = ({
+  request,
+  terminalId,
+  onRespond,
+  onUseAlternative,
+  onPreview,
+}) => {
+  const [remember, setRemember] = useState(false);
+  const [alternative, setAlternative] = useState<string | null>(null);
+  const [isLoadingAlternative, setIsLoadingAlternative] = useState(false);
+
+  useEffect(() => {
+    setRemember(false);
+    setAlternative(null);
+    if (!terminalId) return;
+
+    let cancelled = false;
+    setIsLoadingAlternative(true);
+    const reason = request.rules.map(rule => rule.message).join('; ');
+    window.electronAPI.ai.getSaferAlternative(terminalId, request.command, reason)
+      .then(result => !cancelled && setAlternative(result))
+      .catch(error => console.warn('Failed to get a safer alternative:', error))
+      .finally(() => !cancelled && setIsLoadingAlternative(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [request.blockId, terminalId]);
+
+  // Escape declines, as closing the dialog shouldn't run anything
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onRespond({ approved: false, remember });
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onRespond, remember]);
+
+  const ruleSuggestions = request.rules.filter(rule => rule.suggestion);
+
+  return (
+    <div style={overlayStyle} role="dialog" aria-modal="true" aria-labelledby="confirmation-title">
+      <div style={dialogStyle}>
+        <div id="confirmation-title" style={{ fontWeight: 600, color: '#f59e0b' }}>
+          ⚠️ Confirm before running
+        </div>
+
+        <div style={commandStyle}>{request.command}</div>
+
+        <ul style={{ margin: '0 0 12px', paddingLeft: 20 }}>
+          {request.rules.map(rule => (
+            <li key={rule.id}>
+              {rule.message} <span style={{ color: '#808080' }}>({rule.id})</span>
+            </li>
+          ))}
+          {request.warnings.map(warning => (
+            <li key={warning} style={{ color: '#a0a0a0' }}>{warning}</li>
+          ))}
+        </ul>
+
+        <div style={{ color: '#808080', marginBottom: 12 }}>in {request.cwd}</div>
+
+        {ruleSuggestions.map(rule => (
+          <div key={rule.id} style={{ marginBottom: 8 }}>
+            💡 Instead: <code>{rule.suggestion}</code>
+          </div>
+        ))}
+
+        {isLoadingAlternative && (
+          <div style={{ color: '#808080', marginBottom: 8 }}>🤖 Looking for a safer alternative…</div>
+        )}
+        {alternative && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 8 }}>
+            <span>🤖 Safer: <code>{alternative}</code></span>
+            <button style={buttonStyle} onClick={() => onUseAlternative(alternative)}>
+              Use instead
+            </button>
+          </div>
+        )}
+
+        <label style={{ display: 'flex', alignItems: 'center', gap: 6, margin: '16px 0' }}>
+          <input type="checkbox" checked={remember} onChange={(e) => setRemember(e.target.checked)} />
+          Remember my answer for this command until the terminal closes
+        </label>
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 8 }}>
+          {request.previewable && (
+            <button
+              style={{ ...buttonStyle, marginRight: 'auto' }}
+              onClick={() => onPreview(request.command)}
+              title="List the files this command would touch, without running it"
+            >
+              🔍 Dry run
+            </button>
+          )}
+          <button style={buttonStyle} onClick={() => onRespond({ approved: false, remember })} autoFocus>
+            Don't run
+          </button>
+          <button
+            style={{ ...buttonStyle, background: '#f59e0b', borderColor: '#f59e0b', color: '#1a1a1a' }}
+            onClick={() => onRespond({ approved: true, remember })}
+          >
+            Run
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
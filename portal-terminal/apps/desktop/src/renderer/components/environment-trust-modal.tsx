@@ -0,0 +1,122 @@
+import React, { useEffect } from 'react';
+import type { IEnvironmentTrustRequest } from '../../shared/types';
+
+interface IEnvironmentTrustModalProps {
+  request: IEnvironmentTrustRequest;
+  onRespond: (trusted: boolean) => void;
+}
+
+const overlayStyle: React.CSSProperties = {
+  position: 'fixed',
+  inset: 0,
+  background: 'rgba(0, 0, 0, 0.6)',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  zIndex: 1000,
+};
+
+const dialogStyle: React.CSSProperties = {
+  width: 520,
+  maxWidth: '90vw',
+  maxHeight: '80vh',
+  overflowY: 'auto',
+  background: '#1a1a1a',
+  border: '1px solid #00d4aa',
+  borderRadius: 8,
+  padding: 20,
+  color: '#e0e0e0',
+  fontSize: 14,
+};
+
+const listStyle: React.CSSProperties = {
+  background: '#0d0d0d',
+  borderRadius: 4,
+  padding: '8px 12px',
+  margin: '8px 0 12px',
+  fontFamily: '"JetBrains Mono", "Fira Code", monospace',
+  fontSize: 12,
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-all',
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '6px 14px',
+  borderRadius: 4,
+  border: '1px solid #3a3a3a',
+  background: '#2a2a2a',
+  color: '#e0e0e0',
+  cursor: 'pointer',
+};
+
+/**
+ * Asks before loading a project's .portal/env, listing everything it would
+ * change. Nothing from the file applies until it's trusted, and the question
+ * comes back whenever the file changes.
+ */
+export const EnvironmentTrustModal: React.FC<IEnvironmentTrustModalProps> = ({ request, onRespond }) => {
+  // Escape leaves the environment unloaded without deciding
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onRespond(false);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onRespond]);
+
+  const variables = Object.entries(request.variables);
+  const tools = [request.node && `node ${request.node}`, request.python && `python ${request.python}`].filter(Boolean);
+
+  return (
+    <div style={overlayStyle} role="dialog" aria-modal="true" aria-labelledby="environment-trust-title">
+      <div style={dialogStyle}>
+        <div id="environment-trust-title" style={{ fontWeight: 600, color: '#00d4aa' }}>
+          🔐 Load this project's environment?
+        </div>
+        <div style={{ color: '#808080', margin: '8px 0 12px' }}>
+          {request.file}
+          {request.changed && <span style={{ color: '#f59e0b' }}> — changed since you last reviewed it</span>}
+        </div>
+
+        {variables.length > 0 && (
+          <>
+            <div>Sets {variables.length} variable{variables.length === 1 ? '' : 's'}</div>
+            <div style={listStyle}>{variables.map(([key, value]) => `${key}=${value}`).join('\n')}</div>
+          </>
+        )}
+
+        {request.path.length > 0 && (
+          <>
+            <div>Adds to PATH</div>
+            <div style={listStyle}>{request.path.join('\n')}</div>
+          </>
+        )}
+
+        {tools.length > 0 && <div style={{ marginBottom: 12 }}>Uses {tools.join(' and ')}</div>}
+
+        {request.notes.length > 0 && (
+          <>
+            <div>Notes for the AI</div>
+            <ul style={{ margin: '8px 0 12px', paddingLeft: 20, color: '#a0a0a0' }}>
+              {request.notes.map(note => <li key={note}>{note}</li>)}
+            </ul>
+          </>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 8, marginTop: 16 }}>
+          <button style={buttonStyle} onClick={() => onRespond(false)} autoFocus>
+            Don't load
+          </button>
+          <button
+            style={{ ...buttonStyle, background: '#00d4aa', borderColor: '#00d4aa', color: '#1a1a1a' }}
+            onClick={() => onRespond(true)}
+          >
+            Trust and load
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
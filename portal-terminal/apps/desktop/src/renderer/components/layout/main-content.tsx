@@ -1,15 +1,20 @@
 import React from 'react';
 import { Download, Code2, Rocket, MoreHorizontal } from 'lucide-react';
 import { ActionCard } from '../ui/action-card';
+import { ShellPicker } from '../shell-picker';
 
 export interface IMainContentProps {
   className?: string;
   onStartTerminal?: () => void;
+  shell?: string;
+  onShellChange?: (shellPath: string | undefined) => void;
 }
 
 export const MainContent: React.FC<IMainContentProps> = ({ 
   className = '', 
-  onStartTerminal 
+  onStartTerminal,
+  shell,
+  onShellChange,
 }) => {
   const handleInstallClick = () => {
     onStartTerminal?.();
@@ -45,6 +50,9 @@ export const MainContent: React.FC<IMainContentProps> = ({
         <p className="text-portal-muted">
           Welcome to Portal Terminal. Choose an action below to get started with your AI-powered development workflow.
         </p>
+        {onShellChange && (
+          <ShellPicker className="mt-4" value={shell} onChange={onShellChange} />
+        )}
       </div>
 
       {/* Main Content Area */}
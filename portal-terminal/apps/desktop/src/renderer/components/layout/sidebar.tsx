@@ -9,6 +9,7 @@ import {
   Workflow,
   Trash2,
   Activity,
+  AlertTriangle,
   Circle,
   AlertCircle,
   XCircle
@@ -16,6 +17,7 @@ import {
 import { useUIStore, selectSidebarState, selectMCPState } from '../../stores/ui-store';
 import { Button } from '../ui/button';
 import { SidebarSection } from './sidebar-section';
+import { ProblemsPanel } from '../problems-panel';
 
 export interface ISidebarProps {
   className?: string;
@@ -30,6 +32,7 @@ export const Sidebar: React.FC<ISidebarProps> = ({ className = '' }) => {
   const [expandedSections, setExpandedSections] = useState({
     personal: true,
     mcpServers: true,
+    problems: true,
     rules: false,
     starterPrompts: false,
     starterWorkflows: false,
@@ -147,6 +150,17 @@ export const Sidebar: React.FC<ISidebarProps> = ({ className = '' }) => {
             </div>
           </SidebarSection>
 
+          {/* Problems */}
+          <SidebarSection
+            title="Problems"
+            icon={AlertTriangle}
+            isCollapsible={true}
+            isExpanded={expandedSections.problems}
+            onToggle={() => toggleSection('problems')}
+          >
+            <ProblemsPanel />
+          </SidebarSection>
+
           {/* Rules */}
           <SidebarSection
             title="Rules"
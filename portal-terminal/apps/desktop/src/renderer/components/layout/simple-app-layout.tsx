@@ -1,20 +1,38 @@
 import React from 'react';
+import { AlertTriangle } from 'lucide-react';
 import { MainContent } from './main-content';
+import { SidebarSection } from './sidebar-section';
+import { ProblemsPanel } from '../problems-panel';
+import { useUIStore } from '../../stores/ui-store';
 
 export interface ISimpleAppLayoutProps {
   children?: React.ReactNode;
   showWelcomeScreen?: boolean;
   onStartTerminal?: () => void;
+  // The shell picked on the welcome screen for the terminal it starts
+  shell?: string;
+  onShellChange?: (shellPath: string | undefined) => void;
 }
 
 export const SimpleAppLayout: React.FC<ISimpleAppLayoutProps> = ({ 
   children, 
   showWelcomeScreen = true,
-  onStartTerminal
+  onStartTerminal,
+  shell,
+  onShellChange,
 }) => {
+  const hasProblems = useUIStore((state) => state.problemGroups.length > 0);
+
   return (
     <div className="flex h-full bg-portal-secondary">
-      {/* Simplified - no sidebar for now */}
+      {/* Simplified - the sidebar only opens to list problems */}
+      {hasProblems && (
+        <div className="w-72 bg-portal-secondary border-r border-portal-border overflow-y-auto scrollbar-thin scrollbar-thumb-portal-border p-2">
+          <SidebarSection title="Problems" icon={AlertTriangle}>
+            <ProblemsPanel />
+          </SidebarSection>
+        </div>
+      )}
       
       {/* Main Content Area */}
       <div className="flex-1 flex flex-col overflow-hidden">
@@ -38,9 +56,9 @@ export const SimpleAppLayout: React.FC<ISimpleAppLayoutProps> = ({
         {/* Content Area */}
         <div className="flex-1 overflow-hidden">
           {showWelcomeScreen ? (
-            <MainContent onStartTerminal={onStartTerminal} />
+            <MainContent onStartTerminal={onStartTerminal} shell={shell} onShellChange={onShellChange} />
           ) : (
-            children || <MainContent onStartTerminal={onStartTerminal} />
+            children || <MainContent onStartTerminal={onStartTerminal} shell={shell} onShellChange={onShellChange} />
           )}
         </div>
       </div>
@@ -0,0 +1,82 @@
+import React from 'react';
+import { XCircle, AlertTriangle, Trash2 } from 'lucide-react';
+import { useUIStore, selectProblemsState } from '../stores/ui-store';
+import type { IDiagnostic } from '../../shared/types';
+
+export interface IProblemsPanelProps {
+  className?: string;
+}
+
+// Paths under the command's directory are shown relative to it
+function displayPath(file: string, cwd?: string): string {
+  return cwd && file.startsWith(`${cwd}/`) ? file.slice(cwd.length + 1) : file;
+}
+
+function openProblem(diagnostic: IDiagnostic, cwd?: string): void {
+  window.electronAPI.editor.open(diagnostic.file, cwd, diagnostic.line, diagnostic.column)
+    .catch(error => console.warn(`Failed to open ${diagnostic.file}:`, error));
+}
+
+/**
+ * Problems from the latest run of each command, grouped by command. Clicking
+ * one opens its file in the user's editor at the line.
+ */
+export const ProblemsPanel: React.FC<IProblemsPanelProps> = ({ className = '' }) => {
+  const { groups, errorCount, warningCount } = useUIStore(selectProblemsState);
+  const clearProblems = useUIStore((state) => state.clearProblems);
+
+  if (groups.length === 0) {
+    return (
+      <div className={`px-3 py-2 text-xs text-portal-muted ${className}`}>
+        No problems in the last runs
+      </div>
+    );
+  }
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="flex items-center justify-between px-3 text-xs text-portal-muted">
+        <span>
+          {errorCount} {errorCount === 1 ? 'error' : 'errors'}, {warningCount} {warningCount === 1 ? 'warning' : 'warnings'}
+        </span>
+        <button
+          className="hover:text-portal-text transition-colors"
+          onClick={clearProblems}
+          title="Clear problems"
+        >
+          <Trash2 className="w-3 h-3" />
+        </button>
+      </div>
+
+      {groups.map((group) => (
+        <div key={group.key}>
+          <div className="px-3 py-1 text-xs font-mono text-portal-muted truncate" title={group.cwd}>
+            $ {group.command}
+          </div>
+          {group.diagnostics.map((diagnostic, index) => (
+            <button
+              key={`${diagnostic.file}:${diagnostic.line}:${diagnostic.column}:${index}`}
+              className="w-full flex items-start px-3 py-1.5 rounded text-left text-sm text-portal-text hover:bg-portal-surface/50 transition-colors"
+              onClick={() => openProblem(diagnostic, group.cwd)}
+              title={`${diagnostic.file}:${diagnostic.line}${diagnostic.column ? `:${diagnostic.column}` : ''}`}
+            >
+              {diagnostic.severity === 'error' ? (
+                <XCircle className="w-3.5 h-3.5 mt-0.5 mr-2 flex-shrink-0 text-red-500" />
+              ) : (
+                <AlertTriangle className="w-3.5 h-3.5 mt-0.5 mr-2 flex-shrink-0 text-yellow-500" />
+              )}
+              <div className="min-w-0">
+                <div className="break-words">{diagnostic.message}</div>
+                <div className="text-xs text-portal-muted truncate">
+                  {displayPath(diagnostic.file, group.cwd)}:{diagnostic.line}
+                  {diagnostic.column ? `:${diagnostic.column}` : ''}
+                  {diagnostic.rule ? ` · ${diagnostic.rule}` : ''}
+                </div>
+              </div>
+            </button>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React, { useEffect, useState } from 'react';
+import type { IInstalledShell } from '../../shared/types';
+
+export interface IShellPickerProps {
+  // Path of the chosen shell; undefined starts the default shell
+  value?: string;
+  onChange: (shellPath: string | undefined) => void;
+  className?: string;
+}
+
+const describeShell = (shell: IInstalledShell) =>
+  `${shell.name}${shell.version ? ` ${shell.version}` : ''} — ${shell.path}`;
+
+export const ShellPicker: React.FC<IShellPickerProps> = ({ value, onChange, className = '' }) => {
+  const [shells, setShells] = useState<IInstalledShell[]>([]);
+
+  useEffect(() => {
+    window.electronAPI.shell.list()
+      .then(setShells)
+      .catch(error => console.warn('Failed to list shells:', error));
+  }, []);
+
+  // Nothing to choose between
+  if (shells.length < 2) {
+    return null;
+  }
+
+  const defaultShell = shells.find(shell => shell.isDefault);
+  const selected = shells.find(shell => shell.path === value) || defaultShell;
+
+  return (
+    <div className={`flex flex-col items-start space-y-1 ${className}`}>
+      <label className="flex items-center space-x-2 text-sm text-portal-muted">
+        <span>Shell</span>
+        <select
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value || undefined)}
+          className="px-2 py-1 bg-portal-card border border-portal-border rounded-md text-portal-text text-sm"
+        >
+          <option value="">Default{defaultShell ? ` (${describeShell(defaultShell)})` : ''}</option>
+          {shells.filter(shell => !shell.isDefault).map(shell => (
+            <option key={shell.path} value={shell.path}>
+              {describeShell(shell)}
+            </option>
+          ))}
+        </select>
+      </label>
+      {selected && !selected.capabilities.shellIntegration && (
+        <span className="text-xs text-portal-muted">
+          {selected.name} has no Portal shell integration, so commands typed into it are split into blocks less reliably
+        </span>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { MCPStatus } from './mcp-status';
+import type { IDirectoryEnvironmentStatus } from '../../shared/types';
 
 interface IStatusBarProps {
   terminalId: string | null;
+  // Pushed by the terminal when it changes; otherwise the polled status is used
+  environment?: IDirectoryEnvironmentStatus | null;
   className?: string;
 }
 
@@ -28,9 +31,10 @@ interface ISystemStatus {
       type: string;
     };
   };
+  environment?: IDirectoryEnvironmentStatus | null;
 }
 
-export const StatusBar: React.FC<IStatusBarProps> = ({ terminalId, className = '' }) => {
+export const StatusBar: React.FC<IStatusBarProps> = ({ terminalId, environment: pushedEnvironment, className = '' }) => {
   const [status, setStatus] = useState<ISystemStatus | null>(null);
   const [isVisible, setIsVisible] = useState(true);
 
@@ -83,6 +87,24 @@ export const StatusBar: React.FC<IStatusBarProps> = ({ terminalId, className = '
     return wd;
   };
 
+  const environment = pushedEnvironment === undefined ? status.environment : pushedEnvironment;
+
+  const getEnvironmentDisplay = (env: IDirectoryEnvironmentStatus) => {
+    const name = env.directory.split('/').pop() || env.directory;
+    if (env.state === 'awaiting-trust') return `${name} (untrusted)`;
+    if (env.state === 'denied') return `${name} (not loaded)`;
+
+    const versions = [env.node && `node ${env.node}`, env.python && `py ${env.python}`].filter(Boolean);
+    return versions.length > 0 ? `${name} · ${versions.join(' · ')}` : name;
+  };
+
+  const getEnvironmentTitle = (env: IDirectoryEnvironmentStatus) => [
+    `${env.directory}/.portal/env`,
+    env.variables.length > 0 && `Variables: ${env.variables.join(', ')}`,
+    env.path.length > 0 && `PATH: ${env.path.join(', ')}`,
+    ...env.problems.map(problem => `⚠️ ${problem}`),
+  ].filter(Boolean).join('\n');
+
   const getPerformanceColor = () => {
     if (status.performance.errorRate > 10) return '#ff6b6b';
     if (status.performance.averageResponseTime > 2000) return '#ffd93d';
@@ -127,6 +149,15 @@ export const StatusBar: React.FC<IStatusBarProps> = ({ terminalId, className = '
             </span>
           </div>
         )}
+
+        {/* Project Environment (.portal/env) */}
+        {environment && (
+          <div className={`status-item environment ${environment.state}`} title={getEnvironmentTitle(environment)}>
+            <span className="status-icon">{environment.state === 'active' ? '🔐' : '🔒'}</span>
+            <span className="status-text">{getEnvironmentDisplay(environment)}</span>
+            {environment.problems.length > 0 && <span className="environment-problems">⚠</span>}
+          </div>
+        )}
       </div>
 
       <div className="status-right">
@@ -247,6 +278,19 @@ export const StatusBar: React.FC<IStatusBarProps> = ({ terminalId, className = '
           margin-left: 2px;
         }
 
+        .environment.awaiting-trust {
+          color: #ffd93d;
+        }
+
+        .environment.denied {
+          opacity: 0.6;
+        }
+
+        .environment-problems {
+          color: #ffd93d;
+          margin-left: 2px;
+        }
+
         .error-rate {
           font-size: 10px;
           margin-left: 4px;
@@ -0,0 +1,60 @@
+import React from 'react';
+import type { IStyledSpan, ITextStyle } from '../../shared/types';
+
+interface IStyledOutputProps {
+  lines: IStyledSpan[][];
+}
+
+// The 16 basic colors, matching the xterm theme
+const PALETTE = [
+  '#1a1a1a', '#ff6b6b', '#00d4aa', '#ffd93d', '#74b9ff', '#fd79a8', '#00d4aa', '#e0e0e0',
+  '#636363', '#ff7675', '#00d4aa', '#fdcb6e', '#74b9ff', '#fd79a8', '#00d4aa', '#ffffff',
+];
+
+const resolveColor = (color: number | string | undefined): string | undefined =>
+  typeof color === 'number' ? PALETTE[color] : color;
+
+const toCss = (style: ITextStyle): React.CSSProperties => {
+  let color = resolveColor(style.fg);
+  let background = resolveColor(style.bg);
+  if (style.inverse) {
+    [color, background] = [background || '#1a1a1a', color || '#e0e0e0'];
+  }
+
+  const decorations = [style.underline && 'underline', style.strikethrough && 'line-through'].filter(Boolean);
+
+  return {
+    color,
+    background,
+    fontWeight: style.bold ? 'bold' : undefined,
+    opacity: style.dim ? 0.6 : undefined,
+    fontStyle: style.italic ? 'italic' : undefined,
+    textDecoration: decorations.length > 0 ? decorations.join(' ') : undefined,
+  };
+};
+
+/**
+ * Command output with its colors and attributes, parsed from escape
+ * sequences by terminal-core. OSC 8 hyperlinks open in the browser.
+ */
+export const StyledOutput: React.FC<IStyledOutputProps> = ({ lines }) => (
+  <>
+    {lines.map((line: IStyledSpan[], lineIndex: number) => (
+      <React.Fragment key={lineIndex}>
+        {line.map((span: IStyledSpan, spanIndex: number) => {
+          const style = span.style ? toCss(span.style) : undefined;
+          return span.href ? (
+            <a key={spanIndex} href={span.href} target="_blank" rel="noreferrer" style={style}>
+              {span.text}
+            </a>
+          ) : (
+            <span key={spanIndex} style={style}>
+              {span.text}
+            </span>
+          );
+        })}
+        {lineIndex < lines.length - 1 && '\n'}
+      </React.Fragment>
+    ))}
+  </>
+);
@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { Terminal } from '@xterm/xterm';
 import { FitAddon } from '@xterm/addon-fit';
 import { WebLinksAddon } from '@xterm/addon-web-links';
@@ -10,11 +10,6 @@ interface ITerminalComponentProps {
   onTerminalCreated?: (terminalId: string) => void;
 }
 
-interface ICommandBuffer {
-  content: string;
-  cursorPosition: number;
-}
-
 export const TerminalComponent: React.FC<ITerminalComponentProps> = ({ 
   className = '',
   onCommand,
@@ -23,8 +18,6 @@ export const TerminalComponent: React.FC<ITerminalComponentProps> = ({
   const terminalRef = useRef<HTMLDivElement>(null);
   const terminalInstanceRef = useRef<Terminal | null>(null);
   const fitAddonRef = useRef<FitAddon | null>(null);
-  const [terminalId, setTerminalId] = useState<string | null>(null);
-  const [commandBuffer, setCommandBuffer] = useState<ICommandBuffer>({ content: '', cursorPosition: 0 });
 
   useEffect(() => {
     if (!terminalRef.current) return;
@@ -75,6 +68,8 @@ export const TerminalComponent: React.FC<ITerminalComponentProps> = ({
     terminal.open(terminalRef.current);
     fitAddon.fit();
 
+    let terminalSessionId: string | null = null;
+
     // Create terminal session
     const createTerminalSession = async () => {
       try {
@@ -82,9 +77,12 @@ export const TerminalComponent: React.FC<ITerminalComponentProps> = ({
           cols: terminal.cols,
           rows: terminal.rows,
         });
-        setTerminalId(id);
+        terminalSessionId = id;
         onTerminalCreated?.(id);
 
+        // Show what a restored session ran before the new shell's output
+        await replayRestoredBlocks(terminal, id);
+
         // Set up data handler
         window.electronAPI.terminal.onData((receivedTerminalId, data) => {
           if (receivedTerminalId === id) {
@@ -106,49 +104,17 @@ export const TerminalComponent: React.FC<ITerminalComponentProps> = ({
 
     createTerminalSession();
 
-    // Handle user input
-    terminal.onData(async (data) => {
-      if (!terminalId) return;
-
-      // Handle special keys
-      if (data === '\r') { // Enter key
-        const command = commandBuffer.content.trim();
-        if (command) {
-          terminal.write('\r\n');
-          
-          try {
-            // Execute command through our pipeline
-            await window.electronAPI.terminal.executeCommand(terminalId, command);
-          } catch (error) {
-            terminal.write(`Error: ${error}\r\n$ `);
-          }
-          
-          // Reset command buffer
-          setCommandBuffer({ content: '', cursorPosition: 0 });
-        } else {
-          terminal.write('\r\n$ ');
-        }
-      } else if (data === '\u007F') { // Backspace
-        if (commandBuffer.content.length > 0) {
-          const newContent = commandBuffer.content.slice(0, -1);
-          setCommandBuffer({ content: newContent, cursorPosition: newContent.length });
-          terminal.write('\b \b'); // Erase character
-        }
-      } else if (data === '\u0003') { // Ctrl+C
-        terminal.write('^C\r\n$ ');
-        setCommandBuffer({ content: '', cursorPosition: 0 });
-      } else if (data >= ' ' && data <= '~') { // Printable characters
-        const newContent = commandBuffer.content + data;
-        setCommandBuffer({ content: newContent, cursorPosition: newContent.length });
-        terminal.write(data);
-      }
+    // Forward raw keystrokes to the PTY; the shell owns echo, line editing and Ctrl+C
+    terminal.onData((data) => {
+      if (!terminalSessionId) return;
+      window.electronAPI.terminal.write(terminalSessionId, data);
     });
 
     // Handle resize
     const handleResize = () => {
       fitAddon.fit();
-      if (terminalId) {
-        window.electronAPI.terminal.resize(terminalId, terminal.cols, terminal.rows);
+      if (terminalSessionId) {
+        window.electronAPI.terminal.resize(terminalSessionId, terminal.cols, terminal.rows);
       }
     };
 
@@ -157,8 +123,8 @@ export const TerminalComponent: React.FC<ITerminalComponentProps> = ({
     // Cleanup function
     return () => {
       window.removeEventListener('resize', handleResize);
-      if (terminalId) {
-        window.electronAPI.terminal.kill(terminalId);
+      if (terminalSessionId) {
+        window.electronAPI.terminal.kill(terminalSessionId);
       }
       terminal.dispose();
     };
@@ -184,4 +150,31 @@ export const TerminalComponent: React.FC<ITerminalComponentProps> = ({
       style={{ width: '100%', height: '100%' }}
     />
   );
-};
\ No newline at end of file
+};
+
+const DIM = '\x1b[2m';
+const RESET = '\x1b[0m';
+
+async function replayRestoredBlocks(terminal: Terminal, terminalId: string): Promise<void> {
+  try {
+    const snapshot = await window.electronAPI.terminal.getSession(terminalId);
+    if (!snapshot || snapshot.blocks.length === 0) return;
+
+    const lastActive = new Date(snapshot.updatedAt).toLocaleString();
+    terminal.write(`${DIM}── Restored session "${snapshot.name}" (last active ${lastActive}) ──${RESET}\r\n`);
+
+    for (const block of snapshot.blocks) {
+      terminal.write(`${DIM}$ ${block.command}${RESET}\r\n`);
+      if (block.output) {
+        terminal.write(block.output.replace(/\r?\n/g, '\r\n'));
+        if (!block.output.endsWith('\n')) {
+          terminal.write('\r\n');
+        }
+      }
+    }
+
+    terminal.write(`${DIM}── End of restored session ──${RESET}\r\n\r\n`);
+  } catch (error) {
+    console.warn('Failed to replay restored session:', error);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,114 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+
+interface IVirtualizedOutputProps {
+  // Output held by the renderer, starting at windowStartLine
+  output: string;
+  lineCount: number;
+  windowStartLine: number;
+  // The first line held may be the tail of a line that started on disk
+  startsMidLine?: boolean;
+  follow?: boolean;
+  onLoadLines?: (start: number, end: number) => Promise<string[]>;
+}
+
+const LINE_HEIGHT = 18;
+const VIEWPORT_HEIGHT = 400;
+const OVERSCAN = 20;
+const PAGE_SIZE = 500;
+
+// Escape sequences are dropped for the plain virtualized view; lines paged in
+// from the main process come stripped already. The renderer can't load
+// terminal-core's parser, which lives with node-only modules.
+const ESCAPE_SEQUENCE = /\x1b(?:\[[0-?]*[ -/]*[@-~]|\][^\x07\x1b]*(?:\x07|\x1b\\)|[^[\]])/g;
+
+const stripEscapes = (line: string): string =>
+  line.replace(ESCAPE_SEQUENCE, '').split('\r').filter(Boolean).pop() ?? '';
+
+const lineStyle: React.CSSProperties = {
+  height: LINE_HEIGHT,
+  lineHeight: `${LINE_HEIGHT}px`,
+  whiteSpace: 'pre',
+  overflow: 'hidden',
+  textOverflow: 'ellipsis',
+};
+
+/**
+ * Renders only the lines scrolled into view, so a block with millions of
+ * lines costs as much as one screenful. Lines before the in-memory window
+ * are fetched from the main process a page at a time.
+ */
+export const VirtualizedOutput: React.FC<IVirtualizedOutputProps> = ({
+  output,
+  lineCount,
+  windowStartLine,
+  startsMidLine = false,
+  follow = false,
+  onLoadLines,
+}) => {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [pages, setPages] = useState<Map<number, string[]>>(new Map());
+  const loadingPages = useRef(new Set<number>());
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const windowLines = useMemo(() => output.replace(/\n$/, '').split('\n').map(stripEscapes), [output]);
+
+  const firstLine = Math.max(0, Math.floor(scrollTop / LINE_HEIGHT) - OVERSCAN);
+  const lastLine = Math.min(lineCount, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / LINE_HEIGHT) + OVERSCAN);
+
+  const isInWindow = (line: number) =>
+    line > windowStartLine || (line === windowStartLine && !startsMidLine);
+
+  const getLine = (line: number): string | undefined => {
+    if (isInWindow(line)) {
+      return windowLines[line - windowStartLine] ?? '';
+    }
+    return pages.get(Math.floor(line / PAGE_SIZE))?.[line % PAGE_SIZE];
+  };
+
+  // Fetch the pages of visible lines that are only on disk
+  useEffect(() => {
+    if (!onLoadLines) return;
+
+    for (let page = Math.floor(firstLine / PAGE_SIZE); page * PAGE_SIZE < lastLine; page++) {
+      if (isInWindow(page * PAGE_SIZE) || pages.has(page) || loadingPages.current.has(page)) continue;
+
+      loadingPages.current.add(page);
+      onLoadLines(page * PAGE_SIZE, (page + 1) * PAGE_SIZE)
+        .then(lines => setPages(prev => new Map(prev).set(page, lines)))
+        .catch(error => console.warn('Failed to load command output:', error))
+        .finally(() => loadingPages.current.delete(page));
+    }
+  }, [firstLine, lastLine, windowStartLine, onLoadLines]);
+
+  // Keep the newest output in view while the command is still streaming
+  useEffect(() => {
+    if (follow && containerRef.current) {
+      containerRef.current.scrollTop = containerRef.current.scrollHeight;
+    }
+  }, [lineCount, follow]);
+
+  const rows = [];
+  for (let line = firstLine; line < lastLine; line++) {
+    const text = getLine(line);
+    rows.push(
+      <div key={line} className="output-line" style={text === undefined ? { ...lineStyle, color: '#636363' } : lineStyle}>
+        {text ?? '…'}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className="virtualized-output"
+      style={{ height: Math.min(lineCount * LINE_HEIGHT, VIEWPORT_HEIGHT), overflowY: 'auto', position: 'relative' }}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <div style={{ height: lineCount * LINE_HEIGHT, position: 'relative' }}>
+        <pre style={{ position: 'absolute', top: firstLine * LINE_HEIGHT, left: 0, right: 0, margin: 0 }}>
+          {rows}
+        </pre>
+      </div>
+    </div>
+  );
+};
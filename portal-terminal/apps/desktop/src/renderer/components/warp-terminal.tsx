@@ -2,15 +2,27 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Terminal } from '@xterm/xterm';
 import { FitAddon } from '@xterm/addon-fit';
 import { WebLinksAddon } from '@xterm/addon-web-links';
-import { CommandBlockComponent } from './command-block';
+import { CommandBlockComponent, isVirtualizedOutput } from './command-block';
 import { AISuggestions } from './ai-suggestions';
 import { CommandPalette } from './command-palette';
 import { StatusBar } from './status-bar';
-import { CommandBlock } from '@portal/terminal-core';
+import { ConfirmationModal } from './confirmation-modal';
+import { EnvironmentTrustModal } from './environment-trust-modal';
+import { useUIStore } from '../stores/ui-store';
+import { CommandBlock, OutputChunk, OutputInfo, StyledOutputUpdate } from '@portal/terminal-core';
+import type {
+  CommandSource,
+  IConfirmationRequest,
+  IConfirmationResponse,
+  IDirectoryEnvironmentStatus,
+  IEnvironmentTrustRequest,
+} from '../../shared/types';
 import '@xterm/xterm/css/xterm.css';
 
 interface IWarpTerminalProps {
   className?: string;
+  // Path of the shell to start; the user's default shell otherwise
+  shell?: string;
   onTerminalCreated?: (terminalId: string) => void;
 }
 
@@ -20,8 +32,36 @@ interface ICommandInput {
   showSuggestions: boolean;
 }
 
+// Mirror the main process window: chunks it spilled to disk are dropped here
+// too and paged back in by the block only when scrolled into view. Styled
+// lines are patched from the first line that changed.
+function appendBlockOutput(
+  block: CommandBlock,
+  chunk: OutputChunk,
+  info?: OutputInfo,
+  styled?: StyledOutputUpdate | null
+): CommandBlock {
+  let chunks: OutputChunk[] = [...(block.chunks || []), chunk];
+  let output = block.output + chunk.data;
+
+  if (info && info.spilledBytes > (block.outputInfo?.spilledBytes ?? 0)) {
+    chunks = chunks.filter(existing => existing.offset >= info.spilledBytes);
+    output = chunks.map(existing => existing.data).join('');
+  }
+
+  // Virtualized output is shown plain, so styled lines stop being kept
+  const styledLines = isVirtualizedOutput(info)
+    ? undefined
+    : styled
+      ? [...(block.styledLines || []).slice(0, styled.start), ...styled.lines]
+      : block.styledLines;
+
+  return { ...block, output, chunks, styledLines, outputInfo: info ?? block.outputInfo } as CommandBlock;
+}
+
 export const WarpTerminal: React.FC<IWarpTerminalProps> = ({
   className = '',
+  shell,
   onTerminalCreated,
 }) => {
   const [terminalId, setTerminalId] = useState<string | null>(null);
@@ -35,12 +75,20 @@ export const WarpTerminal: React.FC<IWarpTerminalProps> = ({
   const [currentAISuggestion, setCurrentAISuggestion] = useState<string>('');
   const [currentMCPContext, setCurrentMCPContext] = useState<any>(null);
   const [isCommandRunning, setIsCommandRunning] = useState(false);
+  // Commands held back by confirm rules, answered one at a time
+  const [confirmations, setConfirmations] = useState<IConfirmationRequest[]>([]);
+  const [environmentTrust, setEnvironmentTrust] = useState<IEnvironmentTrustRequest | null>(null);
+  // undefined until the terminal reports one, so the status bar falls back to polling
+  const [directoryEnvironment, setDirectoryEnvironment] = useState<IDirectoryEnvironmentStatus | null>();
+  const setBlockProblems = useUIStore((state) => state.setBlockProblems);
 
   const terminalRef = useRef<HTMLDivElement>(null);
   const terminalInstanceRef = useRef<Terminal | null>(null);
   const fitAddonRef = useRef<FitAddon | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const blocksContainerRef = useRef<HTMLDivElement>(null);
+  // The AI suggestion last put in the input; run unchanged, it's audited as AI-suggested
+  const aiCommandRef = useRef<string | null>(null);
 
   useEffect(() => {
     initializeTerminal();
@@ -92,6 +140,7 @@ export const WarpTerminal: React.FC<IWarpTerminalProps> = ({
 
       // Create integrated terminal session
       const id = await window.electronAPI.terminal.createIntegrated({
+        shell,
         cols: terminal.cols,
         rows: terminal.rows,
         aiEnabled: true,
@@ -121,11 +170,30 @@ export const WarpTerminal: React.FC<IWarpTerminalProps> = ({
       }
     });
 
+    // Show blocks as soon as they start and append output while they run
+    window.electronAPI.terminal.onCommandStart((receivedId, block) => {
+      if (receivedId === id) {
+        setCommandBlocks(prev => [...prev, block]);
+      }
+    });
+
+    window.electronAPI.terminal.onCommandOutput((receivedId, blockId, event, info, styled) => {
+      if (receivedId === id) {
+        setCommandBlocks(prev => prev.map(block =>
+          block.id === blockId ? appendBlockOutput(block, event, info, styled) : block
+        ));
+      }
+    });
+
     // Handle command completion
     window.electronAPI.terminal.onCommandComplete((receivedId, block) => {
       if (receivedId === id) {
-        setCommandBlocks(prev => [...prev, block]);
+        setCommandBlocks(prev => prev.some(existing => existing.id === block.id)
+          ? prev.map(existing => existing.id === block.id ? block : existing)
+          : [...prev, block]
+        );
         setIsCommandRunning(false);
+        setBlockProblems(block);
         
         // Clear current suggestions after command completes
         setCurrentAISuggestion('');
@@ -133,6 +201,25 @@ export const WarpTerminal: React.FC<IWarpTerminalProps> = ({
       }
     });
 
+    window.electronAPI.terminal.onConfirmationRequest((receivedId, request) => {
+      if (receivedId === id) {
+        setConfirmations(prev => [...prev, request]);
+      }
+    });
+
+    // Only the latest directory matters; an older request is dropped by the terminal too
+    window.electronAPI.terminal.onEnvironmentTrustRequest((receivedId, request) => {
+      if (receivedId === id) {
+        setEnvironmentTrust(request);
+      }
+    });
+
+    window.electronAPI.terminal.onDirectoryEnvironmentChange((receivedId, status) => {
+      if (receivedId === id) {
+        setDirectoryEnvironment(status);
+      }
+    });
+
     // Handle AI suggestions
     window.electronAPI.ai.onSuggestion((receivedId, suggestion) => {
       if (receivedId === id) {
@@ -158,9 +245,10 @@ export const WarpTerminal: React.FC<IWarpTerminalProps> = ({
     window.addEventListener('resize', handleResize);
   };
 
-  const executeCommand = async (command: string) => {
+  const executeCommand = async (command: string, source: CommandSource = 'typed') => {
     if (!terminalId || !command.trim()) return;
 
+    aiCommandRef.current = null;
     setIsCommandRunning(true);
     setCommandInput({ value: '', cursorPosition: 0, showSuggestions: false });
 
@@ -170,6 +258,7 @@ export const WarpTerminal: React.FC<IWarpTerminalProps> = ({
         aiSuggestions: true,
         mcpContext: true,
         errorAnalysis: true,
+        source,
       });
 
       // Update UI with results
@@ -200,7 +289,8 @@ export const WarpTerminal: React.FC<IWarpTerminalProps> = ({
     switch (e.key) {
       case 'Enter':
         if (!e.shiftKey && commandInput.value.trim()) {
-          executeCommand(commandInput.value.trim());
+          const command = commandInput.value.trim();
+          executeCommand(command, command === aiCommandRef.current ? 'ai-suggestion' : 'typed');
         }
         break;
       case 'Tab':
@@ -243,7 +333,76 @@ export const WarpTerminal: React.FC<IWarpTerminalProps> = ({
     }
   };
 
+  // Stop just this block; the terminal and other commands keep running
+  const handleCancelBlock = async (blockId: string) => {
+    if (!terminalId) return;
+
+    try {
+      await window.electronAPI.terminal.cancelBlock(terminalId, blockId);
+    } catch (error) {
+      console.warn('Failed to cancel command:', error);
+    }
+  };
+
+  const handleConfirmation = useCallback(async (response: IConfirmationResponse) => {
+    const [request] = confirmations;
+    if (!terminalId || !request) return;
+
+    setConfirmations(prev => prev.filter(pending => pending.blockId !== request.blockId));
+    try {
+      await window.electronAPI.terminal.respondToConfirmation(terminalId, request.blockId, response);
+    } catch (error) {
+      console.warn('Failed to answer confirmation:', error);
+    }
+  }, [terminalId, confirmations]);
+
+  const handleEnvironmentTrust = useCallback(async (trusted: boolean) => {
+    if (!terminalId || !environmentTrust) return;
+
+    setEnvironmentTrust(null);
+    try {
+      await window.electronAPI.terminal.respondToEnvironmentTrust(terminalId, environmentTrust.directory, trusted);
+    } catch (error) {
+      console.warn('Failed to answer environment trust request:', error);
+    }
+  }, [terminalId, environmentTrust]);
+
+  const handleUseAlternative = async (command: string) => {
+    await handleConfirmation({ approved: false });
+    aiCommandRef.current = command;
+    setCommandInput({ value: command, cursorPosition: command.length, showSuggestions: false });
+    inputRef.current?.focus();
+  };
+
+  // The dry run shows up as a block, which can then be run for real
+  const handlePreview = async (command: string) => {
+    await handleConfirmation({ approved: false });
+    if (!terminalId) return;
+
+    try {
+      await window.electronAPI.terminal.previewCommand(terminalId, command);
+    } catch (error) {
+      console.warn('Failed to preview command:', error);
+    }
+  };
+
+  const handleLoadOutput = async (blockId: string, start: number, end: number): Promise<string[]> => {
+    if (!terminalId) return [];
+    return window.electronAPI.terminal.getBlockOutput(terminalId, blockId, start, end);
+  };
+
+  const handleSendInput = async (blockId: string, data: string) => {
+    if (!terminalId) return;
+
+    try {
+      await window.electronAPI.terminal.writeStdin(terminalId, blockId, data);
+    } catch (error) {
+      console.warn('Failed to send input to command:', error);
+    }
+  };
+
   const handleAcceptSuggestion = (suggestion: string) => {
+    aiCommandRef.current = suggestion;
     setCommandInput(prev => ({
       ...prev,
       value: suggestion,
@@ -260,18 +419,26 @@ export const WarpTerminal: React.FC<IWarpTerminalProps> = ({
     terminalInstanceRef.current?.dispose();
   };
 
+  // Recovery actions show on the block they ran for rather than as blocks of their own
+  const blockIds = new Set(commandBlocks.map(block => block.id));
+  const topLevelBlocks = commandBlocks.filter(block => !block.parentId || !blockIds.has(block.parentId));
+
   return (
     <div className={`warp-terminal ${className}`}>
       {/* Command Blocks History */}
       <div className="blocks-container" ref={blocksContainerRef}>
-        {commandBlocks.map((block, index) => (
+        {topLevelBlocks.map((block, index) => (
           <CommandBlockComponent
             key={`${block.id}-${index}`}
             block={block}
+            recoveryBlocks={commandBlocks.filter(child => child.parentId === block.id)}
             onRerun={handleRerunCommand}
             onAIHelp={handleAIHelp}
-            aiSuggestion={index === commandBlocks.length - 1 ? currentAISuggestion : undefined}
-            mcpContext={index === commandBlocks.length - 1 ? currentMCPContext : undefined}
+            onCancel={handleCancelBlock}
+            onSendInput={handleSendInput}
+            onLoadOutput={handleLoadOutput}
+            aiSuggestion={index === topLevelBlocks.length - 1 ? currentAISuggestion : undefined}
+            mcpContext={index === topLevelBlocks.length - 1 ? currentMCPContext : undefined}
           />
         ))}
         
@@ -284,6 +451,20 @@ export const WarpTerminal: React.FC<IWarpTerminalProps> = ({
         )}
       </div>
 
+      {confirmations.length > 0 && (
+        <ConfirmationModal
+          request={confirmations[0]}
+          terminalId={terminalId}
+          onRespond={handleConfirmation}
+          onUseAlternative={handleUseAlternative}
+          onPreview={handlePreview}
+        />
+      )}
+
+      {confirmations.length === 0 && environmentTrust && (
+        <EnvironmentTrustModal request={environmentTrust} onRespond={handleEnvironmentTrust} />
+      )}
+
       {/* Command Input */}
       <div className="command-input-container">
         <div className="input-wrapper">
@@ -355,14 +536,14 @@ export const WarpTerminal: React.FC<IWarpTerminalProps> = ({
         isOpen={showPalette}
         onClose={() => setShowPalette(false)}
         onCommand={(cmd) => {
-          executeCommand(cmd);
+          executeCommand(cmd, 'palette');
           setShowPalette(false);
         }}
         terminalId={terminalId}
       />
 
       {/* Status Bar */}
-      <StatusBar terminalId={terminalId} />
+      <StatusBar terminalId={terminalId} environment={directoryEnvironment} />
 
       <style jsx>{`
         .warp-terminal {
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
+import type { IDiagnostic } from '../../shared/types';
 
 export interface IUIState {
   // Sidebar state
@@ -29,6 +30,9 @@ export interface IUIState {
   gitBranch: string | null;
   gitStatus: string | null;
   
+  // Problems from the latest run of each command, most recent first
+  problemGroups: IProblemGroup[];
+  
   // UI preferences
   theme: 'dark' | 'light';
   
@@ -48,6 +52,7 @@ export interface IUIState {
   // Command Actions
   setCurrentCommand: (command: string) => void;
   addToHistory: (command: string) => void;
+  setCommandHistory: (commands: string[]) => void;
   navigateHistory: (direction: 'up' | 'down') => void;
   clearCurrentCommand: () => void;
   setNaturalLanguageEnabled: (enabled: boolean) => void;
@@ -55,6 +60,26 @@ export interface IUIState {
   
   // Terminal Actions
   updateTerminalContext: (context: Partial<ITerminalContext>) => void;
+  
+  // Problems Actions
+  setBlockProblems: (block: IFinishedBlock) => void;
+  clearProblems: () => void;
+}
+
+export interface IProblemGroup {
+  // A command re-run in the same directory replaces its group
+  key: string;
+  command: string;
+  cwd?: string;
+  blockId: string;
+  diagnostics: IDiagnostic[];
+}
+
+export interface IFinishedBlock {
+  id: string;
+  command: string;
+  cwd?: string;
+  diagnostics?: IDiagnostic[];
 }
 
 export interface IMCPServer {
@@ -253,6 +278,8 @@ export const useUIStore = create<IUIState>()(
     gitBranch: 'main',
     gitStatus: 'clean',
     
+    problemGroups: [],
+    
     mcpServers: [
       {
         id: 'context7',
@@ -360,6 +387,12 @@ export const useUIStore = create<IUIState>()(
       }));
     },
     
+    // Replace history with persisted commands, oldest first
+    setCommandHistory: (commands: string[]) => set({
+      commandHistory: commands.slice(-100),
+      historyIndex: -1,
+    }),
+    
     navigateHistory: (direction: 'up' | 'down') => {
       const state = get();
       const { commandHistory, historyIndex } = state;
@@ -398,6 +431,26 @@ export const useUIStore = create<IUIState>()(
       gitBranch: context.gitBranch ?? state.gitBranch,
       gitStatus: context.gitStatus ?? state.gitStatus,
     })),
+    
+    // Problems Actions
+    setBlockProblems: (block: IFinishedBlock) => set((state) => {
+      const key = `${block.cwd ?? ''}\0${block.command}`;
+      const others = state.problemGroups.filter(group => group.key !== key);
+      
+      // A clean run clears what the previous one reported
+      if (!block.diagnostics?.length) {
+        return others.length === state.problemGroups.length ? state : { problemGroups: others };
+      }
+      
+      return {
+        problemGroups: [
+          { key, command: block.command, cwd: block.cwd, blockId: block.id, diagnostics: block.diagnostics },
+          ...others,
+        ],
+      };
+    }),
+    
+    clearProblems: () => set({ problemGroups: [] }),
   }))
 );
 
@@ -441,4 +494,13 @@ export const selectTerminalContext = (state: IUIState) => {
     gitStatus: state.gitStatus,
     displayDirectory: state.workingDirectory.replace(homeDir, '~'),
   };
-};
\ No newline at end of file
+};
+
+export const selectProblemsState = (state: IUIState) => {
+  const diagnostics = state.problemGroups.flatMap(group => group.diagnostics);
+  return {
+    groups: state.problemGroups,
+    errorCount: diagnostics.filter(diagnostic => diagnostic.severity === 'error').length,
+    warningCount: diagnostics.filter(diagnostic => diagnostic.severity === 'warning').length,
+  };
+};
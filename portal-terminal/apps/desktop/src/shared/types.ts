@@ -5,19 +5,66 @@ export interface IElectronAPI {
     write: (terminalId: string, data: string) => Promise<void>;
     resize: (terminalId: string, cols: number, rows: number) => Promise<void>;
     kill: (terminalId: string) => Promise<void>;
-    executeCommand: (terminalId: string, command: string) => Promise<any>;
+    executeCommand: (terminalId: string, command: string, source?: CommandSource) => Promise<any>;
     executeEnhanced: (terminalId: string, command: string, options?: any) => Promise<any>;
     getSystemStatus: (terminalId: string) => Promise<any>;
     getContext: (terminalId: string) => Promise<any>;
     getPerformanceMetrics: (terminalId: string) => Promise<any>;
     healthCheck: (terminalId: string) => Promise<any>;
+    getSession: (terminalId: string) => Promise<ISessionSnapshot | null>;
+    cancelBlock: (terminalId: string, blockId: string) => Promise<boolean>;
+    signalBlock: (terminalId: string, blockId: string, signal: BlockSignal) => Promise<boolean>;
+    writeStdin: (terminalId: string, blockId: string, data: string) => Promise<boolean>;
+    getBlockOutput: (terminalId: string, blockId: string, start: number, end: number) => Promise<string[]>;
+    respondToConfirmation: (terminalId: string, blockId: string, response: IConfirmationResponse) => Promise<boolean>;
+    previewCommand: (terminalId: string, command: string) => Promise<any>;
+    respondToEnvironmentTrust: (terminalId: string, directory: string, trusted: boolean) => Promise<boolean>;
     onData: (callback: (terminalId: string, data: string) => void) => void;
     onExit: (callback: (terminalId: string, exitCode: number) => void) => void;
+    onCommandStart: (callback: (terminalId: string, block: any) => void) => void;
+    onCommandOutput: (
+      callback: (
+        terminalId: string,
+        blockId: string,
+        event: ICommandOutputEvent,
+        info: IOutputInfo,
+        styled: IStyledOutputUpdate | null
+      ) => void
+    ) => void;
     onCommandComplete: (callback: (terminalId: string, block: any) => void) => void;
+    onConfirmationRequest: (callback: (terminalId: string, request: IConfirmationRequest) => void) => void;
+    onEnvironmentTrustRequest: (callback: (terminalId: string, request: IEnvironmentTrustRequest) => void) => void;
+    onDirectoryEnvironmentChange: (
+      callback: (terminalId: string, status: IDirectoryEnvironmentStatus | null) => void
+    ) => void;
+  };
+  history: {
+    search: (query: string, options?: IHistorySearchOptions) => Promise<IHistoryMatch[]>;
+    getRecent: (limit?: number) => Promise<string[]>;
+    // Number of commands that were new; all shells unless some are named
+    import: (shells?: ImportedHistoryShell[]) => Promise<number>;
+    // Returns the function that stops listening
+    onImported: (callback: (count: number) => void) => () => void;
+  };
+  audit: {
+    query: (query?: IAuditQuery) => Promise<IAuditEntry[]>;
+    verify: () => Promise<IAuditVerification>;
+  };
+  session: {
+    list: () => Promise<string[]>;
+  };
+  shell: {
+    list: () => Promise<IInstalledShell[]>;
+  };
+  editor: {
+    // In $VISUAL or $EDITOR at the line where it can take one, otherwise the
+    // file's default app; only regular files under cwd, the command's directory
+    open: (file: string, cwd: string | undefined, line?: number, column?: number) => Promise<void>;
   };
   ai: {
     getSuggestions: (terminalId: string, command: string) => Promise<any>;
     getContextualHelp: (terminalId: string, query: string) => Promise<string>;
+    getSaferAlternative: (terminalId: string, command: string, reason: string) => Promise<string | null>;
     onSuggestion: (callback: (terminalId: string, suggestion: string) => void) => void;
   };
   mcp: {
@@ -36,12 +83,34 @@ export interface IElectronAPI {
   };
 }
 
+export type BlockSignal = 'SIGINT' | 'SIGTERM' | 'SIGKILL' | 'SIGSTOP' | 'SIGCONT';
+
 export interface ITerminalCreateOptions {
   shell?: string;
   cwd?: string;
   env?: Record<string, string>;
   cols?: number;
   rows?: number;
+  // Rehydrate this saved session; without it the next session open at last quit
+  // is restored unless restoreLastSession is false
+  sessionName?: string;
+  restoreLastSession?: boolean;
+}
+
+export interface IShellCapabilities {
+  shellIntegration: boolean;
+  args: string[];
+  rcFile?: string;
+  historyFile?: string;
+  historyFormat: 'bash' | 'zsh' | 'fish' | 'plain' | 'none';
+}
+
+export interface IInstalledShell {
+  name: string;
+  path: string;
+  version?: string;
+  isDefault: boolean;
+  capabilities: IShellCapabilities;
 }
 
 export interface IIntegratedTerminalOptions extends ITerminalCreateOptions {
@@ -58,12 +127,197 @@ export interface ITerminalData {
   timestamp: number;
 }
 
+export interface ICommandOutputEvent {
+  data: string;
+  stream: 'stdout' | 'stderr';
+  offset: number;
+  streamOffset: number;
+  byteLength: number;
+  timestamp: Date;
+}
+
+// Older output than windowStartLine only exists on disk in the main process
+export interface IOutputInfo {
+  totalBytes: number;
+  spilledBytes: number;
+  lineCount: number;
+  windowStartLine: number;
+}
+
+export interface ITextStyle {
+  // Palette index 0-15, or a #rrggbb color
+  fg?: number | string;
+  bg?: number | string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  inverse?: boolean;
+  strikethrough?: boolean;
+}
+
+export interface IStyledSpan {
+  text: string;
+  style?: ITextStyle;
+  href?: string;
+}
+
+// Styled lines from `start` on, replacing what the renderer had from there
+export interface IStyledOutputUpdate {
+  start: number;
+  lines: IStyledSpan[][];
+}
+
+// A compiler, linter or test problem read from a finished block's output
+export interface IDiagnostic {
+  file: string;
+  line: number;
+  column?: number;
+  severity: 'error' | 'warning';
+  message: string;
+  rule?: string;
+  source: 'tsc' | 'eslint' | 'jest' | 'cargo' | 'go';
+}
+
+export interface ICommandRule {
+  id: string;
+  severity: 'block' | 'confirm' | 'warn';
+  message: string;
+  suggestion?: string;
+}
+
+// A command held back by a confirm rule until the user answers
+export interface IConfirmationRequest {
+  blockId: string;
+  command: string;
+  cwd: string;
+  rules: ICommandRule[];
+  warnings: string[];
+  suggestions: string[];
+  // Removes, moves or recursively changes files, so a dry run can list them
+  previewable: boolean;
+}
+
+export interface IConfirmationResponse {
+  approved: boolean;
+  // Give the same answer for this command for the rest of the session
+  remember?: boolean;
+}
+
+// A project's .portal/env waiting to be trusted before anything in it is loaded
+export interface IEnvironmentTrustRequest {
+  directory: string;
+  file: string;
+  // Secret values are masked
+  variables: Record<string, string>;
+  path: string[];
+  node?: string;
+  python?: string;
+  notes: string[];
+  // Reviewed before, but the file changed since
+  changed: boolean;
+}
+
+export interface IDirectoryEnvironmentStatus {
+  directory: string;
+  state: 'active' | 'awaiting-trust' | 'denied';
+  variables: string[];
+  path: string[];
+  node?: string;
+  python?: string;
+  notes: string[];
+  problems: string[];
+}
+
+export interface IHistorySearchOptions {
+  mode?: 'prefix' | 'fuzzy';
+  limit?: number;
+  cwd?: string;
+  sessionId?: string;
+}
+
+export interface IHistoryMatch {
+  command: string;
+  score: number;
+  count: number;
+  lastUsed: number;
+  lastEntry: {
+    command: string;
+    cwd: string;
+    gitBranch?: string;
+    exitCode?: number;
+    duration?: number;
+    sessionId?: string;
+    timestamp: number;
+    importedFrom?: ImportedHistoryShell;
+  };
+}
+
+export type ImportedHistoryShell = 'bash' | 'zsh' | 'fish';
+
+// Typed by the user, an accepted AI suggestion, the command palette, an MCP
+// tool call or a recovery action run for a failed command
+export type CommandSource = 'typed' | 'ai-suggestion' | 'palette' | 'mcp-tool' | 'recovery';
+
+// Commands are recorded when they start and again when they exit
+export type AuditEvent = 'start' | 'exit';
+
+export interface IAuditEntry {
+  seq: number;
+  event?: AuditEvent;
+  timestamp: number;
+  blockId: string;
+  sessionId?: string;
+  command: string;
+  cwd: string;
+  user: string;
+  source: CommandSource;
+  exitCode?: number;
+  duration?: number;
+  prevHash: string;
+  hash: string;
+}
+
+export interface IAuditQuery {
+  event?: AuditEvent;
+  source?: CommandSource | CommandSource[];
+  command?: string;
+  cwd?: string;
+  user?: string;
+  sessionId?: string;
+  since?: number;
+  until?: number;
+  limit?: number;
+}
+
+export interface IAuditVerification {
+  valid: boolean;
+  entries: number;
+  brokenAt?: number;
+  reason?: string;
+}
+
 export interface ITerminalExit {
   id: string;
   exitCode: number;
   timestamp: number;
 }
 
+export interface ISessionSnapshot {
+  version: number;
+  id: string;
+  name: string;
+  blocks: any[];
+  workingDirectory: string;
+  environment: {
+    set: Record<string, string>;
+    unset: string[];
+  };
+  createdAt: Date;
+  updatedAt: Date;
+  savedAt: Date;
+}
+
 declare global {
   interface Window {
     electronAPI: IElectronAPI;
@@ -1,3 +1,4 @@
+import { SecretRedactor, ShellParser } from '@portal/terminal-core';
 import { ModelManager } from './model-manager';
 import { PromptEngineer } from './prompt-engineer';
 import { IAIRequest, IAIResponse, IAIPromptContext } from './types';
@@ -7,6 +8,9 @@ export interface IAITerminalOptions {
   defaultModel?: string;
   responseTimeout: number;
   enableCaching: boolean;
+  // Masks secrets in everything sent to models and MCP servers; knows the
+  // secrets of the process environment by default
+  redactor?: SecretRedactor;
 }
 
 export class AITerminalIntegration {
@@ -14,8 +18,10 @@ export class AITerminalIntegration {
   private promptEngineer: PromptEngineer;
   private initialized = false;
   private mcpClient: any = null;
+  private redactor: SecretRedactor;
 
   constructor(private options: IAITerminalOptions) {
+    this.redactor = options.redactor || new SecretRedactor({ environment: process.env });
     this.modelManager = new ModelManager({
       preloadModels: true,
       cacheResponses: options.enableCaching,
@@ -75,7 +81,7 @@ export class AITerminalIntegration {
         temperature: 0.3,
       };
 
-      const response = await this.modelManager.generateResponse(request);
+      const response = await this.generate(request);
       return response.suggestions || [];
       
     } catch (error) {
@@ -97,7 +103,7 @@ export class AITerminalIntegration {
       let mcpSearchResults: any[] = [];
       if (this.mcpClient && context.mcpContext) {
         try {
-          mcpSearchResults = await this.mcpClient.searchContext(command);
+          mcpSearchResults = await this.mcpClient.searchContext(this.redactor.redactText(command));
         } catch (error) {
           console.warn('MCP search failed:', error);
         }
@@ -120,7 +126,7 @@ export class AITerminalIntegration {
       };
 
       const enhancedRequest = await this.promptEngineer.enhanceRequest(request);
-      const response = await this.modelManager.generateResponse(enhancedRequest);
+      const response = await this.generate(enhancedRequest);
       return response.text;
       
     } catch (error) {
@@ -160,7 +166,7 @@ Provide diagnosis and fix suggestions.`,
         temperature: 0.2,
       };
 
-      const response = await this.modelManager.generateResponse(request);
+      const response = await this.generate(request);
       
       return {
         diagnosis: response.text,
@@ -178,6 +184,42 @@ Provide diagnosis and fix suggestions.`,
     }
   }
 
+  // A command with the same intent as one held back for confirmation, but less risk
+  async suggestSaferAlternative(
+    command: string,
+    reason: string,
+    context: IAIPromptContext
+  ): Promise<string | null> {
+    if (!this.initialized) {
+      return null;
+    }
+
+    try {
+      const request: IAIRequest = {
+        prompt: `Suggest one safer command that achieves the same as:
+
+Command: ${command}
+Risk: ${reason}
+
+Reply with the command only.`,
+        context,
+        model: this.options.defaultModel || 'gpt-oss-20b',
+        maxTokens: 80,
+        temperature: 0.1,
+      };
+
+      const response = await this.generate(request);
+      const alternative = response.commands?.[0]
+        ?? response.text.trim().split('\n')[0].replace(/^`+|`+$/g, '').replace(/^\$\s*/, '').trim();
+
+      return alternative && alternative !== command ? alternative : null;
+
+    } catch (error) {
+      console.warn('Failed to suggest a safer alternative:', error);
+      return null;
+    }
+  }
+
   async getContextualHelp(
     userQuery: string,
     context: IAIPromptContext
@@ -190,7 +232,7 @@ Provide diagnosis and fix suggestions.`,
       // Search MCP context for relevant information
       let mcpSearchResults: any[] = [];
       if (this.mcpClient && context.mcpContext) {
-        mcpSearchResults = await this.mcpClient.searchContext(userQuery);
+        mcpSearchResults = await this.mcpClient.searchContext(this.redactor.redactText(userQuery));
         console.log(`🔍 Found ${mcpSearchResults.length} relevant MCP items`);
       }
       
@@ -211,7 +253,7 @@ Provide diagnosis and fix suggestions.`,
       };
 
       const enhancedRequest = await this.promptEngineer.enhanceRequest(request);
-      return this.modelManager.generateResponse(enhancedRequest);
+      return this.generate(enhancedRequest);
       
     } catch (error) {
       console.error('Contextual help failed:', error);
@@ -219,6 +261,15 @@ Provide diagnosis and fix suggestions.`,
     }
   }
 
+  // Every prompt leaves through here, with commands, output and context redacted
+  private generate(request: IAIRequest): Promise<IAIResponse> {
+    return this.modelManager.generateResponse({
+      ...request,
+      prompt: this.redactor.redactText(request.prompt),
+      context: this.redactor.redactValue(request.context),
+    });
+  }
+
   private selectOptimalModel(query: string): string {
     const isSimpleQuery = query.length < 50 && !query.includes('complex') && !query.includes('explain');
     
@@ -316,7 +367,7 @@ Provide diagnosis and fix suggestions.`,
       
       // Search MCP if enabled
       if (options.searchMCP !== false && this.mcpClient) {
-        mcpSearchResults = await this.mcpClient.searchContext(prompt);
+        mcpSearchResults = await this.mcpClient.searchContext(this.redactor.redactText(prompt));
       }
       
       // Build appropriate prompt based on priority
@@ -341,7 +392,7 @@ Provide diagnosis and fix suggestions.`,
       };
 
       const enhancedRequest = await this.promptEngineer.enhanceRequest(request);
-      return this.modelManager.generateResponse(enhancedRequest);
+      return this.generate(enhancedRequest);
       
     } catch (error) {
       console.error('Enhanced AI response failed:', error);
@@ -367,7 +418,8 @@ Provide diagnosis and fix suggestions.`,
       'sudo': '⚠️  sudo requires elevated permissions',
     };
 
-    const firstWord = command.split(' ')[0];
-    return quickSuggestions[firstWord] || '💡 AI analysis available - press Tab for suggestions';
+    const [resolved] = ShellParser.getCommands(command);
+    const key = resolved?.elevated ? 'sudo' : resolved?.program;
+    return (key && quickSuggestions[key]) || '💡 AI analysis available - press Tab for suggestions';
   }
 }
\ No newline at end of file
@@ -1,3 +1,4 @@
+import { ShellParser } from '@portal/terminal-core';
 import { IAIRequest, IAIPromptContext } from './types';
 import * as path from 'path';
 
@@ -200,13 +201,18 @@ Git Context:
   }
 
   private buildProjectContext(context: IAIPromptContext): string {
-    if (!context.projectContext) return '';
+    const notes = context.environmentNotes?.length
+      ? `
+Project Notes:
+${context.environmentNotes.map(note => `- ${note}`).join('\n')}`
+      : '';
+    if (!context.projectContext) return notes;
     
     return `
 Project Context:
 - Type: ${context.projectContext.type}
 - Dependencies: ${context.projectContext.dependencies.slice(0, 5).join(', ')}
-- Structure: ${context.projectContext.structure.slice(0, 5).join(', ')}`;
+- Structure: ${context.projectContext.structure.slice(0, 5).join(', ')}${notes}`;
   }
 
   private buildMCPContext(context: IAIPromptContext): string {
@@ -366,8 +372,8 @@ Brief response:`;
     const suggestions: string[] = [];
     
     // Base command suggestions
-    const baseWord = command.split(' ')[0];
-    const commandSuggestions = this.getCommandSuggestions(baseWord, context);
+    const baseCommand = ShellParser.getCommands(command)[0]?.program ?? '';
+    const commandSuggestions = this.getCommandSuggestions(baseCommand, context);
     suggestions.push(...commandSuggestions);
     
     // MCP-enhanced suggestions
@@ -53,6 +53,8 @@ export interface IAIPromptContext {
     dependencies: string[];
     structure: string[];
   };
+  // Notes the project left for the AI in its .portal/env
+  environmentNotes?: string[];
 }
 
 export interface IAIRequest {
@@ -0,0 +1,93 @@
+import { AnsiParser } from '../src/ansi-parser';
+import { CommandBlock } from '../src/command-block';
+
+describe('AnsiParser', () => {
+  const parse = (...chunks: string[]) => {
+    const parser = new AnsiParser();
+    chunks.forEach(chunk => parser.write(chunk));
+    return parser;
+  };
+
+  it('should turn SGR sequences into styled spans', () => {
+    const parser = parse('\x1b[1;31merror\x1b[0m: \x1b[38;5;208mwarn\x1b[39m \x1b[48;2;0;128;255mbg\x1b[m');
+
+    expect(parser.getLines()).toEqual([[
+      { text: 'error', style: { bold: true, fg: 1 } },
+      { text: ': ' },
+      { text: 'warn', style: { fg: '#ff8700' } },
+      { text: ' ' },
+      { text: 'bg', style: { bg: '#0080ff' } },
+    ]]);
+    expect(parser.getText()).toBe('error: warn bg');
+  });
+
+  it('should resolve carriage-return overwrites like progress bars', () => {
+    const parser = parse('downloading  10%\r', 'downloading  55%\r', 'downloading 100%\r\ndone\n');
+
+    expect(parser.getText()).toBe('downloading 100%\ndone\n');
+  });
+
+  it('should apply cursor movement and line erasing', () => {
+    const parser = parse('one\ntwo\n\x1b[2Aline 1\x1b[K\x1b[1Bx\n', 'abcdef\x1b[3D\x1b[K!');
+
+    // Moving down keeps the column, so x lands after padding
+    expect(parser.getText()).toBe('line 1\ntwo   x\nabc!');
+  });
+
+  it('should hold escape sequences split across chunks', () => {
+    const parser = parse('\x1b[3', '2mgreen\x1b', '[0m plain');
+
+    expect(parser.getLines()).toEqual([[{ text: 'green', style: { fg: 2 } }, { text: ' plain' }]]);
+  });
+
+  it('should attach OSC 8 hyperlinks and drop other OSC sequences', () => {
+    const parser = parse('\x1b]0;title\x07see \x1b]8;;https://example.com\x1b\\docs\x1b]8;;\x1b\\ now');
+
+    expect(parser.getLines()).toEqual([[
+      { text: 'see ' },
+      { text: 'docs', href: 'https://example.com' },
+      { text: ' now' },
+    ]]);
+  });
+
+  it('should report only the lines changed since the last update', () => {
+    const parser = parse('first\nsecond');
+    expect(parser.takeUpdate()).toEqual({ start: 0, lines: [[{ text: 'first' }], [{ text: 'second' }]] });
+    expect(parser.takeUpdate()).toBeNull();
+
+    parser.write('\rSECOND\nthird');
+    expect(parser.takeUpdate()).toEqual({ start: 1, lines: [[{ text: 'SECOND' }], [{ text: 'third' }]] });
+  });
+
+  it('should keep only the most recent lines', () => {
+    const parser = new AnsiParser({ maxLines: 2 });
+    parser.write('a\nb\nc');
+
+    expect(parser.getText()).toBe('b\nc');
+  });
+
+  it('should not move the cursor past the maximum column', () => {
+    const parser = new AnsiParser();
+    parser.write('\x1b[2000000Cx\n\x1b[99999999Gy\n\x1b[1;3000000Hz');
+
+    expect(parser.getText().split('\n').map(line => line.length)).toEqual([1024, 1024, 1024]);
+  });
+
+  it('should wrap a line written without newlines at the maximum width', () => {
+    const parser = new AnsiParser({ maxLines: 3 });
+    parser.write('a'.repeat(2500));
+    parser.write('b'.repeat(10000));
+
+    expect(parser.getText()).toBe(['b'.repeat(1024), 'b'.repeat(1024), 'b'.repeat(212)].join('\n'));
+  });
+
+  it('should give AI analysis stripped output from command blocks', () => {
+    const block = new CommandBlock('npm test');
+    block.addOutput('\x1b[32mPASS\x1b[0m app.test.ts\n');
+    block.addOutput('\x1b[31mError: boom\x1b[0m\n', 'stderr');
+
+    expect(block.getDiagnosticOutput()).toBe('Error: boom\nPASS app.test.ts');
+    expect(block.output).toContain('\x1b[32m');
+    expect(block.toJSON().styledLines![0][0]).toEqual({ text: 'PASS', style: { fg: 2 } });
+  });
+});
@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLog, GENESIS_HASH } from '../src/audit-log';
+import { CommandBlock } from '../src/command-block';
+import { CommandSource } from '../src/types';
+
+describe('AuditLog', () => {
+  let tempDir: string;
+  let persistencePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'portal-audit-'));
+    persistencePath = path.join(tempDir, 'audit.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const ranBlock = (command: string, exitCode = 0, source?: CommandSource) => {
+    const block = new CommandBlock(command);
+    block.cwd = '/home/dev/app';
+    block.source = source;
+    block.setRunning();
+    block.setCompleted(exitCode);
+    return block;
+  };
+
+  const readLines = () => fs.readFileSync(persistencePath, 'utf8').trim().split('\n');
+
+  it('should chain each entry to the one before it', async () => {
+    const log = new AuditLog({ persistencePath, user: 'dev' });
+
+    const first = await log.record(ranBlock('npm test', 1), 'session-1');
+    const second = await log.record(ranBlock('git push', 0, 'ai-suggestion'), 'session-1');
+
+    expect(first).toMatchObject({
+      seq: 1,
+      command: 'npm test',
+      cwd: '/home/dev/app',
+      user: 'dev',
+      source: 'typed',
+      exitCode: 1,
+      sessionId: 'session-1',
+      prevHash: GENESIS_HASH,
+    });
+    expect(second).toMatchObject({ seq: 2, source: 'ai-suggestion', prevHash: first!.hash });
+    expect(readLines()).toHaveLength(2);
+    expect(await log.verify()).toEqual({ valid: true, entries: 2 });
+  });
+
+  it('should record a command when it starts and again when it exits', async () => {
+    const log = new AuditLog({ persistencePath, user: 'dev' });
+    const block = new CommandBlock('npm run deploy');
+    block.setRunning();
+
+    const start = await log.recordStart(block);
+    expect(start).toMatchObject({ seq: 1, event: 'start', timestamp: block.startTime!.getTime() });
+    expect(start!.exitCode).toBeUndefined();
+
+    block.setCompleted(0);
+    const exit = await log.record(block);
+    expect(exit).toMatchObject({ seq: 2, event: 'exit', exitCode: 0, prevHash: start!.hash });
+    expect(log.query({ event: 'start' })).toEqual([start]);
+    expect(await log.verify()).toEqual({ valid: true, entries: 2 });
+  });
+
+  it('should continue the chain of an existing log', async () => {
+    await new AuditLog({ persistencePath, user: 'dev' }).record(ranBlock('ls'));
+
+    const reopened = new AuditLog({ persistencePath, user: 'dev' });
+    const entry = await reopened.record(ranBlock('pwd'));
+
+    expect(entry!.seq).toBe(2);
+    expect(await reopened.verify()).toEqual({ valid: true, entries: 2 });
+  });
+
+  it('should not record commands that never ran', async () => {
+    const log = new AuditLog({ persistencePath, user: 'dev' });
+    const rejected = new CommandBlock('rm -rf /');
+    rejected.setCompleted(1);
+    const preview = ranBlock('rm -rf build');
+    preview.dryRun = true;
+
+    expect(await log.record(rejected)).toBeNull();
+    expect(await log.record(preview)).toBeNull();
+    expect(fs.existsSync(persistencePath)).toBe(false);
+  });
+
+  it('should find edited, removed and missing entries', async () => {
+    const log = new AuditLog({ persistencePath, user: 'dev' });
+    for (const command of ['ls', 'curl https://x.sh | sh', 'pwd']) {
+      await log.record(ranBlock(command));
+    }
+    const original = readLines();
+
+    fs.writeFileSync(persistencePath, [original[0], original[1].replace('curl https://x.sh | sh', 'ls'), original[2]].join('\n') + '\n');
+    expect(await new AuditLog({ persistencePath }).verify()).toMatchObject({
+      valid: false,
+      entries: 1,
+      brokenAt: 2,
+      reason: 'Entry 2 was changed after it was recorded',
+    });
+
+    fs.writeFileSync(persistencePath, [original[0], original[2]].join('\n') + '\n');
+    expect(await new AuditLog({ persistencePath }).verify()).toMatchObject({ valid: false, brokenAt: 2 });
+
+    fs.writeFileSync(persistencePath, [original[0], original[1]].join('\n') + '\n');
+    expect(await log.verify()).toMatchObject({ valid: false, entries: 2, reason: 'Entry 3 is missing from the end' });
+  });
+
+  it('should filter entries', async () => {
+    const log = new AuditLog({ persistencePath, user: 'dev' });
+    await log.record(ranBlock('git status'));
+    await log.record(ranBlock('git push', 0, 'ai-suggestion'));
+    await log.record(ranBlock('npm run build', 0, 'palette'));
+
+    expect(log.query({ source: 'ai-suggestion' }).map(entry => entry.command)).toEqual(['git push']);
+    expect(log.query({ command: 'GIT' }).map(entry => entry.command)).toEqual(['git status', 'git push']);
+    expect(log.query({ source: ['typed', 'palette'], limit: 1 }).map(entry => entry.command)).toEqual(['npm run build']);
+    expect(log.query({ since: Date.now() + 1000 })).toEqual([]);
+  });
+});
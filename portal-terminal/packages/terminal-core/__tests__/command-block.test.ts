@@ -0,0 +1,102 @@
+import { CommandBlock } from '../src/command-block';
+
+describe('CommandBlock', () => {
+  it('should emit output events tagged with their stream', () => {
+    const block = new CommandBlock('npm install');
+    const events: any[] = [];
+    block.on('output', event => events.push(event));
+
+    block.addOutput('added 10 packages\n');
+    block.addOutput('npm WARN deprecated\n', 'stderr');
+
+    expect(events.map(e => [e.stream, e.data])).toEqual([
+      ['stdout', 'added 10 packages\n'],
+      ['stderr', 'npm WARN deprecated\n'],
+    ]);
+    expect(events[0].timestamp).toBeInstanceOf(Date);
+    expect(block.output).toBe('added 10 packages\nnpm WARN deprecated\n');
+  });
+
+  it('should keep ordered chunks with byte offsets per stream', () => {
+    const block = new CommandBlock('build');
+    block.addOutput('héllo\n');
+    block.addOutput('oops\n', 'stderr');
+    block.addOutput('done\n');
+
+    expect(block.chunks.map(c => [c.stream, c.offset, c.streamOffset, c.byteLength])).toEqual([
+      ['stdout', 0, 0, 7],
+      ['stderr', 7, 0, 5],
+      ['stdout', 12, 7, 5],
+    ]);
+    expect(block.getOutput()).toBe('héllo\noops\ndone\n');
+    expect(block.getOutput('stdout')).toBe('héllo\ndone\n');
+    expect(block.getOutput('stderr')).toBe('oops\n');
+  });
+
+  it('should build diagnostics from stderr and the tail of stdout', () => {
+    const block = new CommandBlock('npm test');
+    for (let i = 1; i <= 50; i++) {
+      block.addOutput(`progress ${i}\n`);
+    }
+    block.addOutput('Error: Cannot find module \'x\'\n', 'stderr');
+    block.addOutput('Tests: 1 failed\n');
+
+    const diagnostics = block.getDiagnosticOutput(3);
+
+    expect(diagnostics).toBe('Error: Cannot find module \'x\'\nprogress 49\nprogress 50\nTests: 1 failed');
+  });
+
+  it('should reset chunks and offsets when output is cleared', () => {
+    const block = new CommandBlock('retry');
+    block.addOutput('first attempt\n', 'stderr');
+    block.clearOutput();
+    block.addOutput('second\n');
+
+    expect(block.output).toBe('second\n');
+    expect(block.chunks).toHaveLength(1);
+    expect(block.chunks[0].offset).toBe(0);
+  });
+
+  it('should emit status changes and a single exit event', () => {
+    const block = new CommandBlock('false');
+    const statuses: string[] = [];
+    const onExit = jest.fn();
+    block.on('statusChange', event => statuses.push(`${event.previousStatus}->${event.status}`));
+    block.on('exit', onExit);
+
+    block.setRunning();
+    block.setCompleted(1);
+    block.setCompleted(0);
+
+    expect(statuses).toEqual(['pending->running', 'running->error']);
+    expect(onExit).toHaveBeenCalledTimes(1);
+    expect(onExit).toHaveBeenCalledWith(expect.objectContaining({ exitCode: 1 }));
+    expect(block.exitCode).toBe(1);
+  });
+
+  it('should resolve waitForExit once the command finishes', async () => {
+    const block = new CommandBlock('sleep 1');
+    block.setRunning();
+
+    const finished = block.waitForExit();
+    block.setCompleted(0);
+
+    await expect(finished).resolves.toBe(block);
+    await expect(block.waitForExit()).resolves.toBe(block);
+  });
+
+  it('should drop its styled lines when disposed', () => {
+    const block = new CommandBlock('cat build.log');
+    block.addOutput('\x1b[31merror\x1b[0m\n');
+    block.dispose();
+
+    expect(block.getStyledLines()).toEqual([[]]);
+  });
+
+  it('should serialize without emitter internals', () => {
+    const block = new CommandBlock('ls');
+    block.on('output', () => undefined);
+
+    expect(Object.keys(block.toJSON())).not.toContain('_events');
+  });
+});
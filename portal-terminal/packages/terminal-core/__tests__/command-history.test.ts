@@ -0,0 +1,109 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandHistory } from '../src/command-history';
+
+describe('CommandHistory', () => {
+  let tempDir: string;
+  let historyPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'portal-history-'));
+    historyPath = path.join(tempDir, '.portal', 'history.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should persist entries as JSONL and reload them in a new session', async () => {
+    const history = new CommandHistory({ persistencePath: historyPath });
+    await history.add({ command: 'npm test', cwd: '/app', gitBranch: 'main', exitCode: 1, duration: 1200, sessionId: 's1' });
+    await history.add({ command: 'git status', cwd: '/app', exitCode: 0, sessionId: 's1' });
+
+    const lines = fs.readFileSync(historyPath, 'utf8').trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toEqual(expect.objectContaining({
+      command: 'npm test',
+      cwd: '/app',
+      gitBranch: 'main',
+      exitCode: 1,
+      duration: 1200,
+      sessionId: 's1',
+    }));
+
+    const reloaded = new CommandHistory({ persistencePath: historyPath });
+    await reloaded.load();
+    expect(reloaded.getRecent(10)).toEqual(['git status', 'npm test']);
+  });
+
+  it('should skip blank commands and commands starting with a space', async () => {
+    const history = new CommandHistory({ persistencePath: historyPath });
+    await history.add({ command: '   ', cwd: '/' });
+    await history.add({ command: ' export TOKEN=secret', cwd: '/' });
+
+    expect(history.getEntries()).toHaveLength(0);
+  });
+
+  it('should ignore corrupted lines when loading', async () => {
+    fs.mkdirSync(path.dirname(historyPath), { recursive: true });
+    fs.writeFileSync(historyPath, [
+      JSON.stringify({ command: 'ls', cwd: '/', timestamp: 1 }),
+      '{"command": "trunc',
+      '',
+    ].join('\n'));
+
+    const history = new CommandHistory({ persistencePath: historyPath });
+    await history.load();
+
+    expect(history.getEntries().map(e => e.command)).toEqual(['ls']);
+  });
+
+  it('should support prefix and fuzzy search', async () => {
+    const history = new CommandHistory({ persistencePath: historyPath });
+    await history.add({ command: 'git checkout main', cwd: '/' });
+    await history.add({ command: 'npm run build', cwd: '/' });
+    await history.add({ command: 'docker compose up', cwd: '/' });
+
+    expect(history.search('git', { mode: 'prefix' }).map(m => m.command)).toEqual(['git checkout main']);
+    expect(history.search('checkout', { mode: 'prefix' })).toHaveLength(0);
+    expect(history.search('nrb').map(m => m.command)).toEqual(['npm run build']);
+    expect(history.search('dcu').map(m => m.command)).toEqual(['docker compose up']);
+  });
+
+  it('should rank by frequency and recency', async () => {
+    const history = new CommandHistory({ persistencePath: historyPath });
+    const now = Date.now();
+    const monthAgo = now - 40 * 24 * 60 * 60 * 1000;
+
+    await history.add({ command: 'make old', cwd: '/', timestamp: monthAgo });
+    await history.add({ command: 'make old', cwd: '/', timestamp: monthAgo });
+    await history.add({ command: 'make often', cwd: '/', timestamp: now - 1000 });
+    await history.add({ command: 'make often', cwd: '/', timestamp: now });
+    await history.add({ command: 'make once', cwd: '/', timestamp: now });
+
+    const results = history.search('make', { mode: 'prefix' });
+
+    expect(results.map(m => m.command)).toEqual(['make often', 'make once', 'make old']);
+    expect(results[0].count).toBe(2);
+  });
+
+  it('should filter by cwd and session', async () => {
+    const history = new CommandHistory({ persistencePath: historyPath });
+    await history.add({ command: 'cargo build', cwd: '/rust', sessionId: 'a' });
+    await history.add({ command: 'go build', cwd: '/go', sessionId: 'b' });
+
+    expect(history.search('build', { cwd: '/go' }).map(m => m.command)).toEqual(['go build']);
+    expect(history.getRecent(10, 'a')).toEqual(['cargo build']);
+  });
+
+  it('should compact the file when exceeding the entry limit', async () => {
+    const history = new CommandHistory({ persistencePath: historyPath, maxEntries: 3 });
+    for (let i = 1; i <= 5; i++) {
+      await history.add({ command: `echo ${i}`, cwd: '/' });
+    }
+
+    const lines = fs.readFileSync(historyPath, 'utf8').trim().split('\n');
+    expect(lines.map(line => JSON.parse(line).command)).toEqual(['echo 3', 'echo 4', 'echo 5']);
+  });
+});
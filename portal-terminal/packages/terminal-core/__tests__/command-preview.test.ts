@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandValidator } from '../src/command-validator';
+import { expandWord, formatPreview, parsePreviewCommand } from '../src/command-preview';
+import { ShellParser } from '../src/shell-parser';
+
+describe('command preview', () => {
+  const validator = new CommandValidator();
+  let tempDir: string;
+
+  const write = (file: string, content = '') => {
+    fs.mkdirSync(path.dirname(path.join(tempDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, file), content);
+  };
+  const exists = (file: string) => fs.existsSync(path.join(tempDir, file));
+  const firstWord = (line: string) =>
+    ShellParser.getCommands(line).find(command => command.program === 'rm')!.argWords[0];
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'portal-preview-'));
+    write('build/app.js', 'x'.repeat(100));
+    write('build/assets/logo.svg', 'x'.repeat(50));
+    write('build/.cache', 'x');
+    write('src/index.ts', 'x'.repeat(10));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should flag commands that remove, move or recursively change files', () => {
+    expect(validator.validateCommand('rm -rf build/*').previewable).toBe(true);
+    expect(validator.validateCommand('mv a b').previewable).toBe(true);
+    expect(validator.validateCommand('chmod -R 755 dist').previewable).toBe(true);
+    expect(validator.validateCommand('chmod -r notes.txt').previewable).toBe(false);
+    expect(validator.validateCommand('ls build').previewable).toBe(false);
+  });
+
+  it('should list what rm -rf would remove without removing it', async () => {
+    const preview = await validator.preview('rm -rf build/*', { cwd: tempDir });
+
+    expect(preview.operations).toHaveLength(1);
+    expect(preview.operations[0].entries.map(entry => [entry.path, entry.type])).toEqual([
+      ['build/app.js', 'file'],
+      ['build/assets', 'directory'],
+    ]);
+    expect(preview).toMatchObject({ files: 2, directories: 1, bytes: 150, truncated: false });
+    expect(exists('build/app.js')).toBe(true);
+
+    const listing = formatPreview(preview);
+    expect(listing).toContain('nothing was changed');
+    expect(listing).toContain('Would remove 2 files and 1 directory (150 B)');
+  });
+
+  it('should expand braces, ~ and variables, and keep quoted globs literal', async () => {
+    const env = { HOME: tempDir, OUT: 'build' };
+
+    expect((await expandWord(firstWord('rm {build,src}/*.?s'), tempDir, env)).paths)
+      .toEqual(['build/app.js', 'src/index.ts']);
+    expect((await expandWord(firstWord('rm ~/$OUT/*.js'), tempDir, env)).paths)
+      .toEqual([path.join(tempDir, 'build/app.js')]);
+    expect((await expandWord(firstWord('rm "build/*"'), tempDir, env)).paths).toEqual(['build/*']);
+    expect((await expandWord(firstWord('rm build/.*'), tempDir, env)).paths).toEqual(['build/.cache']);
+
+    const unset = await expandWord(firstWord('rm $MISSING/'), tempDir, env);
+    expect(unset.unset).toEqual(['MISSING']);
+    expect(unset.paths).toEqual(['/']);
+
+    expect((await expandWord(firstWord('rm "$(cat list)"'), tempDir, env)).problems).toHaveLength(1);
+  });
+
+  it('should follow cd and show where mv puts things', async () => {
+    write('dist/app.js');
+    const preview = await validator.preview('cd build && mv app.js assets ../dist', { cwd: tempDir });
+    const [operation] = preview.operations;
+
+    expect(operation.cwd).toBe(path.join(tempDir, 'build'));
+    expect(operation.entries.map(entry => [entry.path, entry.destination, entry.note])).toEqual([
+      ['app.js', path.join(tempDir, 'dist/app.js'), `Replaces ${path.join(tempDir, 'dist/app.js')}`],
+      ['assets', path.join(tempDir, 'dist/assets'), undefined],
+    ]);
+  });
+
+  it('should not count a directory rm would refuse, or paths that are missing', async () => {
+    const preview = await validator.preview('rm build missing.txt', { cwd: tempDir });
+
+    expect(preview.operations[0].entries.map(entry => entry.note)).toEqual([
+      'Not removed: is a directory',
+      'Does not exist',
+    ]);
+    expect(preview.files + preview.directories).toBe(0);
+  });
+
+  it('should stop counting very large trees', async () => {
+    const preview = await validator.preview('chmod -R go-w build', { cwd: tempDir, maxEntries: 2 });
+
+    expect(preview.truncated).toBe(true);
+    expect(formatPreview(preview)).toContain('Would change the mode of at least');
+  });
+
+  it('should strip the portal preview prefix', () => {
+    expect(parsePreviewCommand('portal preview -- rm -rf build/*')).toBe('rm -rf build/*');
+    expect(parsePreviewCommand('portal preview mv a b')).toBe('mv a b');
+    expect(parsePreviewCommand('rm -rf build')).toBeNull();
+  });
+});
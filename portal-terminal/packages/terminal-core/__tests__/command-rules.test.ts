@@ -0,0 +1,160 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandValidator } from '../src/command-validator';
+import { CommandRule } from '../src/types';
+
+describe('CommandValidator rules', () => {
+  const terraformApply: CommandRule = {
+    id: 'terraform-apply',
+    match: { command: 'terraform', args: ['apply'] },
+    severity: 'confirm',
+    message: 'terraform apply changes real infrastructure',
+    suggestion: 'terraform plan',
+    scope: { excludeDirectories: ['/home/dev/sandbox'] },
+  };
+
+  it('should match tokens rather than substrings', () => {
+    expect(CommandValidator.validateCommand('echo "shutdown"').isValid).toBe(true);
+    expect(CommandValidator.validateCommand('grep "rm -rf /" notes.txt').isValid).toBe(true);
+    expect(CommandValidator.validateCommand('shutdown -h now').isValid).toBe(false);
+  });
+
+  it('should block variants of dangerous commands', () => {
+    expect(CommandValidator.validateCommand('rm -fr /').isValid).toBe(false);
+    expect(CommandValidator.validateCommand('rm -r -f /').isValid).toBe(false);
+    expect(CommandValidator.validateCommand('cd / && sudo rm -rf --no-preserve-root /').isValid).toBe(false);
+    expect(CommandValidator.validateCommand('rm -rf ./build').isValid).toBe(true);
+  });
+
+  it('should ask for confirmation outside excluded directories', () => {
+    const validator = new CommandValidator({ rules: [terraformApply] });
+
+    const result = validator.validateCommand('terraform apply -auto-approve', { cwd: '/home/dev/infra' });
+    expect(result.isValid).toBe(true);
+    expect(result.requiresConfirmation).toBe(true);
+    expect(result.confirmations).toEqual(['terraform apply changes real infrastructure']);
+    expect(result.suggestions).toContain('Instead: terraform plan');
+
+    const sandboxed = validator.validateCommand('terraform apply', { cwd: '/home/dev/sandbox/stack' });
+    expect(sandboxed.requiresConfirmation).toBe(false);
+    expect(validator.validateCommand('terraform plan', { cwd: '/home/dev/infra' }).requiresConfirmation).toBe(false);
+  });
+
+  it('should scope rules to git branches', () => {
+    const validator = new CommandValidator({
+      rules: [{
+        id: 'force-push-main',
+        match: { command: 'git', args: ['push', ['--force', '-f']] },
+        severity: 'block',
+        message: 'Force push to a protected branch',
+        scope: { branches: ['main', 'release/*'] },
+      }],
+    });
+
+    expect(validator.validateCommand('git push --force', { branch: 'release/1.2' }).isValid).toBe(false);
+    expect(validator.validateCommand('git push -f', { branch: 'main' }).isValid).toBe(false);
+    expect(validator.validateCommand('git push --force', { branch: 'feature/x' }).isValid).toBe(true);
+  });
+
+  it('should let configured rules replace and disable defaults', () => {
+    const validator = new CommandValidator({
+      rules: [{ id: 'sudo-rm', match: { command: 'rm', elevated: true }, severity: 'block', message: 'No sudo rm here' }],
+      disabledRules: ['chmod-777'],
+    });
+
+    expect(validator.validateCommand('sudo rm file.txt').errors).toEqual(['No sudo rm here']);
+    expect(validator.validateCommand('chmod 777 script.sh').warnings).toHaveLength(0);
+  });
+
+  describe('load', () => {
+    let tempDir: string;
+    let warn: jest.SpyInstance;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'portal-rules-'));
+      warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      warn.mockRestore();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    const writeConfig = (directory: string, config: object) => {
+      fs.mkdirSync(path.join(directory, '.portal'), { recursive: true });
+      fs.writeFileSync(path.join(directory, '.portal', 'rules.json'), JSON.stringify(config));
+    };
+
+    it('should merge user and project rules over the defaults', async () => {
+      const home = path.join(tempDir, 'home');
+      const project = path.join(tempDir, 'project');
+      writeConfig(home, { rules: [terraformApply], typos: { tf: 'terraform' } });
+      writeConfig(project, {
+        rules: [{ ...terraformApply, severity: 'block', scope: { directories: ['prod'] } }],
+      });
+      fs.mkdirSync(path.join(project, 'prod', 'network'), { recursive: true });
+
+      const validator = await CommandValidator.load({
+        cwd: path.join(project, 'prod', 'network'),
+        userConfigPath: path.join(home, '.portal', 'rules.json'),
+      });
+
+      // The project's stricter rule is added next to the user's, with its scope relative to the project
+      const inProd = validator.validateCommand('terraform apply', { cwd: path.join(project, 'prod', 'network') });
+      expect(inProd.isValid).toBe(false);
+      expect(inProd.matchedRules!.map(rule => rule.id)).toEqual(['project:terraform-apply', 'terraform-apply']);
+      expect(validator.validateCommand('terraform apply', { cwd: project }).decision).toBe('confirm');
+      expect(validator.validateCommand('tf', { cwd: project }).suggestions).toContain('Did you mean: terraform?');
+    });
+
+    it('should not let a project disable or weaken rules', async () => {
+      const home = path.join(tempDir, 'home');
+      writeConfig(home, { disable: ['chmod-777'] });
+      writeConfig(tempDir, {
+        rules: [
+          { id: 'rm-root', match: { command: 'rm' }, severity: 'warn', message: 'fine' },
+          { id: 'sudo-rm-rf', match: { command: 'true' }, severity: 'block', message: 'not rm' },
+        ],
+        disable: ['dd-disk', 'rm-root'],
+      });
+
+      const validator = await CommandValidator.load({ cwd: tempDir, userConfigPath: path.join(home, '.portal', 'rules.json') });
+
+      expect(validator.validateCommand('rm -rf /').decision).toBe('deny');
+      expect(validator.validateCommand('sudo rm -rf /var').decision).toBe('deny');
+      expect(validator.validateCommand('dd if=/dev/zero of=/dev/sda').decision).toBe('deny');
+      expect(validator.validateCommand('rm notes.txt').warnings).toHaveLength(0);
+      // Only the user config turns default rules off
+      expect(validator.validateCommand('chmod 777 script.sh').warnings).toHaveLength(0);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Ignoring "disable"'));
+    });
+
+    it('should load the project rules of another directory', async () => {
+      const project = path.join(tempDir, 'project');
+      writeConfig(project, { rules: [{ ...terraformApply, severity: 'block', scope: undefined }] });
+      const validator = await CommandValidator.load({ cwd: tempDir, userConfigPath: path.join(tempDir, 'missing', 'rules.json') });
+
+      expect(validator.validateCommand('terraform apply').isValid).toBe(true);
+      expect((await validator.forDirectory(project))!.validateCommand('terraform apply').isValid).toBe(false);
+    });
+
+    it('should skip invalid rules and files', async () => {
+      writeConfig(tempDir, {
+        rules: [
+          { id: 'bad-severity', match: { command: 'ls' }, severity: 'explode', message: 'x' },
+          { id: 'bad-pattern', match: { pattern: '([' }, severity: 'block', message: 'x' },
+        ],
+      });
+
+      const validator = await CommandValidator.load({
+        cwd: tempDir,
+        userConfigPath: path.join(tempDir, 'missing', 'rules.json'),
+      });
+
+      expect(validator.validateCommand('ls').isValid).toBe(true);
+      expect(validator.getRules().map(rule => rule.id)).not.toContain('bad-pattern');
+      expect(warn).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { DiagnosticsExtractor } from '../src/diagnostics';
+import { TerminalManager } from '../src/terminal-manager';
+
+describe('DiagnosticsExtractor', () => {
+  const extract = (output: string) => DiagnosticsExtractor.extract(output, { cwd: '/work' });
+
+  it('should read tsc errors in both output formats', () => {
+    const output = [
+      "src/app.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+      "\x1b[96msrc/util.ts\x1b[0m:\x1b[93m3\x1b[0m:\x1b[93m1\x1b[0m - \x1b[91merror\x1b[0m\x1b[90m TS2304: \x1b[0mCannot find name 'foo'.",
+      '',
+      'Found 2 errors.',
+    ].join('\n');
+
+    expect(extract(output)).toEqual([
+      {
+        file: '/work/src/app.ts',
+        line: 12,
+        column: 5,
+        severity: 'error',
+        message: "Type 'string' is not assignable to type 'number'.",
+        rule: 'TS2322',
+        source: 'tsc',
+      },
+      expect.objectContaining({ file: '/work/src/util.ts', line: 3, column: 1, rule: 'TS2304', message: "Cannot find name 'foo'." }),
+    ]);
+  });
+
+  it('should read eslint problems under their file', () => {
+    const output = [
+      '',
+      '/repo/src/index.js',
+      "  1:10  error    'foo' is defined but never used  no-unused-vars",
+      '  3:1   warning  Unexpected console statement      no-console',
+      '',
+      '✖ 2 problems (1 error, 1 warning)',
+    ].join('\n');
+
+    expect(extract(output)).toEqual([
+      expect.objectContaining({ file: '/repo/src/index.js', line: 1, column: 10, severity: 'error', message: "'foo' is defined but never used", rule: 'no-unused-vars', source: 'eslint' }),
+      expect.objectContaining({ file: '/repo/src/index.js', line: 3, column: 1, severity: 'warning', message: 'Unexpected console statement', rule: 'no-console' }),
+    ]);
+  });
+
+  it('should place a failing jest test at its first frame outside node_modules', () => {
+    const output = [
+      'FAIL src/cart.test.ts',
+      '  ● Cart › applies the discount',
+      '',
+      '    expect(received).toBe(expected) // Object.is equality',
+      '',
+      '      at Object.toBe (node_modules/expect/build/index.js:10:3)',
+      '      at Object.<anonymous> (src/cart.test.ts:14:20)',
+      '',
+      '  ● Console',
+      '      at log (src/cart.ts:2:11)',
+    ].join('\n');
+
+    expect(extract(output)).toEqual([{
+      file: '/work/src/cart.test.ts',
+      line: 14,
+      column: 20,
+      severity: 'error',
+      message: 'Cart › applies the discount: expect(received).toBe(expected) // Object.is equality',
+      source: 'jest',
+    }]);
+  });
+
+  it('should read cargo messages with the location below them', () => {
+    const output = [
+      'warning: unused variable: `y`',
+      ' --> src/main.rs:2:9',
+      '',
+      'error[E0425]: cannot find value `x` in this scope',
+      ' --> src/main.rs:4:13',
+      '  |',
+      'error: could not compile `app` due to previous error',
+    ].join('\n');
+
+    expect(extract(output)).toEqual([
+      expect.objectContaining({ file: '/work/src/main.rs', line: 2, column: 9, severity: 'warning', message: 'unused variable: `y`', rule: undefined, source: 'cargo' }),
+      expect.objectContaining({ file: '/work/src/main.rs', line: 4, column: 13, severity: 'error', rule: 'E0425' }),
+    ]);
+  });
+
+  it('should read go build errors and failing test lines', () => {
+    const output = [
+      './main.go:5:2: undefined: foo',
+      '--- FAIL: TestSum (0.00s)',
+      '    sum_test.go:12: expected 3, got 4',
+      'FAIL',
+    ].join('\n');
+
+    expect(extract(output)).toEqual([
+      expect.objectContaining({ file: '/work/main.go', line: 5, column: 2, message: 'undefined: foo', source: 'go' }),
+      expect.objectContaining({ file: '/work/sum_test.go', line: 12, message: 'expected 3, got 4', rule: 'TestSum', source: 'go' }),
+    ]);
+  });
+
+  it('should report each problem once and stop at the limit', () => {
+    const line = "src/app.ts(1,1): error TS1005: ';' expected.";
+
+    expect(extract(`${line}\n${line}`)).toHaveLength(1);
+    expect(DiagnosticsExtractor.extract(
+      Array.from({ length: 10 }, (_, i) => `src/app.ts(${i + 1},1): error TS1005: ';' expected.`).join('\n'),
+      { limit: 3 }
+    )).toHaveLength(3);
+  });
+
+  it('should attach diagnostics to a finished block', async () => {
+    const manager = new TerminalManager({ cwd: '/tmp' });
+    manager.start();
+    const block = manager.executeCommand(`printf 'src/app.ts(2,7): error TS2322: Bad type.\\n'`);
+    await block.waitForExit();
+
+    expect(block.diagnostics).toEqual([expect.objectContaining({ file: '/tmp/src/app.ts', line: 2, column: 7, rule: 'TS2322' })]);
+    expect((await manager.executeCommand('echo ok').waitForExit()).diagnostics).toBeUndefined();
+    manager.destroy();
+  });
+});
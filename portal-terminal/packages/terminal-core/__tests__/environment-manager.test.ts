@@ -0,0 +1,93 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EnvironmentManager, parseEnvFile } from '../src/environment-manager';
+
+describe('EnvironmentManager', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'portal-env-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should parse dotenv files', () => {
+    expect(parseEnvFile([
+      '# database',
+      'export DB_HOST=localhost',
+      'DB_PORT = 5432 # default',
+      'GREETING="hello\\nworld"',
+      "PATTERN='$HOME/*'",
+      'EMPTY=',
+      'not a variable',
+    ].join('\n'))).toEqual({
+      DB_HOST: 'localhost',
+      DB_PORT: '5432',
+      GREETING: 'hello\nworld',
+      PATTERN: '$HOME/*',
+      EMPTY: '',
+    });
+  });
+
+  it('should layer .env files and session overrides over the base environment', async () => {
+    fs.mkdirSync(path.join(tempDir, 'app'));
+    fs.writeFileSync(path.join(tempDir, 'app', '.env'), 'NODE_ENV=development\nPORT=3000\n');
+    const environment = new EnvironmentManager({ base: { NODE_ENV: 'production', HOME: '/home/dev' } });
+    const changes = jest.fn();
+    environment.on('change', changes);
+
+    await environment.loadDirectory(path.join(tempDir, 'app'));
+    environment.set('PORT', '8080');
+    environment.unset('HOME');
+
+    expect(environment.getEnvironment()).toEqual({ NODE_ENV: 'development', PORT: '8080' });
+    expect(environment.getSessionEnvironment()).toEqual({ NODE_ENV: 'production', PORT: '8080' });
+    expect(environment.getOverrides()).toEqual({ set: { PORT: '8080' }, unset: ['HOME'] });
+    expect(changes).toHaveBeenCalledTimes(3);
+
+    // Leaving the directory drops its variables
+    await environment.loadDirectory(tempDir);
+    environment.reset('HOME');
+    expect(environment.getEnvironment()).toEqual({ NODE_ENV: 'production', HOME: '/home/dev', PORT: '8080' });
+    expect(environment.getDirectoryEnvironment()).toBeNull();
+  });
+
+  it('should not take variables that change what runs from a .env file', async () => {
+    fs.writeFileSync(path.join(tempDir, '.env'), [
+      'PATH=./bin',
+      'LD_PRELOAD=./evil.so',
+      'NODE_OPTIONS=--require ./evil.js',
+      'GIT_SSH_COMMAND=./evil.sh',
+      'API_URL=http://localhost:3000',
+    ].join('\n'));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const environment = new EnvironmentManager({ base: { PATH: '/usr/bin' } });
+
+    expect(await environment.loadDirectory(tempDir)).toEqual({ API_URL: 'http://localhost:3000' });
+    expect(environment.getEnvironment()).toEqual({ PATH: '/usr/bin', API_URL: 'http://localhost:3000' });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Ignoring PATH, LD_PRELOAD, NODE_OPTIONS, GIT_SSH_COMMAND'));
+    warn.mockRestore();
+  });
+
+  it('should mask secrets from every layer', async () => {
+    fs.writeFileSync(path.join(tempDir, '.env'), 'STRIPE_SECRET=whsec_local_value\n');
+    const environment = new EnvironmentManager({ base: { EDITOR: 'vim' } });
+    await environment.loadDirectory(tempDir);
+    environment.set('DEPLOY_TOKEN', 'deploy-token-value');
+
+    expect(environment.getRedacted()).toEqual({
+      EDITOR: 'vim',
+      STRIPE_SECRET: '[REDACTED]',
+      DEPLOY_TOKEN: '[REDACTED]',
+    });
+    expect(environment.redact('curl -u whsec_local_value deploy-token-value'))
+      .toBe('curl -u [REDACTED] [REDACTED]');
+  });
+
+  it('should reject invalid variable names', () => {
+    expect(() => new EnvironmentManager({ base: {} }).set('1BAD', 'x')).toThrow('Invalid environment variable name');
+  });
+});
@@ -0,0 +1,111 @@
+import { ErrorClassifierRegistry } from '../src/error-classifier';
+import { ErrorHandler } from '../src/error-handler';
+
+describe('Error classifier packs', () => {
+  const errorHandler = new ErrorHandler();
+  const classify = (command: string, output: string) => errorHandler.classifyError(output, { command });
+  const commands = (command: string, output: string) =>
+    (classify(command, output).recoveryActions || []).map(action => action.command);
+
+  it('should pull the missing module out and install it with the package manager in use', () => {
+    const analysis = classify('node server.js', [
+      "Error: Cannot find module 'express'",
+      'Require stack:',
+      '- /app/server.js',
+    ].join('\n'));
+
+    expect(analysis).toMatchObject({
+      errorType: 'missing_module',
+      classifier: 'npm/missing-module',
+      summary: 'Cannot find module express',
+      fields: { module: 'express', package: 'express' },
+    });
+    expect(commands('node server.js', "Error: Cannot find module 'express'")[0]).toBe('npm install express');
+    expect(commands('yarn start', "Error: Cannot find module '@nestjs/core/dist/app'")[0]).toBe('yarn add @nestjs/core');
+    expect(commands('poetry run app', "ModuleNotFoundError: No module named 'requests.adapters'")[0]).toBe('poetry add requests');
+
+    // A relative import is a missing file rather than a package
+    expect(classify('node server.js', "Error: Cannot find module './routes'").classifier).toBeUndefined();
+  });
+
+  it.each([
+    ['docker run -p 5432:5432 postgres', 'docker: Error response from daemon: driver failed programming external connectivity: Bind for 0.0.0.0:5432 failed: port is already allocated.', 'port_in_use', { port: '5432' }],
+    ['npm run dev', 'Error: listen EADDRINUSE: address already in use :::3000', 'port_in_use', { port: '3000' }],
+    ['cargo build', 'error[E0425]: cannot find value `x` in this scope\n --> src/main.rs:4:13', 'compile_error', { code: 'E0425', file: 'src/main.rs', line: '4' }],
+    ['go run .', 'main.go:5:2: no required module provides package github.com/gorilla/mux; to add it:', 'missing_module', { package: 'github.com/gorilla/mux' }],
+    ['kubectl get pod web-1', 'Error from server (NotFound): pods "web-1" not found', 'resource_not_found', { kind: 'pods', name: 'web-1' }],
+    ['npm run build', 'src/app.ts(12,5): error TS2322: Type \'string\' is not assignable to type \'number\'.', 'type_error', { file: 'src/app.ts', line: '12', code: 'TS2322' }],
+    ['npx tsc --pretty', 'src/app.ts:12:5 - error TS2322: Type \'string\' is not assignable to type \'number\'.', 'type_error', { file: 'src/app.ts', line: '12', code: 'TS2322' }],
+    ['git push', ' ! [rejected]        main -> main (fetch first)', 'push_rejected', { branch: 'main' }],
+    ['gti status', 'bash: gti: command not found', 'command_not_found', { name: 'gti' }],
+  ])('should classify `%s`', (command, output, errorType, fields) => {
+    const analysis = classify(command, output);
+
+    expect(analysis.errorType).toBe(errorType);
+    expect(analysis.fields).toMatchObject(fields);
+  });
+
+  it('should name the failing test and rerun only that one', () => {
+    const output = [
+      'FAIL src/cart.test.ts',
+      '  ● Cart › applies the discount',
+      '',
+      '    expect(received).toBe(expected)',
+    ].join('\n');
+
+    expect(classify('npm test', output)).toMatchObject({
+      errorType: 'test_failure',
+      summary: 'Failing test: Cart › applies the discount',
+    });
+    expect(commands('npm test', output)).toEqual(["npx jest src/cart.test.ts -t 'applies the discount'"]);
+  });
+
+  it('should quote fields in recovery commands and mark read-only ones automatic', () => {
+    const analysis = classify('git merge feature', 'CONFLICT (content): Merge conflict in src/my file.ts\nAutomatic merge failed');
+
+    expect(analysis.recoveryActions).toEqual([
+      expect.objectContaining({ command: 'git diff --name-only --diff-filter=U', automatic: true }),
+      expect.objectContaining({ command: "git add 'src/my file.ts'", description: 'Stage src/my file.ts once its conflicts are fixed' }),
+      expect.objectContaining({ command: 'git merge --abort' }),
+    ]);
+    for (const action of analysis.recoveryActions!.filter(action => action.automatic)) {
+      expect(ErrorHandler.isReadOnlyCommand(action.command!)).toBe(true);
+    }
+  });
+
+  it('should leave network failures to the generic check so retries still apply', () => {
+    expect(classify('git pull', "fatal: unable to access 'https://github.com/acme/app.git/': Could not resolve host: github.com").errorType)
+      .toBe('network_error');
+    expect(classify('pip install requests', [
+      "WARNING: Retrying (Retry(total=0)) after connection broken by 'NewConnectionError'",
+      'ERROR: Could not find a version that satisfies the requirement requests (from versions: none)',
+    ].join('\n')).errorType).not.toBe('package_not_found');
+  });
+
+  it('should try packs registered later first', () => {
+    const classifiers = new ErrorClassifierRegistry();
+    classifiers.register({
+      id: 'acme',
+      matchers: [{
+        id: 'missing-module',
+        pattern: /Cannot find module '(?<module>@acme\/[^']+)'/,
+        errorType: 'missing_module',
+        severity: 'medium',
+        summary: '{module} comes from the internal registry',
+        suggestedRecovery: ['Log in to the internal registry'],
+        recoveryActions: [{ name: 'Log in', description: 'Log in to the internal registry', command: 'npm login --scope=@acme' }],
+      }],
+    });
+    const handler = new ErrorHandler({ classifiers });
+
+    expect(handler.classifyError("Error: Cannot find module '@acme/ui'", { command: 'node app.js' })).toMatchObject({
+      classifier: 'acme/missing-module',
+      summary: '@acme/ui comes from the internal registry',
+    });
+    expect(handler.classifyError("Error: Cannot find module 'react'", { command: 'node app.js' }).classifier)
+      .toBe('npm/missing-module');
+
+    expect(classifiers.unregister('acme')).toBe(true);
+    expect(classifiers.getPacks().map(pack => pack.id)).not.toContain('acme');
+  });
+});
@@ -0,0 +1,85 @@
+import { ErrorHandler } from '../src/error-handler';
+import { CommandBlock } from '../src/command-block';
+
+describe('ErrorHandler', () => {
+  let errorHandler: ErrorHandler;
+
+  beforeEach(() => {
+    errorHandler = new ErrorHandler();
+    errorHandler.setAutoRecovery(false);
+    // Analyses are also broadcast as 'error' events, which must have a listener
+    errorHandler.on('error', () => undefined);
+  });
+
+  it('should classify block failures from stderr rather than progress output', async () => {
+    const block = new CommandBlock('./deploy.sh');
+    block.setRunning();
+    block.addOutput('Checking network connection...\n');
+    for (let i = 0; i < 40; i++) {
+      block.addOutput(`Uploading part ${i}\n`);
+    }
+    block.addOutput('./deploy.sh: line 12: /srv/app: Permission denied\n', 'stderr');
+    block.setCompleted(126);
+
+    const { analysis } = await errorHandler.analyzeBlockError(block);
+
+    expect(analysis.errorType).toBe('permission_denied');
+  });
+
+  it('should only treat diagnostics that change nothing as read-only', () => {
+    for (const command of ['pwd', 'ls -la', 'git status', 'git branch -vv', 'echo $PATH', 'git log --oneline | head -5']) {
+      expect(ErrorHandler.isReadOnlyCommand(command)).toBe(true);
+    }
+    for (const command of ['git pull', 'git branch feature', 'sudo ls', 'ls > listing.txt', 'find . -delete', 'git diff --output=patch']) {
+      expect(ErrorHandler.isReadOnlyCommand(command)).toBe(false);
+    }
+  });
+
+  describe('recovery actions', () => {
+    const failedBlock = (command: string, stderr: string) => {
+      const block = new CommandBlock(command);
+      block.setRunning();
+      block.addOutput(stderr, 'stderr');
+      block.setCompleted(1);
+      return block;
+    };
+
+    const runner = (output: string, exitCode = 0) => jest.fn(async (command: string) => {
+      const block = new CommandBlock(command);
+      block.setRunning();
+      block.addOutput(output);
+      block.setCompleted(exitCode);
+      return block;
+    });
+
+    it('should run read-only diagnostics as children of the failed block and report what they found', async () => {
+      const run = runner('interactive rebase in progress; onto 4f2a9c1\nYou are currently rebasing branch \'main\' on \'4f2a9c1\'.\n');
+      errorHandler.setCommandRunner(run);
+      errorHandler.setAutoRecovery(true);
+      const failed = failedBlock('git pull', 'error: cannot pull with rebase: Your index contains uncommitted changes.\n');
+
+      const { analysis } = await errorHandler.analyzeBlockError(failed);
+
+      expect(run).toHaveBeenCalledWith('git status', { parentId: failed.id, requireConfirmation: undefined });
+      expect(analysis.findings).toEqual(['ran `git status`: you are mid-rebase']);
+      expect((await run.mock.results[0].value).finding).toBe('you are mid-rebase');
+    });
+
+    it('should ask before running a recovery action that could change something', async () => {
+      const run = runner('Already up to date.\n');
+      errorHandler.setCommandRunner(run);
+
+      const { results } = await errorHandler.executeRecoveryPlan(
+        'git_error',
+        { timestamp: Date.now(), recoveryAttempts: 0, blockId: 'failed-1' },
+        ['Pull latest changes']
+      );
+
+      expect(run).toHaveBeenCalledWith('git pull', {
+        parentId: 'failed-1',
+        requireConfirmation: expect.stringContaining('Pull latest changes'),
+      });
+      expect(results).toEqual([expect.objectContaining({ command: 'git pull', success: true, finding: 'Already up to date.' })]);
+    });
+  });
+});
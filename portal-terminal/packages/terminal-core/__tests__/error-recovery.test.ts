@@ -49,7 +49,10 @@ describe('Error Recovery and Resilience Tests', () => {
           kill: jest.fn(),
         });
 
-      const commandBlock = terminalManager.executeCommand('echo "test"');
+      // Retries are opt-in; this one treats any failure as transient
+      const commandBlock = terminalManager.executeCommand('echo "test"', {
+        retry: { retryOn: ['unknown'], baseDelay: 10 },
+      });
       
       expect(commandBlock).toBeDefined();
       expect(commandBlock.command).toBe('echo "test"');
@@ -104,7 +107,9 @@ describe('Error Recovery and Resilience Tests', () => {
       });
 
       const startTime = Date.now();
-      const result = await executor.executeCommand('failing-command');
+      const result = await executor.executeCommand('failing-command', undefined, {
+        retry: { retryOn: ['unknown'], jitter: 0 },
+      });
       const endTime = Date.now();
 
       // Should have attempted retries with delays
@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandBlock } from '../src/command-block';
+import { ErrorHandler } from '../src/error-handler';
+import { FixMemory } from '../src/fix-memory';
+
+const ERESOLVE = [
+  'npm ERR! code ERESOLVE',
+  'npm ERR! ERESOLVE unable to resolve dependency tree',
+  'npm ERR! Found: react@18.2.0',
+].join('\n');
+
+function finishedBlock(command: string, exitCode: number, stderr: string = ''): CommandBlock {
+  const block = new CommandBlock(command);
+  if (stderr) {
+    block.addOutput(`${stderr}\n`, 'stderr');
+  }
+  block.setCompleted(exitCode);
+  return block;
+}
+
+describe('FixMemory', () => {
+  let tempDir: string;
+  let persistencePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'portal-fixes-'));
+    persistencePath = path.join(tempDir, '.portal', 'learned-fixes.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should mask what changes between runs in the error signature', () => {
+    expect(FixMemory.signature('npm install', ERESOLVE)).toBe('npm npm ERR! code ERESOLVE');
+    expect(FixMemory.signature('cat /tmp/a.txt', 'cat: /tmp/a.txt: No such file or directory'))
+      .toBe(FixMemory.signature('cat /var/b.txt', 'cat: /var/b.txt: No such file or directory'));
+    expect(FixMemory.signature('npm install', '')).toBeNull();
+  });
+
+  it('should pair a failure with the next command that succeeds and remember it across sessions', async () => {
+    const memory = new FixMemory({ persistencePath });
+    await memory.observe(finishedBlock('npm install', 1, ERESOLVE), '/app');
+    // Looking around doesn't fix anything
+    expect(await memory.observe(finishedBlock('ls', 0), '/app')).toBeNull();
+    expect(await memory.observe(finishedBlock('npm install --legacy-peer-deps', 0), '/app')).toMatchObject({
+      command: 'npm install --legacy-peer-deps',
+      count: 1,
+      cwd: '/app',
+    });
+
+    const reloaded = new FixMemory({ persistencePath });
+    expect((await reloaded.getFixes('npm install', ERESOLVE)).map(fix => fix.command)).toEqual(['npm install --legacy-peer-deps']);
+  });
+
+  it('should not learn from retries, other directories or stale failures', async () => {
+    const memory = new FixMemory({ persistencePath, pairingWindowMs: 1000 });
+
+    await memory.observe(finishedBlock('npm install', 1, ERESOLVE), '/app');
+    expect(await memory.observe(finishedBlock('npm install --force', 0), '/other')).toBeNull();
+    expect(await memory.observe(finishedBlock('npm install', 0), '/app')).toBeNull();
+
+    const now = Date.now();
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now);
+    await memory.observe(finishedBlock('npm install', 1, ERESOLVE), '/app');
+    spy.mockReturnValue(now + 5000);
+    expect(await memory.observe(finishedBlock('npm install --force', 0), '/app')).toBeNull();
+    spy.mockRestore();
+
+    expect(await memory.getFixes('npm install', ERESOLVE)).toEqual([]);
+  });
+
+  it('should rank learned fixes above the generic recovery actions', async () => {
+    const memory = new FixMemory({ persistencePath });
+    for (let i = 0; i < 2; i++) {
+      await memory.observe(finishedBlock('npm install', 1, ERESOLVE), '/app');
+      await memory.observe(finishedBlock('npm install --legacy-peer-deps', 0), '/app');
+    }
+    await memory.observe(finishedBlock('npm install', 1, ERESOLVE), '/app');
+    await memory.observe(finishedBlock('npm install --force', 0), '/app');
+
+    const handler = new ErrorHandler({ fixMemory: memory });
+    handler.on('error', () => undefined);
+    handler.setAutoRecovery(false);
+    const { analysis, recoveryActions } = await handler.analyzeBlockError(finishedBlock('npm install', 1, ERESOLVE));
+
+    expect(analysis.learnedFixes!.map(fix => [fix.command, fix.count])).toEqual([
+      ['npm install --legacy-peer-deps', 2],
+      ['npm install --force', 1],
+    ]);
+    expect(analysis.suggestedRecovery[0]).toBe('Run `npm install --legacy-peer-deps`, which fixed this before');
+    expect(recoveryActions.slice(0, 2).map(action => action.command)).toEqual([
+      'npm install --legacy-peer-deps',
+      'npm install --force',
+    ]);
+    expect(recoveryActions.length).toBeGreaterThan(2);
+  });
+});
@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as pty from 'node-pty';
+import { IntegratedTerminal } from '../src/integrated-terminal';
+import { EnvironmentTrustStore } from '../src/environment-trust';
+import { findProjectEnvironment } from '../src/project-environment';
+import { DirectoryEnvironmentStatus } from '../src/types';
+
+describe('IntegratedTerminal', () => {
+  let tempDir: string;
+  let terminal: IntegratedTerminal;
+
+  // Output of the mocked PTY, as the shell with its integration would write it
+  const shellOutput = () => {
+    const ptyProcess = (pty.spawn as jest.Mock).mock.results.slice(-1)[0].value;
+    const onData = ptyProcess.onData as jest.Mock;
+    return { ptyProcess, emit: onData.mock.calls[onData.mock.calls.length - 1][0] as (data: string) => void };
+  };
+  const prompt = '\x1b]133;A\x07$ \x1b]133;B\x07';
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'portal-integrated-')));
+  });
+
+  afterEach(async () => {
+    await terminal?.destroy();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should load the project environment when the shell changes directory and pass it to the shell', async () => {
+    const project = path.join(tempDir, 'project');
+    fs.mkdirSync(path.join(project, '.portal'), { recursive: true });
+    fs.writeFileSync(path.join(project, '.portal', 'env'), "API_URL=http://localhost:4000\nGREETING=it's me\n");
+    const environmentTrust = new EnvironmentTrustStore({ persistencePath: path.join(tempDir, 'trust.json') });
+    await environmentTrust.setDecision(project, (await findProjectEnvironment(project))!.hash, 'trusted');
+
+    terminal = new IntegratedTerminal({
+      cwd: tempDir,
+      aiEnabled: false,
+      mcpEnabled: false,
+      performanceMonitoring: false,
+      environmentTrust,
+    });
+    const nextStatus = () => new Promise<DirectoryEnvironmentStatus | null>(resolve => terminal.onDirectoryEnvironmentChange(resolve));
+    terminal.start();
+    const { ptyProcess, emit } = shellOutput();
+    const write = ptyProcess.write as jest.Mock;
+    emit(prompt);
+    write.mockClear();
+
+    // A cd typed into the shell, not sent through executeCommand()
+    let status = nextStatus();
+    emit(`\x1b]7;file://host${project}\x07${prompt}`);
+    expect(await status).toMatchObject({ directory: project, state: 'active' });
+    expect(terminal.getTerminalContext().workingDirectory).toBe(project);
+
+    expect(write).toHaveBeenCalledTimes(1);
+    const script = write.mock.calls[0][0].match(/^ source '(.+)'\r$/)[1];
+    expect(fs.readFileSync(script, 'utf8').split('\n')).toEqual([
+      "export API_URL='http://localhost:4000'",
+      "export GREETING='it'\\''s me'",
+      '',
+    ]);
+    expect(fs.statSync(script).mode & 0o777).toBe(0o600);
+
+    // Sourcing it isn't recorded as a command
+    emit(` source '${script}'\r\n\x1b]633;E;source\x07\x1b]133;C\x07\x1b]133;D;0\x07${prompt}`);
+    expect(fs.existsSync(script)).toBe(false);
+    expect(terminal.getSession().blocks).toHaveLength(0);
+
+    status = nextStatus();
+    emit(`\x1b]7;file://host${tempDir}\x07${prompt}`);
+    expect(await status).toBeNull();
+
+    const unset = write.mock.calls[1][0].match(/^ source '(.+)'\r$/)[1];
+    expect(fs.readFileSync(unset, 'utf8')).toBe('unset API_URL\nunset GREETING\n');
+  });
+
+  it('should wait for the next prompt to pass changes made while the user is typing', async () => {
+    terminal = new IntegratedTerminal({ cwd: tempDir, aiEnabled: false, mcpEnabled: false, performanceMonitoring: false });
+    terminal.start();
+    const { ptyProcess, emit } = shellOutput();
+    const write = ptyProcess.write as jest.Mock;
+    emit(prompt);
+
+    await terminal.write('git sta');
+    write.mockClear();
+    terminal.getEnvironment().set('API_URL', 'http://localhost:4000');
+    expect(write).not.toHaveBeenCalled();
+
+    emit(`tus\r\n\x1b]633;E;git status\x07\x1b]133;C\x07\x1b]133;D;0\x07${prompt}`);
+    expect(write).toHaveBeenCalledTimes(1);
+    const script = write.mock.calls[0][0].match(/^ source '(.+)'\r$/)[1];
+    expect(fs.readFileSync(script, 'utf8')).toBe("export API_URL='http://localhost:4000'\n");
+  });
+});
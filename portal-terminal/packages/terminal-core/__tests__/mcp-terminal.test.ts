@@ -0,0 +1,32 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MCPTerminal } from '../src/mcp-terminal';
+import { AuditLog } from '../src/audit-log';
+
+describe('MCPTerminal', () => {
+  let tempDir: string;
+  let terminal: MCPTerminal;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'portal-mcp-'));
+  });
+
+  afterEach(async () => {
+    await terminal?.destroy();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should record its commands as coming from an MCP tool', async () => {
+    const auditLog = new AuditLog({ persistencePath: path.join(tempDir, 'audit.jsonl'), user: 'dev' });
+    terminal = new MCPTerminal({ cwd: tempDir, mcpEnabled: false, auditLog });
+    await terminal.start();
+
+    const block = await terminal.executeCommand('echo from-mcp', { source: 'typed' });
+    await block.waitForExit();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(block.source).toBe('mcp-tool');
+    expect(auditLog.query().map(entry => [entry.event, entry.source])).toEqual([['start', 'mcp-tool'], ['exit', 'mcp-tool']]);
+  });
+});
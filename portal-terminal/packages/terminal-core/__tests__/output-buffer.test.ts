@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OutputBuffer } from '../src/output-buffer';
+import { CommandBlock } from '../src/command-block';
+
+describe('OutputBuffer', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'portal-output-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeLines = (buffer: OutputBuffer, count: number) => {
+    for (let i = 0; i < count; i++) {
+      buffer.append(`line ${i}\n`, 'stdout');
+    }
+  };
+
+  it('should keep small output in memory', async () => {
+    const buffer = new OutputBuffer('small', { spillDirectory: tempDir });
+    buffer.append('one\ntwo', 'stdout');
+
+    expect(buffer.getText()).toBe('one\ntwo');
+    expect(buffer.getInfo()).toEqual({ totalBytes: 7, spilledBytes: 0, lineCount: 2, windowStartLine: 0 });
+    expect(await buffer.getLines(1, 5)).toEqual(['two']);
+    expect(fs.readdirSync(tempDir)).toHaveLength(0);
+  });
+
+  it('should spill the oldest output to disk once over the memory limit', async () => {
+    const buffer = new OutputBuffer('spill', { maxMemoryBytes: 1000, spillDirectory: tempDir });
+    writeLines(buffer, 500);
+
+    const info = buffer.getInfo();
+    expect(info.lineCount).toBe(500);
+    expect(info.spilledBytes).toBeGreaterThan(0);
+    expect(Buffer.byteLength(buffer.getText())).toBeLessThanOrEqual(1000);
+    expect(buffer.getText().endsWith('line 499\n')).toBe(true);
+    expect(buffer.getChunks()[0].offset).toBe(info.spilledBytes);
+
+    await buffer.flush();
+    const [file] = fs.readdirSync(tempDir);
+    expect(fs.statSync(path.join(tempDir, file)).size).toBe(info.spilledBytes);
+  });
+
+  it('should page lines from disk and memory alike', async () => {
+    const buffer = new OutputBuffer('paging', { maxMemoryBytes: 1000, spillDirectory: tempDir });
+    writeLines(buffer, 3000);
+    const { windowStartLine } = buffer.getInfo();
+
+    expect(await buffer.getLines(0, 2)).toEqual(['line 0', 'line 1']);
+    expect(await buffer.getLines(1500, 1502)).toEqual(['line 1500', 'line 1501']);
+    expect(await buffer.getLines(windowStartLine - 1, windowStartLine + 1)).toEqual([
+      `line ${windowStartLine - 1}`,
+      `line ${windowStartLine}`,
+    ]);
+    expect(await buffer.getLines(2998, 4000)).toEqual(['line 2998', 'line 2999']);
+  });
+
+  it('should join a line split across the spill boundary', async () => {
+    const buffer = new OutputBuffer('split', { maxMemoryBytes: 10, spillDirectory: tempDir });
+    buffer.append('hello ', 'stdout');
+    buffer.append('wor', 'stdout');
+    buffer.append('ld\nnext', 'stdout');
+
+    expect(buffer.getInfo().spilledBytes).toBeGreaterThan(0);
+    expect(await buffer.getLines(0, 2)).toEqual(['hello world', 'next']);
+  });
+
+  it('should delete the spill file when cleared', async () => {
+    const buffer = new OutputBuffer('clear', { maxMemoryBytes: 100, spillDirectory: tempDir });
+    writeLines(buffer, 100);
+    await buffer.flush();
+    expect(fs.readdirSync(tempDir)).toHaveLength(1);
+
+    buffer.clear();
+    await buffer.flush();
+    expect(fs.readdirSync(tempDir)).toHaveLength(0);
+    expect(buffer.getInfo()).toEqual({ totalBytes: 0, spilledBytes: 0, lineCount: 0, windowStartLine: 0 });
+  });
+
+  it('should not spill into a directory others can use or through a planted link', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const shared = path.join(tempDir, 'shared');
+    fs.mkdirSync(shared);
+    fs.chmodSync(shared, 0o777);
+    const refused = new OutputBuffer('shared', { maxMemoryBytes: 100, spillDirectory: shared });
+    writeLines(refused, 100);
+    await refused.flush();
+    expect(fs.readdirSync(shared)).toEqual([]);
+    expect(String(warn.mock.calls[0][1])).toContain('can be written by other users');
+
+    const victim = path.join(tempDir, 'victim');
+    fs.writeFileSync(victim, 'mine\n');
+    const planted = path.join(tempDir, 'planted');
+    fs.mkdirSync(planted, { mode: 0o700 });
+    fs.symlinkSync(victim, path.join(planted, `${process.pid}-link.log`));
+    const linked = new OutputBuffer('link', { maxMemoryBytes: 100, spillDirectory: planted });
+    writeLines(linked, 100);
+    await linked.flush();
+    expect(fs.readFileSync(victim, 'utf8')).toBe('mine\n');
+    warn.mockRestore();
+  });
+
+  it('should mark a block whose output spilled to disk', async () => {
+    const block = new CommandBlock('yes | head -n 2000', { maxOutputBytes: 1024 });
+    expect(block.getTruncationMarker()).toBeNull();
+
+    for (let i = 0; i < 2000; i++) {
+      block.addOutput('y\n');
+    }
+
+    expect(block.getTruncationMarker()).toMatch(/^\[output truncated, [\d.]+ KB on disk\]$/);
+    expect(block.toJSON().outputInfo).toEqual(expect.objectContaining({ totalBytes: 4000, lineCount: 2000 }));
+    expect(await block.getOutputLines(0, 1)).toEqual(['y']);
+    block.dispose();
+  });
+});
@@ -0,0 +1,93 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EnvironmentManager } from '../src/environment-manager';
+import { EnvironmentTrustStore } from '../src/environment-trust';
+import { findProjectEnvironment, parseProjectEnvironment, resolveTool } from '../src/project-environment';
+
+describe('Project environments', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'portal-project-env-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should parse variables and directives', () => {
+    expect(parseProjectEnvironment([
+      'API_URL=http://localhost:4000',
+      'path_add node_modules/.bin',
+      'use node v20',
+      'use python 3.12',
+      'note Deploys go through `make release`',
+      'use ruby 3',
+      '# comment',
+    ].join('\n'), '/work/app')).toEqual({
+      variables: { API_URL: 'http://localhost:4000' },
+      path: ['/work/app/node_modules/.bin'],
+      tools: { node: '20', python: '3.12' },
+      notes: ['Deploys go through `make release`'],
+      problems: ['Line 6 not understood: use ruby 3'],
+    });
+  });
+
+  it('should find the nearest .portal/env without looking above home', async () => {
+    const project = path.join(tempDir, 'home', 'project');
+    fs.mkdirSync(path.join(project, '.portal'), { recursive: true });
+    fs.mkdirSync(path.join(project, 'src', 'lib'), { recursive: true });
+    fs.writeFileSync(path.join(project, '.portal', 'env'), 'MODE=dev\n');
+    fs.mkdirSync(path.join(tempDir, '.portal'));
+    fs.writeFileSync(path.join(tempDir, '.portal', 'env'), 'MODE=outside\n');
+
+    const found = await findProjectEnvironment(path.join(project, 'src', 'lib'), { home: path.join(tempDir, 'home') });
+    expect(found).toMatchObject({ directory: project, variables: { MODE: 'dev' } });
+    expect(found?.hash).toMatch(/^[0-9a-f]{64}$/);
+
+    expect(await findProjectEnvironment(path.join(tempDir, 'home'), { home: path.join(tempDir, 'home') })).toBeNull();
+  });
+
+  it('should pick the newest installed version matching the request', async () => {
+    for (const version of ['v18.19.0', 'v20.9.0', 'v20.11.1', 'v200.0.0']) {
+      fs.mkdirSync(path.join(tempDir, 'nvm', 'versions', 'node', version, 'bin'), { recursive: true });
+    }
+    const env = { HOME: tempDir, NVM_DIR: path.join(tempDir, 'nvm') };
+
+    expect(await resolveTool('node', '20', env)).toEqual({
+      version: '20.11.1',
+      bin: path.join(tempDir, 'nvm', 'versions', 'node', 'v20.11.1', 'bin'),
+    });
+    expect(await resolveTool('node', '22', env)).toBeNull();
+    expect(await resolveTool('python', '3', env)).toBeNull();
+  });
+
+  it('should put project directories in front of PATH', () => {
+    const environment = new EnvironmentManager({ base: { PATH: '/usr/bin', MODE: 'base' } });
+
+    environment.setProjectEnvironment({ directory: tempDir, variables: { MODE: 'project' }, path: ['/project/bin'] });
+    expect(environment.getEnvironment()).toEqual({
+      PATH: ['/project/bin', '/usr/bin'].join(path.delimiter),
+      MODE: 'project',
+    });
+
+    environment.setProjectEnvironment(null);
+    expect(environment.getEnvironment()).toEqual({ PATH: '/usr/bin', MODE: 'base' });
+  });
+
+  it('should only keep trust for the file it was given for', async () => {
+    const persistencePath = path.join(tempDir, 'trusted-environments.json');
+    const store = new EnvironmentTrustStore({ persistencePath });
+    await store.setDecision('/work/app', 'hash-1', 'trusted');
+
+    const reloaded = new EnvironmentTrustStore({ persistencePath });
+    expect(await reloaded.getDecision('/work/app', 'hash-1')).toBe('trusted');
+    expect(await reloaded.getDecision('/work/app', 'hash-2')).toBeUndefined();
+    expect(await reloaded.hasChanged('/work/app', 'hash-2')).toBe(true);
+    expect(await reloaded.hasChanged('/work/other', 'hash-1')).toBe(false);
+
+    expect(await reloaded.revoke('/work/app')).toBe(true);
+    expect(await reloaded.getDecision('/work/app', 'hash-1')).toBeUndefined();
+  });
+});
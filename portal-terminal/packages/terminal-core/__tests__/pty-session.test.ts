@@ -0,0 +1,97 @@
+import { PtySession } from '../src/pty-session';
+import * as pty from 'node-pty';
+
+describe('PtySession', () => {
+  let mockPty: {
+    pid: number;
+    onData: jest.Mock;
+    onExit: jest.Mock;
+    write: jest.Mock;
+    resize: jest.Mock;
+    kill: jest.Mock;
+  };
+
+  beforeEach(() => {
+    mockPty = {
+      pid: 4242,
+      onData: jest.fn(),
+      onExit: jest.fn(),
+      write: jest.fn(),
+      resize: jest.fn(),
+      kill: jest.fn(),
+    };
+    (pty.spawn as jest.Mock).mockReturnValue(mockPty);
+    (pty.spawn as jest.Mock).mockClear();
+  });
+
+  it('should spawn a single long-lived shell with the requested size and cwd', () => {
+    const session = new PtySession({
+      shell: '/bin/bash',
+      cwd: '/tmp',
+      cols: 120,
+      rows: 40,
+      shellIntegration: false,
+    });
+    session.start();
+    session.start();
+
+    expect(pty.spawn).toHaveBeenCalledTimes(1);
+    expect(pty.spawn).toHaveBeenCalledWith('/bin/bash', ['--login'], expect.objectContaining({
+      cwd: '/tmp',
+      cols: 120,
+      rows: 40,
+      name: 'xterm-256color',
+    }));
+    expect(session.isRunning()).toBe(true);
+    expect(session.getPid()).toBe(4242);
+  });
+
+  it('should load shell integration by default', () => {
+    const session = new PtySession({ shell: '/bin/bash' });
+    session.start();
+
+    const [, args, options] = (pty.spawn as jest.Mock).mock.calls[0];
+    expect(args).toContain('--rcfile');
+    expect(options.env.PORTAL_SHELL_INTEGRATION).toBe('1');
+  });
+
+  it('should forward raw keystrokes to the PTY', () => {
+    const session = new PtySession({ shell: '/bin/bash' });
+    session.start();
+    session.write('cd /tmp\r');
+
+    expect(mockPty.write).toHaveBeenCalledWith('cd /tmp\r');
+  });
+
+  it('should throw when writing before start', () => {
+    const session = new PtySession({ shell: '/bin/bash' });
+    expect(() => session.write('ls\r')).toThrow('PTY session not running');
+  });
+
+  it('should resize the PTY and ignore invalid dimensions', () => {
+    const session = new PtySession({ shell: '/bin/bash' });
+    session.start();
+    session.resize(100, 30);
+    session.resize(0, 0);
+
+    expect(mockPty.resize).toHaveBeenCalledTimes(1);
+    expect(mockPty.resize).toHaveBeenCalledWith(100, 30);
+    expect(session.getDimensions()).toEqual({ cols: 100, rows: 30 });
+  });
+
+  it('should relay data and exit events', () => {
+    const session = new PtySession({ shell: '/bin/bash' });
+    const onData = jest.fn();
+    const onExit = jest.fn();
+    session.onData(onData);
+    session.onExit(onExit);
+    session.start();
+
+    mockPty.onData.mock.calls[0][0]('prompt$ ');
+    mockPty.onExit.mock.calls[0][0]({ exitCode: 0 });
+
+    expect(onData).toHaveBeenCalledWith('prompt$ ');
+    expect(onExit).toHaveBeenCalledWith(0, undefined);
+    expect(session.isRunning()).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PerformanceMonitor } from '../src/performance-monitor';
+import { ResourceSampler } from '../src/resource-sampler';
+
+// A /proc/<pid>/stat line with the fields the sampler reads filled in
+function statLine(pid: number, ppid: number, ticks: number, rssPages: number, comm: string = 'node'): string {
+  const fields = ['S', ppid, 0, 0, 0, 0, 0, 0, 0, 0, 0, ticks, 0, 0, 0, 20, 0, 1, 0, 12345, 0, rssPages];
+  return `${pid} (${comm}) ${fields.join(' ')}\n`;
+}
+
+describe('ResourceSampler', () => {
+  let procRoot: string;
+
+  const writeStat = (pid: number, ppid: number, ticks: number, rssPages: number, comm?: string) => {
+    fs.mkdirSync(path.join(procRoot, String(pid)), { recursive: true });
+    fs.writeFileSync(path.join(procRoot, String(pid), 'stat'), statLine(pid, ppid, ticks, rssPages, comm));
+  };
+
+  beforeEach(() => {
+    procRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'portal-proc-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(procRoot, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should charge untracked descendants to their nearest tracked ancestor', async () => {
+    const sampler = new ResourceSampler({ procRoot, diskPath: procRoot });
+    sampler.addProcessSource(() => [{ pid: 200, role: 'block', label: 'npm test' }]);
+
+    writeStat(process.pid, 1, 100, 1000);
+    writeStat(200, process.pid, 0, 500);
+    // Spawned by the block's command, with a comm that looks like the end of one
+    writeStat(201, 200, 0, 250, 'jest (worker) 1');
+    writeStat(999, 1, 0, 10000);
+
+    const now = Date.now();
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now);
+    await sampler.sample();
+
+    writeStat(process.pid, 1, 150, 1000);
+    writeStat(200, process.pid, 100, 500);
+    writeStat(201, 200, 100, 250, 'jest (worker) 1');
+    spy.mockReturnValue(now + 1000);
+    const sample = await sampler.sample();
+
+    const main = sample.processes.find(usage => usage.role === 'main')!;
+    const block = sample.processes.find(usage => usage.role === 'block')!;
+    expect(main).toMatchObject({ pid: process.pid, cpuUsage: 50, memoryUsage: 1000 * 4096, processCount: 1 });
+    expect(block).toMatchObject({ pid: 200, label: 'npm test', cpuUsage: 200, memoryUsage: 750 * 4096, processCount: 2 });
+    expect(sample.memoryUsage).toBe(1750 * 4096);
+    expect(sample.cpuUsage).toBeCloseTo(250 / os.cpus().length);
+    expect(sample.diskUsage).toBeGreaterThan(0);
+  });
+
+  it('should fall back to the current process without a /proc', async () => {
+    const sampler = new ResourceSampler({ procRoot: path.join(procRoot, 'missing'), diskPath: procRoot });
+    const sample = await sampler.sample();
+
+    expect(sample.processes).toEqual([expect.objectContaining({ pid: process.pid, role: 'main', processCount: 1 })]);
+    expect(sample.memoryUsage).toBeGreaterThan(0);
+  });
+
+  it('should take one sample for monitors sharing the sampler', async () => {
+    const sampler = new ResourceSampler({ procRoot, diskPath: procRoot });
+    writeStat(process.pid, 1, 0, 100);
+    const monitors = [1, 2, 3].map(() => new PerformanceMonitor({ sampler }));
+
+    const [first, second] = await Promise.all([sampler.sample(), sampler.sample()]);
+    expect(second).toBe(first);
+    expect(await sampler.getRecent(5000)).toBe(first);
+
+    await Promise.all(monitors.map(monitor => monitor.performHealthCheck()));
+    expect(sampler.getSeries()).toHaveLength(1);
+    expect(monitors.every(monitor => monitor.getMetrics().systemResources.memoryUsage === 100 * 4096)).toBe(true);
+    monitors.forEach(monitor => monitor.destroy());
+  });
+
+  it('should average older samples into coarser points', async () => {
+    const sampler = new ResourceSampler({ procRoot, diskPath: procRoot });
+    writeStat(process.pid, 1, 0, 100);
+
+    const start = Date.UTC(2026, 0, 1);
+    const spy = jest.spyOn(Date, 'now');
+    // One sample every 10 seconds for 20 minutes
+    for (let i = 0; i < 120; i++) {
+      spy.mockReturnValue(start + i * 10 * 1000);
+      await sampler.sample();
+    }
+
+    const series = sampler.getSeries();
+    const now = start + 119 * 10 * 1000;
+    const raw = series.filter(point => point.samples === 1 && now - point.timestamp <= 5 * 60 * 1000);
+    const averaged = series.filter(point => now - point.timestamp > 5 * 60 * 1000);
+
+    expect(raw).toHaveLength(31);
+    expect(averaged.every(point => point.timestamp % (60 * 1000) === 0)).toBe(true);
+    expect(averaged.reduce((sum, point) => sum + point.samples, 0)).toBe(120 - raw.length);
+    expect(averaged.every(point => point.memoryUsage === 100 * 4096)).toBe(true);
+    expect(sampler.getSeries(now - 60 * 1000)).toHaveLength(7);
+  });
+
+  it('should report sampled resources in the health check', async () => {
+    const sampler = new ResourceSampler({ procRoot, diskPath: procRoot });
+    writeStat(process.pid, 1, 0, 600 * 1024);
+
+    const monitor = new PerformanceMonitor({ sampler });
+    const health = await monitor.performHealthCheck();
+
+    expect(monitor.getMetrics().systemResources.memoryUsage).toBe(600 * 1024 * 4096);
+    expect(health.components.system).toBe('critical');
+    expect(health.issues).toContain('High memory usage: 2400MB');
+    expect(monitor.getResourceHistory()).toHaveLength(1);
+    monitor.destroy();
+  });
+});
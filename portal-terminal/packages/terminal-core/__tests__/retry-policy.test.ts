@@ -0,0 +1,82 @@
+import { CommandExecutor } from '../src/command-executor';
+import {
+  DEFAULT_RETRY_POLICY,
+  computeRetryDelay,
+  matchRetryRule,
+  parseRetryCommand,
+} from '../src/retry-policy';
+
+describe('retry policy', () => {
+  it('should parse the portal retry prefix', () => {
+    expect(parseRetryCommand('portal retry 3 -- curl -fsS https://example.com')).toEqual({
+      command: 'curl -fsS https://example.com',
+      maxRetries: 3,
+    });
+    expect(parseRetryCommand('curl https://example.com')).toBeNull();
+    expect(parseRetryCommand('portal retry -- curl https://example.com')).toBeNull();
+  });
+
+  it('should only enable retries for commands matching a rule', () => {
+    const rules = [
+      { pattern: 'npm install', policy: { maxRetries: 5 } },
+      { pattern: /^(curl|wget)\b/ },
+    ];
+
+    expect(matchRetryRule('npm install lodash', rules)).toEqual({ ...DEFAULT_RETRY_POLICY, maxRetries: 5 });
+    expect(matchRetryRule('wget https://example.com', rules)).toEqual(DEFAULT_RETRY_POLICY);
+    expect(matchRetryRule('git push', rules)).toBeNull();
+  });
+
+  it('should back off exponentially up to maxDelay with jitter taken off each delay', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelay: 100, maxDelay: 1000, jitter: 0.5 };
+
+    expect(computeRetryDelay(policy, 1, () => 0)).toBe(100);
+    expect(computeRetryDelay(policy, 3, () => 0)).toBe(400);
+    expect(computeRetryDelay(policy, 10, () => 0)).toBe(1000);
+    expect(computeRetryDelay(policy, 3, () => 1)).toBe(200);
+  });
+
+  describe('CommandExecutor', () => {
+    const fastRetry = { maxRetries: 2, baseDelay: 1, jitter: 0 };
+
+    it('should not retry failing commands by default', async () => {
+      const executor = new CommandExecutor();
+      const block = await executor.executeCommand('echo "Could not resolve host" >&2; exit 6');
+
+      expect(block.exitCode).toBe(6);
+      expect(block.attempts).toHaveLength(0);
+    });
+
+    it('should retry transient failures and record each attempt', async () => {
+      const executor = new CommandExecutor({ retryRules: [{ pattern: 'echo', policy: fastRetry }] });
+      const block = await executor.executeCommand('echo "curl: (6) Could not resolve host" >&2; exit 6');
+
+      expect(block.exitCode).toBe(6);
+      expect(block.attempts).toHaveLength(3);
+      expect(block.attempts.map(attempt => attempt.errorType)).toEqual(['network_error', 'network_error', 'network_error']);
+      expect(block.attempts[0].retryDelay).toBe(1);
+      expect(block.attempts[2].retryDelay).toBeUndefined();
+      expect(block.getAttemptOutput(block.attempts[1])).toContain('Could not resolve host');
+    });
+
+    it('should stop after the first attempt that succeeds', async () => {
+      const executor = new CommandExecutor();
+      const block = await executor.executeCommand('echo ok', undefined, { retry: fastRetry });
+
+      expect(block.status).toBe('completed');
+      expect(block.attempts).toHaveLength(1);
+      expect(block.attempts[0].exitCode).toBe(0);
+    });
+
+    it('should not retry failures that are not transient', async () => {
+      const executor = new CommandExecutor();
+      const block = await executor.executeCommand('echo "rm: cannot remove: Permission denied" >&2; exit 1', undefined, {
+        retry: fastRetry,
+      });
+
+      expect(block.exitCode).toBe(1);
+      expect(block.attempts).toHaveLength(1);
+      expect(block.attempts[0].errorType).toBe('permission_denied');
+    });
+  });
+});
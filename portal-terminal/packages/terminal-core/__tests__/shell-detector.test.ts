@@ -1,5 +1,7 @@
 import { ShellDetector } from '../src/shell-detector';
+import * as fs from 'fs';
 import * as os from 'os';
+import * as path from 'path';
 
 // Mock os module
 jest.mock('os');
@@ -52,4 +54,77 @@ describe('ShellDetector', () => {
       expect(shell.path).toBe('/bin/sh');
     });
   });
-});
\ No newline at end of file
+
+  describe('listShells', () => {
+    let tempDir: string;
+
+    const writeShell = (name: string, versionOutput: string) => {
+      const shellPath = path.join(tempDir, 'bin', name);
+      fs.writeFileSync(shellPath, `#!/bin/sh\necho "${versionOutput}"\n`, { mode: 0o755 });
+      return shellPath;
+    };
+
+    beforeEach(() => {
+      mockOs.platform.mockReturnValue('linux');
+      tempDir = fs.mkdtempSync(path.join(jest.requireActual('os').tmpdir(), 'portal-shells-'));
+      fs.mkdirSync(path.join(tempDir, 'bin'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should list installed shells once each, the default first', async () => {
+      const bash = writeShell('bash', 'GNU bash, version 5.2.21(1)-release');
+      const zsh = writeShell('zsh', 'zsh 5.9 (x86_64-pc-linux-gnu)');
+      writeShell('tmux', 'tmux 3.4');
+      fs.symlinkSync(bash, path.join(tempDir, 'bash-link'));
+      fs.writeFileSync(path.join(tempDir, 'shells'), [
+        '# /etc/shells',
+        bash,
+        path.join(tempDir, 'bash-link'),
+        path.join(tempDir, 'bin', 'tmux'),
+        '/nonexistent/fish',
+      ].join('\n'));
+
+      const shells = await ShellDetector.listShells({
+        shellsFile: path.join(tempDir, 'shells'),
+        env: { PATH: path.join(tempDir, 'bin'), SHELL: zsh, HOME: tempDir },
+      });
+
+      expect(shells.map(shell => [shell.name, shell.path, shell.version, shell.isDefault])).toEqual([
+        ['zsh', zsh, '5.9', true],
+        ['bash', bash, '5.2.21', false],
+      ]);
+      expect(shells[1].capabilities).toEqual({
+        shellIntegration: true,
+        args: ['--login'],
+        rcFile: path.join(tempDir, '.bashrc'),
+        historyFile: path.join(tempDir, '.bash_history'),
+        historyFormat: 'bash',
+      });
+    });
+
+    it('should describe where each shell keeps its config and history', () => {
+      expect(ShellDetector.getCapabilities('zsh', { HOME: '/home/dev', ZDOTDIR: '/home/dev/.zsh' })).toMatchObject({
+        rcFile: '/home/dev/.zsh/.zshrc',
+        historyFile: '/home/dev/.zsh/.zsh_history',
+        historyFormat: 'zsh',
+      });
+      expect(ShellDetector.getCapabilities('fish', { HOME: '/home/dev' })).toMatchObject({
+        shellIntegration: true,
+        historyFile: '/home/dev/.local/share/fish/fish_history',
+        historyFormat: 'fish',
+      });
+      expect(ShellDetector.getCapabilities('ksh', { HOME: '/home/dev' })).toMatchObject({
+        shellIntegration: false,
+        historyFormat: 'none',
+      });
+      expect(ShellDetector.forShell('/opt/homebrew/bin/fish', { HOME: '/home/dev' })).toMatchObject({
+        name: 'fish',
+        path: '/opt/homebrew/bin/fish',
+        args: ['--login'],
+      });
+    });
+  });
+});
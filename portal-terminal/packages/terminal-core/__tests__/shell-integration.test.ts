@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as pty from 'node-pty';
+import { ShellIntegrationParser } from '../src/shell-integration-parser';
+import { ShellDetector } from '../src/shell-detector';
+import { TerminalManager } from '../src/terminal-manager';
+import { CommandBlock } from '../src/command-block';
+
+describe('ShellIntegrationParser', () => {
+  let parser: ShellIntegrationParser;
+
+  beforeEach(() => {
+    parser = new ShellIntegrationParser();
+  });
+
+  it('should strip markers and report command lifecycle events', () => {
+    const events: string[] = [];
+    parser.on('prompt-start', () => events.push('A'));
+    parser.on('command-start', () => events.push('B'));
+    parser.on('command-executed', () => events.push('C'));
+    parser.on('command-finished', (code) => events.push(`D:${code}`));
+
+    const output = parser.process('\x1b]133;A\x07$ \x1b]133;B\x07ls\r\n\x1b]133;C\x07file.txt\r\n\x1b]133;D;2\x07');
+
+    expect(output).toBe('$ ls\r\nfile.txt\r\n');
+    expect(events).toEqual(['A', 'B', 'C', 'D:2']);
+  });
+
+  it('should unescape the reported command line', () => {
+    const commandLine = jest.fn();
+    parser.on('command-line', commandLine);
+
+    parser.process('\x1b]633;E;cd /usr\\x3b echo "a\\\\b"\x07');
+
+    expect(commandLine).toHaveBeenCalledWith('cd /usr; echo "a\\b"');
+  });
+
+  it('should report cwd changes from OSC 7', () => {
+    const cwdChange = jest.fn();
+    parser.on('cwd-change', cwdChange);
+
+    parser.process('\x1b]7;file://host/home/user/my%20project\x1b\\');
+
+    expect(cwdChange).toHaveBeenCalledWith('/home/user/my project');
+  });
+
+  it('should handle sequences split across chunks', () => {
+    const finished = jest.fn();
+    parser.on('command-finished', finished);
+
+    expect(parser.process('done\x1b')).toBe('done');
+    expect(parser.process(']133;D;')).toBe('');
+    expect(parser.process('0\x07next')).toBe('next');
+    expect(finished).toHaveBeenCalledWith(0);
+  });
+
+  it('should pass through unrelated OSC sequences', () => {
+    const title = '\x1b]0;my title\x07';
+    expect(parser.process(title)).toBe(title);
+  });
+});
+
+describe('ShellDetector.withShellIntegration', () => {
+  let integrationDir: string;
+
+  beforeEach(() => {
+    integrationDir = fs.mkdtempSync(path.join(os.tmpdir(), 'portal-si-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(integrationDir, { recursive: true, force: true });
+  });
+
+  it('should inject an rcfile for bash and keep login semantics', () => {
+    const shell = ShellDetector.withShellIntegration(
+      { name: 'bash', path: '/bin/bash', args: ['--login'], env: {} },
+      integrationDir
+    );
+
+    expect(shell.args).toEqual(['--rcfile', path.join(integrationDir, 'bash', 'portal.bash')]);
+    expect(shell.env.PORTAL_LOGIN_SHELL).toBe('1');
+    expect(fs.existsSync(path.join(integrationDir, 'bash', 'portal.bash'))).toBe(true);
+  });
+
+  it('should point ZDOTDIR at the integration directory for zsh', () => {
+    const shell = ShellDetector.withShellIntegration(
+      { name: 'zsh', path: '/bin/zsh', args: ['--login'], env: {} },
+      integrationDir
+    );
+
+    expect(shell.args).toEqual(['--login']);
+    expect(shell.env.ZDOTDIR).toBe(path.join(integrationDir, 'zsh'));
+    expect(shell.env.PORTAL_USER_ZDOTDIR).toBeDefined();
+    expect(fs.existsSync(path.join(integrationDir, 'zsh', '.zshrc'))).toBe(true);
+  });
+
+  it('should source the integration script for fish', () => {
+    const shell = ShellDetector.withShellIntegration(
+      { name: 'fish', path: '/usr/bin/fish', args: [], env: {} },
+      integrationDir
+    );
+
+    expect(shell.args[0]).toBe('--init-command');
+    expect(shell.args[1]).toContain(path.join(integrationDir, 'fish', 'portal.fish'));
+  });
+
+  it('should leave unsupported shells untouched', () => {
+    const original = { name: 'sh', path: '/bin/sh', args: [], env: {} };
+    expect(ShellDetector.withShellIntegration(original, integrationDir)).toBe(original);
+  });
+
+  it('should keep the scripts private and refuse a directory others can write to', () => {
+    const bash = { name: 'bash', path: '/bin/bash', args: [], env: {} };
+    ShellDetector.withShellIntegration(bash, integrationDir);
+    expect(fs.statSync(path.join(integrationDir, 'bash')).mode & 0o777).toBe(0o700);
+    expect(fs.statSync(path.join(integrationDir, 'bash', 'portal.bash')).mode & 0o777).toBe(0o600);
+
+    const shared = path.join(integrationDir, 'shared');
+    fs.mkdirSync(shared);
+    fs.chmodSync(shared, 0o777);
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(ShellDetector.withShellIntegration(bash, shared)).toBe(bash);
+    expect(fs.readdirSync(shared)).toEqual([]);
+    expect(String(warn.mock.calls[0][1])).toContain('can be written by other users');
+    warn.mockRestore();
+  });
+});
+
+describe('TerminalManager shell integration', () => {
+  it('should create and complete blocks from the PTY stream', () => {
+    const mockPty = {
+      pid: 1,
+      onData: jest.fn(),
+      onExit: jest.fn(),
+      write: jest.fn(),
+      resize: jest.fn(),
+      kill: jest.fn(),
+    };
+    (pty.spawn as jest.Mock).mockReturnValueOnce(mockPty);
+
+    const manager = new TerminalManager({ shell: '/bin/bash', cwd: '/tmp', shellIntegration: false });
+    const completed: CommandBlock[] = [];
+    manager.onCommandComplete(block => completed.push(block));
+    manager.start();
+
+    const emitData = mockPty.onData.mock.calls[0][0];
+    emitData('\x1b]7;file://host/srv/app\x07\x1b]133;A\x07$ \x1b]133;B\x07');
+    emitData('\x1b]633;E;npm test\x07\x1b]133;C\x07FAIL src/a.test.ts\r\n');
+    emitData('\x1b]133;D;1\x07\x1b]7;file://host/srv/app\x07');
+
+    expect(completed).toHaveLength(1);
+    expect(completed[0].command).toBe('npm test');
+    expect(completed[0].output).toBe('FAIL src/a.test.ts\r\n');
+    expect(completed[0].exitCode).toBe(1);
+    expect(completed[0].status).toBe('error');
+    expect(completed[0].cwd).toBe('/srv/app');
+    expect(completed[0].duration).toBeGreaterThanOrEqual(0);
+    expect(manager.getWorkingDirectory()).toBe('/srv/app');
+
+    manager.destroy();
+  });
+});
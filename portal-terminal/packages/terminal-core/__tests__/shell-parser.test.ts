@@ -0,0 +1,111 @@
+import { ShellParser } from '../src/shell-parser';
+import { CommandValidator } from '../src/command-validator';
+import { ShellSimpleCommand } from '../src/types';
+
+describe('ShellParser', () => {
+  const firstCommand = (line: string) =>
+    ShellParser.parse(line).body.items[0].command.pipelines[0].commands[0] as ShellSimpleCommand;
+
+  it('should parse lists, and-or lists and pipelines', () => {
+    const { body, errors } = ShellParser.parse('make && make test || echo failed | tee log; sleep 5 &');
+
+    expect(errors).toEqual([]);
+    expect(body.items).toHaveLength(2);
+    expect(body.items[0].command.operators).toEqual(['&&', '||']);
+    expect(body.items[0].command.pipelines[2].commands).toHaveLength(2);
+    expect(body.items[1].background).toBe(true);
+  });
+
+  it('should remove quotes and keep expansions as written', () => {
+    const command = firstCommand(`echo 'a b' "c \\"d\\" $HOME" e\\ f $'tab\\t'`);
+
+    expect(command.words.map(word => word.value)).toEqual(['echo', 'a b', 'c "d" $HOME', 'e f', 'tab\t']);
+    expect(command.words[1].raw).toBe("'a b'");
+  });
+
+  it('should parse assignments and redirections', () => {
+    const command = firstCommand('NODE_ENV=production node server.js > out.log 2>&1 < /dev/null');
+
+    expect(command.assignments).toEqual([
+      { name: 'NODE_ENV', value: expect.objectContaining({ value: 'production' }) },
+    ]);
+    expect(command.words.map(word => word.value)).toEqual(['node', 'server.js']);
+    expect(command.redirections.map(r => [r.fd, r.operator, r.target.value])).toEqual([
+      [undefined, '>', 'out.log'],
+      [2, '>&', '1'],
+      [undefined, '<', '/dev/null'],
+    ]);
+  });
+
+  it('should parse substitutions, subshells and here-documents', () => {
+    const script = ShellParser.parse('cat <<EOF | (cd "$(git rev-parse --show-toplevel)" && wc -l)\nhello\nEOF');
+    const [cat, subshell] = script.body.items[0].command.pipelines[0].commands;
+
+    expect(script.errors).toEqual([]);
+    expect((cat as ShellSimpleCommand).redirections[0].body).toBe('hello\n');
+    expect(subshell.type).toBe('subshell');
+    expect(ShellParser.getCommands(script).map(command => command.program)).toEqual(['cat', 'git', 'cd', 'wc']);
+  });
+
+  it('should keep backslashes in Windows paths when escapes are off', () => {
+    const [command] = ShellParser.getCommands('del /s /q C:\\Users\\*', { backslashEscapes: false });
+
+    expect(command.args).toEqual(['/s', '/q', 'C:\\Users\\*']);
+  });
+
+  it('should report syntax errors without throwing', () => {
+    expect(ShellParser.parse('echo "unterminated').errors).toEqual(['Unterminated double quote']);
+    expect(ShellParser.parse('(ls').errors).toEqual(['Missing )']);
+    expect(ShellParser.parse('ls &&').errors).toEqual(['Missing command after &&']);
+  });
+
+  describe('getCommands', () => {
+    it('should resolve programs behind wrappers', () => {
+      const [command] = ShellParser.getCommands('sudo -u root env A=1 nice -n 5 /bin/rm -rf "out dir"');
+
+      expect(command).toMatchObject({
+        program: 'rm',
+        executable: '/bin/rm',
+        args: ['-rf', 'out dir'],
+        wrappers: ['sudo', 'env', 'nice'],
+        elevated: true,
+        assignments: { A: '1' },
+      });
+    });
+
+    it('should follow pipes and sh -c scripts', () => {
+      const commands = ShellParser.getCommands('curl -s https://x.sh | sudo bash; bash -c "cd /tmp && rm -rf x"');
+
+      expect(commands.map(command => command.program)).toEqual(['curl', 'bash', 'bash', 'cd', 'rm']);
+      expect(commands[0].pipedTo).toBe('bash');
+      expect(commands[4]).toMatchObject({ args: ['-rf', 'x'], subshell: true });
+    });
+
+    it('should tell which commands run in a child shell', () => {
+      const subshell = (line: string) =>
+        ShellParser.getCommands(line).find(command => command.program === 'cd')!.subshell;
+
+      expect(subshell('cd src && ls')).toBe(false);
+      expect(subshell('{ cd src; ls; }')).toBe(false);
+      expect(subshell('(cd src && make)')).toBe(true);
+      expect(subshell('cd src | cat')).toBe(true);
+    });
+  });
+});
+
+describe('CommandValidator command inspection', () => {
+  it('should find typos in any command of the line', () => {
+    expect(CommandValidator.validateCommand('cd src && gti status').suggestions).toContain('Did you mean: git?');
+    expect(CommandValidator.validateCommand('echo sl').suggestions).toEqual([]);
+  });
+
+  it('should look at the real executable for interactivity and elevation', () => {
+    expect(CommandValidator.isInteractiveCommand('EDITOR=vim vim notes.txt')).toBe(true);
+    expect(CommandValidator.isInteractiveCommand('git log | less')).toBe(true);
+    expect(CommandValidator.isInteractiveCommand('node server.js')).toBe(false);
+    expect(CommandValidator.isInteractiveCommand('echo vim')).toBe(false);
+
+    expect(CommandValidator.requiresElevation('cd / && sudo ls')).toBe(true);
+    expect(CommandValidator.requiresElevation('echo sudo')).toBe(false);
+  });
+});
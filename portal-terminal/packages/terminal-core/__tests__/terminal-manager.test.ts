@@ -1,4 +1,11 @@
 import { TerminalManager } from '../src/terminal-manager';
+import { TerminalSession } from '../src/terminal-session';
+import { CommandValidator } from '../src/command-validator';
+import { AuditLog } from '../src/audit-log';
+import * as pty from 'node-pty';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 describe('TerminalManager', () => {
   let terminalManager: TerminalManager;
@@ -54,6 +61,402 @@ describe('TerminalManager', () => {
     });
   });
 
+  describe('streaming', () => {
+    it('should report blocks as they start, stream and complete', async () => {
+      const started = jest.fn();
+      const output = jest.fn();
+      const completed = jest.fn();
+      terminalManager.onCommandStart(started);
+      terminalManager.onCommandOutput(output);
+      terminalManager.onCommandComplete(completed);
+      terminalManager.start();
+
+      const block = terminalManager.executeCommand('echo out; echo err 1>&2');
+      expect(started).toHaveBeenCalledWith(block);
+
+      await block.waitForExit();
+
+      const streams = output.mock.calls.map(([, event]) => event.stream);
+      expect(streams).toEqual(expect.arrayContaining(['stdout', 'stderr']));
+      expect(completed).toHaveBeenCalledWith(block);
+      expect(block.status).toBe('completed');
+    });
+
+    it('should report rejected commands as completed blocks', () => {
+      const completed = jest.fn();
+      terminalManager.onCommandComplete(completed);
+      terminalManager.start();
+
+      const block = terminalManager.executeCommand('');
+
+      expect(completed).toHaveBeenCalledWith(block);
+    });
+  });
+
+  describe('sessions', () => {
+    it('should record executed blocks in the terminal session', async () => {
+      terminalManager.start();
+
+      const block = terminalManager.executeCommand('echo saved');
+      await block.waitForExit();
+
+      expect(terminalManager.getSession().getBlock(block.id)).toBe(block);
+    });
+
+    it('should continue a restored session and refuse once started', () => {
+      const restored = new TerminalSession('restored', '/tmp');
+      terminalManager.restoreSession(restored);
+      expect(terminalManager.getSession()).toBe(restored);
+
+      terminalManager.start();
+      expect(() => terminalManager.restoreSession(new TerminalSession('late'))).toThrow();
+    });
+
+    it('should drop the oldest blocks past the limit with their output on disk', async () => {
+      terminalManager = new TerminalManager({ cwd: '/tmp', maxBlocks: 2, maxBlockOutputBytes: 1024 });
+      terminalManager.start();
+      // In the private directory the process made for spill files
+      const spillFile = (block: { id: string }) => {
+        const name = `${process.pid}-${block.id}.log`;
+        const directory = fs.readdirSync(os.tmpdir())
+          .find(entry => entry.startsWith('portal-output-') && fs.existsSync(path.join(os.tmpdir(), entry, name)));
+        return directory ? path.join(os.tmpdir(), directory, name) : null;
+      };
+
+      const first = await terminalManager.executeCommand('seq 1 20000').waitForExit();
+      expect(first.getTruncationMarker()).not.toBeNull();
+      await first.getOutputLines(0, 1);
+      const firstFile = spillFile(first)!;
+      expect(fs.statSync(path.dirname(firstFile)).mode & 0o777).toBe(0o700);
+
+      const second = await terminalManager.executeCommand('echo two').waitForExit();
+      const third = await terminalManager.executeCommand('seq 1 20000').waitForExit();
+      expect(terminalManager.getSession().blocks).toEqual([second, third]);
+      await third.getOutputLines(0, 1);
+      const thirdFile = spillFile(third)!;
+
+      await terminalManager.destroy();
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(fs.existsSync(firstFile)).toBe(false);
+      expect(fs.existsSync(thirdFile)).toBe(false);
+    });
+  });
+
+  describe('job control', () => {
+    const waitForJob = async (blockId: string) => {
+      for (let i = 0; i < 100; i++) {
+        const job = terminalManager.getJobs().find(candidate => candidate.blockId === blockId);
+        if (job) return job;
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      throw new Error(`Job ${blockId} never started`);
+    };
+
+    it('should run a command ending in & as a background job', async () => {
+      terminalManager.start();
+
+      const block = terminalManager.executeCommand('sleep 5 &');
+      expect(block.command).toBe('sleep 5');
+
+      const job = await waitForJob(block.id);
+      expect(job).toEqual(expect.objectContaining({
+        command: 'sleep 5',
+        status: 'running',
+        background: true,
+      }));
+      expect(job.pid).toEqual(expect.any(Number));
+
+      expect(terminalManager.signalBlock(block.id, 'SIGTERM')).toBe(true);
+      await block.waitForExit();
+      expect(block.exitCode).toBe(143);
+      expect(terminalManager.getJobs()).toHaveLength(0);
+    });
+
+    it('should signal the whole process group of a block', async () => {
+      terminalManager.start();
+
+      const block = terminalManager.executeCommand('sleep 30 & wait');
+      await waitForJob(block.id);
+
+      // The block only closes once the backgrounded sleep releases its output too
+      terminalManager.signalBlock(block.id, 'SIGTERM');
+      await block.waitForExit();
+      expect(block.exitCode).toBe(143);
+    });
+
+    it('should stop, resume and background a foreground job', async () => {
+      terminalManager.start();
+
+      const block = terminalManager.executeCommand('sleep 5');
+      await waitForJob(block.id);
+
+      terminalManager.signalBlock(block.id, 'SIGSTOP');
+      expect(terminalManager.getJobs()[0].status).toBe('stopped');
+
+      expect(terminalManager.backgroundBlock(block.id)).toBe(true);
+      expect(terminalManager.getJobs()[0]).toEqual(expect.objectContaining({ status: 'running', background: true }));
+
+      terminalManager.signalBlock(block.id, 'SIGKILL');
+      await block.waitForExit();
+      expect(block.exitCode).toBe(137);
+    });
+
+    it('should cancel a single block with SIGINT and record exit code 130', async () => {
+      terminalManager.start();
+
+      const cancelled = terminalManager.executeCommand('sleep 5');
+      const other = terminalManager.executeCommand('sleep 0.2; echo survived');
+      await waitForJob(cancelled.id);
+
+      expect(terminalManager.cancelBlock(cancelled.id)).toBe(true);
+      await cancelled.waitForExit();
+      expect(cancelled.exitCode).toBe(130);
+
+      await other.waitForExit();
+      expect(other.output).toContain('survived');
+    });
+
+    it('should write to the stdin of a running block', async () => {
+      terminalManager.start();
+
+      const block = terminalManager.executeCommand('read line; echo "got $line"');
+      await waitForJob(block.id);
+
+      expect(terminalManager.writeStdin(block.id, 'hello\n')).toBe(true);
+      await block.waitForExit();
+      expect(block.output).toContain('got hello');
+    });
+
+    it('should report unknown blocks', () => {
+      terminalManager.start();
+      expect(terminalManager.signalBlock('missing', 'SIGTERM')).toBe(false);
+      expect(terminalManager.backgroundBlock('missing')).toBe(false);
+      expect(terminalManager.writeStdin('missing', 'input\n')).toBe(false);
+    });
+  });
+
+  describe('confirmation', () => {
+    const validator = new CommandValidator({
+      rules: [{
+        id: 'deploy',
+        match: { command: 'echo', args: ['deploy'] },
+        severity: 'confirm',
+        message: 'Deploys to production',
+      }],
+    });
+
+    beforeEach(() => {
+      terminalManager = new TerminalManager({ cwd: '/tmp', validator });
+    });
+
+    it('should hold a command back until it is approved', async () => {
+      const requests: any[] = [];
+      terminalManager.onConfirmationRequest(request => requests.push(request));
+      terminalManager.start();
+
+      const block = terminalManager.executeCommand('echo deploy');
+      expect(block.status).toBe('pending');
+      expect(requests).toEqual([expect.objectContaining({ blockId: block.id, command: 'echo deploy', cwd: '/tmp' })]);
+      expect(requests[0].rules.map((rule: any) => rule.id)).toEqual(['deploy']);
+
+      expect(terminalManager.respondToConfirmation(block.id, { approved: true })).toBe(true);
+      await block.waitForExit();
+
+      expect(block.exitCode).toBe(0);
+      expect(block.output).toContain('deploy');
+      expect(terminalManager.respondToConfirmation(block.id, { approved: true })).toBe(false);
+    });
+
+    it('should not run a declined command', async () => {
+      terminalManager.onConfirmationRequest(() => undefined);
+      terminalManager.start();
+
+      const block = terminalManager.executeCommand('echo deploy');
+      terminalManager.respondToConfirmation(block.id, { approved: false });
+      await block.waitForExit();
+
+      expect(block.exitCode).toBe(1);
+      expect(block.output).toContain('confirmation declined');
+    });
+
+    it('should remember a decision for the session when asked to', async () => {
+      const request = jest.fn();
+      terminalManager.onConfirmationRequest(request);
+      terminalManager.start();
+
+      const first = terminalManager.executeCommand('echo deploy');
+      terminalManager.respondToConfirmation(first.id, { approved: false, remember: true });
+
+      const second = terminalManager.executeCommand('echo deploy');
+      expect(request).toHaveBeenCalledTimes(1);
+      expect(second.output).toContain('declined earlier in this session');
+    });
+
+    it('should reject commands needing confirmation when nobody can confirm them', () => {
+      terminalManager.start();
+
+      const block = terminalManager.executeCommand('echo deploy');
+      expect(block.output).toContain('Confirmation required: Deploys to production');
+
+      const confirmed = terminalManager.executeCommand('echo deploy', { confirmed: true });
+      expect(confirmed.status).toBe('pending');
+      expect(terminalManager.getPendingConfirmations()).toEqual([]);
+    });
+
+    it('should ask before a command when the caller requires it', () => {
+      const requests: any[] = [];
+      terminalManager.onConfirmationRequest(request => requests.push(request));
+      terminalManager.start();
+
+      const block = terminalManager.executeCommand('echo hello', {
+        source: 'recovery',
+        parentId: 'failed-1',
+        requireConfirmation: 'Not a read-only diagnostic',
+      });
+
+      expect(block.status).toBe('pending');
+      expect(block.toJSON()).toMatchObject({ source: 'recovery', parentId: 'failed-1' });
+      expect(requests).toEqual([expect.objectContaining({ blockId: block.id, rules: [] })]);
+      expect(requests[0].warnings).toContain('Not a read-only diagnostic');
+    });
+  });
+
+  describe('preview', () => {
+    it('should show a dry run as a block without running the command', async () => {
+      const started = jest.fn();
+      terminalManager.onCommandStart(started);
+      terminalManager.start();
+
+      const block = terminalManager.executeCommand('portal preview -- rm -rf /tmp/portal-preview-missing-*');
+      await block.waitForExit();
+
+      expect(started).toHaveBeenCalledWith(block);
+      expect(block.command).toBe('rm -rf /tmp/portal-preview-missing-*');
+      expect(block.toJSON()).toMatchObject({ dryRun: true, exitCode: 0, cwd: '/tmp' });
+      expect(block.output).toContain('Does not exist');
+    });
+
+    it('should preview and run a command in the directory the shell moved to', async () => {
+      const tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'portal-preview-')));
+      const [first, second] = ['first', 'second'].map(name => {
+        const dir = path.join(tempDir, name);
+        fs.mkdirSync(path.join(dir, 'build'), { recursive: true });
+        fs.writeFileSync(path.join(dir, 'build', 'out.js'), '');
+        return dir;
+      });
+
+      terminalManager = new TerminalManager({ cwd: first });
+      terminalManager.start();
+      const onData = ((pty.spawn as jest.Mock).mock.results.slice(-1)[0].value.onData as jest.Mock);
+      onData.mock.calls[onData.mock.calls.length - 1][0](`\x1b]7;file://host${second}\x07`);
+
+      const preview = await terminalManager.executeCommand('portal preview -- rm -rf build/*').waitForExit();
+      expect(preview.output).toContain(`Dry run in ${second}`);
+      expect(preview.output).toContain('build/out.js');
+
+      const run = await terminalManager.executeCommand('rm -rf build/*', { confirmed: true }).waitForExit();
+      expect(run.cwd).toBe(second);
+      expect(fs.existsSync(path.join(second, 'build', 'out.js'))).toBe(false);
+      expect(fs.existsSync(path.join(first, 'build', 'out.js'))).toBe(true);
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+  });
+
+  describe('audit', () => {
+    it('should record commands that ran with where they came from', async () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'portal-audit-'));
+      const auditLog = new AuditLog({ persistencePath: path.join(tempDir, 'audit.jsonl'), user: 'dev' });
+      const started = new Promise(resolve => auditLog.once('entry', resolve));
+
+      terminalManager = new TerminalManager({ cwd: '/tmp', auditLog });
+      terminalManager.start();
+      terminalManager.executeCommand('rm -rf /');
+      await terminalManager.executeCommand('echo audited', { source: 'palette' }).waitForExit();
+
+      // On record from the start, with the directory it runs in
+      expect(await started).toMatchObject({ seq: 1, event: 'start', command: 'echo audited', cwd: '/tmp', source: 'palette' });
+      await new Promise(resolve => setImmediate(resolve));
+      expect(auditLog.query().map(entry => [entry.event, entry.exitCode])).toEqual([['start', undefined], ['exit', 0]]);
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+  });
+
+  describe('environment', () => {
+    it('should run commands with the variables set for the session', async () => {
+      terminalManager.start();
+      terminalManager.getEnvironment().set('PORTAL_GREETING', 'hello');
+
+      const block = terminalManager.executeCommand('printenv PORTAL_GREETING');
+      await block.waitForExit();
+
+      expect(block.output.trim()).toBe('hello');
+      expect(terminalManager.getSession().environment.PORTAL_GREETING).toBe('hello');
+    });
+
+    it('should mask secrets from the .env file in saved sessions', async () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'portal-dotenv-'));
+      fs.writeFileSync(path.join(tempDir, '.env'), 'STRIPE_SECRET=whsec_from_dotenv_value\n');
+      terminalManager = new TerminalManager({ cwd: tempDir });
+      const loaded = new Promise(resolve => terminalManager.getEnvironment().once('change', resolve));
+      terminalManager.start();
+      await loaded;
+
+      const block = await terminalManager.executeCommand('printenv STRIPE_SECRET').waitForExit();
+      expect(block.output.trim()).toBe('whsec_from_dotenv_value');
+      expect(JSON.stringify(terminalManager.getSession().toSnapshot())).not.toContain('whsec_from_dotenv_value');
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+  });
+
+  describe('shell', () => {
+    // Output of the mocked PTY, as the shell with its integration would write it
+    const shellOutput = () => {
+      const ptyProcess = (pty.spawn as jest.Mock).mock.results.slice(-1)[0].value;
+      const onData = ptyProcess.onData as jest.Mock;
+      return { ptyProcess, emit: onData.mock.calls[onData.mock.calls.length - 1][0] as (data: string) => void };
+    };
+    const prompt = '\x1b]133;A\x07$ \x1b]133;B\x07';
+
+    it('should type commands into the shell at its prompt so cd and exports persist', async () => {
+      const tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'portal-shell-')));
+      terminalManager.start();
+      const { ptyProcess, emit } = shellOutput();
+      (ptyProcess.write as jest.Mock).mockClear();
+      emit(prompt);
+
+      const block = terminalManager.executeCommand(`cd ${tempDir}`);
+      expect(ptyProcess.write).toHaveBeenCalledWith(`\x05\x15cd ${tempDir}\r`);
+
+      emit(`cd ${tempDir}\r\n\x1b]633;E;cd ${tempDir}\x07\x1b]133;C\x07`);
+      expect(block.status).toBe('running');
+      emit(`\x1b]133;D;0\x07\x1b]7;file://host${tempDir}\x07`);
+      await block.waitForExit();
+
+      expect(block.exitCode).toBe(0);
+      expect(terminalManager.getSession().blocks).toHaveLength(1);
+      expect(terminalManager.getWorkingDirectory()).toBe(tempDir);
+
+      // Busy between commands, so this one runs as a job, still in the new directory
+      const job = terminalManager.executeCommand('pwd');
+      await job.waitForExit();
+      expect(ptyProcess.write).toHaveBeenCalledTimes(1);
+      expect(job.output.trim()).toBe(tempDir);
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should fail a command the shell returned to its prompt without running', async () => {
+      terminalManager.start();
+      const { emit } = shellOutput();
+      emit(prompt);
+
+      const block = terminalManager.executeCommand('echo (');
+      emit("bash: syntax error near unexpected token `('\r\n" + prompt);
+      await block.waitForExit();
+
+      expect(block.exitCode).toBe(2);
+    });
+  });
+
   describe('resize', () => {
     it('should resize terminal dimensions', () => {
       terminalManager.start();
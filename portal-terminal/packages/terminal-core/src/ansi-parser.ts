@@ -0,0 +1,454 @@
+import { StyledLine, StyledOutputUpdate, StyledSpan, TextStyle } from './types';
+
+export interface IAnsiParserOptions {
+  // Lines kept for styling; older lines are dropped from the model
+  maxLines?: number;
+}
+
+interface ICell {
+  char: string;
+  style: TextStyle;
+  href?: string;
+}
+
+const ESC = '\x1b';
+const BEL = '\x07';
+const DEFAULT_MAX_LINES = 5000;
+const TAB_WIDTH = 8;
+
+// An escape sequence without its terminator this long is garbage, not a split chunk
+const MAX_PENDING_LENGTH = 4096;
+
+// Text wraps onto a new line at this width and cursor moves stop at its last
+// column, so output without newlines or with a huge cursor count can't grow a
+// line to millions of cells; maxLines then bounds the whole model
+const MAX_LINE_WIDTH = 1024;
+
+const NO_STYLE: TextStyle = {};
+
+/**
+ * Turns raw terminal output into lines of styled spans. Handles SGR colors
+ * and attributes, carriage-return and backspace overwrites (progress bars),
+ * cursor movement within the output, line erasing and OSC 8 hyperlinks.
+ * Everything else is dropped, so getText() is the output a user would read.
+ *
+ * Output is fed in chunks as it arrives; an escape sequence split across
+ * chunks is held until the rest of it comes in. Absolute cursor positioning
+ * has no meaning inside a block and only moves the column.
+ */
+export class AnsiParser {
+  private lines: ICell[][] = [[]];
+  // Line number of lines[0] once older lines were dropped
+  private firstLine = 0;
+  private row = 0;
+  private col = 0;
+  private style: TextStyle = NO_STYLE;
+  private href?: string;
+  private savedCursor = { row: 0, col: 0 };
+  private pending = '';
+  private dirtyFrom: number | null = null;
+  private maxLines: number;
+
+  constructor(options: IAnsiParserOptions = {}) {
+    this.maxLines = options.maxLines ?? DEFAULT_MAX_LINES;
+  }
+
+  // Plain text of a complete output, e.g. for AI prompts
+  static strip(text: string): string {
+    const parser = new AnsiParser({ maxLines: Infinity });
+    parser.write(text);
+    return parser.getText();
+  }
+
+  write(data: string): void {
+    const text = this.pending + data;
+    this.pending = '';
+
+    let index = 0;
+    while (index < text.length) {
+      const char = text[index];
+
+      if (char === ESC) {
+        const length = this.parseEscape(text, index);
+        if (length === 0) {
+          const rest = text.slice(index);
+          this.pending = rest.length < MAX_PENDING_LENGTH ? rest : '';
+          break;
+        }
+        index += length;
+        continue;
+      }
+
+      if (char === '\n') {
+        this.lineFeed();
+        this.col = 0;
+      } else if (char === '\r') {
+        this.col = 0;
+      } else if (char === '\b') {
+        this.col = Math.max(0, this.col - 1);
+      } else if (char === '\t') {
+        this.moveToColumn((Math.floor(this.col / TAB_WIDTH) + 1) * TAB_WIDTH);
+      } else if (char >= ' ' && char !== '\x7f') {
+        const codePoint = String.fromCodePoint(text.codePointAt(index)!);
+        this.put(codePoint);
+        index += codePoint.length;
+        continue;
+      }
+      index++;
+    }
+  }
+
+  getLines(): StyledLine[] {
+    return this.lines.map(toSpans);
+  }
+
+  getText(): string {
+    return this.lines.map(cells => cells.map(cell => cell.char).join('')).join('\n');
+  }
+
+  /**
+   * Lines changed since the last call, from the first changed line to the
+   * end. Consumers replace everything from `start` on with `lines`.
+   */
+  takeUpdate(): StyledOutputUpdate | null {
+    if (this.dirtyFrom === null) {
+      return null;
+    }
+
+    const start = Math.max(this.dirtyFrom, this.firstLine);
+    this.dirtyFrom = null;
+    return { start, lines: this.lines.slice(start - this.firstLine).map(toSpans) };
+  }
+
+  reset(): void {
+    this.lines = [[]];
+    this.firstLine = 0;
+    this.row = 0;
+    this.col = 0;
+    this.style = NO_STYLE;
+    this.href = undefined;
+    this.savedCursor = { row: 0, col: 0 };
+    this.pending = '';
+    this.dirtyFrom = null;
+  }
+
+  // Length of the escape sequence at `start`, or 0 if it isn't complete yet
+  private parseEscape(text: string, start: number): number {
+    const type = text[start + 1];
+    if (type === undefined) return 0;
+
+    switch (type) {
+      case '[': {
+        let end = start + 2;
+        while (end < text.length && !isCsiFinal(text.charCodeAt(end))) end++;
+        if (end >= text.length) return 0;
+
+        this.handleCsi(text.slice(start + 2, end), text[end]);
+        return end - start + 1;
+      }
+
+      case ']':
+      case 'P':
+      case '^':
+      case '_':
+      case 'X': {
+        // OSC ends with BEL or ST; DCS, PM, APC and SOS only with ST
+        for (let end = start + 2; end < text.length; end++) {
+          if (text[end] === BEL && type === ']') {
+            this.handleOsc(text.slice(start + 2, end));
+            return end - start + 1;
+          }
+          if (text[end] === ESC) {
+            if (end + 1 >= text.length) return 0;
+            if (text[end + 1] === '\\') {
+              if (type === ']') this.handleOsc(text.slice(start + 2, end));
+              return end - start + 2;
+            }
+          }
+        }
+        return 0;
+      }
+
+      case '(':
+      case ')':
+      case '*':
+      case '+':
+        // Character set designation
+        return start + 2 < text.length ? 3 : 0;
+
+      case '7':
+        this.savedCursor = { row: this.row, col: this.col };
+        return 2;
+
+      case '8':
+        this.restoreCursor();
+        return 2;
+
+      default:
+        return 2;
+    }
+  }
+
+  private handleCsi(params: string, final: string): void {
+    // Private modes (e.g. ?25l to hide the cursor) don't affect the text
+    if (/^[<=>?]/.test(params)) return;
+
+    const args = params.split(';').map(param => parseInt(param, 10));
+    const count = Math.max(1, args[0] || 1);
+
+    switch (final) {
+      case 'm':
+        this.applySgr(params);
+        break;
+      case 'A':
+        this.row = Math.max(0, this.row - count);
+        break;
+      case 'B':
+        this.row = Math.min(this.lines.length - 1, this.row + count);
+        break;
+      case 'C':
+        this.moveToColumn(this.col + count);
+        break;
+      case 'D':
+        this.col = Math.max(0, this.col - count);
+        break;
+      case 'E':
+        this.row = Math.min(this.lines.length - 1, this.row + count);
+        this.col = 0;
+        break;
+      case 'F':
+        this.row = Math.max(0, this.row - count);
+        this.col = 0;
+        break;
+      case 'G':
+        this.moveToColumn(count - 1);
+        break;
+      case 'H':
+      case 'f':
+        // The row has no meaning inside a block and is ignored
+        this.moveToColumn(Math.max(1, args[1] || 1) - 1);
+        break;
+      case 'K':
+        this.eraseLine(args[0] || 0);
+        break;
+      case 'J':
+        this.eraseDisplay(args[0] || 0);
+        break;
+      case 's':
+        this.savedCursor = { row: this.row, col: this.col };
+        break;
+      case 'u':
+        this.restoreCursor();
+        break;
+    }
+  }
+
+  // OSC 8 ; params ; uri starts a hyperlink and an empty uri ends it
+  private handleOsc(content: string): void {
+    const match = content.match(/^8;[^;]*;(.*)$/s);
+    if (match) {
+      this.href = match[1] || undefined;
+    }
+  }
+
+  private applySgr(params: string): void {
+    // Colon sub-parameters (38:2::r:g:b, 4:3) stay grouped with their parameter
+    const groups = (params === '' ? ['0'] : params.split(';')).map(group =>
+      group.split(':').map(value => parseInt(value, 10) || 0)
+    );
+    let style: TextStyle = { ...this.style };
+
+    for (let i = 0; i < groups.length; i++) {
+      const [code] = groups[i];
+
+      if (code === 0) {
+        style = {};
+      } else if (code === 1) {
+        style.bold = true;
+      } else if (code === 2) {
+        style.dim = true;
+      } else if (code === 3) {
+        style.italic = true;
+      } else if (code === 4 || code === 21) {
+        // 4:0 turns underline off; other sub-parameters are underline styles
+        if (groups[i][1] === 0) delete style.underline;
+        else style.underline = true;
+      } else if (code === 7) {
+        style.inverse = true;
+      } else if (code === 9) {
+        style.strikethrough = true;
+      } else if (code === 22) {
+        delete style.bold;
+        delete style.dim;
+      } else if (code === 23) {
+        delete style.italic;
+      } else if (code === 24) {
+        delete style.underline;
+      } else if (code === 27) {
+        delete style.inverse;
+      } else if (code === 29) {
+        delete style.strikethrough;
+      } else if (code >= 30 && code <= 37) {
+        style.fg = code - 30;
+      } else if (code >= 40 && code <= 47) {
+        style.bg = code - 40;
+      } else if (code >= 90 && code <= 97) {
+        style.fg = code - 90 + 8;
+      } else if (code >= 100 && code <= 107) {
+        style.bg = code - 100 + 8;
+      } else if (code === 39) {
+        delete style.fg;
+      } else if (code === 49) {
+        delete style.bg;
+      } else if (code === 38 || code === 48) {
+        let color: number | string | undefined;
+        if (groups[i].length > 1) {
+          color = extendedColor(groups[i].slice(1), true);
+        } else {
+          const rest = groups.slice(i + 1).map(group => group[0]);
+          color = extendedColor(rest, false);
+          i += rest[0] === 5 ? 2 : rest[0] === 2 ? 4 : 0;
+        }
+        if (color !== undefined) {
+          style[code === 38 ? 'fg' : 'bg'] = color;
+        }
+      }
+    }
+
+    this.style = Object.keys(style).length > 0 ? style : NO_STYLE;
+  }
+
+  private put(char: string): void {
+    if (this.col >= MAX_LINE_WIDTH) {
+      this.lineFeed();
+      this.col = 0;
+    }
+
+    const line = this.lines[this.row];
+    while (line.length < this.col) {
+      line.push({ char: ' ', style: NO_STYLE });
+    }
+
+    line[this.col] = { char, style: this.style, href: this.href };
+    this.col++;
+    this.markDirty(this.row);
+  }
+
+  private lineFeed(): void {
+    this.row++;
+    if (this.row === this.lines.length) {
+      this.lines.push([]);
+      this.markDirty(this.row);
+    }
+
+    if (this.lines.length > this.maxLines) {
+      const dropped = this.lines.length - this.maxLines;
+      this.lines.splice(0, dropped);
+      this.firstLine += dropped;
+      this.row -= dropped;
+      this.savedCursor.row = Math.max(0, this.savedCursor.row - dropped);
+    }
+  }
+
+  private eraseLine(mode: number): void {
+    const line = this.lines[this.row];
+    if (mode === 0) {
+      line.length = Math.min(line.length, this.col);
+    } else if (mode === 1) {
+      for (let i = 0; i <= this.col && i < line.length; i++) {
+        line[i] = { char: ' ', style: NO_STYLE };
+      }
+    } else {
+      line.length = 0;
+    }
+    this.markDirty(this.row);
+  }
+
+  private eraseDisplay(mode: number): void {
+    if (mode === 0) {
+      this.lines.length = this.row + 1;
+      this.eraseLine(0);
+    } else if (mode === 2 || mode === 3) {
+      this.lines = [[]];
+      this.row = 0;
+      this.col = 0;
+      this.markDirty(0);
+    }
+  }
+
+  private moveToColumn(col: number): void {
+    this.col = Math.min(col, MAX_LINE_WIDTH - 1);
+  }
+
+  private restoreCursor(): void {
+    this.row = Math.min(this.savedCursor.row, this.lines.length - 1);
+    this.col = this.savedCursor.col;
+  }
+
+  private markDirty(row: number): void {
+    const line = this.firstLine + row;
+    if (this.dirtyFrom === null || line < this.dirtyFrom) {
+      this.dirtyFrom = line;
+    }
+  }
+}
+
+function isCsiFinal(code: number): boolean {
+  return code >= 0x40 && code <= 0x7e;
+}
+
+// 38;5;n / 38;2;r;g;b (or the colon forms, which may carry a color space id)
+function extendedColor(args: number[], colonForm: boolean): number | string | undefined {
+  if (args[0] === 5 && args.length >= 2) {
+    return paletteColor(args[1]);
+  }
+  if (args[0] === 2) {
+    const rgb = colonForm && args.length >= 5 ? args.slice(-3) : args.slice(1, 4);
+    if (rgb.length === 3) {
+      return '#' + rgb.map(value => Math.min(255, value).toString(16).padStart(2, '0')).join('');
+    }
+  }
+  return undefined;
+}
+
+// The 16 basic colors stay indexes so the renderer can theme them
+function paletteColor(index: number): number | string {
+  if (index < 16) {
+    return index;
+  }
+  if (index < 232) {
+    const levels = [0, 95, 135, 175, 215, 255];
+    const value = index - 16;
+    const rgb = [Math.floor(value / 36), Math.floor(value / 6) % 6, value % 6].map(level => levels[level]);
+    return '#' + rgb.map(component => component.toString(16).padStart(2, '0')).join('');
+  }
+  const gray = (8 + (Math.min(index, 255) - 232) * 10).toString(16).padStart(2, '0');
+  return `#${gray}${gray}${gray}`;
+}
+
+function toSpans(cells: ICell[]): StyledLine {
+  const runs: ICell[] = [];
+
+  for (const cell of cells) {
+    const last = runs[runs.length - 1];
+    if (last && last.href === cell.href && sameStyle(last.style, cell.style)) {
+      last.char += cell.char;
+    } else {
+      runs.push({ ...cell });
+    }
+  }
+
+  return runs.map(run => {
+    const span: StyledSpan = { text: run.char };
+    if (run.style !== NO_STYLE) span.style = run.style;
+    if (run.href) span.href = run.href;
+    return span;
+  });
+}
+
+function sameStyle(a: TextStyle, b: TextStyle): boolean {
+  if (a === b) return true;
+
+  const keys = Object.keys(a) as (keyof TextStyle)[];
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+}
@@ -0,0 +1,267 @@
+import { EventEmitter } from 'events';
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandBlock } from './command-block';
+import { SecretRedactor } from './secret-redactor';
+import { CommandSource } from './types';
+
+// A command gets an entry when it starts and another when it exits, so one
+// that never finished is still on record
+export type AuditEvent = 'start' | 'exit';
+
+export interface IAuditEntry {
+  // 1 for the first entry of the log, then one more for each entry
+  seq: number;
+  // Missing from entries written before starts were recorded, which are all exits
+  event?: AuditEvent;
+  timestamp: number;
+  blockId: string;
+  sessionId?: string;
+  command: string;
+  cwd: string;
+  user: string;
+  source: CommandSource;
+  exitCode?: number;
+  duration?: number;
+  // Hash of the entry before, or GENESIS_HASH for the first one
+  prevHash: string;
+  // sha256 of the entry's JSON without this field
+  hash: string;
+}
+
+export interface IAuditLogOptions {
+  persistencePath?: string;
+  // Recorded with each entry; the logged-in user by default
+  user?: string;
+  // Masks secrets in commands; knows the secrets of the process environment by default
+  redactor?: SecretRedactor;
+}
+
+export interface IAuditQuery {
+  event?: AuditEvent;
+  source?: CommandSource | CommandSource[];
+  // Substring of the command line
+  command?: string;
+  cwd?: string;
+  user?: string;
+  sessionId?: string;
+  since?: number;
+  until?: number;
+  // Most recent entries kept when more match
+  limit?: number;
+}
+
+export interface IAuditVerification {
+  valid: boolean;
+  // Entries read before verification stopped
+  entries: number;
+  // Line of the first entry that failed
+  brokenAt?: number;
+  reason?: string;
+}
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+export const COMMAND_SOURCES: CommandSource[] = ['typed', 'ai-suggestion', 'palette', 'mcp-tool'];
+
+/**
+ * Record of every command run through Portal, shared by all terminals and
+ * kept as append-only JSONL in ~/.portal/audit.jsonl. Commands are recorded
+ * when they start and again when they exit. Each entry includes
+ * the hash of the one before it, so verify() finds entries that were edited,
+ * removed or reordered after the fact. Entries are never trimmed, and secrets
+ * in commands are masked before they are recorded.
+ *
+ * Events:
+ * - `entry` (IAuditEntry) after a command's start or exit has been recorded
+ */
+export class AuditLog extends EventEmitter {
+  private entries: IAuditEntry[] = [];
+  private persistencePath: string;
+  private user: string;
+  private redactor: SecretRedactor;
+  private loadPromise: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(options: IAuditLogOptions = {}) {
+    super();
+    this.persistencePath = options.persistencePath || path.join(os.homedir(), '.portal', 'audit.jsonl');
+    this.user = options.user || currentUser();
+    this.redactor = options.redactor || new SecretRedactor({ environment: process.env });
+  }
+
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadPersistedEntries();
+    }
+    return this.loadPromise;
+  }
+
+  // Record a block that started running; exit codes and durations come with record()
+  recordStart(block: CommandBlock, sessionId?: string): Promise<IAuditEntry | null> {
+    return this.append(block, 'start', sessionId);
+  }
+
+  // Record a block that ran and exited; blocks that were rejected or only previewed never started
+  record(block: CommandBlock, sessionId?: string): Promise<IAuditEntry | null> {
+    return this.append(block, 'exit', sessionId);
+  }
+
+  // Matching entries, oldest first
+  query(filter: IAuditQuery = {}): IAuditEntry[] {
+    const sources = filter.source && (Array.isArray(filter.source) ? filter.source : [filter.source]);
+    const command = filter.command?.toLowerCase();
+
+    const matches = this.entries.filter(entry =>
+      (!filter.event || (entry.event ?? 'exit') === filter.event)
+      && (!sources || sources.includes(entry.source))
+      && (!command || entry.command.toLowerCase().includes(command))
+      && (!filter.cwd || entry.cwd === filter.cwd)
+      && (!filter.user || entry.user === filter.user)
+      && (!filter.sessionId || entry.sessionId === filter.sessionId)
+      && (filter.since === undefined || entry.timestamp >= filter.since)
+      && (filter.until === undefined || entry.timestamp <= filter.until)
+    );
+
+    return filter.limit ? matches.slice(-filter.limit) : matches;
+  }
+
+  /**
+   * Re-reads the log from disk and checks every entry's hash and link to the
+   * one before it. Entries cut off the end can only be noticed while this
+   * process still remembers them.
+   */
+  async verify(): Promise<IAuditVerification> {
+    await this.load();
+    await this.writeQueue;
+
+    let data: string;
+    try {
+      data = await fs.readFile(this.persistencePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      data = '';
+    }
+
+    const lines = data.split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+
+    let previousHash = GENESIS_HASH;
+    let count = 0;
+    for (const [index, line] of lines.entries()) {
+      const broken = (reason: string): IAuditVerification =>
+        ({ valid: false, entries: count, brokenAt: index + 1, reason });
+
+      let entry: IAuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        return broken(`Line ${index + 1} is not a valid entry`);
+      }
+
+      const { hash, ...body } = entry;
+      if (entry.seq !== count + 1 || entry.prevHash !== previousHash) {
+        return broken(`Entry ${count + 1} doesn't follow the entry before it; entries were removed or reordered`);
+      }
+      if (hashEntry(body) !== hash) {
+        return broken(`Entry ${entry.seq} was changed after it was recorded`);
+      }
+
+      previousHash = hash;
+      count++;
+    }
+
+    const last = this.entries[this.entries.length - 1];
+    if (last && last.seq > count) {
+      const missing = last.seq === count + 1 ? `Entry ${last.seq} is` : `Entries ${count + 1} to ${last.seq} are`;
+      return { valid: false, entries: count, reason: `${missing} missing from the end` };
+    }
+
+    return { valid: true, entries: count };
+  }
+
+  private async append(block: CommandBlock, event: AuditEvent, sessionId?: string): Promise<IAuditEntry | null> {
+    if (!block.startTime || block.dryRun || !block.command.trim()) {
+      return null;
+    }
+
+    await this.load();
+
+    // Chained synchronously after the load so concurrent records keep their order
+    const previous = this.entries[this.entries.length - 1];
+    const body: Omit<IAuditEntry, 'hash'> = {
+      seq: (previous?.seq ?? 0) + 1,
+      event,
+      timestamp: (event === 'start' ? block.startTime : block.endTime ?? new Date()).getTime(),
+      blockId: block.id,
+      sessionId,
+      command: this.redactor.redactText(block.command.trim()),
+      cwd: block.cwd || process.cwd(),
+      user: this.user,
+      source: block.source || 'typed',
+      exitCode: event === 'exit' ? block.exitCode : undefined,
+      duration: event === 'exit' ? block.duration : undefined,
+      prevHash: previous?.hash ?? GENESIS_HASH,
+    };
+    const entry: IAuditEntry = { ...body, hash: hashEntry(body) };
+
+    this.entries.push(entry);
+    await this.enqueueWrite(() => this.appendToFile(entry));
+
+    this.emit('entry', entry);
+    return entry;
+  }
+
+  private async loadPersistedEntries(): Promise<void> {
+    try {
+      const data = await fs.readFile(this.persistencePath, 'utf8');
+      const loaded: IAuditEntry[] = [];
+
+      for (const line of data.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          const entry = JSON.parse(line);
+          if (typeof entry.command === 'string' && typeof entry.hash === 'string') {
+            loaded.push(entry);
+          }
+        } catch {
+          // A line torn by a crash mid-append; verify() reports it
+        }
+      }
+
+      this.entries = loaded;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn('Failed to load audit log:', error);
+      }
+    }
+  }
+
+  // Serialize appends so entries land in the order they were chained
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    this.writeQueue = this.writeQueue.then(write).catch(error => {
+      console.warn('Failed to persist audit log:', error);
+    });
+    return this.writeQueue;
+  }
+
+  private async appendToFile(entry: IAuditEntry): Promise<void> {
+    await fs.mkdir(path.dirname(this.persistencePath), { recursive: true });
+    await fs.appendFile(this.persistencePath, JSON.stringify(entry) + '\n', { mode: 0o600 });
+  }
+}
+
+function hashEntry(body: Omit<IAuditEntry, 'hash'>): string {
+  return createHash('sha256').update(JSON.stringify(body)).digest('hex');
+}
+
+function currentUser(): string {
+  try {
+    return os.userInfo().username;
+  } catch {
+    // No passwd entry, e.g. in some containers
+    return process.env.USER || process.env.USERNAME || 'unknown';
+  }
+}
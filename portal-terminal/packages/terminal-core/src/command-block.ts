@@ -1,32 +1,225 @@
-import { CommandBlock as ICommandBlock } from './types';
+import { EventEmitter } from 'events';
+import {
+  CommandBlock as ICommandBlock,
+  CommandStatus,
+  CommandSource,
+  Diagnostic,
+  OutputStream,
+  OutputChunk,
+  CommandAttempt,
+  CommandStatusChangeEvent,
+  CommandExitEvent,
+  OutputInfo,
+  StyledLine,
+  StyledOutputUpdate,
+} from './types';
+import { OutputBuffer, formatBytes } from './output-buffer';
+import { AnsiParser } from './ansi-parser';
 
-export class CommandBlock implements ICommandBlock {
+let blockCounter = 0;
+
+// How much trailing stdout accompanies stderr when a failure is analyzed
+const DIAGNOSTIC_STDOUT_TAIL_LINES = 20;
+
+export interface ICommandBlockOptions {
+  // Output kept in memory before older output spills to a temp file
+  maxOutputBytes?: number;
+}
+
+/**
+ * A single command and its output. Only the most recent output is held in
+ * memory; `output` and `chunks` cover that window and getOutputLines() pages
+ * through all of it. Raw output keeps its escape sequences; getStyledLines()
+ * has them applied as styled spans.
+ *
+ * Events:
+ * - `output` (OutputChunk) for every chunk as it arrives
+ * - `statusChange` (CommandStatusChangeEvent)
+ * - `attempt` (CommandAttempt) when a retried command starts another run
+ * - `exit` (CommandExitEvent) once the command has finished
+ * - `finding` (string) when a recovery action's result has been read
+ */
+export class CommandBlock extends EventEmitter implements ICommandBlock {
   public id: string;
   public command: string;
-  public output: string;
+  public attempts: CommandAttempt[] = [];
   public timestamp: Date;
-  public status: 'pending' | 'running' | 'completed' | 'error';
+  public status: CommandStatus;
   public exitCode?: number;
+  public cwd?: string;
+  public startTime?: Date;
+  public endTime?: Date;
+  public duration?: number;
+  public dryRun?: boolean;
+  public source?: CommandSource;
+  public parentId?: string;
+  public finding?: string;
+  // Set once the command has finished
+  public diagnostics?: Diagnostic[];
+  private buffer: OutputBuffer;
+  private styled = new AnsiParser();
 
-  constructor(command: string) {
-    this.id = Date.now().toString();
+  constructor(command: string, options: ICommandBlockOptions = {}) {
+    super();
+    this.id = `${Date.now()}-${++blockCounter}`;
     this.command = command;
-    this.output = '';
+    this.buffer = new OutputBuffer(this.id, { maxMemoryBytes: options.maxOutputBytes });
     this.timestamp = new Date();
     this.status = 'pending';
   }
 
   setRunning(): void {
-    this.status = 'running';
+    this.startTime = new Date();
+    this.setStatus('running');
+  }
+
+  addOutput(data: string, stream: OutputStream = 'stdout'): void {
+    if (!data) return;
+
+    const chunk = this.buffer.append(data, stream);
+    this.styled.write(data);
+    this.emit('output', chunk);
+  }
+
+  get output(): string {
+    return this.buffer.getText();
+  }
+
+  get chunks(): OutputChunk[] {
+    return this.buffer.getChunks();
+  }
+
+  get outputInfo(): OutputInfo {
+    return this.buffer.getInfo();
+  }
+
+  getStyledLines(): StyledLine[] {
+    return this.styled.getLines();
+  }
+
+  // Styled lines changed since the last call, for streaming them to a view
+  takeStyledUpdate(): StyledOutputUpdate | null {
+    return this.styled.takeUpdate();
   }
 
-  addOutput(data: string): void {
-    this.output += data;
+  // Lines [start, end) of the whole output, including any spilled to disk
+  getOutputLines(start: number, end: number): Promise<string[]> {
+    return this.buffer.getLines(start, end);
+  }
+
+  // Shown above the in-memory output once older output has spilled to disk
+  getTruncationMarker(): string | null {
+    const { spilledBytes } = this.outputInfo;
+    return spilledBytes > 0 ? `[output truncated, ${formatBytes(spilledBytes)} on disk]` : null;
+  }
+
+  // Merged view in arrival order, or a single stream
+  getOutput(stream?: OutputStream): string {
+    if (!stream) {
+      return this.output;
+    }
+
+    return this.chunks
+      .filter(chunk => chunk.stream === stream)
+      .map(chunk => chunk.data)
+      .join('');
+  }
+
+  /**
+   * Output worth sending to error analysis: all of stderr plus the tail of
+   * stdout, which usually holds the summary line of a failing build or test run.
+   * Escape sequences are applied and stripped, leaving the text a user sees.
+   */
+  getDiagnosticOutput(stdoutTailLines: number = DIAGNOSTIC_STDOUT_TAIL_LINES): string {
+    const stderr = AnsiParser.strip(this.getOutput('stderr'));
+    const stdoutTail = AnsiParser.strip(this.getOutput('stdout'))
+      .replace(/\n+$/, '')
+      .split('\n')
+      .slice(-stdoutTailLines)
+      .join('\n');
+
+    return [stderr.replace(/\n+$/, ''), stdoutTail]
+      .filter(part => part.length > 0)
+      .join('\n');
+  }
+
+  // Output of every attempt accumulates in the block; the sub-record marks
+  // where this attempt's output starts
+  startAttempt(): CommandAttempt {
+    const attempt: CommandAttempt = {
+      attempt: this.attempts.length + 1,
+      startTime: new Date(),
+      outputOffset: this.outputInfo.totalBytes,
+    };
+
+    this.attempts.push(attempt);
+    this.emit('attempt', attempt);
+    return attempt;
+  }
+
+  finishAttempt(result: Pick<CommandAttempt, 'exitCode' | 'errorType' | 'error' | 'retryDelay'>): void {
+    const attempt = this.attempts[this.attempts.length - 1];
+    if (!attempt) return;
+
+    Object.assign(attempt, result, { endTime: new Date() });
+  }
+
+  getAttemptOutput(attempt: CommandAttempt): string {
+    const next = this.attempts[attempt.attempt];
+    const end = next ? next.outputOffset : Infinity;
+
+    return this.chunks
+      .filter(chunk => chunk.offset >= attempt.outputOffset && chunk.offset < end)
+      .map(chunk => chunk.data)
+      .join('');
+  }
+
+  clearOutput(): void {
+    this.buffer.clear();
+    this.styled.reset();
+  }
+
+  // Deletes any output spilled to disk and drops the styled lines
+  dispose(): void {
+    this.buffer.dispose();
+    this.styled.reset();
   }
 
   setCompleted(exitCode?: number): void {
-    this.status = exitCode === 0 ? 'completed' : 'error';
+    // The first result wins, e.g. a kill racing the process close event
+    if (this.isFinished()) return;
+
     this.exitCode = exitCode;
+    this.endTime = new Date();
+    this.duration = this.endTime.getTime() - (this.startTime || this.timestamp).getTime();
+    this.setStatus(exitCode === 0 ? 'completed' : 'error');
+
+    const event: CommandExitEvent = {
+      exitCode,
+      duration: this.duration,
+      timestamp: this.endTime,
+    };
+    this.emit('exit', event);
+  }
+
+  isFinished(): boolean {
+    return this.status === 'completed' || this.status === 'error';
+  }
+
+  waitForExit(): Promise<CommandBlock> {
+    if (this.isFinished()) {
+      return Promise.resolve(this);
+    }
+
+    return new Promise(resolve => {
+      this.once('exit', () => resolve(this));
+    });
+  }
+
+  // Set once the command has finished, so it arrives after `exit`
+  setFinding(finding: string): void {
+    this.finding = finding;
+    this.emit('finding', finding);
   }
 
   toJSON(): ICommandBlock {
@@ -34,9 +227,30 @@ export class CommandBlock implements ICommandBlock {
       id: this.id,
       command: this.command,
       output: this.output,
+      chunks: this.chunks,
+      outputInfo: this.outputInfo,
+      styledLines: this.getStyledLines(),
+      attempts: this.attempts,
       timestamp: this.timestamp,
       status: this.status,
       exitCode: this.exitCode,
+      cwd: this.cwd,
+      startTime: this.startTime,
+      endTime: this.endTime,
+      duration: this.duration,
+      dryRun: this.dryRun,
+      source: this.source,
+      parentId: this.parentId,
+      finding: this.finding,
+      diagnostics: this.diagnostics,
     };
   }
-}
\ No newline at end of file
+
+  private setStatus(status: CommandStatus): void {
+    const previousStatus = this.status;
+    this.status = status;
+
+    const event: CommandStatusChangeEvent = { status, previousStatus, timestamp: new Date() };
+    this.emit('statusChange', event);
+  }
+}
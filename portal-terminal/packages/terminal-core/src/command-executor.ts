@@ -1,6 +1,17 @@
 import { spawn, ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import * as os from 'os';
+import { StringDecoder } from 'string_decoder';
 import { ShellDetector, IShellInfo } from './shell-detector';
 import { CommandBlock } from './command-block';
+import { ErrorHandler } from './error-handler';
+import {
+  DEFAULT_RETRY_POLICY,
+  INTERRUPTED_EXIT_CODES,
+  computeRetryDelay,
+  matchRetryRule,
+} from './retry-policy';
+import { RetryPolicy, RetryRule } from './types';
 
 export interface ICommandExecutorOptions {
   shell?: string;
@@ -9,97 +20,247 @@ export interface ICommandExecutorOptions {
   timeout?: number;
   maxRetries?: number;
   retryDelay?: number;
+  retryPolicy?: Partial<RetryPolicy>;
+  retryRules?: RetryRule[];
+  errorHandler?: ErrorHandler;
 }
 
-export class CommandExecutor {
-  private currentProcess: ChildProcess | null = null;
+export interface IExecuteOptions {
+  background?: boolean;
+  // Retry this command, overriding the rules; `false` disables retries
+  retry?: Partial<RetryPolicy> | false;
+  // The whole environment of this command, instead of the process
+  // environment and the executor's env
+  env?: Record<string, string>;
+  // Where the command runs, instead of the executor's cwd
+  cwd?: string;
+}
+
+export type JobStatus = 'running' | 'stopped';
+
+export type JobSignal = 'SIGINT' | 'SIGTERM' | 'SIGKILL' | 'SIGSTOP' | 'SIGCONT';
+
+export interface IJobInfo {
+  blockId: string;
+  pid?: number;
+  command: string;
+  status: JobStatus;
+  background: boolean;
+  startTime: Date;
+}
+
+interface IJob extends IJobInfo {
+  process: ChildProcess;
+  block: CommandBlock;
+  timeoutTimer?: NodeJS.Timeout;
+  // Set while executeCommand() is waiting on the job; a job moved to the
+  // background is released and completes its block itself when it exits
+  release?: () => void;
+}
+
+/**
+ * Runs commands as jobs, one process group per command so signals reach the
+ * whole process tree. Jobs are keyed by the id of the block they write to.
+ *
+ * Events:
+ * - `job-start` (IJobInfo)
+ * - `job-background` (IJobInfo) when a foreground job stops being waited on
+ * - `job-foreground` (IJobInfo)
+ * - `job-exit` (IJobInfo, exit code)
+ */
+export class CommandExecutor extends EventEmitter {
+  private jobs = new Map<string, IJob>();
   private shellInfo: IShellInfo;
-  private maxRetries: number;
-  private retryDelay: number;
+  private retryDefaults: RetryPolicy;
+  private retryRules: RetryRule[];
+  private errorHandler: ErrorHandler;
 
   constructor(private options: ICommandExecutorOptions = {}) {
-    this.maxRetries = options.maxRetries || 3;
-    this.retryDelay = options.retryDelay || 100;
+    super();
+    this.retryDefaults = {
+      ...DEFAULT_RETRY_POLICY,
+      ...(options.maxRetries !== undefined && { maxRetries: options.maxRetries }),
+      ...(options.retryDelay !== undefined && { baseDelay: options.retryDelay }),
+      ...options.retryPolicy,
+    };
+    this.retryRules = options.retryRules || [];
+    this.errorHandler = options.errorHandler || new ErrorHandler();
     
-    this.shellInfo = options.shell 
-      ? { name: options.shell, path: options.shell, args: [], env: {} }
+    this.shellInfo = options.shell
+      ? ShellDetector.forShell(options.shell)
       : ShellDetector.detectDefaultShell();
   }
 
-  async executeCommand(command: string): Promise<CommandBlock> {
-    const block = new CommandBlock(command);
+  // Output is streamed into the block as it arrives, so callers that pass in
+  // their own block can subscribe to its events before execution starts.
+  // Background jobs return straight away and run once, without retries or a timeout.
+  async executeCommand(
+    command: string,
+    block: CommandBlock = new CommandBlock(command),
+    options: IExecuteOptions = {}
+  ): Promise<CommandBlock> {
     block.setRunning();
 
-    let lastError: Error | null = null;
-    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+    if (options.background) {
+      this.runCommand(command, block, true, options).catch(error => {
+        block.addOutput(`Error: ${error instanceof Error ? error.message : String(error)}\n`, 'stderr');
+        block.setCompleted(1);
+      });
+      return block;
+    }
+
+    // Commands are never re-run unless asked to: a retried `git push` or `rm`
+    // may repeat work that already happened
+    const policy = this.resolveRetryPolicy(command, options.retry);
+
+    for (let attempt = 1; ; attempt++) {
+      const record = policy ? block.startAttempt() : null;
+
+      let exitCode: number;
+      let error: Error | null = null;
       try {
-        const result = await this.runCommand(command, block);
-        block.setCompleted(result.exitCode);
-        return block;
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        
-        if (attempt < this.maxRetries) {
-          // Exponential backoff: delay = baseDelay * (2 ^ attempt)
-          const delay = this.retryDelay * Math.pow(2, attempt);
-          await new Promise(resolve => setTimeout(resolve, delay));
-          
-          // Clear previous error output for retry
-          if (block.output) {
-            block.output = '';
-          }
+        const result = await this.runCommand(command, block, false, options);
+
+        // Moved to the background; the job completes the block when it exits
+        if (!result) return block;
+        exitCode = result.exitCode;
+      } catch (caught) {
+        error = caught instanceof Error ? caught : new Error(String(caught));
+        exitCode = 1;
+      }
+
+      const errorType = record && exitCode !== 0
+        ? this.errorHandler.classifyError(
+            [error?.message, block.getAttemptOutput(record)].filter(Boolean).join('\n'),
+            { command }
+          ).errorType
+        : undefined;
+
+      const retryable = policy && errorType &&
+        attempt <= policy.maxRetries &&
+        !INTERRUPTED_EXIT_CODES.includes(exitCode) &&
+        policy.retryOn.includes(errorType);
+
+      if (!policy || !retryable) {
+        if (error) {
+          block.addOutput(`Error: ${error.message}\n`, 'stderr');
         }
+        if (record) {
+          block.finishAttempt({ exitCode, errorType, error: error?.message });
+        }
+        block.setCompleted(exitCode);
+        return block;
       }
+
+      const delay = computeRetryDelay(policy, attempt);
+      block.finishAttempt({ exitCode, errorType, error: error?.message, retryDelay: delay });
+      block.addOutput(`\n[${errorType}] retry ${attempt}/${policy.maxRetries} in ${delay}ms\n`, 'stderr');
+      await new Promise(resolve => setTimeout(resolve, delay));
+
+      // Cancelled while waiting to retry
+      if (block.isFinished()) return block;
+    }
+  }
+
+  // Whether a failure of the command would be retried
+  willRetry(command: string, retry?: Partial<RetryPolicy> | false): boolean {
+    return this.resolveRetryPolicy(command, retry) !== null;
+  }
+
+  // An explicit policy wins over the first matching rule; otherwise no retries
+  private resolveRetryPolicy(command: string, retry?: Partial<RetryPolicy> | false): RetryPolicy | null {
+    if (retry === false) {
+      return null;
     }
 
-    // All retries failed
-    block.addOutput(`Error: ${lastError?.message || 'Unknown error'}\n`);
-    block.setCompleted(1);
-    return block;
+    if (retry) {
+      return { ...this.retryDefaults, ...retry };
+    }
+
+    return matchRetryRule(command, this.retryRules, this.retryDefaults);
   }
 
-  private runCommand(command: string, block: CommandBlock): Promise<{ exitCode: number }> {
+  // Resolves with the exit code, or null if the job was moved to the background
+  private runCommand(
+    command: string,
+    block: CommandBlock,
+    background: boolean,
+    { env: commandEnv, cwd: commandCwd }: IExecuteOptions = {}
+  ): Promise<{ exitCode: number } | null> {
     return new Promise((resolve, reject) => {
-      const cwd = this.options.cwd || process.cwd();
-      const env = {
-        ...process.env,
-        ...this.shellInfo.env,
-        ...this.options.env,
-      };
+      const cwd = commandCwd || this.options.cwd || process.cwd();
+      const env = commandEnv
+        ? { ...this.shellInfo.env, ...commandEnv }
+        : {
+            ...process.env,
+            ...this.shellInfo.env,
+            ...this.options.env,
+          };
 
       // Parse command for basic shell execution
       const args = this.parseCommand(command);
       
-      this.currentProcess = spawn(args[0], args.slice(1), {
+      const child = spawn(args[0], args.slice(1), {
         cwd,
         env,
         stdio: ['pipe', 'pipe', 'pipe'],
+        // Make the command a process group leader so its children can be signalled with it
+        detached: process.platform !== 'win32',
       });
 
-      this.currentProcess.stdout?.on('data', (data: Buffer) => {
-        const output = data.toString();
+      const job: IJob = {
+        blockId: block.id,
+        pid: child.pid,
+        command,
+        status: 'running',
+        background,
+        startTime: new Date(),
+        process: child,
+        block,
+      };
+
+      if (!background) {
+        job.release = () => resolve(null);
+      }
+
+      this.jobs.set(block.id, job);
+      this.emit('job-start', this.toJobInfo(job));
+
+      // Decoders keep multi-byte characters split across reads intact
+      const stdoutDecoder = new StringDecoder('utf8');
+      const stderrDecoder = new StringDecoder('utf8');
+
+      child.stdout?.on('data', (data: Buffer) => {
+        const output = stdoutDecoder.write(data);
         block.addOutput(output);
       });
 
-      this.currentProcess.stderr?.on('data', (data: Buffer) => {
-        const output = data.toString();
-        block.addOutput(output);
+      child.stderr?.on('data', (data: Buffer) => {
+        const output = stderrDecoder.write(data);
+        block.addOutput(output, 'stderr');
       });
 
-      this.currentProcess.on('close', (code) => {
-        resolve({ exitCode: code || 0 });
+      child.on('close', (code: number | null, signal?: NodeJS.Signals | null) => {
+        block.addOutput(stdoutDecoder.end());
+        block.addOutput(stderrDecoder.end(), 'stderr');
+
+        // Shells report death by signal N as exit code 128 + N
+        const exitCode = code ?? (signal ? 128 + (os.constants.signals[signal] || 0) : 0);
+        this.finishJob(job, exitCode);
+        resolve({ exitCode });
       });
 
-      this.currentProcess.on('error', (error) => {
+      child.on('error', (error) => {
+        this.finishJob(job);
         reject(error);
       });
 
-      // Set timeout if specified
-      if (this.options.timeout) {
-        setTimeout(() => {
-          if (this.currentProcess && !this.currentProcess.killed) {
-            this.currentProcess.kill();
-            block.addOutput(`Command timed out after ${this.options.timeout}ms\n`);
+      // Set timeout if specified; background jobs may run as long as they like
+      if (this.options.timeout && !background) {
+        job.timeoutTimer = setTimeout(() => {
+          if (this.jobs.get(block.id) === job && !child.killed) {
+            this.sendSignal(job, 'SIGTERM');
+            block.addOutput(`Command timed out after ${this.options.timeout}ms\n`, 'stderr');
             reject(new Error(`Command timed out after ${this.options.timeout}ms`));
           }
         }, this.options.timeout);
@@ -107,6 +268,22 @@ export class CommandExecutor {
     });
   }
 
+  private finishJob(job: IJob, exitCode?: number): void {
+    if (this.jobs.get(job.blockId) !== job) return;
+
+    this.jobs.delete(job.blockId);
+    if (job.timeoutTimer) {
+      clearTimeout(job.timeoutTimer);
+    }
+
+    // Nobody is waiting on a released job, so it completes its own block
+    if (!job.release && exitCode !== undefined) {
+      job.block.setCompleted(exitCode);
+    }
+
+    this.emit('job-exit', this.toJobInfo(job), exitCode);
+  }
+
   private parseCommand(command: string): string[] {
     // Basic command parsing - will be enhanced later
     const trimmed = command.trim();
@@ -119,13 +296,140 @@ export class CommandExecutor {
     }
   }
 
+  getJobs(): IJobInfo[] {
+    return Array.from(this.jobs.values()).map(job => this.toJobInfo(job));
+  }
+
+  getJob(blockId: string): IJobInfo | undefined {
+    const job = this.jobs.get(blockId);
+    return job ? this.toJobInfo(job) : undefined;
+  }
+
+  // Send a signal to a job's whole process group. Returns false if no job runs the block.
+  signal(blockId: string, signal: JobSignal): boolean {
+    const job = this.jobs.get(blockId);
+    if (!job) {
+      return false;
+    }
+
+    this.sendSignal(job, signal);
+
+    if (signal === 'SIGSTOP') {
+      job.status = 'stopped';
+    } else if (signal === 'SIGCONT') {
+      job.status = 'running';
+    }
+    return true;
+  }
+
+  // Feed input to a job's stdin. Returns false if no job runs the block or its stdin is closed.
+  writeStdin(blockId: string, data: string): boolean {
+    const stdin = this.jobs.get(blockId)?.process.stdin;
+    if (!stdin || !stdin.writable) {
+      return false;
+    }
+
+    stdin.write(data);
+    return true;
+  }
+
+  // Like `bg`: resume a stopped job and stop waiting on it
+  background(blockId: string): boolean {
+    const job = this.jobs.get(blockId);
+    if (!job) {
+      return false;
+    }
+
+    if (job.status === 'stopped') {
+      this.signal(blockId, 'SIGCONT');
+    }
+
+    if (job.timeoutTimer) {
+      clearTimeout(job.timeoutTimer);
+      job.timeoutTimer = undefined;
+    }
+
+    if (!job.background) {
+      job.background = true;
+      const release = job.release;
+      job.release = undefined;
+      release?.();
+      this.emit('job-background', this.toJobInfo(job));
+    }
+    return true;
+  }
+
+  // Like `fg`: resume a stopped job and wait for it to exit
+  async foreground(blockId: string): Promise<CommandBlock | null> {
+    const job = this.jobs.get(blockId);
+    if (!job) {
+      return null;
+    }
+
+    if (job.status === 'stopped') {
+      this.signal(blockId, 'SIGCONT');
+    }
+
+    if (job.background) {
+      job.background = false;
+      this.emit('job-foreground', this.toJobInfo(job));
+    }
+
+    return job.block.waitForExit();
+  }
+
+  // Terminate the foreground jobs
   kill(): void {
-    if (this.currentProcess && !this.currentProcess.killed) {
-      this.currentProcess.kill();
+    for (const job of this.jobs.values()) {
+      if (!job.background) {
+        this.sendSignal(job, 'SIGTERM');
+      }
+    }
+  }
+
+  // Terminate every job, background ones included
+  killAll(): void {
+    for (const job of this.jobs.values()) {
+      this.sendSignal(job, 'SIGTERM');
     }
   }
 
   isRunning(): boolean {
-    return this.currentProcess !== null && !this.currentProcess.killed;
+    return this.jobs.size > 0;
+  }
+
+  private sendSignal(job: IJob, signal: JobSignal): void {
+    if (process.platform === 'win32') {
+      if (signal === 'SIGSTOP' || signal === 'SIGCONT') {
+        throw new Error(`${signal} is not supported on Windows`);
+      }
+
+      // Windows has no process groups; taskkill /T ends the whole tree
+      if (job.pid) {
+        spawn('taskkill', ['/pid', String(job.pid), '/T', '/F']);
+        return;
+      }
+    } else if (job.pid) {
+      try {
+        // A negative pid signals the job's process group
+        process.kill(-job.pid, signal);
+        return;
+      } catch {
+        // The group is gone or was never created; signal the process itself
+      }
+    }
+
+    job.process.kill(signal);
   }
-}
\ No newline at end of file
+
+  private toJobInfo(job: IJob): IJobInfo {
+    return {
+      blockId: job.blockId,
+      pid: job.pid,
+      command: job.command,
+      status: job.status,
+      background: job.background,
+      startTime: job.startTime,
+    };
+  }
+}
@@ -0,0 +1,288 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { SecretRedactor } from './secret-redactor';
+import { IImportedCommand, ImportedHistoryShell } from './shell-history';
+
+export interface ICommandHistoryEntry {
+  command: string;
+  cwd: string;
+  gitBranch?: string;
+  exitCode?: number;
+  duration?: number;
+  sessionId?: string;
+  timestamp: number;
+  // Taken from this shell's own history rather than run in Portal; cwd is empty
+  importedFrom?: ImportedHistoryShell;
+}
+
+export interface ICommandHistoryOptions {
+  persistencePath?: string;
+  maxEntries?: number;
+  // Masks secrets in commands; knows the secrets of the process environment by default
+  redactor?: SecretRedactor;
+}
+
+export interface IHistorySearchOptions {
+  mode?: 'prefix' | 'fuzzy';
+  limit?: number;
+  cwd?: string;
+  sessionId?: string;
+}
+
+export interface ICommandHistoryMatch {
+  command: string;
+  score: number;
+  count: number;
+  lastUsed: number;
+  lastEntry: ICommandHistoryEntry;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Recency buckets for frecency scoring, newest first
+const RECENCY_WEIGHTS: { maxAge: number; weight: number }[] = [
+  { maxAge: HOUR, weight: 100 },
+  { maxAge: DAY, weight: 70 },
+  { maxAge: 7 * DAY, weight: 50 },
+  { maxAge: 30 * DAY, weight: 30 },
+  { maxAge: Infinity, weight: 10 },
+];
+
+/**
+ * Command history shared by all terminals, persisted as append-only JSONL.
+ * Secrets in commands are masked before they are recorded.
+ *
+ * Events:
+ * - `entry` (ICommandHistoryEntry) after a command has been recorded
+ * - `import` (number of entries) after commands from shell history were added
+ */
+export class CommandHistory extends EventEmitter {
+  private entries: ICommandHistoryEntry[] = [];
+  private persistencePath: string;
+  private maxEntries: number;
+  private redactor: SecretRedactor;
+  private loadPromise: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(options: ICommandHistoryOptions = {}) {
+    super();
+    this.persistencePath = options.persistencePath || path.join(os.homedir(), '.portal', 'history.jsonl');
+    this.maxEntries = options.maxEntries || 10000;
+    this.redactor = options.redactor || new SecretRedactor({ environment: process.env });
+  }
+
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadPersistedEntries();
+    }
+    return this.loadPromise;
+  }
+
+  async add(entry: Omit<ICommandHistoryEntry, 'timestamp'> & { timestamp?: number }): Promise<ICommandHistoryEntry | null> {
+    await this.load();
+
+    // Like HISTCONTROL=ignorespace, a leading space keeps a command out of history
+    if (!entry.command.trim() || entry.command.startsWith(' ')) {
+      return null;
+    }
+
+    const record: ICommandHistoryEntry = {
+      ...entry,
+      command: this.redactor.redactText(entry.command.trim()),
+      timestamp: entry.timestamp ?? Date.now(),
+    };
+
+    this.entries.push(record);
+
+    if (this.entries.length > this.maxEntries) {
+      this.entries = this.entries.slice(-this.maxEntries);
+      await this.enqueueWrite(() => this.rewriteFile());
+    } else {
+      await this.enqueueWrite(() => this.appendToFile(record));
+    }
+
+    this.emit('entry', record);
+    return record;
+  }
+
+  /**
+   * Adds commands read from a shell's own history, skipping any Portal
+   * already has, so importing again only brings in what's new.
+   */
+  async import(commands: IImportedCommand[]): Promise<number> {
+    await this.load();
+
+    const known = new Set(this.entries.map(entry => entry.command));
+    const imported: ICommandHistoryEntry[] = [];
+
+    for (const { command, timestamp, shell } of commands) {
+      const record = this.redactor.redactText(command.trim());
+      if (!record || known.has(record)) continue;
+
+      known.add(record);
+      imported.push({ command: record, cwd: '', timestamp, importedFrom: shell });
+    }
+
+    if (imported.length === 0) return 0;
+
+    // Imported commands mostly predate Portal's, so the history is re-sorted
+    this.entries = [...imported, ...this.entries]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(-this.maxEntries);
+    await this.enqueueWrite(() => this.rewriteFile());
+
+    this.emit('import', imported.length);
+    return imported.length;
+  }
+
+  getEntries(): ICommandHistoryEntry[] {
+    return [...this.entries];
+  }
+
+  // Unique commands, most recently used first
+  getRecent(limit: number = 10, sessionId?: string): string[] {
+    const seen = new Set<string>();
+    const recent: string[] = [];
+
+    for (let i = this.entries.length - 1; i >= 0 && recent.length < limit; i--) {
+      const entry = this.entries[i];
+      if (sessionId && entry.sessionId !== sessionId) continue;
+      if (seen.has(entry.command)) continue;
+
+      seen.add(entry.command);
+      recent.push(entry.command);
+    }
+
+    return recent;
+  }
+
+  /**
+   * Prefix or fuzzy (subsequence) search ranked by match quality times
+   * frecency, so commands used often and lately come first. An empty query
+   * returns the top commands by frecency alone.
+   */
+  search(query: string, options: IHistorySearchOptions = {}): ICommandHistoryMatch[] {
+    const { mode = 'fuzzy', limit = 10, cwd, sessionId } = options;
+    const now = Date.now();
+    const groups = new Map<string, { entries: ICommandHistoryEntry[]; quality: number }>();
+
+    for (const entry of this.entries) {
+      if (cwd && entry.cwd !== cwd) continue;
+      if (sessionId && entry.sessionId !== sessionId) continue;
+
+      const group = groups.get(entry.command);
+      if (group) {
+        group.entries.push(entry);
+        continue;
+      }
+
+      const quality = mode === 'prefix'
+        ? (entry.command.toLowerCase().startsWith(query.toLowerCase()) ? 1 : 0)
+        : fuzzyScore(query, entry.command);
+
+      if (quality > 0) {
+        groups.set(entry.command, { entries: [entry], quality });
+      }
+    }
+
+    return Array.from(groups.entries())
+      .map(([command, { entries, quality }]) => {
+        const lastEntry = entries[entries.length - 1];
+        return {
+          command,
+          score: quality * frecency(entries, now),
+          count: entries.length,
+          lastUsed: lastEntry.timestamp,
+          lastEntry,
+        };
+      })
+      .sort((a, b) => b.score - a.score || b.lastUsed - a.lastUsed)
+      .slice(0, limit);
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    this.entries = [];
+    await this.enqueueWrite(() => this.rewriteFile());
+  }
+
+  private async loadPersistedEntries(): Promise<void> {
+    try {
+      const data = await fs.readFile(this.persistencePath, 'utf8');
+      const loaded: ICommandHistoryEntry[] = [];
+
+      for (const line of data.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          const entry = JSON.parse(line);
+          if (typeof entry.command === 'string' && typeof entry.timestamp === 'number') {
+            loaded.push(entry);
+          }
+        } catch {
+          // Skip lines torn by a crash mid-append
+        }
+      }
+
+      // Entries recorded before the file finished loading come after it
+      this.entries = [...loaded, ...this.entries].slice(-this.maxEntries);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn('Failed to load command history:', error);
+      }
+    }
+  }
+
+  // Serialize file writes so appends land in order and never interleave with a rewrite
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    this.writeQueue = this.writeQueue.then(write).catch(error => {
+      console.warn('Failed to persist command history:', error);
+    });
+    return this.writeQueue;
+  }
+
+  private async appendToFile(entry: ICommandHistoryEntry): Promise<void> {
+    await fs.mkdir(path.dirname(this.persistencePath), { recursive: true });
+    await fs.appendFile(this.persistencePath, JSON.stringify(entry) + '\n', { mode: 0o600 });
+  }
+
+  private async rewriteFile(): Promise<void> {
+    await fs.mkdir(path.dirname(this.persistencePath), { recursive: true });
+
+    const tempPath = `${this.persistencePath}.tmp`;
+    const data = this.entries.map(entry => JSON.stringify(entry) + '\n').join('');
+    await fs.writeFile(tempPath, data, { mode: 0o600 });
+    await fs.rename(tempPath, this.persistencePath);
+  }
+}
+
+function frecency(entries: ICommandHistoryEntry[], now: number): number {
+  return entries.reduce((total, entry) => {
+    const age = now - entry.timestamp;
+    const bucket = RECENCY_WEIGHTS.find(({ maxAge }) => age < maxAge)!;
+    return total + bucket.weight;
+  }, 0);
+}
+
+// Subsequence match scored by how tightly the query characters cluster,
+// with a bonus for prefix matches. Returns 0 when the query doesn't match.
+function fuzzyScore(query: string, candidate: string): number {
+  if (!query) return 1;
+
+  const needle = query.toLowerCase();
+  const haystack = candidate.toLowerCase();
+
+  if (haystack.startsWith(needle)) return 2;
+
+  let first = -1;
+  let position = -1;
+  for (const char of needle) {
+    position = haystack.indexOf(char, position + 1);
+    if (position === -1) return 0;
+    if (first === -1) first = position;
+  }
+
+  return needle.length / (position - first + 1);
+}
@@ -0,0 +1,788 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CommandPreview,
+  PreviewAction,
+  PreviewEntry,
+  PreviewOperation,
+  ResolvedCommand,
+  ShellWord,
+} from './types';
+import { formatBytes } from './output-buffer';
+
+export interface IPreviewContext {
+  cwd: string;
+  // Values for $NAME in arguments; the process environment by default
+  env?: Record<string, string | undefined>;
+  // Paths looked at under recursive targets before the totals become a lower bound
+  maxEntries?: number;
+}
+
+export interface IWordExpansion {
+  paths: string[];
+  // Set when the word can't be expanded without running something
+  problems: string[];
+  // Variables used by the word that aren't set
+  unset: string[];
+}
+
+interface IParsedArgs {
+  // Short flags by letter, long options by name
+  flags: Set<string>;
+  values: Record<string, string>;
+  operands: ShellWord[];
+}
+
+interface IWalkBudget {
+  remaining: number;
+  truncated: boolean;
+}
+
+type PathInfo = Omit<PreviewEntry, 'path'>;
+
+const DEFAULT_MAX_ENTRIES = 100000;
+
+// Entries listed per operation by formatPreview()
+const MAX_LISTED_ENTRIES = 50;
+
+// Largest {1..n} range expanded; bigger ones are left as written, like a typo
+const MAX_BRACE_RANGE = 1000;
+
+const VERBS: Record<PreviewAction, string> = {
+  remove: 'Would remove',
+  move: 'Would move',
+  chmod: 'Would change the mode of',
+  chown: 'Would change the owner of',
+};
+
+// rm and mv, and chmod, chown and chgrp when recursive: the commands whose
+// effect on the file system a preview can work out from their arguments
+export function isPreviewable(command: ResolvedCommand): boolean {
+  switch (command.program) {
+    case 'rm':
+    case 'mv':
+      return true;
+    case 'chmod':
+    case 'chown':
+    case 'chgrp': {
+      const { flags } = parseArgs(command);
+      return flags.has('R') || flags.has('recursive');
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Strips a `portal preview -- <command>` prefix. Returns null for commands
+ * without one.
+ */
+export function parsePreviewCommand(command: string): string | null {
+  const match = command.match(/^\s*portal\s+preview\s+(?:--\s+)?(.+)$/s);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Works out which paths the rm, mv, chmod -R and chown -R commands of a line
+ * would touch, with counts and sizes, without changing anything. Arguments
+ * are expanded like the shell would: braces, ~, $NAME and globs, against the
+ * directory each command runs in after any cd before it. Symlinks are never
+ * followed.
+ */
+export async function previewCommands(
+  line: string,
+  commands: ResolvedCommand[],
+  context: IPreviewContext
+): Promise<CommandPreview> {
+  const env = context.env || process.env;
+  const budget: IWalkBudget = { remaining: context.maxEntries ?? DEFAULT_MAX_ENTRIES, truncated: false };
+  const preview: CommandPreview = {
+    command: line,
+    cwd: context.cwd,
+    operations: [],
+    files: 0,
+    directories: 0,
+    bytes: 0,
+    truncated: false,
+    problems: [],
+  };
+
+  let cwd = path.resolve(context.cwd);
+  for (const command of commands) {
+    if (command.program === 'cd' || command.program === 'pushd' || command.program === 'popd') {
+      const next = await changeDirectory(command, cwd, env, preview.problems);
+      if (!next) break;
+      cwd = next;
+      continue;
+    }
+    if (!isPreviewable(command)) continue;
+
+    const operation = await previewOperation(command, cwd, env, budget, preview.problems);
+    if (operation) {
+      preview.operations.push(operation);
+      preview.files += operation.files;
+      preview.directories += operation.directories;
+      preview.bytes += operation.bytes;
+    }
+  }
+  preview.truncated = budget.truncated;
+
+  return preview;
+}
+
+// A listing of the preview for a command block
+export function formatPreview(preview: CommandPreview): string {
+  const lines = [`Dry run in ${preview.cwd}: nothing was changed`, ''];
+
+  if (preview.operations.length === 0) {
+    lines.push('Nothing to preview: no rm, mv, chmod -R or chown -R with paths to resolve', '');
+  }
+
+  for (const operation of preview.operations) {
+    lines.push(operation.cwd === preview.cwd ? operation.command : `${operation.command}  (in ${operation.cwd})`);
+
+    const listed = operation.entries.slice(0, MAX_LISTED_ENTRIES);
+    const width = Math.min(48, Math.max(0, ...listed.map(entry => displayPath(entry).length)));
+    for (const entry of listed) {
+      lines.push(`  ${displayPath(entry).padEnd(width)}  ${describeEntry(entry)}`);
+    }
+    if (operation.entries.length > listed.length) {
+      lines.push(`  … and ${operation.entries.length - listed.length} more`);
+    }
+    lines.push(`  ${VERBS[operation.action]} ${describeTotals(operation)}`, '');
+  }
+
+  if (preview.operations.length > 1) {
+    lines.push(`In total: ${describeTotals(preview)}`, '');
+  }
+  for (const problem of preview.problems) {
+    lines.push(`⚠️  ${problem}`);
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+// The paths a word stands for, as the shell would expand it. A glob that
+// matches nothing is kept as written, like bash does without nullglob.
+export async function expandWord(
+  word: ShellWord,
+  cwd: string,
+  env: Record<string, string | undefined> = process.env
+): Promise<IWordExpansion> {
+  const result: IWordExpansion = { paths: [], problems: [], unset: [] };
+  if (word.substitutions.length > 0) {
+    result.problems.push(`Not previewed: ${word.raw} runs a command to build its value`);
+    return result;
+  }
+
+  for (const raw of expandBraces(word.raw)) {
+    const pattern = toPattern(raw, env, result);
+    if (result.problems.length > 0) break;
+
+    const matches = pattern.glob ? await matchGlob(pattern.text, cwd) : [];
+    result.paths.push(...(matches.length > 0 ? matches : [unescapePattern(pattern.text)]));
+  }
+
+  if (result.problems.length > 0) {
+    result.paths = [];
+  }
+  return result;
+}
+
+async function previewOperation(
+  command: ResolvedCommand,
+  cwd: string,
+  env: Record<string, string | undefined>,
+  budget: IWalkBudget,
+  problems: string[]
+): Promise<PreviewOperation | null> {
+  const args = parseArgs(command);
+  const written = [command.executable, ...command.argWords.map(word => word.raw)].join(' ');
+
+  const expand = async (words: ShellWord[]) => {
+    const paths: string[] = [];
+    for (const word of words) {
+      const expansion = await expandWord(word, cwd, env);
+      problems.push(...expansion.problems);
+      for (const name of expansion.unset) {
+        problems.push(`$${name} is not set, so ${word.raw} in ${written} expands without it`);
+      }
+      paths.push(...expansion.paths);
+    }
+    return paths;
+  };
+
+  const entries: PreviewEntry[] = [];
+  const relative = (absolute: string) => relativePath(cwd, absolute);
+  let action: PreviewAction;
+
+  switch (command.program) {
+    case 'rm': {
+      action = 'remove';
+      const recursive = ['r', 'R', 'recursive'].some(flag => args.flags.has(flag));
+      const removesEmptyDirectories = args.flags.has('d') || args.flags.has('dir');
+
+      for (const target of await expand(args.operands)) {
+        const absolute = path.resolve(cwd, target);
+        const info = await describePath(absolute, recursive, budget);
+        if (info.type === 'directory' && !recursive
+          && !(removesEmptyDirectories && (await fs.readdir(absolute)).length === 0)) {
+          entries.push({ ...info, path: relative(absolute), files: 0, directories: 0, note: 'Not removed: is a directory' });
+        } else {
+          entries.push({ ...info, path: relative(absolute) });
+        }
+      }
+      break;
+    }
+
+    case 'mv': {
+      action = 'move';
+      const sources = await expand(args.operands);
+      const targetOption = args.values.t ?? args.values['target-directory'];
+      const target = targetOption !== undefined ? targetOption : sources.length > 1 ? sources.pop()! : undefined;
+      if (target === undefined) {
+        problems.push(`Not previewed: ${written} has no destination`);
+        return null;
+      }
+
+      const targetPath = path.resolve(cwd, expandTilde(target, env));
+      const intoDirectory = targetOption !== undefined
+        || (!args.flags.has('T') && !args.flags.has('no-target-directory') && await isDirectory(targetPath));
+      if (!intoDirectory && sources.length > 1) {
+        problems.push(`${written} would fail: ${target} is not a directory`);
+      }
+      const noClobber = args.flags.has('n') || args.flags.has('no-clobber');
+
+      for (const source of sources) {
+        const absolute = path.resolve(cwd, source);
+        const destination = intoDirectory ? path.join(targetPath, path.basename(absolute)) : targetPath;
+        const info = await describePath(absolute, true, budget);
+        const entry: PreviewEntry = { ...info, path: relative(absolute), destination: relative(destination) };
+
+        if (info.type !== 'missing' && await exists(destination)) {
+          if (noClobber) {
+            Object.assign(entry, { files: 0, directories: 0, bytes: 0, note: 'Skipped: destination exists' });
+          } else {
+            entry.note = `Replaces ${relative(destination)}`;
+          }
+        }
+        entries.push(entry);
+      }
+      break;
+    }
+
+    default: {
+      // chmod, chown and chgrp take the mode or owner first, unless it comes from --reference
+      action = command.program === 'chmod' ? 'chmod' : 'chown';
+      const targets = args.values.reference !== undefined ? args.operands : args.operands.slice(1);
+
+      for (const target of await expand(targets)) {
+        const absolute = path.resolve(cwd, target);
+        entries.push({ ...await describePath(absolute, true, budget), path: relative(absolute) });
+      }
+      break;
+    }
+  }
+
+  for (const entry of entries) {
+    if (entry.type === 'missing' && !entry.note) {
+      entry.note = 'Does not exist';
+    }
+  }
+
+  return {
+    action,
+    command: written,
+    cwd,
+    entries,
+    files: entries.reduce((sum, entry) => sum + entry.files, 0),
+    directories: entries.reduce((sum, entry) => sum + entry.directories, 0),
+    bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0),
+    truncated: budget.truncated,
+  };
+}
+
+// The directory after cd, pushd or popd, or null when it can't be known
+async function changeDirectory(
+  command: ResolvedCommand,
+  cwd: string,
+  env: Record<string, string | undefined>,
+  problems: string[]
+): Promise<string | null> {
+  const written = [command.executable, ...command.argWords.map(word => word.raw)].join(' ');
+  const [word] = parseArgs(command).operands;
+
+  // popd, cd - and a bare pushd go back to directories from before this line
+  if (command.program === 'popd' || word?.raw === '-' || (!word && command.program === 'pushd')) {
+    problems.push(`Stopped at ${written}: the directory it changes to isn't known before it runs`);
+    return null;
+  }
+  if (command.subshell) {
+    problems.push(`Assumed ${written} applies to the commands after it, though it runs in a subshell`);
+  }
+  if (!word) {
+    return env.HOME || os.homedir();
+  }
+
+  const expansion = await expandWord(word, cwd, env);
+  if (expansion.problems.length > 0 || expansion.paths.length !== 1) {
+    problems.push(...expansion.problems, `Stopped at ${written}: the directory it changes to isn't known before it runs`);
+    return null;
+  }
+
+  const directory = path.resolve(cwd, expansion.paths[0]);
+  if (!await isDirectory(directory)) {
+    problems.push(`Stopped at ${written}: ${expansion.paths[0]} is not a directory`);
+    return null;
+  }
+  return directory;
+}
+
+function parseArgs(command: ResolvedCommand): IParsedArgs {
+  const parsed: IParsedArgs = { flags: new Set(), values: {}, operands: [] };
+  // Options of mv that take the next argument
+  const withValue = command.program === 'mv' ? ['t', 'S'] : [];
+
+  for (let index = 0; index < command.args.length; index++) {
+    const arg = command.args[index];
+    const word = command.argWords[index];
+
+    if (arg === '--') {
+      parsed.operands.push(...command.argWords.slice(index + 1));
+      break;
+    }
+    // chmod modes like -w look like options
+    if (arg === '-' || !arg.startsWith('-') || (command.program === 'chmod' && /^-[rwxXst]+$/.test(arg))) {
+      parsed.operands.push(word);
+      continue;
+    }
+
+    if (arg.startsWith('--')) {
+      const [name, ...value] = arg.slice(2).split('=');
+      parsed.flags.add(name);
+      if (value.length > 0) parsed.values[name] = value.join('=');
+      continue;
+    }
+
+    for (let position = 1; position < arg.length; position++) {
+      const flag = arg[position];
+      parsed.flags.add(flag);
+      if (withValue.includes(flag)) {
+        parsed.values[flag] = position + 1 < arg.length ? arg.slice(position + 1) : command.args[++index] ?? '';
+        break;
+      }
+    }
+  }
+
+  return parsed;
+}
+
+// What a path is and how much is under it; recursive counts the whole tree
+async function describePath(absolute: string, recursive: boolean, budget: IWalkBudget): Promise<PathInfo> {
+  let stats;
+  try {
+    stats = await fs.lstat(absolute);
+  } catch {
+    return { type: 'missing', files: 0, directories: 0, bytes: 0 };
+  }
+
+  if (stats.isSymbolicLink()) {
+    return { type: 'symlink', files: 1, directories: 0, bytes: stats.size };
+  }
+  if (!stats.isDirectory()) {
+    return { type: stats.isFile() ? 'file' : 'other', files: 1, directories: 0, bytes: stats.size };
+  }
+
+  const info: PathInfo = { type: 'directory', files: 0, directories: 1, bytes: 0 };
+  if (recursive) {
+    await walk(absolute, info, budget);
+  }
+  return info;
+}
+
+async function walk(directory: string, info: PathInfo, budget: IWalkBudget): Promise<void> {
+  let entries;
+  try {
+    entries = await fs.readdir(directory, { withFileTypes: true });
+  } catch {
+    return;
+  }
+
+  for (const entry of entries) {
+    if (budget.remaining <= 0) {
+      budget.truncated = true;
+      return;
+    }
+    budget.remaining--;
+
+    const child = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      info.directories++;
+      await walk(child, info, budget);
+      continue;
+    }
+
+    info.files++;
+    try {
+      info.bytes += (await fs.lstat(child)).size;
+    } catch {
+      // Gone since the directory was read
+    }
+  }
+}
+
+// `a{b,c}d` -> `abd acd` and `{1..3}` -> `1 2 3`, outside quotes and ${...}
+function expandBraces(raw: string): string[] {
+  let quote: string | null = null;
+
+  for (let index = 0; index < raw.length; index++) {
+    const char = raw[index];
+    if (char === '\\' && quote !== "'") {
+      index++;
+    } else if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '{' && raw[index - 1] !== '$') {
+      const braces = splitBraces(raw, index);
+      if (braces) {
+        const prefix = raw.slice(0, index);
+        const suffix = raw.slice(braces.end + 1);
+        return braces.items.flatMap(item => expandBraces(prefix + item + suffix));
+      }
+    }
+  }
+
+  return [raw];
+}
+
+function splitBraces(raw: string, start: number): { items: string[]; end: number } | null {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let depth = 0;
+  let itemStart = start + 1;
+
+  for (let index = start + 1; index < raw.length; index++) {
+    const char = raw[index];
+    if (char === '\\' && quote !== "'") {
+      index++;
+    } else if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      items.push(raw.slice(itemStart, index));
+      itemStart = index + 1;
+    } else if (char === '}') {
+      if (items.length > 0) {
+        return { items: [...items, raw.slice(itemStart, index)], end: index };
+      }
+      const range = expandRange(raw.slice(start + 1, index));
+      return range && { items: range, end: index };
+    }
+  }
+
+  return null;
+}
+
+function expandRange(body: string): string[] | null {
+  const numeric = /^(-?\d+)\.\.(-?\d+)$/.exec(body);
+  const letters = /^([a-zA-Z])\.\.([a-zA-Z])$/.exec(body);
+  if (!numeric && !letters) return null;
+
+  const from = numeric ? Number(numeric[1]) : letters![1].charCodeAt(0);
+  const to = numeric ? Number(numeric[2]) : letters![2].charCodeAt(0);
+  if (Math.abs(to - from) >= MAX_BRACE_RANGE) return null;
+
+  const items: string[] = [];
+  const step = from <= to ? 1 : -1;
+  for (let value = from; value !== to + step; value += step) {
+    items.push(numeric ? String(value) : String.fromCharCode(value));
+  }
+  return items;
+}
+
+// Removes quotes and expands ~ and variables. Glob characters that were
+// quoted or escaped come out backslash-escaped, so only the rest match.
+function toPattern(
+  raw: string,
+  env: Record<string, string | undefined>,
+  result: IWordExpansion
+): { text: string; glob: boolean } {
+  const literal = (text: string) => text.replace(/[\\*?[\]]/g, '\\$&');
+  let text = '';
+  let glob = false;
+  let index = 0;
+
+  if (raw === '~' || raw.startsWith('~/')) {
+    text = literal(env.HOME || os.homedir());
+    index = 1;
+  }
+
+  while (index < raw.length) {
+    const char = raw[index];
+
+    if (char === "'") {
+      const end = raw.indexOf("'", index + 1);
+      const stop = end === -1 ? raw.length : end;
+      text += literal(raw.slice(index + 1, stop));
+      index = stop + 1;
+    } else if (char === '$' && raw[index + 1] === "'") {
+      let value = '';
+      for (index += 2; index < raw.length && raw[index] !== "'"; index++) {
+        if (raw[index] === '\\' && index + 1 < raw.length) {
+          const escaped = raw[++index];
+          value += ({ n: '\n', t: '\t', r: '\r' } as Record<string, string>)[escaped] ?? escaped;
+        } else {
+          value += raw[index];
+        }
+      }
+      text += literal(value);
+      index++;
+    } else if (char === '"') {
+      for (index++; index < raw.length && raw[index] !== '"';) {
+        if (raw[index] === '\\' && '$`"\\'.includes(raw[index + 1])) {
+          text += literal(raw[index + 1]);
+          index += 2;
+        } else if (raw[index] === '$') {
+          const variable = readVariable(raw, index, env, result);
+          text += literal(variable.value);
+          index = variable.end;
+        } else {
+          text += literal(raw[index++]);
+        }
+      }
+      index++;
+    } else if (char === '\\') {
+      text += literal(raw[index + 1] ?? '');
+      index += 2;
+    } else if (char === '$') {
+      // Unquoted values are globbed too
+      const variable = readVariable(raw, index, env, result);
+      text += variable.value;
+      glob = glob || /[*?[]/.test(variable.value);
+      index = variable.end;
+    } else {
+      glob = glob || '*?['.includes(char);
+      text += char;
+      index++;
+    }
+  }
+
+  return { text, glob };
+}
+
+// $NAME or ${NAME} at `start`; anything fancier can't be previewed
+function readVariable(
+  raw: string,
+  start: number,
+  env: Record<string, string | undefined>,
+  result: IWordExpansion
+): { value: string; end: number } {
+  let name: string;
+  let end: number;
+
+  if (raw[start + 1] === '{') {
+    const close = raw.indexOf('}', start + 2);
+    end = close === -1 ? raw.length : close + 1;
+    name = raw.slice(start + 2, close === -1 ? raw.length : close);
+  } else {
+    const match = /^[A-Za-z_][A-Za-z0-9_]*|^[0-9@*#?$!-]/.exec(raw.slice(start + 1));
+    if (!match) {
+      return { value: '$', end: start + 1 };
+    }
+    name = match[0];
+    end = start + 1 + name.length;
+  }
+
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    result.problems.push(`Not previewed: can't expand ${raw.slice(start, end)} without running the shell`);
+    return { value: '', end };
+  }
+  if (env[name] === undefined && !result.unset.includes(name)) {
+    result.unset.push(name);
+  }
+  return { value: env[name] ?? '', end };
+}
+
+async function matchGlob(pattern: string, cwd: string): Promise<string[]> {
+  const segments = splitPattern(pattern);
+  let matches = [pattern.startsWith('/') ? '/' : ''];
+  let globbed = false;
+
+  for (const segment of segments) {
+    if (!segment) continue;
+
+    if (!hasGlob(segment)) {
+      const name = unescapePattern(segment);
+      matches = matches.map(base => joinPath(base, name));
+      // Past a glob, literal parts only match what exists
+      if (globbed) {
+        matches = (await Promise.all(matches.map(async match => await exists(path.resolve(cwd, match)) ? match : null)))
+          .filter((match): match is string => match !== null);
+      }
+      continue;
+    }
+
+    const regex = segmentToRegExp(segment);
+    const next: string[] = [];
+    for (const base of matches) {
+      let names: string[];
+      try {
+        names = await fs.readdir(path.resolve(cwd, base || '.'));
+      } catch {
+        continue;
+      }
+      for (const name of names.sort()) {
+        // Hidden files only match a pattern that starts with a dot
+        if (name.startsWith('.') && !segment.startsWith('.')) continue;
+        if (regex.test(name)) next.push(joinPath(base, name));
+      }
+    }
+    matches = next;
+    globbed = true;
+  }
+
+  return globbed ? matches : [];
+}
+
+function splitPattern(pattern: string): string[] {
+  const segments: string[] = [];
+  let current = '';
+  for (let index = 0; index < pattern.length; index++) {
+    if (pattern[index] === '\\') {
+      current += pattern.slice(index, index + 2);
+      index++;
+    } else if (pattern[index] === '/') {
+      segments.push(current);
+      current = '';
+    } else {
+      current += pattern[index];
+    }
+  }
+  segments.push(current);
+  return segments;
+}
+
+function hasGlob(segment: string): boolean {
+  for (let index = 0; index < segment.length; index++) {
+    const char = segment[index];
+    if (char === '\\') index++;
+    else if (char === '*' || char === '?') return true;
+    else if (char === '[' && findClassEnd(segment, index) !== -1) return true;
+  }
+  return false;
+}
+
+// Index of the ] closing a [...] class at `start`; a ] right after [ or [! is part of it
+function findClassEnd(segment: string, start: number): number {
+  let index = start + 1;
+  if (segment[index] === '!' || segment[index] === '^') index++;
+  if (segment[index] === ']') index++;
+  for (; index < segment.length; index++) {
+    if (segment[index] === '\\') index++;
+    else if (segment[index] === ']') return index;
+  }
+  return -1;
+}
+
+function segmentToRegExp(segment: string): RegExp {
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\/-]/g, '\\$&');
+  let source = '';
+
+  for (let index = 0; index < segment.length; index++) {
+    const char = segment[index];
+    if (char === '\\') {
+      source += escape(segment[++index] ?? '');
+    } else if (char === '*') {
+      // ** is the same as * without globstar
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '[' && findClassEnd(segment, index) !== -1) {
+      const end = findClassEnd(segment, index);
+      let body = segment.slice(index + 1, end);
+      const negated = body[0] === '!' || body[0] === '^';
+      if (negated) body = body.slice(1);
+      source += `[${negated ? '^' : ''}${body.replace(/\\(.)/g, '$1').replace(/[\\\]^]/g, '\\$&')}]`;
+      index = end;
+    } else {
+      source += escape(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`, 's');
+}
+
+function unescapePattern(pattern: string): string {
+  return pattern.replace(/\\(.)/gs, '$1');
+}
+
+function expandTilde(value: string, env: Record<string, string | undefined>): string {
+  return value === '~' || value.startsWith('~/') ? (env.HOME || os.homedir()) + value.slice(1) : value;
+}
+
+function joinPath(base: string, name: string): string {
+  return !base ? name : base.endsWith('/') ? base + name : `${base}/${name}`;
+}
+
+function relativePath(cwd: string, absolute: string): string {
+  const relative = path.relative(cwd, absolute);
+  if (!relative) return '.';
+  return relative.startsWith('..') || path.isAbsolute(relative) ? absolute : relative;
+}
+
+function displayPath(entry: PreviewEntry): string {
+  return entry.type === 'directory' && !entry.path.endsWith('/') ? `${entry.path}/` : entry.path;
+}
+
+function describeEntry(entry: PreviewEntry): string {
+  const parts: string[] = [];
+  if (entry.type === 'directory' && entry.directories > 0) {
+    parts.push(`${plural(entry.files, 'file')}, ${plural(entry.directories - 1, 'subdirectory', 'subdirectories')}`);
+  } else if (entry.type === 'symlink') {
+    parts.push('symlink');
+  }
+  if (entry.type !== 'missing') {
+    parts.push(formatBytes(entry.bytes));
+  }
+  if (entry.destination) {
+    parts.push(`→ ${entry.destination}`);
+  }
+  if (entry.note) {
+    parts.push(entry.note);
+  }
+  return parts.join(', ');
+}
+
+function describeTotals(totals: { files: number; directories: number; bytes: number; truncated: boolean }): string {
+  const atLeast = totals.truncated ? 'at least ' : '';
+  return `${atLeast}${plural(totals.files, 'file')} and ${plural(totals.directories, 'directory', 'directories')}`
+    + ` (${atLeast}${formatBytes(totals.bytes)})`;
+}
+
+function plural(count: number, singular: string, pluralForm = `${singular}s`): string {
+  return `${count} ${count === 1 ? singular : pluralForm}`;
+}
+
+async function isDirectory(absolute: string): Promise<boolean> {
+  try {
+    return (await fs.stat(absolute)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+async function exists(absolute: string): Promise<boolean> {
+  try {
+    await fs.lstat(absolute);
+    return true;
+  } catch {
+    return false;
+  }
+}
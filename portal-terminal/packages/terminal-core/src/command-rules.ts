@@ -0,0 +1,228 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandMatcher, CommandRule, ResolvedCommand, RuleScope, RuleSeverity } from './types';
+
+export interface IRuleContext {
+  cwd?: string;
+  // Looked up from cwd when a rule is scoped to branches and this is unset
+  branch?: string;
+}
+
+export const SEVERITY_ORDER: Record<RuleSeverity, number> = { warn: 1, confirm: 2, block: 3 };
+
+const RECURSIVE = ['-r', '-R', '--recursive'];
+const FORCE = ['-f', '--force'];
+
+// The rules CommandValidator used to hardcode, now the default pack
+export const DEFAULT_RULES: CommandRule[] = [
+  {
+    id: 'rm-root',
+    match: { command: 'rm', args: [RECURSIVE, FORCE, ['/', '/*']] },
+    severity: 'block',
+    message: 'Potentially dangerous command detected: rm -rf /',
+  },
+  {
+    id: 'rm-home',
+    match: { command: 'rm', args: [RECURSIVE, FORCE, ['~', '~/', '~/*', '$HOME', '$HOME/']] },
+    severity: 'block',
+    message: 'Potentially dangerous command detected: rm -rf ~',
+  },
+  {
+    id: 'sudo-rm-rf',
+    match: { command: 'rm', args: [RECURSIVE, FORCE], elevated: true },
+    severity: 'block',
+    message: 'Potentially dangerous command detected: sudo rm -rf',
+    suggestion: 'rm -rf without sudo, on the exact path you mean to delete',
+  },
+  {
+    id: 'dd-disk',
+    match: { command: 'dd', args: [['of=/dev/sd*', 'of=/dev/hd*', 'of=/dev/nvme*', 'of=/dev/disk*']] },
+    severity: 'block',
+    message: 'Potentially destructive command pattern detected: dd onto a disk device',
+  },
+  {
+    id: 'fork-bomb',
+    match: { pattern: ':\\(\\)\\s*\\{\\s*:\\s*\\|\\s*:\\s*&\\s*\\}\\s*;\\s*:' },
+    severity: 'block',
+    message: 'Potentially destructive command pattern detected: fork bomb',
+  },
+  {
+    id: 'shutdown',
+    match: { command: ['shutdown', 'reboot', 'halt', 'poweroff'] },
+    severity: 'block',
+    message: 'Potentially dangerous command detected: shutting down the machine',
+  },
+  {
+    id: 'init-runlevel',
+    match: { command: 'init', args: [['0', '6']] },
+    severity: 'block',
+    message: 'Potentially dangerous command detected: init 0/6 shuts down the machine',
+  },
+  {
+    id: 'format-drive',
+    match: { command: 'format', args: ['?:'], ignoreCase: true },
+    severity: 'block',
+    message: 'Potentially dangerous command detected: formatting a drive',
+  },
+  {
+    id: 'del-drive',
+    match: { command: 'del', args: ['/s', '/q', ['?:\\', '?:\\*']], ignoreCase: true },
+    severity: 'block',
+    message: 'Potentially dangerous command detected: deleting a whole drive',
+  },
+  {
+    id: 'sudo-rm',
+    match: { command: 'rm', elevated: true },
+    severity: 'warn',
+    message: 'Using sudo rm - be careful with file deletion',
+  },
+  {
+    id: 'chmod-777',
+    match: { command: 'chmod', args: ['777'] },
+    severity: 'warn',
+    message: 'Setting 777 permissions is generally unsafe',
+    suggestion: 'chmod 755 for directories and scripts, 644 for files',
+  },
+  {
+    id: 'pipe-to-shell',
+    match: { command: ['curl', 'wget'], pipedTo: ['sh', 'bash', 'zsh', 'dash'] },
+    severity: 'warn',
+    message: 'Piping downloaded scripts to a shell can be dangerous',
+    suggestion: 'Download the script, read it, then run it',
+  },
+];
+
+export const DEFAULT_TYPOS: Record<string, string> = {
+  'sl': 'ls',
+  'gti': 'git',
+  'git psuh': 'git push',
+  'git plul': 'git pull',
+  'cd..': 'cd ..',
+  'claer': 'clear',
+  'exot': 'exit',
+};
+
+export function matchesRule(
+  rule: CommandRule,
+  line: string,
+  commands: ResolvedCommand[],
+  context: IRuleContext = {}
+): boolean {
+  return matchesCommand(rule.match, line, commands) && inScope(rule.scope, context);
+}
+
+function matchesCommand(matcher: CommandMatcher, line: string, commands: ResolvedCommand[]): boolean {
+  if (matcher.pattern && !new RegExp(matcher.pattern, matcher.ignoreCase ? 'i' : '').test(line)) {
+    return false;
+  }
+
+  const needsCommand = matcher.command !== undefined || matcher.args !== undefined
+    || matcher.elevated !== undefined || matcher.pipedTo !== undefined;
+  if (!needsCommand) {
+    return !!matcher.pattern;
+  }
+
+  return commands.some(command => matchesSimpleCommand(matcher, command));
+}
+
+function matchesSimpleCommand(matcher: CommandMatcher, command: ResolvedCommand): boolean {
+  const ignoreCase = !!matcher.ignoreCase || process.platform === 'win32';
+
+  if (matcher.command !== undefined) {
+    const names = Array.isArray(matcher.command) ? matcher.command : [matcher.command];
+    if (!names.some(name => sameName(name, command.program, ignoreCase))) return false;
+  }
+
+  if (matcher.elevated !== undefined && matcher.elevated !== command.elevated) {
+    return false;
+  }
+
+  if (matcher.pipedTo !== undefined) {
+    if (!command.pipedTo || !matcher.pipedTo.includes(command.pipedTo)) return false;
+  }
+
+  if (matcher.args) {
+    const tokens = expandShortFlags(command.args);
+    return matcher.args.every(entry =>
+      (Array.isArray(entry) ? entry : [entry]).some(alternative =>
+        expandShortFlags([alternative]).every(part => tokens.some(token => globMatch(part, token, !!matcher.ignoreCase)))
+      )
+    );
+  }
+
+  return true;
+}
+
+function sameName(name: string, program: string, ignoreCase: boolean): boolean {
+  return ignoreCase ? name.toLowerCase() === program.toLowerCase() : name === program;
+}
+
+// -rf -> -r -f, so flags match however they're combined
+function expandShortFlags(args: string[]): string[] {
+  return args.flatMap(arg =>
+    /^-[A-Za-z]{2,}$/.test(arg) ? arg.slice(1).split('').map(flag => `-${flag}`) : [arg]
+  );
+}
+
+function globMatch(pattern: string, value: string, ignoreCase: boolean): boolean {
+  if (!/[*?]/.test(pattern)) {
+    return ignoreCase ? pattern.toLowerCase() === value.toLowerCase() : pattern === value;
+  }
+
+  const source = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${source}$`, ignoreCase ? 'i' : '').test(value);
+}
+
+function inScope(scope: RuleScope | undefined, context: IRuleContext): boolean {
+  if (!scope) return true;
+
+  const cwd = context.cwd || process.cwd();
+  if (scope.directories && !scope.directories.some(directory => isWithin(cwd, directory))) return false;
+  if (scope.excludeDirectories?.some(directory => isWithin(cwd, directory))) return false;
+
+  if (scope.branches || scope.excludeBranches) {
+    const branch = context.branch ?? readGitBranch(cwd);
+    if (scope.branches && !(branch && scope.branches.some(pattern => globMatch(pattern, branch, false)))) return false;
+    if (branch && scope.excludeBranches?.some(pattern => globMatch(pattern, branch, false))) return false;
+  }
+
+  return true;
+}
+
+function isWithin(cwd: string, directory: string): boolean {
+  const resolved = path.resolve(expandHome(directory));
+  const relative = path.relative(resolved, path.resolve(cwd));
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+export function expandHome(directory: string): string {
+  return directory === '~' || directory.startsWith('~/')
+    ? path.join(os.homedir(), directory.slice(1))
+    : directory;
+}
+
+// Current branch from .git/HEAD of the enclosing repository, without running git
+export function readGitBranch(cwd: string): string | undefined {
+  let directory = path.resolve(cwd);
+
+  while (true) {
+    const gitPath = path.join(directory, '.git');
+    try {
+      let gitDirectory = gitPath;
+      if (fs.statSync(gitPath).isFile()) {
+        // Worktrees and submodules point at their git directory
+        const pointer = fs.readFileSync(gitPath, 'utf8').match(/^gitdir:\s*(.+)$/m);
+        if (!pointer) return undefined;
+        gitDirectory = path.resolve(directory, pointer[1].trim());
+      }
+
+      const head = fs.readFileSync(path.join(gitDirectory, 'HEAD'), 'utf8');
+      return head.match(/^ref: refs\/heads\/(.+)$/m)?.[1].trim();
+    } catch {
+      const parent = path.dirname(directory);
+      if (parent === directory) return undefined;
+      directory = parent;
+    }
+  }
+}
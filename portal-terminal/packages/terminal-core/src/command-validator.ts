@@ -1,132 +1,344 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CommandDecision,
+  CommandPolicyConfig,
+  CommandPreview,
+  CommandRule,
+  ResolvedCommand,
+  RuleScope,
+} from './types';
+import {
+  DEFAULT_RULES,
+  DEFAULT_TYPOS,
+  IRuleContext,
+  SEVERITY_ORDER,
+  expandHome,
+  matchesRule,
+} from './command-rules';
+import { IPreviewContext, isPreviewable, previewCommands } from './command-preview';
+import { ShellParser } from './shell-parser';
+
 export interface ICommandValidationResult {
+  // deny when a block rule matched, confirm when a confirm rule did
+  decision: CommandDecision;
   isValid: boolean;
   warnings: string[];
   errors: string[];
   suggestions?: string[];
+  // Set when a confirm rule matched: the command may run once the user agrees
+  requiresConfirmation?: boolean;
+  confirmations?: string[];
+  // Every rule that matched, most severe first
+  matchedRules?: CommandRule[];
+  // The line removes, moves or recursively changes files, which preview() can show
+  previewable?: boolean;
+}
+
+export interface ICommandValidatorOptions {
+  // Rules on top of the default pack; a rule with an existing id replaces it
+  rules?: CommandRule[];
+  disabledRules?: string[];
+  // Rules that may only add to the others, like a project's: one with an
+  // existing id is added next to that rule if it is more severe, and
+  // ignored otherwise
+  restrictiveRules?: CommandRule[];
+  typos?: Record<string, string>;
+  // Leave out the default pack entirely
+  noDefaultRules?: boolean;
+}
+
+export interface ILoadPolicyOptions {
+  // Directory to look for a project .portal/rules.json from, walking up
+  cwd?: string;
+  userConfigPath?: string;
+  projectConfigPath?: string;
 }
 
+const CONFIG_FILE = path.join('.portal', 'rules.json');
+
+/**
+ * Checks commands against a pack of rules before they run. Each matching
+ * rule blocks the command, asks for confirmation or adds a warning; rules
+ * can be limited to directories and git branches.
+ *
+ * The static methods use the default pack. CommandValidator.load() adds the
+ * rules from ~/.portal/rules.json and the project's .portal/rules.json.
+ */
 export class CommandValidator {
-  private static readonly DANGEROUS_COMMANDS = [
-    'rm -rf /',
-    'sudo rm -rf',
-    'format c:',
-    'del /s /q c:\\',
-    'shutdown',
-    'reboot',
-    'halt',
-    'init 0',
-    'init 6',
-  ];
-
-  private static readonly DANGEROUS_PATTERNS = [
-    /rm\s+-rf\s+\/(?:\s|$)/,
-    /rm\s+-rf\s+\~(?:\s|$)/,
-    /dd\s+if=.*of=\/dev\/[sh]d[a-z]/,
-    /:\(\)\{\s*:\|\:&\s*\};\:/,  // Fork bomb
-  ];
-
-  static validateCommand(command: string): ICommandValidationResult {
+  private static defaultValidator?: CommandValidator;
+
+  private rules: CommandRule[];
+  private typos: Record<string, string>;
+  // How load() was called, to load the configs again for another directory
+  private loadOptions?: ILoadPolicyOptions;
+
+  constructor(options: ICommandValidatorOptions = {}) {
+    const rules = new Map<string, CommandRule>();
+    for (const rule of [...(options.noDefaultRules ? [] : DEFAULT_RULES), ...(options.rules || [])]) {
+      rules.set(rule.id, rule);
+    }
+    for (const id of options.disabledRules || []) {
+      rules.delete(id);
+    }
+
+    for (const rule of options.restrictiveRules || []) {
+      const existing = rules.get(rule.id);
+      if (!existing) {
+        rules.set(rule.id, rule);
+      } else if (SEVERITY_ORDER[rule.severity] > SEVERITY_ORDER[existing.severity]) {
+        rules.set(`project:${rule.id}`, { ...rule, id: `project:${rule.id}` });
+      } else {
+        console.warn(`Ignoring command rule ${rule.id}: it would weaken the rule it replaces`);
+      }
+    }
+
+    this.rules = Array.from(rules.values());
+    this.typos = { ...DEFAULT_TYPOS, ...options.typos };
+  }
+
+  /**
+   * Default pack plus the user and project config files, either of which
+   * may be missing. Only the user config can disable or replace default
+   * rules; a project's rules.json comes with the repository, so its rules
+   * can add to the others and make them stricter but never weaken them.
+   */
+  static async load(options: ILoadPolicyOptions = {}): Promise<CommandValidator> {
+    const userConfigPath = options.userConfigPath || path.join(os.homedir(), CONFIG_FILE);
+    const projectConfigPath = options.projectConfigPath
+      || await findProjectConfig(options.cwd || process.cwd(), userConfigPath);
+
+    const configs = await Promise.all([
+      readPolicyConfig(userConfigPath),
+      projectConfigPath ? readPolicyConfig(projectConfigPath) : Promise.resolve(null),
+    ]);
+
+    const [userConfig, projectConfig] = configs;
+    // Relative scope directories in a config file are relative to the project it belongs to
+    const scoped = (config: CommandPolicyConfig, configPath: string) =>
+      (config.rules || []).map(rule => resolveScope(rule, path.dirname(path.dirname(configPath))));
+
+    if (projectConfig?.disable?.length) {
+      console.warn(`Ignoring "disable" in ${projectConfigPath}: only ${userConfigPath} can turn rules off`);
+    }
+
+    const validator = new CommandValidator({
+      rules: userConfig ? scoped(userConfig, userConfigPath) : [],
+      disabledRules: userConfig?.disable || [],
+      restrictiveRules: projectConfig ? scoped(projectConfig, projectConfigPath!) : [],
+      typos: { ...userConfig?.typos, ...projectConfig?.typos },
+    });
+    validator.loadOptions = options;
+    return validator;
+  }
+
+  // The same configs with the project config found from another directory,
+  // e.g. after a cd; null when this validator wasn't loaded from a cwd
+  async forDirectory(cwd: string): Promise<CommandValidator | null> {
+    if (!this.loadOptions || this.loadOptions.projectConfigPath) {
+      return null;
+    }
+    return CommandValidator.load({ ...this.loadOptions, cwd });
+  }
+
+  static validateCommand(command: string, context?: IRuleContext): ICommandValidationResult {
+    if (!this.defaultValidator) {
+      this.defaultValidator = new CommandValidator();
+    }
+    return this.defaultValidator.validateCommand(command, context);
+  }
+
+  getRules(): CommandRule[] {
+    return [...this.rules];
+  }
+
+  validateCommand(command: string, context: IRuleContext = {}): ICommandValidationResult {
     const result: ICommandValidationResult = {
+      decision: 'allow',
       isValid: true,
       warnings: [],
       errors: [],
       suggestions: [],
+      requiresConfirmation: false,
+      confirmations: [],
+      matchedRules: [],
+      previewable: false,
     };
 
-    const trimmedCommand = command.trim().toLowerCase();
+    const trimmedCommand = command.trim();
 
     // Check for empty command
     if (!trimmedCommand) {
+      result.decision = 'deny';
       result.isValid = false;
       result.errors.push('Empty command');
       return result;
     }
 
-    // Check for dangerous commands
-    for (const dangerous of this.DANGEROUS_COMMANDS) {
-      if (trimmedCommand.includes(dangerous.toLowerCase())) {
-        result.isValid = false;
-        result.errors.push(`Potentially dangerous command detected: ${dangerous}`);
+    const commands = parseCommands(trimmedCommand);
+    const matched = this.rules
+      .filter(rule => matchesRule(rule, trimmedCommand, commands, context))
+      .sort((a, b) => SEVERITY_ORDER[b.severity] - SEVERITY_ORDER[a.severity]);
+
+    for (const rule of matched) {
+      switch (rule.severity) {
+        case 'block':
+          result.isValid = false;
+          result.errors.push(rule.message);
+          break;
+        case 'confirm':
+          result.requiresConfirmation = true;
+          result.confirmations!.push(rule.message);
+          break;
+        case 'warn':
+          result.warnings.push(rule.message);
+          break;
       }
-    }
 
-    // Check for dangerous patterns
-    for (const pattern of this.DANGEROUS_PATTERNS) {
-      if (pattern.test(command)) {
-        result.isValid = false;
-        result.errors.push('Potentially destructive command pattern detected');
+      if (rule.suggestion) {
+        result.suggestions!.push(`Instead: ${rule.suggestion}`);
       }
     }
+    result.matchedRules = matched;
+    result.decision = !result.isValid ? 'deny' : result.requiresConfirmation ? 'confirm' : 'allow';
+    result.previewable = commands.some(isPreviewable);
 
     // Check for common typos and suggest corrections
-    this.addTypoSuggestions(trimmedCommand, result);
-
-    // Add warnings for potentially risky operations
-    this.addWarnings(trimmedCommand, result);
+    for (const resolved of commands) {
+      this.addTypoSuggestion(resolved, result);
+    }
 
     return result;
   }
 
-  private static addTypoSuggestions(command: string, result: ICommandValidationResult): void {
-    const commonTypos: Record<string, string> = {
-      'sl': 'ls',
-      'gti': 'git',
-      'git psuh': 'git push',
-      'git plul': 'git pull',
-      'cd..': 'cd ..',
-      'claer': 'clear',
-      'exot': 'exit',
-    };
+  // Which files the line's rm, mv, chmod -R and chown -R would touch, found
+  // without running anything. Rules don't apply: a blocked command can be previewed.
+  async preview(command: string, context: IPreviewContext): Promise<CommandPreview> {
+    const trimmedCommand = command.trim();
+    return previewCommands(trimmedCommand, parseCommands(trimmedCommand), context);
+  }
 
-    const firstWord = command.split(' ')[0];
-    if (commonTypos[firstWord]) {
-      result.suggestions?.push(`Did you mean: ${commonTypos[firstWord]}?`);
+  private addTypoSuggestion(command: ResolvedCommand, result: ICommandValidationResult): void {
+    const program = command.executable.toLowerCase();
+    const withSubcommand = command.args.length ? `${program} ${command.args[0].toLowerCase()}` : program;
+    const correction = this.typos[withSubcommand] || this.typos[program];
+    const suggestion = correction && `Did you mean: ${correction}?`;
+    if (suggestion && !result.suggestions!.includes(suggestion)) {
+      result.suggestions!.push(suggestion);
     }
   }
 
-  private static addWarnings(command: string, result: ICommandValidationResult): void {
-    const warnings: Array<{ pattern: RegExp; message: string }> = [
-      {
-        pattern: /sudo\s+rm/,
-        message: 'Using sudo rm - be careful with file deletion',
-      },
-      {
-        pattern: /chmod\s+777/,
-        message: 'Setting 777 permissions is generally unsafe',
-      },
-      {
-        pattern: /curl.*\|\s*sh/,
-        message: 'Piping curl output to shell can be dangerous',
-      },
-      {
-        pattern: /wget.*\|\s*sh/,
-        message: 'Piping wget output to shell can be dangerous',
-      },
-    ];
-
-    for (const warning of warnings) {
-      if (warning.pattern.test(command)) {
-        result.warnings.push(warning.message);
+  // Whether any command of the line takes over the terminal, like an editor or a REPL
+  static isInteractiveCommand(command: string): boolean {
+    return ShellParser.getCommands(command).some(isInteractive);
+  }
+
+  static requiresElevation(command: string): boolean {
+    return ShellParser.getCommands(command).some(resolved => resolved.elevated || resolved.program === 'su');
+  }
+}
+
+// Backslashes are path separators on Windows, not escapes
+function parseCommands(command: string): ResolvedCommand[] {
+  return ShellParser.getCommands(command, { backslashEscapes: process.platform !== 'win32' });
+}
+
+const INTERACTIVE_COMMANDS = new Set([
+  'vim', 'nvim', 'emacs', 'nano',
+  'top', 'htop', 'less', 'more',
+  'man', 'ssh', 'telnet',
+  'mysql', 'psql', 'mongo',
+]);
+
+// Interpreters are only interactive without a script, or with -i
+const REPLS = new Set(['python', 'python3', 'node', 'irb']);
+
+function isInteractive(command: ResolvedCommand): boolean {
+  if (INTERACTIVE_COMMANDS.has(command.program)) {
+    // Output piped onwards means a pager is not at the terminal
+    return !command.pipedTo;
+  }
+  if (REPLS.has(command.program)) {
+    return command.args.includes('-i') || command.args.every(arg => arg.startsWith('-'));
+  }
+  return false;
+}
+
+// Nearest .portal/rules.json above cwd, other than the user's own
+async function findProjectConfig(cwd: string, userConfigPath: string): Promise<string | null> {
+  let directory = path.resolve(cwd);
+
+  while (true) {
+    const candidate = path.join(directory, CONFIG_FILE);
+    if (path.resolve(candidate) !== path.resolve(userConfigPath)) {
+      try {
+        await fs.access(candidate);
+        return candidate;
+      } catch {
+        // Keep looking further up
       }
     }
+
+    const parent = path.dirname(directory);
+    if (parent === directory) return null;
+    directory = parent;
   }
+}
 
-  static isInteractiveCommand(command: string): boolean {
-    const interactiveCommands = [
-      'vim', 'nvim', 'emacs', 'nano',
-      'top', 'htop', 'less', 'more',
-      'man', 'ssh', 'telnet',
-      'mysql', 'psql', 'mongo',
-      'python', 'node', 'irb',
-    ];
+async function readPolicyConfig(filePath: string): Promise<CommandPolicyConfig | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn(`Failed to read command rules from ${filePath}:`, error);
+    }
+    return null;
+  }
 
-    const firstWord = command.trim().split(' ')[0];
-    return interactiveCommands.includes(firstWord);
+  try {
+    const config = JSON.parse(content) as CommandPolicyConfig;
+    return { ...config, rules: (config.rules || []).filter(rule => isValidRule(rule, filePath)) };
+  } catch (error) {
+    console.warn(`Ignoring invalid command rules file ${filePath}:`, error);
+    return null;
   }
+}
 
-  static requiresElevation(command: string): boolean {
-    const elevatedCommands = ['sudo', 'su', 'doas'];
-    const firstWord = command.trim().split(' ')[0];
-    return elevatedCommands.includes(firstWord);
+function isValidRule(rule: CommandRule, filePath: string): boolean {
+  const problem = !rule || typeof rule.id !== 'string' ? 'missing id'
+    : !['block', 'confirm', 'warn'].includes(rule.severity) ? `unknown severity "${rule.severity}"`
+    : typeof rule.message !== 'string' ? 'missing message'
+    : !rule.match || typeof rule.match !== 'object' ? 'missing match'
+    : !isValidPattern(rule.match.pattern) ? `invalid pattern "${rule.match.pattern}"`
+    : null;
+
+  if (problem) {
+    console.warn(`Ignoring command rule ${rule?.id ?? ''} in ${filePath}: ${problem}`);
+  }
+  return !problem;
+}
+
+function isValidPattern(pattern?: string): boolean {
+  if (pattern === undefined) return true;
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
   }
-}
\ No newline at end of file
+}
+
+function resolveScope(rule: CommandRule, baseDirectory: string): CommandRule {
+  if (!rule.scope) return rule;
+
+  const resolve = (directories?: string[]) =>
+    directories?.map(directory => path.resolve(baseDirectory, expandHome(directory)));
+  const scope: RuleScope = {
+    ...rule.scope,
+    directories: resolve(rule.scope.directories),
+    excludeDirectories: resolve(rule.scope.excludeDirectories),
+  };
+  return { ...rule, scope };
+}
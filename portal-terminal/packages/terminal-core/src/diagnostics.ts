@@ -0,0 +1,236 @@
+import * as path from 'path';
+import { AnsiParser } from './ansi-parser';
+import { Diagnostic, DiagnosticSeverity } from './types';
+
+export interface IDiagnosticsOptions {
+  // Relative paths in the output are resolved against this
+  cwd?: string;
+  // Most diagnostics to keep; a broken build can report thousands
+  limit?: number;
+}
+
+const DEFAULT_LIMIT = 500;
+
+// `src/app.ts(12,5): error TS2322: ...`, or with --pretty `src/app.ts:12:5 - error TS2322: ...`
+const TSC_LINE = /^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.+)$/;
+const TSC_PRETTY_LINE = /^(.+?):(\d+):(\d+) - (error|warning) (TS\d+): (.+)$/;
+
+// eslint's default format names the file on a line of its own, then indents its problems
+const ESLINT_FILE = /^(\/|[A-Za-z]:\\|\.{0,2}\/?[\w@.-]+\/)\S*\.\w+$/;
+const ESLINT_PROBLEM = /^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}(\S+))?$/;
+// --format unix
+const ESLINT_UNIX_LINE = /^(.+?):(\d+):(\d+): (.+) \[(Error|Warning)(?:\/(\S+))?\]$/;
+
+const JEST_FAILURE = /^\s*● (.+)$/;
+const JEST_NOT_A_TEST = /^(Console|Test suite failed to run)$/;
+const JEST_FRAME = /^\s+at (?:.*? \()?([^()\s]+):(\d+):(\d+)\)?$/;
+
+const CARGO_HEADER = /^(error|warning)(?:\[(E\d{4})\])?: (.+)$/;
+const CARGO_LOCATION = /^\s*--> (.+?):(\d+):(\d+)$/;
+
+const GO_LINE = /^(\S+\.go):(\d+)(?::(\d+))?: (.+)$/;
+const GO_TEST_LINE = /^\s+(\S+_test\.go):(\d+): (.+)$/;
+const GO_TEST_FAILED = /^\s*--- FAIL: (\S+)/;
+
+/**
+ * Reads file:line:column problems out of tsc, eslint, jest, cargo and go
+ * output, so a finished block can list them instead of leaving them in the
+ * scrollback. Escape sequences are stripped first, since most of these tools
+ * color their output in a terminal.
+ */
+export class DiagnosticsExtractor {
+  static extract(output: string, options: IDiagnosticsOptions = {}): Diagnostic[] {
+    const lines = AnsiParser.strip(output).split(/\r?\n/);
+    const found = [
+      ...this.parseTsc(lines),
+      ...this.parseEslint(lines),
+      ...this.parseJest(lines),
+      ...this.parseCargo(lines),
+      ...this.parseGo(lines),
+    ];
+
+    const seen = new Set<string>();
+    const diagnostics: Diagnostic[] = [];
+    for (const diagnostic of found) {
+      const file = options.cwd && !path.isAbsolute(diagnostic.file)
+        ? path.resolve(options.cwd, diagnostic.file)
+        : diagnostic.file;
+      const key = `${file}:${diagnostic.line}:${diagnostic.column}:${diagnostic.message}`;
+      if (seen.has(key)) continue;
+
+      seen.add(key);
+      diagnostics.push({ ...diagnostic, file });
+      if (diagnostics.length >= (options.limit ?? DEFAULT_LIMIT)) break;
+    }
+
+    return diagnostics;
+  }
+
+  private static parseTsc(lines: string[]): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    for (const line of lines) {
+      const match = line.match(TSC_LINE) || line.match(TSC_PRETTY_LINE);
+      if (match) {
+        diagnostics.push({
+          file: match[1].trim(),
+          line: Number(match[2]),
+          column: Number(match[3]),
+          severity: match[4] as DiagnosticSeverity,
+          rule: match[5],
+          message: match[6].trim(),
+          source: 'tsc',
+        });
+      }
+    }
+
+    return diagnostics;
+  }
+
+  private static parseEslint(lines: string[]): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    let file: string | null = null;
+
+    for (const line of lines) {
+      const unix = line.match(ESLINT_UNIX_LINE);
+      if (unix) {
+        diagnostics.push({
+          file: unix[1],
+          line: Number(unix[2]),
+          column: Number(unix[3]),
+          severity: unix[5].toLowerCase() as DiagnosticSeverity,
+          message: unix[4],
+          rule: unix[6],
+          source: 'eslint',
+        });
+        continue;
+      }
+
+      if (ESLINT_FILE.test(line)) {
+        file = line;
+        continue;
+      }
+
+      const problem = file ? line.match(ESLINT_PROBLEM) : null;
+      if (problem) {
+        diagnostics.push({
+          file: file!,
+          line: Number(problem[1]),
+          column: Number(problem[2]),
+          severity: problem[3] as DiagnosticSeverity,
+          message: problem[4],
+          rule: problem[5],
+          source: 'eslint',
+        });
+      } else if (!line.trim()) {
+        // A blank line ends the file's list
+        file = null;
+      }
+    }
+
+    return diagnostics;
+  }
+
+  // Each failure is placed at the first frame of its stack outside node_modules
+  private static parseJest(lines: string[]): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    let failure: { title: string; message?: string } | null = null;
+
+    for (const line of lines) {
+      const heading = line.match(JEST_FAILURE);
+      if (heading) {
+        failure = JEST_NOT_A_TEST.test(heading[1].trim()) ? null : { title: heading[1].trim() };
+        continue;
+      }
+      if (!failure) continue;
+
+      const frame = line.match(JEST_FRAME);
+      if (frame && !frame[1].includes('node_modules') && !frame[1].startsWith('node:')) {
+        diagnostics.push({
+          file: frame[1],
+          line: Number(frame[2]),
+          column: Number(frame[3]),
+          severity: 'error',
+          message: failure.message ? `${failure.title}: ${failure.message}` : failure.title,
+          source: 'jest',
+        });
+        failure = null;
+      } else if (!failure.message && line.trim()) {
+        failure.message = line.trim();
+      }
+    }
+
+    return diagnostics;
+  }
+
+  // The message comes first and the location on a `-->` line below it
+  private static parseCargo(lines: string[]): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    let pending: RegExpMatchArray | null = null;
+
+    for (const line of lines) {
+      const header = line.match(CARGO_HEADER);
+      if (header) {
+        pending = header;
+        continue;
+      }
+
+      const location = pending ? line.match(CARGO_LOCATION) : null;
+      if (location) {
+        diagnostics.push({
+          file: location[1],
+          line: Number(location[2]),
+          column: Number(location[3]),
+          severity: pending![1] as DiagnosticSeverity,
+          message: pending![3],
+          rule: pending![2],
+          source: 'cargo',
+        });
+        pending = null;
+      }
+    }
+
+    return diagnostics;
+  }
+
+  // Build and vet errors, and t.Error lines from go test under the failing test's name
+  private static parseGo(lines: string[]): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    let test: string | undefined;
+
+    for (const line of lines) {
+      const failed = line.match(GO_TEST_FAILED);
+      if (failed) {
+        test = failed[1];
+        continue;
+      }
+
+      const testLine = line.match(GO_TEST_LINE);
+      if (testLine) {
+        diagnostics.push({
+          file: testLine[1],
+          line: Number(testLine[2]),
+          severity: 'error',
+          message: testLine[3],
+          rule: test,
+          source: 'go',
+        });
+        continue;
+      }
+
+      const match = line.match(GO_LINE);
+      if (match) {
+        diagnostics.push({
+          file: match[1],
+          line: Number(match[2]),
+          column: match[3] ? Number(match[3]) : undefined,
+          severity: 'error',
+          message: match[4],
+          source: 'go',
+        });
+      }
+    }
+
+    return diagnostics;
+  }
+}
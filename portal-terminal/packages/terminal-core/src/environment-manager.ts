@@ -0,0 +1,228 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { SecretRedactor } from './secret-redactor';
+import { EnvironmentDiff } from './types';
+
+export interface IEnvironmentManagerOptions {
+  // Variables every command starts from; the process environment by default
+  base?: Record<string, string | undefined>;
+  // File read from each working directory
+  envFileName?: string;
+}
+
+// Variables that change which programs run or what they load. Any cloned
+// repository can ship a .env, which isn't asked trust for, so these are only
+// taken from a trusted .portal/env or set for the session.
+const UNSAFE_DIRECTORY_VARIABLES = new RegExp('^(?:' + [
+  'PATH', 'LD_\\w+', 'DYLD_\\w+', 'NODE_OPTIONS', 'NODE_PATH',
+  'PYTHONPATH', 'PYTHONSTARTUP', 'PYTHONHOME', 'PERL5LIB', 'PERL5OPT', 'PERLLIB', 'RUBYOPT', 'RUBYLIB',
+  'JAVA_TOOL_OPTIONS', '_JAVA_OPTIONS', 'JDK_JAVA_OPTIONS',
+  'BASH_ENV', 'ENV', 'ZDOTDIR', 'PROMPT_COMMAND', 'PS4', 'IFS', 'SHELL', 'SHELLOPTS', 'BASHOPTS', 'HOME',
+  'GIT_SSH', 'GIT_SSH_COMMAND', 'GIT_EXEC_PATH', 'GIT_CONFIG\\w*', 'GIT_ASKPASS', 'SSH_ASKPASS',
+  'EDITOR', 'VISUAL', 'PAGER', 'MANPAGER', 'npm_config_\\w+', 'NPM_CONFIG_\\w+',
+].join('|') + ')$');
+
+// Variables and PATH entries of a trusted .portal/env
+export interface IProjectEnvironmentLayer {
+  directory: string;
+  variables: Record<string, string>;
+  path: string[];
+}
+
+/**
+ * Environment of a terminal session, in layers: the base environment, the
+ * `.env` file of the working directory, the project's `.portal/env` once
+ * trusted, and the variables set or unset for the session, which win over
+ * all of them. Directory and project variables are dropped again when the
+ * session leaves their directory.
+ *
+ * Events:
+ * - `change` () after any layer changed
+ */
+export class EnvironmentManager extends EventEmitter {
+  private base: Record<string, string>;
+  private envFileName: string;
+  // null marks a variable unset for the session
+  private overrides: Map<string, string | null> = new Map();
+  private directory: string | null = null;
+  private directoryVariables: Record<string, string> = {};
+  private project: IProjectEnvironmentLayer | null = null;
+  private redactor: SecretRedactor | null = null;
+
+  constructor(options: IEnvironmentManagerOptions = {}) {
+    super();
+    this.base = definedOnly(options.base || process.env);
+    this.envFileName = options.envFileName || '.env';
+  }
+
+  get(key: string): string | undefined {
+    return this.getEnvironment()[key];
+  }
+
+  set(key: string, value: string): void {
+    if (!isValidKey(key)) {
+      throw new Error(`Invalid environment variable name: ${key}`);
+    }
+    this.overrides.set(key, value);
+    this.changed();
+  }
+
+  unset(key: string): void {
+    this.overrides.set(key, null);
+    this.changed();
+  }
+
+  // Drop the session's override so the variable comes from .env or the base again
+  reset(key: string): boolean {
+    const removed = this.overrides.delete(key);
+    if (removed) this.changed();
+    return removed;
+  }
+
+  getOverrides(): EnvironmentDiff {
+    const diff: EnvironmentDiff = { set: {}, unset: [] };
+    for (const [key, value] of this.overrides) {
+      if (value === null) {
+        diff.unset.push(key);
+      } else {
+        diff.set[key] = value;
+      }
+    }
+    return diff;
+  }
+
+  /**
+   * Switch the directory layer to the `.env` file of `directory`; a directory
+   * without one clears it. Read again on every call, so returning to a
+   * directory picks up edits to its file. Variables like PATH, LD_PRELOAD or
+   * NODE_OPTIONS are left out.
+   */
+  async loadDirectory(directory: string): Promise<Record<string, string>> {
+    let variables: Record<string, string> = {};
+    try {
+      const parsed = parseEnvFile(await fs.readFile(path.join(directory, this.envFileName), 'utf8'));
+      const refused = Object.keys(parsed).filter(key => UNSAFE_DIRECTORY_VARIABLES.test(key));
+      if (refused.length > 0) {
+        console.warn(`Ignoring ${refused.join(', ')} from ${path.join(directory, this.envFileName)}; set them in .portal/env instead`);
+      }
+      variables = Object.fromEntries(Object.entries(parsed).filter(([key]) => !refused.includes(key)));
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code !== 'ENOENT' && code !== 'ENOTDIR') {
+        console.warn(`Failed to read ${path.join(directory, this.envFileName)}:`, error);
+      }
+    }
+
+    const unchanged = directory === this.directory && sameVariables(variables, this.directoryVariables);
+    this.directory = directory;
+    this.directoryVariables = variables;
+    if (!unchanged) this.changed();
+
+    return { ...variables };
+  }
+
+  // The directory whose .env file is loaded, if it had one
+  getDirectoryEnvironment(): { directory: string; variables: Record<string, string> } | null {
+    if (!this.directory || Object.keys(this.directoryVariables).length === 0) {
+      return null;
+    }
+    return { directory: this.directory, variables: { ...this.directoryVariables } };
+  }
+
+  setProjectEnvironment(project: IProjectEnvironmentLayer | null): void {
+    this.project = project && { ...project, variables: { ...project.variables }, path: [...project.path] };
+    this.changed();
+  }
+
+  getProjectEnvironment(): IProjectEnvironmentLayer | null {
+    return this.project && { ...this.project, variables: { ...this.project.variables }, path: [...this.project.path] };
+  }
+
+  // What commands run with
+  getEnvironment(): Record<string, string> {
+    const environment = { ...this.base, ...this.directoryVariables, ...this.project?.variables };
+    if (this.project?.path.length) {
+      environment.PATH = [...this.project.path, environment.PATH].filter(Boolean).join(path.delimiter);
+    }
+    return this.applyOverrides(environment);
+  }
+
+  // Base and session variables, without .env files or the project's; what a saved session keeps
+  getSessionEnvironment(): Record<string, string> {
+    return this.applyOverrides({ ...this.base });
+  }
+
+  getRedacted(): Record<string, string> {
+    return this.getRedactor().redactEnvironment(this.getEnvironment());
+  }
+
+  // Knows the secrets of every layer; rebuilt after changes
+  getRedactor(): SecretRedactor {
+    if (!this.redactor) {
+      this.redactor = new SecretRedactor({ environment: this.getEnvironment() });
+    }
+    return this.redactor;
+  }
+
+  redact(text: string): string {
+    return this.getRedactor().redactText(text);
+  }
+
+  private applyOverrides(environment: Record<string, string>): Record<string, string> {
+    for (const [key, value] of this.overrides) {
+      if (value === null) {
+        delete environment[key];
+      } else {
+        environment[key] = value;
+      }
+    }
+    return environment;
+  }
+
+  private changed(): void {
+    this.redactor = null;
+    this.emit('change');
+  }
+}
+
+/**
+ * Parses a dotenv file: `KEY=value` lines with an optional `export`, `#`
+ * comments, single-quoted literal values and double-quoted values with
+ * escapes. Variables aren't expanded.
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+  const variables: Record<string, string> = {};
+  const pattern = /^[ \t]*(?:export[ \t]+)?([A-Za-z_][A-Za-z0-9_.]*)[ \t]*=[ \t]*(?:"((?:\\.|[^"\\])*)"|'([^']*)'|([^\r\n]*))/gm;
+
+  for (const match of content.matchAll(pattern)) {
+    const [, key, doubleQuoted, singleQuoted, bare] = match;
+    if (doubleQuoted !== undefined) {
+      variables[key] = doubleQuoted.replace(/\\([nrt"\\$])/g, (_, char: string) =>
+        ({ n: '\n', r: '\r', t: '\t' } as Record<string, string>)[char] ?? char
+      );
+    } else if (singleQuoted !== undefined) {
+      variables[key] = singleQuoted;
+    } else {
+      // An unquoted value ends at a comment
+      variables[key] = bare.replace(/\s+#.*$/, '').trim();
+    }
+  }
+
+  return variables;
+}
+
+function isValidKey(key: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(key);
+}
+
+function definedOnly(environment: Record<string, string | undefined>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(environment).filter(([_, value]) => value !== undefined)
+  ) as Record<string, string>;
+}
+
+function sameVariables(a: Record<string, string>, b: Record<string, string>): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => b[key] === a[key]);
+}
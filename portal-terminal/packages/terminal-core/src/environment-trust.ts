@@ -0,0 +1,96 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+export type EnvironmentTrustDecision = 'trusted' | 'denied';
+
+interface ITrustRecord {
+  // Hash of the .portal/env file the decision was made for
+  hash: string;
+  decision: EnvironmentTrustDecision;
+  decidedAt: number;
+}
+
+export interface IEnvironmentTrustStoreOptions {
+  persistencePath?: string;
+}
+
+/**
+ * Which directories may load their `.portal/env`, shared by all terminals
+ * and kept in ~/.portal/trusted-environments.json. A decision only holds for
+ * the file it was made for; once the file changes, trust is asked for again.
+ */
+export class EnvironmentTrustStore {
+  private records: Record<string, ITrustRecord> = {};
+  private persistencePath: string;
+  private loadPromise: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(options: IEnvironmentTrustStoreOptions = {}) {
+    this.persistencePath = options.persistencePath || path.join(os.homedir(), '.portal', 'trusted-environments.json');
+  }
+
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadPersistedRecords();
+    }
+    return this.loadPromise;
+  }
+
+  // undefined when nothing was decided for this version of the file
+  async getDecision(directory: string, hash: string): Promise<EnvironmentTrustDecision | undefined> {
+    await this.load();
+    const record = this.records[directory];
+    return record?.hash === hash ? record.decision : undefined;
+  }
+
+  // Whether a decision was made for an earlier version of the file
+  async hasChanged(directory: string, hash: string): Promise<boolean> {
+    await this.load();
+    const record = this.records[directory];
+    return !!record && record.hash !== hash;
+  }
+
+  async setDecision(directory: string, hash: string, decision: EnvironmentTrustDecision): Promise<void> {
+    await this.load();
+    this.records[directory] = { hash, decision, decidedAt: Date.now() };
+    await this.enqueueWrite(() => this.writeFile());
+  }
+
+  async revoke(directory: string): Promise<boolean> {
+    await this.load();
+    if (!this.records[directory]) return false;
+
+    delete this.records[directory];
+    await this.enqueueWrite(() => this.writeFile());
+    return true;
+  }
+
+  private async loadPersistedRecords(): Promise<void> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.persistencePath, 'utf8'));
+      if (data && typeof data === 'object' && !Array.isArray(data)) {
+        this.records = data;
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn('Failed to load trusted environments:', error);
+      }
+    }
+  }
+
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    this.writeQueue = this.writeQueue.then(write).catch(error => {
+      console.warn('Failed to persist trusted environments:', error);
+    });
+    return this.writeQueue;
+  }
+
+  private async writeFile(): Promise<void> {
+    await fs.mkdir(path.dirname(this.persistencePath), { recursive: true });
+
+    const tempPath = `${this.persistencePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(this.records, null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, this.persistencePath);
+  }
+}
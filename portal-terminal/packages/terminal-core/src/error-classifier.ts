@@ -0,0 +1,169 @@
+import type { IErrorAnalysis, IRecoveryAction } from './error-handler';
+import { DEFAULT_ERROR_PACKS } from './error-packs';
+
+export interface IErrorMatchContext {
+  command?: string;
+  // Programs the command runs, from ShellParser
+  programs: string[];
+}
+
+/**
+ * Recognizes one kind of failure. Fields pulled out of the output fill
+ * `{name}` placeholders in the summary, suggestions and recovery commands;
+ * in commands they are shell-quoted. A suggestion or action naming a field
+ * the match didn't produce is left out.
+ */
+export interface IErrorMatcher {
+  id: string;
+  // Only tried for commands running one of these programs; any command when unset
+  programs?: string[];
+  // Named groups become fields
+  pattern?: RegExp;
+  // For output a single regex can't take apart; null when it doesn't match
+  match?: (output: string, context: IErrorMatchContext) => Record<string, string> | null;
+  errorType: string;
+  severity: IErrorAnalysis['severity'];
+  // True when unset
+  isRecoverable?: boolean;
+  summary: string;
+  suggestedRecovery: string[];
+  recoveryActions?: IRecoveryAction[];
+  preventionTips?: string[];
+}
+
+export interface IErrorClassifierPack {
+  // e.g. 'npm'; also the first half of IErrorAnalysis.classifier
+  id: string;
+  matchers: IErrorMatcher[];
+}
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+const SAFE_SHELL_WORD = /^[A-Za-z0-9_@%+=:,./-]+$/;
+
+/**
+ * Classifier packs tried in turn before ErrorHandler's generic checks. Packs
+ * registered later are tried first, so a project's own pack can take over
+ * errors a default pack also recognizes.
+ */
+export class ErrorClassifierRegistry {
+  private packs: IErrorClassifierPack[] = [];
+
+  constructor(packs: IErrorClassifierPack[] = DEFAULT_ERROR_PACKS) {
+    for (const pack of [...packs].reverse()) {
+      this.register(pack);
+    }
+  }
+
+  // A pack with the id of a registered one replaces it in place
+  register(pack: IErrorClassifierPack): void {
+    const index = this.packs.findIndex(existing => existing.id === pack.id);
+    if (index >= 0) {
+      this.packs[index] = pack;
+    } else {
+      this.packs.unshift(pack);
+    }
+  }
+
+  unregister(id: string): boolean {
+    const before = this.packs.length;
+    this.packs = this.packs.filter(pack => pack.id !== id);
+    return this.packs.length < before;
+  }
+
+  getPacks(): IErrorClassifierPack[] {
+    return [...this.packs];
+  }
+
+  classify(output: string, context: IErrorMatchContext): IErrorAnalysis | null {
+    for (const pack of this.packs) {
+      for (const matcher of pack.matchers) {
+        if (matcher.programs && !matcher.programs.some(program => context.programs.includes(program))) {
+          continue;
+        }
+
+        const fields = matchFields(matcher, output, context);
+        if (fields) {
+          return buildAnalysis(pack, matcher, fields);
+        }
+      }
+    }
+
+    return null;
+  }
+}
+
+function matchFields(
+  matcher: IErrorMatcher,
+  output: string,
+  context: IErrorMatchContext
+): Record<string, string> | null {
+  if (matcher.match) {
+    return matcher.match(output, context);
+  }
+
+  const match = matcher.pattern?.exec(output);
+  if (!match) {
+    return null;
+  }
+
+  const fields: Record<string, string> = {};
+  for (const [name, value] of Object.entries(match.groups || {})) {
+    if (value !== undefined) {
+      fields[name] = value.trim();
+    }
+  }
+  return fields;
+}
+
+function buildAnalysis(
+  pack: IErrorClassifierPack,
+  matcher: IErrorMatcher,
+  fields: Record<string, string>
+): IErrorAnalysis {
+  const fillAll = (templates: string[] = []) => templates
+    .map(template => fillTemplate(template, fields))
+    .filter((text): text is string => text !== null);
+
+  const recoveryActions: IRecoveryAction[] = [];
+  for (const action of matcher.recoveryActions || []) {
+    const command = action.command === undefined ? undefined : fillTemplate(action.command, fields, quoteShellWord);
+    const description = fillTemplate(action.description, fields);
+    if (command !== null && description !== null) {
+      recoveryActions.push({ ...action, description, command });
+    }
+  }
+
+  return {
+    errorType: matcher.errorType,
+    severity: matcher.severity,
+    isRecoverable: matcher.isRecoverable ?? true,
+    suggestedRecovery: fillAll(matcher.suggestedRecovery),
+    preventionTips: fillAll(matcher.preventionTips),
+    classifier: `${pack.id}/${matcher.id}`,
+    summary: fillTemplate(matcher.summary, fields) ?? matcher.summary,
+    fields,
+    recoveryActions,
+  };
+}
+
+// null when the template names a field that wasn't matched
+function fillTemplate(
+  template: string,
+  fields: Record<string, string>,
+  format: (value: string) => string = value => value
+): string | null {
+  let missing = false;
+  const filled = template.replace(PLACEHOLDER, (_, name: string) => {
+    if (!(name in fields)) {
+      missing = true;
+      return '';
+    }
+    return format(fields[name]);
+  });
+
+  return missing ? null : filled;
+}
+
+function quoteShellWord(value: string): string {
+  return SAFE_SHELL_WORD.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+}
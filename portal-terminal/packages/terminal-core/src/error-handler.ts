@@ -1,8 +1,16 @@
 import { EventEmitter } from 'events';
+import { CommandBlock } from './command-block';
+import { ShellParser } from './shell-parser';
+import { AnsiParser } from './ansi-parser';
+import { ErrorClassifierRegistry, IErrorClassifierPack } from './error-classifier';
+import type { FixMemory, ILearnedFix } from './fix-memory';
+import { ResolvedCommand } from './types';
 
 export interface IErrorContext {
   command?: string;
   terminalId?: string;
+  // The failed block; recovery actions run as its children
+  blockId?: string;
   timestamp: number;
   context?: any;
   recoveryAttempts: number;
@@ -14,6 +22,18 @@ export interface IErrorAnalysis {
   isRecoverable: boolean;
   suggestedRecovery: string[];
   preventionTips: string[];
+  // What automatic recovery actions found, e.g. "ran `git status`: you are mid-rebase"
+  findings?: string[];
+  // Set when a classifier pack recognized the error, e.g. 'npm/missing-module'
+  classifier?: string;
+  summary?: string;
+  // Pulled out of the output, e.g. the missing module or the port in use
+  fields?: Record<string, string>;
+  // Recovery actions filled in with the fields; the generic ones for the
+  // error type apply when this is empty
+  recoveryActions?: IRecoveryAction[];
+  // Commands that succeeded right after the same error before, best first
+  learnedFixes?: ILearnedFix[];
 }
 
 export interface IRecoveryAction {
@@ -24,14 +44,75 @@ export interface IRecoveryAction {
   automatic?: boolean;
 }
 
+export interface IRecoveryResult {
+  action: string;
+  success: boolean;
+  output?: string;
+  command?: string;
+  // The block the command ran in
+  blockId?: string;
+  finding?: string;
+}
+
+// Runs a recovery command as a block of the terminal and resolves once it
+// has finished. A command given `requireConfirmation` only runs once the
+// user approves it.
+export type RecoveryCommandRunner = (
+  command: string,
+  options: { parentId?: string; requireConfirmation?: string }
+) => Promise<CommandBlock>;
+
+// Programs that only report on the system and can run without asking
+const READ_ONLY_PROGRAMS = new Set([
+  'pwd', 'ls', 'echo', 'printf', 'which', 'whoami', 'id', 'hostname', 'uname', 'date',
+  'cat', 'head', 'tail', 'wc', 'stat', 'file', 'df', 'du', 'ps', 'uptime', 'lsof',
+]);
+
+// git subcommands that don't touch the repository, with the options allowed
+// for those that would otherwise create, rename or delete something
+const READ_ONLY_GIT: Record<string, string[] | null> = {
+  status: null,
+  log: null,
+  diff: null,
+  show: null,
+  'rev-parse': null,
+  branch: ['-a', '--all', '-r', '--remotes', '-v', '-vv', '--verbose', '--list', '--show-current'],
+  remote: ['-v', '--verbose'],
+};
+
+const WRITING_REDIRECTS = new Set(['>', '>>', '>|', '<>', '&>', '&>>']);
+
+// The first state `git status` reports wins, so those blocking most
+// operations come first
+const GIT_STATUS_FINDINGS: [RegExp, (match: RegExpMatchArray) => string][] = [
+  [/not a git repository/i, () => 'this directory is not a git repository'],
+  [/rebase in progress|You are currently rebasing/, () => 'you are mid-rebase'],
+  [/You have unmerged paths|you are still merging/, () => 'you are mid-merge'],
+  [/You are currently cherry-picking/, () => 'you are mid-cherry-pick'],
+  [/You are currently reverting/, () => 'you are mid-revert'],
+  [/You are currently bisecting/, () => 'you are mid-bisect'],
+  [/HEAD detached (?:at|from) (\S+)/, match => `HEAD is detached at ${match[1]}`],
+  [/Your branch and '([^']+)' have diverged/, match => `your branch has diverged from ${match[1]}`],
+  [/Your branch is behind '([^']+)' by (\d+) commits?/, match => `your branch is ${match[2]} behind ${match[1]}`],
+  [/Changes to be committed|Changes not staged for commit|Untracked files/, () => 'there are uncommitted changes'],
+  [/nothing to commit/, () => 'the working tree is clean'],
+];
+
+const MAX_FINDING_LENGTH = 120;
+
 export class ErrorHandler extends EventEmitter {
   private errorHistory: IErrorContext[] = [];
   private recoveryStrategies = new Map<string, IRecoveryAction[]>();
   private maxHistorySize = 100;
   private autoRecoveryEnabled = true;
+  private commandRunner?: RecoveryCommandRunner;
+  private classifiers: ErrorClassifierRegistry;
+  private fixMemory?: FixMemory;
 
-  constructor() {
+  constructor(options: { classifiers?: ErrorClassifierRegistry; fixMemory?: FixMemory } = {}) {
     super();
+    this.classifiers = options.classifiers || new ErrorClassifierRegistry();
+    this.fixMemory = options.fixMemory;
     this.initializeRecoveryStrategies();
   }
 
@@ -78,12 +159,6 @@ export class ErrorHandler extends EventEmitter {
 
     // File not found errors
     this.recoveryStrategies.set('file_not_found', [
-      {
-        name: 'Check file exists',
-        description: 'Verify file path is correct',
-        command: 'find . -name "*filename*"',
-        automatic: false,
-      },
       {
         name: 'Check working directory',
         description: 'Verify you are in the right directory',
@@ -181,14 +256,34 @@ export class ErrorHandler extends EventEmitter {
 
     // Analyze the error
     const analysis = this.analyzeError(errorMessage, errorContext);
+
+    // What fixed this error before beats anything generic
+    const learnedFixes = errorContext.command && this.fixMemory
+      ? await this.fixMemory.getFixes(errorContext.command, errorMessage)
+      : [];
+    if (learnedFixes.length > 0) {
+      analysis.learnedFixes = learnedFixes;
+      analysis.suggestedRecovery = [
+        ...learnedFixes.map(fix => `Run \`${fix.command}\`, which fixed this before`),
+        ...analysis.suggestedRecovery,
+      ];
+    }
     
     // Get recovery actions
-    const recoveryActions = this.getRecoveryActions(analysis.errorType);
+    const recoveryActions = this.getRecoveryActions(analysis);
     
     // Attempt automatic recovery if enabled
     let autoRecoveryPerformed = false;
     if (this.autoRecoveryEnabled && analysis.isRecoverable) {
-      autoRecoveryPerformed = await this.attemptAutoRecovery(recoveryActions, errorContext);
+      const results = await this.attemptAutoRecovery(recoveryActions, errorContext);
+      autoRecoveryPerformed = results.length > 0;
+
+      const findings = results
+        .filter(result => result.command && result.finding)
+        .map(result => `ran \`${result.command}\`: ${result.finding}`);
+      if (findings.length > 0) {
+        analysis.findings = findings;
+      }
     }
 
     // Emit error event for UI updates
@@ -209,6 +304,13 @@ export class ErrorHandler extends EventEmitter {
 
   private analyzeError(errorMessage: string, context: IErrorContext): IErrorAnalysis {
     const lowerError = errorMessage.toLowerCase();
+    const programs = context.command ? ShellParser.getCommands(context.command).map(command => command.program) : [];
+
+    // Ecosystem packs know the specific errors; the checks below are the fallback
+    const classified = this.classifiers.classify(errorMessage, { command: context.command, programs });
+    if (classified) {
+      return classified;
+    }
 
     // Command not found
     if (lowerError.includes('command not found') || lowerError.includes('not recognized')) {
@@ -269,7 +371,10 @@ export class ErrorHandler extends EventEmitter {
 
     // Network errors
     if (lowerError.includes('network') || lowerError.includes('connection') || 
-        lowerError.includes('timeout') || lowerError.includes('unreachable')) {
+        lowerError.includes('timeout') || lowerError.includes('unreachable') ||
+        lowerError.includes('timed out') || lowerError.includes('could not resolve') ||
+        lowerError.includes('temporary failure') || lowerError.includes('econnreset') ||
+        lowerError.includes('etimedout') || lowerError.includes('eai_again')) {
       return {
         errorType: 'network_error',
         severity: 'medium',
@@ -288,7 +393,7 @@ export class ErrorHandler extends EventEmitter {
     }
 
     // Git errors
-    if (lowerError.includes('git') || context.command?.startsWith('git')) {
+    if (lowerError.includes('git') || programs.includes('git')) {
       return {
         errorType: 'git_error',
         severity: 'medium',
@@ -308,7 +413,7 @@ export class ErrorHandler extends EventEmitter {
 
     // Package manager errors
     if (lowerError.includes('npm') || lowerError.includes('yarn') || 
-        lowerError.includes('package') || context.command?.includes('npm')) {
+        lowerError.includes('package') || programs.some(program => ['npm', 'yarn', 'pnpm'].includes(program))) {
       return {
         errorType: 'package_error',
         severity: 'medium',
@@ -383,42 +488,96 @@ export class ErrorHandler extends EventEmitter {
     };
   }
 
-  private getRecoveryActions(errorType: string): IRecoveryAction[] {
-    return this.recoveryStrategies.get(errorType) || [];
+  private getRecoveryActions(analysis: IErrorAnalysis): IRecoveryAction[] {
+    const learned = (analysis.learnedFixes || []).map(fix => ({
+      name: `Learned fix: ${fix.command}`,
+      description: `Fixed this error ${fix.count === 1 ? 'once' : `${fix.count} times`} before`,
+      command: fix.command,
+    }));
+
+    return [
+      ...learned,
+      ...(analysis.recoveryActions?.length
+        ? analysis.recoveryActions
+        : this.recoveryStrategies.get(analysis.errorType) || []),
+    ];
   }
 
+  // Commands only run where a terminal has set a runner
   private async attemptAutoRecovery(
     recoveryActions: IRecoveryAction[],
     context: IErrorContext
-  ): Promise<boolean> {
-    const automaticActions = recoveryActions.filter(action => action.automatic);
-    
-    if (automaticActions.length === 0) {
-      return false;
+  ): Promise<IRecoveryResult[]> {
+    const automaticActions = recoveryActions.filter(action =>
+      action.automatic && (action.callback || (action.command && this.commandRunner))
+    );
+
+    const results: IRecoveryResult[] = [];
+    for (const action of automaticActions) {
+      console.log(`🔧 Auto-recovery: ${action.name}`);
+      results.push(await this.runRecoveryAction(action, context));
     }
 
+    return results;
+  }
+
+  private async runRecoveryAction(action: IRecoveryAction, context: IErrorContext): Promise<IRecoveryResult> {
+    // Mark recovery attempt
+    context.recoveryAttempts++;
+
     try {
-      for (const action of automaticActions) {
-        console.log(`🔧 Auto-recovery: ${action.name}`);
-        
-        if (action.callback) {
-          await action.callback();
-        } else if (action.command) {
-          // Would execute the recovery command
-          console.log(`Would execute: ${action.command}`);
-        }
-        
-        // Mark recovery attempt
-        context.recoveryAttempts++;
+      if (action.callback) {
+        await action.callback();
+        return { action: action.name, success: true, output: 'Callback executed successfully' };
       }
-      
-      return true;
-    } catch (recoveryError) {
-      console.warn('Auto-recovery failed:', recoveryError);
-      return false;
+
+      if (!action.command) {
+        return { action: action.name, success: true, output: '' };
+      }
+
+      if (!this.commandRunner) {
+        return { action: action.name, command: action.command, success: false, output: 'No terminal to run the command in' };
+      }
+
+      const block = await this.commandRunner(action.command, {
+        parentId: context.blockId,
+        requireConfirmation: ErrorHandler.isReadOnlyCommand(action.command)
+          ? undefined
+          : `Recovery action "${action.name}" is not a read-only diagnostic`,
+      });
+
+      const finding = describeRecoveryOutput(action.command, AnsiParser.strip(block.output), block.exitCode);
+      block.setFinding(finding);
+
+      return {
+        action: action.name,
+        command: action.command,
+        success: block.exitCode === 0,
+        output: block.output,
+        blockId: block.id,
+        finding,
+      };
+    } catch (error) {
+      console.warn(`Recovery action failed: ${action.name}`, error);
+      return {
+        action: action.name,
+        command: action.command,
+        success: false,
+        output: error instanceof Error ? error.message : String(error),
+      };
     }
   }
 
+  /**
+   * Whether a command only reads, so a recovery action running it needs no
+   * confirmation: every program in it is a known diagnostic, nothing runs
+   * elevated or through a wrapper, and no output is redirected to a file.
+   */
+  static isReadOnlyCommand(command: string): boolean {
+    const commands = ShellParser.getCommands(command);
+    return commands.length > 0 && commands.every(isReadOnly);
+  }
+
   private addToHistory(errorContext: IErrorContext): void {
     this.errorHistory.push(errorContext);
     
@@ -432,13 +591,15 @@ export class ErrorHandler extends EventEmitter {
   async analyzeCommandError(
     command: string,
     errorOutput: string,
-    terminalContext?: any
+    terminalContext?: any,
+    errorContext: Partial<IErrorContext> = {}
   ): Promise<{
     analysis: IErrorAnalysis;
     recoveryActions: IRecoveryAction[];
     contextualAdvice: string[];
   }> {
     const result = await this.handleError(errorOutput, {
+      ...errorContext,
       command,
       context: terminalContext,
     });
@@ -456,6 +617,28 @@ export class ErrorHandler extends EventEmitter {
     };
   }
 
+  // Analyze a failed block from its diagnostics rather than its full output,
+  // so progress logs on stdout don't drown out the actual error
+  // Classify without recording history, emitting events or attempting recovery
+  classifyError(errorMessage: string, context: Partial<IErrorContext> = {}): IErrorAnalysis {
+    return this.analyzeError(errorMessage, {
+      timestamp: Date.now(),
+      recoveryAttempts: 0,
+      ...context,
+    });
+  }
+
+  async analyzeBlockError(
+    block: CommandBlock,
+    terminalContext?: any
+  ): Promise<{
+    analysis: IErrorAnalysis;
+    recoveryActions: IRecoveryAction[];
+    contextualAdvice: string[];
+  }> {
+    return this.analyzeCommandError(block.command, block.getDiagnosticOutput(), terminalContext, { blockId: block.id });
+  }
+
   private generateContextualAdvice(
     analysis: IErrorAnalysis,
     command: string,
@@ -497,51 +680,28 @@ export class ErrorHandler extends EventEmitter {
     return advice;
   }
 
-  // Recovery orchestration
+  // Recovery orchestration; an analysis brings the recovery actions filled in for it
   async executeRecoveryPlan(
-    errorType: string,
+    error: string | IErrorAnalysis,
     context: IErrorContext,
     selectedActions: string[] = []
   ): Promise<{
     success: boolean;
-    results: { action: string; success: boolean; output?: string }[];
+    results: IRecoveryResult[];
     remainingActions: IRecoveryAction[];
   }> {
-    const allActions = this.getRecoveryActions(errorType);
+    const allActions = typeof error === 'string'
+      ? this.recoveryStrategies.get(error) || []
+      : this.getRecoveryActions(error);
     const actionsToExecute = selectedActions.length > 0 
       ? allActions.filter(action => selectedActions.includes(action.name))
       : allActions.filter(action => action.automatic);
 
-    const results: { action: string; success: boolean; output?: string }[] = [];
+    const results: IRecoveryResult[] = [];
 
     for (const action of actionsToExecute) {
-      try {
-        console.log(`🔧 Executing recovery action: ${action.name}`);
-        
-        let success = true;
-        let output = '';
-        
-        if (action.callback) {
-          await action.callback();
-          output = 'Callback executed successfully';
-        } else if (action.command) {
-          // In real implementation, would execute the command
-          output = `Would execute: ${action.command}`;
-        }
-        
-        results.push({ action: action.name, success, output });
-        
-        // Update recovery attempts
-        context.recoveryAttempts++;
-        
-      } catch (error) {
-        console.warn(`Recovery action failed: ${action.name}`, error);
-        results.push({ 
-          action: action.name, 
-          success: false, 
-          output: error instanceof Error ? error.message : String(error)
-        });
-      }
+      console.log(`🔧 Executing recovery action: ${action.name}`);
+      results.push(await this.runRecoveryAction(action, context));
     }
 
     const remainingActions = allActions.filter(action => 
@@ -656,10 +816,20 @@ export class ErrorHandler extends EventEmitter {
     this.autoRecoveryEnabled = enabled;
   }
 
+  // Without a runner, recovery actions with a command don't run
+  setCommandRunner(runner: RecoveryCommandRunner | undefined): void {
+    this.commandRunner = runner;
+  }
+
   addRecoveryStrategy(errorType: string, actions: IRecoveryAction[]): void {
     this.recoveryStrategies.set(errorType, actions);
   }
 
+  // Tried before the default packs; a pack with the same id replaces one
+  registerClassifierPack(pack: IErrorClassifierPack): void {
+    this.classifiers.register(pack);
+  }
+
   getErrorHistory(limit: number = 10): IErrorContext[] {
     return this.errorHistory.slice(-limit);
   }
@@ -690,21 +860,25 @@ export class ErrorHandler extends EventEmitter {
   }> {
     const warnings: string[] = [];
     const suggestions: string[] = [];
+    const commands = ShellParser.getCommands(command);
 
     // Destructive command warnings
-    if (command.includes('rm -rf') || command.includes('rm -f')) {
+    const forcesRemoval = commands.some(resolved => resolved.program === 'rm'
+      && resolved.args.some(arg => arg === '--force' || /^-[A-Za-z]*f/.test(arg)));
+    if (forcesRemoval) {
       warnings.push('Destructive command detected - double-check the path');
       suggestions.push('Consider using trash or backup first');
     }
 
     // Sudo warnings
-    if (command.includes('sudo')) {
+    if (commands.some(resolved => resolved.elevated)) {
       warnings.push('Elevated privileges requested');
       suggestions.push('Ensure you understand what this command does');
     }
 
     // Network command in offline mode
-    if ((command.includes('curl') || command.includes('wget')) && !navigator.onLine) {
+    const usesNetwork = commands.some(resolved => resolved.program === 'curl' || resolved.program === 'wget');
+    if (usesNetwork && !navigator.onLine) {
       warnings.push('Network command while offline');
       suggestions.push('Check network connectivity first');
     }
@@ -715,4 +889,56 @@ export class ErrorHandler extends EventEmitter {
       suggestions,
     };
   }
-}
\ No newline at end of file
+}
+
+function isReadOnly(command: ResolvedCommand): boolean {
+  if (command.elevated || command.wrappers.length > 0) {
+    return false;
+  }
+
+  const writesFile = command.redirections.some(redirection =>
+    WRITING_REDIRECTS.has(redirection.operator)
+    || (redirection.operator === '>&' && !/^\d+$|^-$/.test(redirection.target.value))
+  );
+  if (writesFile) {
+    return false;
+  }
+
+  if (command.program !== 'git') {
+    return READ_ONLY_PROGRAMS.has(command.program);
+  }
+
+  const [subcommand, ...args] = command.args;
+  if (!subcommand || !(subcommand in READ_ONLY_GIT)) {
+    return false;
+  }
+
+  const allowed = READ_ONLY_GIT[subcommand];
+  return allowed
+    ? args.every(arg => allowed.includes(arg))
+    : args.every(arg => !arg.startsWith('--output'));
+}
+
+// One line on what a recovery command's output says, shown with the failure
+function describeRecoveryOutput(command: string, output: string, exitCode?: number): string {
+  const [resolved] = ShellParser.getCommands(command);
+
+  if (resolved?.program === 'git' && resolved.args[0] === 'status') {
+    for (const [pattern, describe] of GIT_STATUS_FINDINGS) {
+      const match = output.match(pattern);
+      if (match) return describe(match);
+    }
+  }
+
+  const firstLine = output.split('\n').map(line => line.trim()).find(line => line.length > 0);
+
+  if (resolved?.program === 'pwd' && exitCode === 0 && firstLine) {
+    return `you are in ${firstLine}`;
+  }
+
+  if (!firstLine) {
+    return exitCode === 0 ? 'no output' : `exited with code ${exitCode ?? 'unknown'}`;
+  }
+
+  return firstLine.length > MAX_FINDING_LENGTH ? `${firstLine.slice(0, MAX_FINDING_LENGTH - 1)}…` : firstLine;
+}
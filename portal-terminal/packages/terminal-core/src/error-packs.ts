@@ -0,0 +1,565 @@
+import * as path from 'path';
+import type { IErrorClassifierPack, IErrorMatchContext } from './error-classifier';
+
+const NODE_PROGRAMS = ['npm', 'npx', 'yarn', 'pnpm', 'node', 'tsx', 'ts-node'];
+const PYTHON_PROGRAMS = ['pip', 'pip3', 'python', 'python3', 'poetry', 'pytest', 'uv'];
+
+// pip retries a dropped connection and then reports the requirement as
+// missing; those stay network errors so retry policies still apply
+const PYTHON_NETWORK_FAILURE = /NewConnectionError|ConnectTimeout|ReadTimeout|Temporary failure in name resolution/;
+
+// The package a module import resolves to: `@scope/name` or `name`, without a subpath
+function nodePackageName(module: string): string {
+  const parts = module.split('/');
+  return module.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+function nodeInstaller(context: IErrorMatchContext): Record<string, string> {
+  if (context.programs.includes('yarn')) return { manager: 'yarn', add: 'add' };
+  if (context.programs.includes('pnpm')) return { manager: 'pnpm', add: 'add' };
+  return { manager: 'npm', add: 'install' };
+}
+
+const npmPack: IErrorClassifierPack = {
+  id: 'npm',
+  matchers: [
+    {
+      id: 'missing-module',
+      programs: NODE_PROGRAMS,
+      match: (output, context) => {
+        const match = output.match(/Cannot find module '([^']+)'/) || output.match(/Can't resolve '([^']+)'/);
+        // Relative imports are missing files, not packages
+        if (!match || /^[./]/.test(match[1]) || match[1].startsWith('node:')) return null;
+        return { module: match[1], package: nodePackageName(match[1]), ...nodeInstaller(context) };
+      },
+      errorType: 'missing_module',
+      severity: 'medium',
+      summary: 'Cannot find module {module}',
+      suggestedRecovery: ['Install {package}', 'Check the import path for typos'],
+      recoveryActions: [
+        { name: 'Install package', description: 'Install {package}', command: '{manager} {add} {package}' },
+        { name: 'Reinstall dependencies', description: 'Reinstall everything in package.json', command: '{manager} install' },
+      ],
+      preventionTips: ['Add dependencies with the package manager so package.json stays in sync'],
+    },
+    {
+      id: 'missing-script',
+      programs: NODE_PROGRAMS,
+      match: output => {
+        const match = output.match(/Missing script: "?([^"\n]+?)"?\s*$/m) || output.match(/error Command "([^"]+)" not found/);
+        return match ? { script: match[1] } : null;
+      },
+      errorType: 'missing_script',
+      severity: 'low',
+      summary: 'No script named {script} in package.json',
+      suggestedRecovery: ['List the scripts package.json defines', 'Check the script name for typos'],
+      recoveryActions: [
+        { name: 'List scripts', description: 'Show the scripts package.json defines', command: 'npm run' },
+      ],
+    },
+    {
+      id: 'package-not-found',
+      programs: NODE_PROGRAMS,
+      pattern: /(?:404\s+Not Found - GET \S+ - Not found|E404)[\s\S]*?'(?<package>@?[^'@\s]+)(?:@[^'\s]*)?' is not in (?:this|the npm) registry/,
+      errorType: 'package_not_found',
+      severity: 'medium',
+      summary: '{package} is not in the registry',
+      suggestedRecovery: ['Check the package name for typos', 'Search the registry for {package}'],
+      recoveryActions: [
+        { name: 'Search registry', description: 'Search the registry for {package}', command: 'npm search {package}' },
+      ],
+    },
+    {
+      id: 'dependency-conflict',
+      programs: NODE_PROGRAMS,
+      pattern: /ERESOLVE unable to resolve dependency tree[\s\S]*?Could not resolve dependency:\s*\n\S*\s*peer (?<peer>\S+)/,
+      errorType: 'dependency_conflict',
+      severity: 'medium',
+      summary: 'Peer dependency {peer} conflicts with the installed packages',
+      suggestedRecovery: ['Install a version of the package compatible with {peer}', 'Retry with --legacy-peer-deps to skip peer checks'],
+      recoveryActions: [
+        { name: 'Ignore peer dependencies', description: 'Install without enforcing peer dependencies', command: 'npm install --legacy-peer-deps' },
+      ],
+    },
+  ],
+};
+
+const pythonPack: IErrorClassifierPack = {
+  id: 'python',
+  matchers: [
+    {
+      id: 'missing-module',
+      programs: PYTHON_PROGRAMS,
+      match: (output, context) => {
+        const match = output.match(/ModuleNotFoundError: No module named '([\w.]+)'/);
+        if (!match) return null;
+        const manager = context.programs.includes('poetry') ? 'poetry' : 'pip';
+        return { module: match[1], package: match[1].split('.')[0], manager, add: manager === 'poetry' ? 'add' : 'install' };
+      },
+      errorType: 'missing_module',
+      severity: 'medium',
+      summary: 'No module named {module}',
+      suggestedRecovery: ['Install {package}', 'Activate the virtual environment the project uses'],
+      recoveryActions: [
+        { name: 'Install package', description: 'Install {package}', command: '{manager} {add} {package}' },
+      ],
+      preventionTips: ['Keep a virtual environment per project'],
+    },
+    {
+      id: 'no-matching-distribution',
+      programs: PYTHON_PROGRAMS,
+      match: output => {
+        const match = output.match(/Could not find a version that satisfies the requirement ([^\s(]+)/);
+        if (!match || PYTHON_NETWORK_FAILURE.test(output)) return null;
+        return { package: match[1] };
+      },
+      errorType: 'package_not_found',
+      severity: 'medium',
+      summary: 'No release of {package} fits this Python',
+      suggestedRecovery: ['Check the package name and version', 'Check which Python versions {package} supports'],
+      recoveryActions: [
+        { name: 'List versions', description: 'Show the versions of {package} pip can see', command: 'pip index versions {package}' },
+      ],
+    },
+    {
+      id: 'externally-managed',
+      programs: PYTHON_PROGRAMS,
+      pattern: /externally-managed-environment/,
+      errorType: 'environment_error',
+      severity: 'medium',
+      summary: 'The system Python is managed by the OS package manager',
+      suggestedRecovery: ['Create a virtual environment and install into it'],
+      recoveryActions: [
+        { name: 'Create virtual environment', description: 'Create .venv in this directory', command: 'python3 -m venv .venv' },
+      ],
+    },
+    {
+      id: 'version-solving',
+      programs: ['poetry'],
+      pattern: /Because (?<package>[\w.-]+) .*?depends on[\s\S]*?version solving failed/,
+      errorType: 'dependency_conflict',
+      severity: 'medium',
+      summary: 'Poetry found no versions that satisfy {package} and its dependents',
+      suggestedRecovery: ['Loosen the version constraint on {package}'],
+      recoveryActions: [
+        { name: 'Show dependency tree', description: 'See what depends on {package}', command: 'poetry show --tree' },
+      ],
+    },
+  ],
+};
+
+const cargoPack: IErrorClassifierPack = {
+  id: 'cargo',
+  matchers: [
+    {
+      id: 'no-matching-package',
+      programs: ['cargo'],
+      pattern: /no matching package named `(?<package>[^`]+)` found/,
+      errorType: 'package_not_found',
+      severity: 'medium',
+      summary: 'No crate named {package}',
+      suggestedRecovery: ['Check the crate name in Cargo.toml'],
+      recoveryActions: [
+        { name: 'Search crates', description: 'Search crates.io for {package}', command: 'cargo search {package}' },
+      ],
+    },
+    {
+      id: 'manifest-not-found',
+      programs: ['cargo'],
+      pattern: /could not find `Cargo\.toml`/,
+      errorType: 'project_not_found',
+      severity: 'low',
+      summary: 'Not inside a Cargo project',
+      suggestedRecovery: ['Change to the directory holding Cargo.toml'],
+      recoveryActions: [
+        { name: 'Check working directory', description: 'Verify you are in the right directory', command: 'pwd', automatic: true },
+      ],
+    },
+    {
+      id: 'compile-error',
+      programs: ['cargo', 'rustc'],
+      pattern: /error\[(?<code>E\d{4})\]: (?<message>[^\n]+)\n\s*--> (?<file>[^:\n]+):(?<line>\d+):(?<column>\d+)/,
+      errorType: 'compile_error',
+      severity: 'medium',
+      summary: '{code} in {file}:{line}: {message}',
+      suggestedRecovery: ['Fix {file} at line {line}', 'Read the explanation of {code}'],
+      recoveryActions: [
+        { name: 'Explain error', description: 'Show the explanation of {code}', command: 'rustc --explain {code}' },
+      ],
+    },
+  ],
+};
+
+const goPack: IErrorClassifierPack = {
+  id: 'go',
+  matchers: [
+    {
+      id: 'missing-module',
+      programs: ['go'],
+      pattern: /no required module provides package (?<package>[^\s;]+)/,
+      errorType: 'missing_module',
+      severity: 'medium',
+      summary: 'No module in go.mod provides {package}',
+      suggestedRecovery: ['Add the module providing {package}'],
+      recoveryActions: [
+        { name: 'Get module', description: 'Add {package} to go.mod', command: 'go get {package}' },
+      ],
+    },
+    {
+      id: 'missing-go-sum',
+      programs: ['go'],
+      pattern: /missing go\.sum entry for module providing package (?<package>\S+)/,
+      errorType: 'dependency_error',
+      severity: 'low',
+      summary: 'go.sum has no checksum for {package}',
+      suggestedRecovery: ['Update go.sum'],
+      recoveryActions: [
+        { name: 'Tidy modules', description: 'Add missing and remove unused requirements', command: 'go mod tidy' },
+      ],
+    },
+    {
+      id: 'go-mod-not-found',
+      programs: ['go'],
+      pattern: /go\.mod file not found/,
+      errorType: 'project_not_found',
+      severity: 'low',
+      summary: 'Not inside a Go module',
+      suggestedRecovery: ['Change to the directory holding go.mod, or create one'],
+      recoveryActions: [
+        { name: 'Check working directory', description: 'Verify you are in the right directory', command: 'pwd', automatic: true },
+      ],
+    },
+    {
+      id: 'compile-error',
+      programs: ['go'],
+      pattern: /^(?:\.\/)?(?<file>[^\s:]+\.go):(?<line>\d+):(?<column>\d+): (?<message>.+)$/m,
+      errorType: 'compile_error',
+      severity: 'medium',
+      summary: '{file}:{line}: {message}',
+      suggestedRecovery: ['Fix {file} at line {line}'],
+      recoveryActions: [
+        { name: 'Vet package', description: 'Report suspicious constructs', command: 'go vet ./...' },
+      ],
+    },
+  ],
+};
+
+const dockerPack: IErrorClassifierPack = {
+  id: 'docker',
+  matchers: [
+    {
+      id: 'port-allocated',
+      programs: ['docker', 'docker-compose'],
+      pattern: /Bind for (?:[\d.]+|\[::\]):(?<port>\d+) failed: port is already allocated/,
+      errorType: 'port_in_use',
+      severity: 'medium',
+      summary: 'Port {port} is already published by another container or process',
+      suggestedRecovery: ['Stop whatever holds port {port}', 'Publish the container on another port'],
+      recoveryActions: [
+        { name: 'Find container', description: 'List containers publishing port {port}', command: 'docker ps --filter publish={port}' },
+        { name: 'Find process', description: 'Show the process listening on port {port}', command: 'lsof -i :{port}', automatic: true },
+      ],
+    },
+    {
+      id: 'daemon-unavailable',
+      programs: ['docker', 'docker-compose'],
+      pattern: /Cannot connect to the Docker daemon/,
+      errorType: 'service_unavailable',
+      severity: 'high',
+      summary: 'The Docker daemon is not running',
+      suggestedRecovery: ['Start Docker Desktop or the docker service'],
+      recoveryActions: [
+        { name: 'Check daemon', description: 'Show the Docker daemon status', command: 'docker info' },
+      ],
+    },
+    {
+      id: 'image-not-found',
+      programs: ['docker', 'docker-compose'],
+      match: output => {
+        const match = output.match(/pull access denied for ([^,\s]+)/) || output.match(/manifest for (\S+) not found/);
+        return match ? { image: match[1] } : null;
+      },
+      errorType: 'image_not_found',
+      severity: 'medium',
+      summary: 'Image {image} not found',
+      suggestedRecovery: ['Check the image name and tag', 'Log in if the image is private'],
+      recoveryActions: [
+        { name: 'Search images', description: 'Search Docker Hub for {image}', command: 'docker search {image}' },
+      ],
+    },
+    {
+      id: 'container-name-conflict',
+      programs: ['docker', 'docker-compose'],
+      pattern: /The container name "\/?(?<name>[^"]+)" is already in use/,
+      errorType: 'name_conflict',
+      severity: 'low',
+      summary: 'A container named {name} already exists',
+      suggestedRecovery: ['Remove or rename the existing {name} container'],
+      recoveryActions: [
+        { name: 'Remove container', description: 'Remove the existing {name} container', command: 'docker rm {name}' },
+      ],
+    },
+  ],
+};
+
+const gitPack: IErrorClassifierPack = {
+  id: 'git',
+  matchers: [
+    {
+      id: 'merge-conflict',
+      programs: ['git'],
+      pattern: /CONFLICT \([^)]+\): Merge conflict in (?<file>[^\n]+)/,
+      errorType: 'merge_conflict',
+      severity: 'medium',
+      summary: 'Merge conflict in {file}',
+      suggestedRecovery: ['Resolve the conflict markers in {file}, then git add it', 'Abort the merge to go back'],
+      recoveryActions: [
+        { name: 'List conflicts', description: 'List every file with conflicts', command: 'git diff --name-only --diff-filter=U', automatic: true },
+        { name: 'Mark resolved', description: 'Stage {file} once its conflicts are fixed', command: 'git add {file}' },
+        { name: 'Abort merge', description: 'Go back to before the merge', command: 'git merge --abort' },
+      ],
+    },
+    {
+      id: 'uncommitted-changes',
+      programs: ['git'],
+      pattern: /Your local changes to the following files would be overwritten by \w+:\n\s+(?<file>[^\n]+)|cannot (?:pull|rebase) with rebase: (?:You have unstaged changes|Your index contains uncommitted changes)/,
+      errorType: 'uncommitted_changes',
+      severity: 'medium',
+      summary: 'Uncommitted changes are in the way',
+      suggestedRecovery: ['Commit or stash your changes first'],
+      recoveryActions: [
+        { name: 'Check git status', description: 'Review repository state', command: 'git status', automatic: true },
+        { name: 'Stash changes', description: 'Put your changes aside', command: 'git stash' },
+      ],
+    },
+    {
+      id: 'untracked-overwritten',
+      programs: ['git'],
+      pattern: /untracked working tree files would be overwritten by \w+:\n\s+(?<file>[^\n]+)/,
+      errorType: 'uncommitted_changes',
+      severity: 'medium',
+      summary: 'Untracked file {file} would be overwritten',
+      suggestedRecovery: ['Move or remove {file}', 'Stash untracked files too'],
+      recoveryActions: [
+        { name: 'Stash untracked files', description: 'Put untracked files aside', command: 'git stash --include-untracked' },
+      ],
+    },
+    {
+      id: 'push-rejected',
+      programs: ['git'],
+      pattern: /\[rejected\]\s+(?<branch>\S+) -> \S+ \((?:fetch first|non-fast-forward)\)/,
+      errorType: 'push_rejected',
+      severity: 'medium',
+      summary: 'The remote {branch} has commits you don\'t have',
+      suggestedRecovery: ['Pull and rebase onto the remote branch, then push again'],
+      recoveryActions: [
+        { name: 'Pull and rebase', description: 'Replay your commits on the remote {branch}', command: 'git pull --rebase' },
+      ],
+    },
+    {
+      id: 'no-upstream',
+      programs: ['git'],
+      pattern: /The current branch (?<branch>\S+) has no upstream branch/,
+      errorType: 'no_upstream',
+      severity: 'low',
+      summary: '{branch} has no upstream branch',
+      suggestedRecovery: ['Push {branch} and set its upstream'],
+      recoveryActions: [
+        { name: 'Set upstream', description: 'Push {branch} to origin and track it', command: 'git push --set-upstream origin {branch}' },
+      ],
+    },
+    {
+      id: 'pathspec-not-found',
+      programs: ['git'],
+      pattern: /pathspec '(?<pathspec>[^']+)' did not match any file/,
+      errorType: 'pathspec_not_found',
+      severity: 'low',
+      summary: 'Nothing named {pathspec} in the repository',
+      suggestedRecovery: ['Check the branch or file name for typos'],
+      recoveryActions: [
+        { name: 'List branches', description: 'List local and remote branches', command: 'git branch -a', automatic: true },
+      ],
+    },
+  ],
+};
+
+const kubectlPack: IErrorClassifierPack = {
+  id: 'kubectl',
+  matchers: [
+    {
+      id: 'resource-not-found',
+      programs: ['kubectl'],
+      pattern: /Error from server \(NotFound\): (?<kind>[\w.-]+) "(?<name>[^"]+)" not found/,
+      errorType: 'resource_not_found',
+      severity: 'low',
+      summary: 'No {kind} named {name}',
+      suggestedRecovery: ['Check the name and the namespace'],
+      recoveryActions: [
+        { name: 'List resources', description: 'List {kind} in every namespace', command: 'kubectl get {kind} --all-namespaces' },
+      ],
+    },
+    {
+      id: 'forbidden',
+      programs: ['kubectl'],
+      pattern: /Error from server \(Forbidden\):[^\n]*User "(?<user>[^"]+)" cannot (?<verb>\w+) resource "(?<resource>[^"]+)"/,
+      errorType: 'permission_denied',
+      severity: 'medium',
+      summary: '{user} may not {verb} {resource}',
+      suggestedRecovery: ['Switch to a context with the needed role', 'Ask for a role binding'],
+      recoveryActions: [
+        { name: 'Check access', description: 'Check whether you can {verb} {resource}', command: 'kubectl auth can-i {verb} {resource}' },
+      ],
+    },
+    {
+      id: 'unknown-resource-type',
+      programs: ['kubectl'],
+      pattern: /the server doesn't have a resource type "(?<kind>[^"]+)"/,
+      errorType: 'unknown_resource_type',
+      severity: 'low',
+      summary: 'The cluster has no resource type {kind}',
+      suggestedRecovery: ['Check the resource type for typos'],
+      recoveryActions: [
+        { name: 'List resource types', description: 'List the resource types the cluster knows', command: 'kubectl api-resources' },
+      ],
+    },
+    {
+      id: 'cluster-unreachable',
+      programs: ['kubectl'],
+      pattern: /The connection to the server (?<server>\S+) was refused/,
+      errorType: 'cluster_unreachable',
+      severity: 'high',
+      summary: 'Cannot reach the cluster at {server}',
+      suggestedRecovery: ['Check that the cluster is running and the current context is the one you meant'],
+      recoveryActions: [
+        { name: 'Show context', description: 'Show the current kubectl context', command: 'kubectl config current-context' },
+      ],
+    },
+  ],
+};
+
+// tsc and jest output is recognizable on its own, and usually arrives
+// through npm scripts, so these packs apply to any command
+const tscPack: IErrorClassifierPack = {
+  id: 'tsc',
+  matchers: [
+    {
+      id: 'type-error',
+      match: output => {
+        // `file.ts(12,5): error TS2322: ...`, or `file.ts:12:5 - error TS2322: ...` with --pretty
+        const match = output.match(/([^\s():]+\.[cm]?tsx?)(?:\((\d+),(\d+)\):|:(\d+):(\d+) -) error (TS\d+): ([^\n]+)/);
+        if (!match) return null;
+        return { file: match[1], line: match[2] ?? match[4], column: match[3] ?? match[5], code: match[6], message: match[7] };
+      },
+      errorType: 'type_error',
+      severity: 'medium',
+      summary: '{code} in {file}:{line}: {message}',
+      suggestedRecovery: ['Fix the type error in {file} at line {line}'],
+      recoveryActions: [
+        { name: 'Type-check again', description: 'Run the type checker without emitting files', command: 'npx tsc --noEmit' },
+      ],
+    },
+  ],
+};
+
+const jestPack: IErrorClassifierPack = {
+  id: 'jest',
+  matchers: [
+    {
+      id: 'test-failure',
+      match: output => {
+        const file = output.match(/^\s*FAIL\s+(?:\S+\s+)?(\S+\.[jt]sx?)\s*$/m);
+        // Jest heads each failure with `● Suite › test`; `● Console` holds logs
+        const test = output.match(/^\s*● (?!Console$|Test suite failed to run$)(.+)$/m);
+        if (!file || !test) return null;
+        return { file: file[1], test: test[1].split(' › ').pop()!.trim(), title: test[1].trim() };
+      },
+      errorType: 'test_failure',
+      severity: 'medium',
+      summary: 'Failing test: {title}',
+      suggestedRecovery: ['Run only the failing test while fixing it'],
+      recoveryActions: [
+        { name: 'Rerun failing test', description: 'Run {test} on its own', command: 'npx jest {file} -t {test}' },
+      ],
+    },
+    {
+      id: 'suite-failed',
+      pattern: /FAIL\s+(?:\S+\s+)?(?<file>\S+\.[jt]sx?)\s*\n\s*● Test suite failed to run/,
+      errorType: 'test_suite_error',
+      severity: 'medium',
+      summary: '{file} failed to load',
+      suggestedRecovery: ['Fix the syntax or import error in {file} before its tests can run'],
+      recoveryActions: [
+        { name: 'Rerun suite', description: 'Run {file} on its own', command: 'npx jest {file}' },
+      ],
+    },
+  ],
+};
+
+// Errors any program can print in these words
+const shellPack: IErrorClassifierPack = {
+  id: 'shell',
+  matchers: [
+    {
+      id: 'port-in-use',
+      match: output => {
+        // Node names the port after the error, Go before it
+        const match = output.match(/EADDRINUSE:? address already in use [^\s]*?:(\d+)/)
+          || output.match(/listen tcp [^\s]*?:(\d+): bind: address already in use/);
+        return match ? { port: match[1] } : null;
+      },
+      errorType: 'port_in_use',
+      severity: 'medium',
+      summary: 'Port {port} is already in use',
+      suggestedRecovery: ['Stop the process holding port {port}, or use another port'],
+      recoveryActions: [
+        { name: 'Find process', description: 'Show the process listening on port {port}', command: 'lsof -i :{port}', automatic: true },
+      ],
+    },
+    {
+      id: 'command-not-found',
+      match: output => {
+        // bash: `bash: line 1: foo: command not found`, zsh: `zsh: command not found: foo`
+        const match = output.match(/^(?:[\w/.-]+: )?(?:line \d+: )?([^\s:]+): command not found/m)
+          || output.match(/command not found: (\S+)/);
+        return match ? { name: match[1] } : null;
+      },
+      errorType: 'command_not_found',
+      severity: 'medium',
+      summary: '{name} is not installed or not on PATH',
+      suggestedRecovery: ['Install {name}', 'Check the spelling of {name}', 'Verify PATH environment variable'],
+      recoveryActions: [
+        { name: 'Check PATH', description: 'Verify command is in PATH', command: 'echo $PATH' },
+      ],
+    },
+    {
+      id: 'no-such-file',
+      match: output => {
+        const match = output.match(/^[\w./-]+: (?:line \d+: )?(?:cannot (?:access|open|stat) )?'?([^':\n]+?)'?: No such file or directory/m);
+        return match ? { path: match[1], name: path.basename(match[1]) } : null;
+      },
+      errorType: 'file_not_found',
+      severity: 'low',
+      summary: '{path} does not exist',
+      suggestedRecovery: ['Check the path {path} for typos', 'Use an absolute path'],
+      recoveryActions: [
+        { name: 'Check working directory', description: 'Verify you are in the right directory', command: 'pwd', automatic: true },
+        { name: 'Look for the file', description: 'Search below this directory for {name}', command: 'find . -name {name}' },
+      ],
+    },
+    {
+      id: 'permission-denied',
+      pattern: /^[\w./-]+: (?:line \d+: )?(?:cannot (?:open|create|remove) )?'?(?<path>[^':\n]+?)'?: Permission denied/m,
+      errorType: 'permission_denied',
+      severity: 'medium',
+      summary: 'No permission for {path}',
+      suggestedRecovery: ['Check who owns {path} and its mode'],
+      recoveryActions: [
+        { name: 'Check permissions', description: 'Show the owner and mode of {path}', command: 'ls -ld {path}', automatic: true },
+      ],
+    },
+  ],
+};
+
+export const DEFAULT_ERROR_PACKS: IErrorClassifierPack[] = [
+  npmPack, pythonPack, cargoPack, goPack, dockerPack, gitPack, kubectlPack, tscPack, jestPack, shellPack,
+];
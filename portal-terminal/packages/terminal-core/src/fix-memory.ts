@@ -0,0 +1,206 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandBlock } from './command-block';
+import { ErrorHandler } from './error-handler';
+import { SecretRedactor } from './secret-redactor';
+import { ShellParser } from './shell-parser';
+
+export interface ILearnedFix {
+  command: string;
+  // Times it succeeded right after the error
+  count: number;
+  lastUsed: number;
+  // Where it last worked
+  cwd: string;
+}
+
+export interface IFixMemoryOptions {
+  persistencePath?: string;
+  // Errors remembered; the ones whose fixes were used least recently go first
+  maxSignatures?: number;
+  // How long after a failure a success still counts as its fix
+  pairingWindowMs?: number;
+  // Commands with secrets in them are not learned
+  redactor?: SecretRedactor;
+}
+
+interface IPendingFailure {
+  signature: string;
+  command: string;
+  timestamp: number;
+}
+
+const MAX_FIXES_PER_SIGNATURE = 5;
+const MAX_SIGNATURE_LENGTH = 200;
+
+// The first line that reads like an error names the failure
+const ERROR_LINE = /\b(?:error|fatal|failed|failure|exception|denied|not found|cannot|could not|unable to|no such)\b|\bERR!/i;
+
+/**
+ * Which command fixed an error before, shared by all terminals and kept in
+ * ~/.portal/learned-fixes.json. A failure's error signature is paired with
+ * the next command that succeeds in the same directory; read-only commands
+ * like `ls` or `git status` in between don't count, and a plain retry of the
+ * failed command isn't a fix.
+ */
+export class FixMemory {
+  private fixes: Record<string, ILearnedFix[]> = {};
+  // The last failure in each directory, waiting for its fix
+  private pending = new Map<string, IPendingFailure>();
+  private persistencePath: string;
+  private maxSignatures: number;
+  private pairingWindowMs: number;
+  private redactor: SecretRedactor;
+  private loadPromise: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(options: IFixMemoryOptions = {}) {
+    this.persistencePath = options.persistencePath || path.join(os.homedir(), '.portal', 'learned-fixes.json');
+    this.maxSignatures = options.maxSignatures || 1000;
+    this.pairingWindowMs = options.pairingWindowMs || 10 * 60 * 1000;
+    this.redactor = options.redactor || new SecretRedactor({ environment: process.env });
+  }
+
+  /**
+   * The program and the first error line with the parts that change between
+   * runs (paths, hashes, numbers) masked, e.g. `npm npm ERR! code ERESOLVE`.
+   * null when the output has nothing to go on.
+   */
+  static signature(command: string, output: string): string | null {
+    const lines = output.split('\n').map(line => line.trim()).filter(Boolean);
+    const line = lines.find(candidate => ERROR_LINE.test(candidate)) || lines[lines.length - 1];
+    if (!line) return null;
+
+    const program = ShellParser.getCommands(command)[0]?.program || '';
+    const normalized = line
+      .replace(/(?:~|\.{1,2})?\/[^\s'"`:,)]+/g, '<path>')
+      .replace(/\b[0-9a-f]{7,}\b/gi, '<hash>')
+      .replace(/\b\d+(?:\.\d+)*\b/g, '<n>')
+      .replace(/\s+/g, ' ');
+
+    return `${program} ${normalized}`.trim().slice(0, MAX_SIGNATURE_LENGTH);
+  }
+
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadPersistedFixes();
+    }
+    return this.loadPromise;
+  }
+
+  // Most used first, then most recent
+  async getFixes(command: string, errorOutput: string): Promise<ILearnedFix[]> {
+    const signature = FixMemory.signature(command, errorOutput);
+    if (!signature) return [];
+
+    await this.load();
+    return [...(this.fixes[signature] || [])].sort((a, b) => b.count - a.count || b.lastUsed - a.lastUsed);
+  }
+
+  /**
+   * Follow a finished block: a failure waits for its fix, and a success
+   * right after one is learned as that fix. Returns the fix when one was
+   * learned.
+   */
+  async observe(block: CommandBlock, cwd: string): Promise<ILearnedFix | null> {
+    const command = block.command.trim();
+    // Recovery actions aren't the user's fix, and a killed command didn't fail
+    if (!command || block.dryRun || block.source === 'recovery' || block.exitCode === undefined || block.exitCode > 128) {
+      return null;
+    }
+
+    if (block.exitCode !== 0) {
+      const signature = FixMemory.signature(command, block.getDiagnosticOutput());
+      if (signature) {
+        this.pending.set(cwd, { signature, command, timestamp: Date.now() });
+      }
+      return null;
+    }
+
+    const failure = this.pending.get(cwd);
+    if (!failure || ErrorHandler.isReadOnlyCommand(command)) return null;
+
+    this.pending.delete(cwd);
+    if (Date.now() - failure.timestamp > this.pairingWindowMs || command === failure.command) return null;
+    if (this.redactor.redactText(command) !== command) return null;
+
+    return this.learn(failure.signature, command, cwd);
+  }
+
+  async forget(signature: string, command?: string): Promise<boolean> {
+    await this.load();
+    const fixes = this.fixes[signature];
+    if (!fixes) return false;
+
+    const remaining = command ? fixes.filter(fix => fix.command !== command) : [];
+    if (remaining.length === fixes.length) return false;
+
+    if (remaining.length > 0) {
+      this.fixes[signature] = remaining;
+    } else {
+      delete this.fixes[signature];
+    }
+    await this.enqueueWrite(() => this.writeFile());
+    return true;
+  }
+
+  private async learn(signature: string, command: string, cwd: string): Promise<ILearnedFix> {
+    await this.load();
+    const fixes = this.fixes[signature] || [];
+    const existing = fixes.find(fix => fix.command === command);
+    const fix: ILearnedFix = {
+      command,
+      count: (existing?.count || 0) + 1,
+      lastUsed: Date.now(),
+      cwd,
+    };
+
+    this.fixes[signature] = [fix, ...fixes.filter(other => other !== existing)]
+      .sort((a, b) => b.count - a.count || b.lastUsed - a.lastUsed)
+      .slice(0, MAX_FIXES_PER_SIGNATURE);
+    this.prune();
+
+    await this.enqueueWrite(() => this.writeFile());
+    return fix;
+  }
+
+  private prune(): void {
+    const signatures = Object.keys(this.fixes);
+    if (signatures.length <= this.maxSignatures) return;
+
+    const lastUsed = (signature: string) => Math.max(...this.fixes[signature].map(fix => fix.lastUsed));
+    signatures
+      .sort((a, b) => lastUsed(a) - lastUsed(b))
+      .slice(0, signatures.length - this.maxSignatures)
+      .forEach(signature => delete this.fixes[signature]);
+  }
+
+  private async loadPersistedFixes(): Promise<void> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.persistencePath, 'utf8'));
+      if (data && typeof data === 'object' && !Array.isArray(data)) {
+        this.fixes = data;
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn('Failed to load learned fixes:', error);
+      }
+    }
+  }
+
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    this.writeQueue = this.writeQueue.then(write).catch(error => {
+      console.warn('Failed to persist learned fixes:', error);
+    });
+    return this.writeQueue;
+  }
+
+  private async writeFile(): Promise<void> {
+    await fs.mkdir(path.dirname(this.persistencePath), { recursive: true });
+
+    const tempPath = `${this.persistencePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(this.fixes, null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, this.persistencePath);
+  }
+}
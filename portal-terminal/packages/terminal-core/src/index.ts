@@ -3,8 +3,24 @@ export { MCPTerminal } from './mcp-terminal';
 export { IntegratedTerminal } from './integrated-terminal';
 export { PortalTerminal } from './portal-terminal';
 export { CommandBlock } from './command-block';
+export { OutputBuffer } from './output-buffer';
+export { AnsiParser } from './ansi-parser';
 export { TerminalSession } from './terminal-session';
+export { SessionStore } from './session-store';
 export { CommandExecutor } from './command-executor';
+export { CommandHistory } from './command-history';
+export { AuditLog } from './audit-log';
+export { EnvironmentManager } from './environment-manager';
+export { EnvironmentTrustStore } from './environment-trust';
+export { SecretRedactor } from './secret-redactor';
 export { CommandValidator } from './command-validator';
+export { ErrorClassifierRegistry } from './error-classifier';
+export { DiagnosticsExtractor } from './diagnostics';
+export { FixMemory } from './fix-memory';
+export { ResourceSampler } from './resource-sampler';
 export { ShellDetector } from './shell-detector';
+export { ShellHistoryImporter } from './shell-history';
+export { PtySession } from './pty-session';
+export { ShellIntegrationParser } from './shell-integration-parser';
+export { ShellParser } from './shell-parser';
 export * from './types';
\ No newline at end of file
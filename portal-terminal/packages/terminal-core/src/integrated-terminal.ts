@@ -1,7 +1,22 @@
 import { TerminalManager } from './terminal-manager';
 import { CommandBlock } from './command-block';
-import { CommandValidator } from './command-validator';
-import { TerminalOptions } from './types';
+import { ShellParser } from './shell-parser';
+import { ErrorHandler } from './error-handler';
+import { ErrorClassifierRegistry } from './error-classifier';
+import { FixMemory } from './fix-memory';
+import { PerformanceMonitor, IPerformanceAlert } from './performance-monitor';
+import { ITrackedProcess, ProcessSource, ResourceSampler } from './resource-sampler';
+import { CommandHistory } from './command-history';
+import { ImportedHistoryShell, ShellHistoryImporter } from './shell-history';
+import { EnvironmentTrustStore } from './environment-trust';
+import { findProjectEnvironment, IProjectEnvironmentFile, ProjectTool, resolveTool } from './project-environment';
+import {
+  CommandSource,
+  DirectoryEnvironmentState,
+  DirectoryEnvironmentStatus,
+  EnvironmentTrustRequest,
+  TerminalOptions,
+} from './types';
 
 export interface IIntegratedTerminalOptions extends TerminalOptions {
   aiEnabled?: boolean;
@@ -9,6 +24,16 @@ export interface IIntegratedTerminalOptions extends TerminalOptions {
   autoSuggestions?: boolean;
   errorAnalysis?: boolean;
   performanceMonitoring?: boolean;
+  commandHistory?: CommandHistory;
+  sessionId?: string;
+  // Shared by terminals so a directory is only trusted once
+  environmentTrust?: EnvironmentTrustStore;
+  // Error packs to classify failures with; the default packs when unset
+  errorClassifiers?: ErrorClassifierRegistry;
+  // Shared so a fix learned in one terminal is offered in all of them
+  fixMemory?: FixMemory;
+  // Shared so every terminal's shell and commands are sampled together
+  resourceSampler?: ResourceSampler;
 }
 
 export interface ITerminalContext {
@@ -26,12 +51,31 @@ export interface ITerminalContext {
     structure: string[];
   };
   mcpContext?: any;
+  // From the `note` lines of the project's trusted .portal/env
+  environmentNotes?: string[];
+}
+
+// The .portal/env of the project the cwd is in, loaded or not
+interface IProjectEnvironmentState {
+  file: IProjectEnvironmentFile;
+  status: DirectoryEnvironmentStatus;
 }
 
 export class IntegratedTerminal extends TerminalManager {
   private aiClient: any = null;
   private mcpClient: any = null;
   private context: ITerminalContext;
+  private errorHandler: ErrorHandler;
+  private performanceMonitor: PerformanceMonitor;
+  private resourceSampler: ResourceSampler;
+  private environmentTrust: EnvironmentTrustStore;
+  private projectEnvironment: IProjectEnvironmentState | null = null;
+  // Changes to the project environment are applied one at a time
+  private projectEnvironmentUpdate: Promise<unknown> = Promise.resolve();
+  private environmentTrustCallback?: (request: EnvironmentTrustRequest) => void;
+  private directoryEnvironmentCallback?: (status: DirectoryEnvironmentStatus | null) => void;
+  public onError?: (errorData: any) => void;
+  public onPerformanceAlert?: (alert: IPerformanceAlert) => void;
   private performanceMetrics = {
     commandCount: 0,
     totalResponseTime: 0,
@@ -48,9 +92,17 @@ export class IntegratedTerminal extends TerminalManager {
       recentCommands: [],
     };
 
+    this.environmentTrust = integratedOptions.environmentTrust || new EnvironmentTrustStore();
+
     // Initialize error handling and monitoring
-    this.errorHandler = new ErrorHandler();
-    this.performanceMonitor = new PerformanceMonitor();
+    this.errorHandler = new ErrorHandler({
+      classifiers: integratedOptions.errorClassifiers,
+      fixMemory: integratedOptions.fixMemory,
+    });
+    this.errorHandler.setCommandRunner((command, options) => this.runRecoveryCommand(command, options));
+    this.resourceSampler = integratedOptions.resourceSampler || new ResourceSampler();
+    this.resourceSampler.addProcessSource(this.trackedProcesses);
+    this.performanceMonitor = new PerformanceMonitor({ sampler: this.resourceSampler });
     
     this.setupEventHandlers();
     this.initializeIntegrations();
@@ -64,16 +116,16 @@ export class IntegratedTerminal extends TerminalManager {
   // Setup event handlers for monitoring integration
   private setupEventHandlers(): void {
     // Error handler events
-    this.errorHandler.on('error', (errorData) => {
+    this.errorHandler.on('error', (errorData: any) => {
       this.onError?.(errorData);
     });
     
-    this.errorHandler.on('emergency-reset', (resetData) => {
+    this.errorHandler.on('emergency-reset', (resetData: any) => {
       this.dataCallback?.(`🚨 Emergency reset performed for terminal ${resetData.terminalId}\n`);
     });
     
     // Performance monitor events
-    this.performanceMonitor.on('performance-alert', (alert) => {
+    this.performanceMonitor.on('performance-alert', (alert: IPerformanceAlert) => {
       this.onPerformanceAlert?.(alert);
     });
   }
@@ -93,16 +145,38 @@ export class IntegratedTerminal extends TerminalManager {
       // Initialize context detection
       await this.detectProjectContext();
       await this.detectGitContext();
+      await this.updateProjectEnvironment();
+
+      // Seed recent commands from the persistent history, again whenever shell history is imported into it
+      if (this.integratedOptions.commandHistory) {
+        await this.integratedOptions.commandHistory.load();
+        this.seedRecentCommands();
+        this.integratedOptions.commandHistory.on('import', this.seedRecentCommands);
+      }
 
     } catch (error) {
       console.warn('Integration initialization failed:', error);
     }
   }
 
+  // Adds the user's bash, zsh and fish history to the command history; the
+  // number of commands that were new to it
+  async importShellHistory(shells?: ImportedHistoryShell[]): Promise<number> {
+    const history = this.integratedOptions.commandHistory;
+    if (!history) return 0;
+
+    return history.import(await ShellHistoryImporter.readAll({ shells }));
+  }
+
+  private seedRecentCommands = (): void => {
+    this.context.recentCommands = (this.integratedOptions.commandHistory?.getRecent(10) || []).reverse()
+      .map(command => this.environment.redact(command));
+  };
+
   private async initializeAI(): Promise<void> {
     try {
       // Mock AI client for now (will be replaced with actual implementation)
-      this.aiClient = {
+      this.aiClient = this.withRedaction({
         generateSuggestion: async (command: string, context: any) => {
           return this.generateMockSuggestion(command);
         },
@@ -110,13 +184,14 @@ export class IntegratedTerminal extends TerminalManager {
           return `Command "${command}" performs basic operation in ${context.shellType}`;
         },
         analyzeError: async (command: string, error: string, context: any) => {
+          const program = ShellParser.getCommands(command)[0]?.program ?? command.trim();
           return {
             diagnosis: `Error in command "${command}": ${error.slice(0, 100)}`,
             suggestions: [`Try checking permissions`, `Verify file exists`, `Check syntax`],
-            fixCommands: [`ls -la`, `which ${command.split(' ')[0]}`, `man ${command.split(' ')[0]}`],
+            fixCommands: [`ls -la`, `which ${program}`, `man ${program}`],
           };
         },
-      };
+      });
       
       console.log('🤖 AI integration ready');
       this.dataCallback?.('[AI] Ready for intelligent assistance\n');
@@ -129,7 +204,7 @@ export class IntegratedTerminal extends TerminalManager {
   private async initializeMCP(): Promise<void> {
     try {
       // Mock MCP client for now
-      this.mcpClient = {
+      this.mcpClient = this.withRedaction({
         getContext: () => ({
           tools: [
             { name: 'file-search', serverId: 'filesystem' },
@@ -151,7 +226,7 @@ export class IntegratedTerminal extends TerminalManager {
             { type: 'resource', item: { uri: 'file://./src' }, relevanceScore: 80 },
           ];
         },
-      };
+      });
       
       console.log('🔗 MCP integration ready');
       this.dataCallback?.('[MCP] 3 context servers connected\n');
@@ -161,6 +236,18 @@ export class IntegratedTerminal extends TerminalManager {
     }
   }
 
+  // Commands, output and context reach AI providers and MCP servers only
+  // through clients wrapped here, with secrets masked
+  private withRedaction<T extends Record<string, any>>(client: T): T {
+    const wrapped: Record<string, any> = {};
+    for (const [name, member] of Object.entries(client)) {
+      wrapped[name] = typeof member === 'function'
+        ? (...args: unknown[]) => member.apply(client, args.map(arg => this.environment.getRedactor().redactValue(arg)))
+        : member;
+    }
+    return wrapped as T;
+  }
+
   private async detectProjectContext(): Promise<void> {
     try {
       const fs = require('fs').promises;
@@ -230,7 +317,7 @@ export class IntegratedTerminal extends TerminalManager {
     }
   }
 
-  async executeCommand(command: string): Promise<CommandBlock> {
+  async executeCommand(command: string, options: { source?: CommandSource } = {}): Promise<CommandBlock> {
     const startTime = Date.now();
     this.performanceMetrics.commandCount++;
 
@@ -245,14 +332,18 @@ export class IntegratedTerminal extends TerminalManager {
         this.context.mcpContext = this.mcpClient.getContext();
       }
 
-      // Execute the command
-      const block = await super.executeCommand(command);
+      // Execute the command; output streams through the block's events while
+      // analysis below needs the final result
+      const block = await super.executeCommand(command, options);
+      await this.waitForForeground(block);
       
-      // Post-command analysis
-      await this.postCommandAnalysis(block, command);
+      // Post-command analysis, skipped for jobs still running in the background
+      if (block.isFinished()) {
+        await this.postCommandAnalysis(block, command);
+      }
       
       // Update recent commands
-      this.context.recentCommands.push(command);
+      this.context.recentCommands.push(this.environment.redact(command));
       if (this.context.recentCommands.length > 10) {
         this.context.recentCommands = this.context.recentCommands.slice(-10);
       }
@@ -274,10 +365,47 @@ export class IntegratedTerminal extends TerminalManager {
     }
   }
 
+  protected trackBlock(block: CommandBlock): void {
+    super.trackBlock(block);
+    block.once('exit', () => {
+      this.recordHistory(block);
+      this.learnFix(block);
+    });
+  }
+
+  // Recovery actions run as children of the failed block and skip the
+  // analysis in executeCommand(), so a failing one isn't analyzed in turn
+  private runRecoveryCommand(
+    command: string,
+    options: { parentId?: string; requireConfirmation?: string }
+  ): Promise<CommandBlock> {
+    return super.executeCommand(command, { ...options, source: 'recovery' }).waitForExit();
+  }
+
+  private recordHistory(block: CommandBlock): void {
+    const history = this.integratedOptions.commandHistory;
+    // The user didn't type recovery actions, so they don't belong in their history
+    if (!history || !block.command.trim() || block.source === 'recovery') return;
+
+    history.add({
+      command: block.command,
+      cwd: block.cwd || this.context.workingDirectory,
+      gitBranch: this.context.gitContext?.branch,
+      exitCode: block.exitCode,
+      duration: block.duration,
+      sessionId: this.integratedOptions.sessionId,
+    }).catch(error => console.warn('Failed to record command history:', error));
+  }
+
+  private learnFix(block: CommandBlock): void {
+    this.integratedOptions.fixMemory?.observe(block, block.cwd || this.context.workingDirectory)
+      .catch(error => console.warn('Failed to learn fix:', error));
+  }
+
   private async provideSuggestions(command: string): Promise<void> {
     try {
       // Get quick validation
-      const validation = CommandValidator.validateCommand(command);
+      const validation = this.validator.validateCommand(command, { cwd: this.context.workingDirectory });
       
       if (!validation.isValid) {
         this.dataCallback?.(`⚠️  Warning: ${validation.errors.join(', ')}\n`);
@@ -305,8 +433,30 @@ export class IntegratedTerminal extends TerminalManager {
   private async postCommandAnalysis(block: CommandBlock, command: string): Promise<void> {
     try {
       // Analyze command success/failure
+      let findings: string[] = [];
+      if (block.status === 'error' && this.integratedOptions.errorAnalysis !== false) {
+        const { analysis } = await this.errorHandler.analyzeBlockError(block, this.context);
+        if (analysis.learnedFixes?.length) {
+          this.dataCallback?.(`🧠 Fixed this before with:\n`);
+          for (const fix of analysis.learnedFixes) {
+            this.dataCallback?.(`   $ ${fix.command}\n`);
+          }
+        }
+
+        findings = analysis.findings || [];
+        for (const finding of findings) {
+          this.dataCallback?.(`🔧 ${finding}\n`);
+        }
+      }
+
       if (block.status === 'error' && this.aiClient) {
-        const analysis = await this.aiClient.analyzeError(command, block.output, this.context);
+        // Only stderr and the end of stdout go to the model, along with what
+        // the recovery actions found
+        const analysis = await this.aiClient.analyzeError(
+          command,
+          block.getDiagnosticOutput(),
+          findings.length > 0 ? { ...this.context, recoveryFindings: findings } : this.context
+        );
         
         if (analysis.suggestions.length > 0) {
           this.dataCallback?.(`\n🔍 AI Analysis: ${analysis.diagnosis}\n`);
@@ -333,29 +483,205 @@ export class IntegratedTerminal extends TerminalManager {
   }
 
   private async updateContextFromCommand(command: string, block: CommandBlock): Promise<void> {
+    if (block.status !== 'completed') return;
+
+    const commands = ShellParser.getCommands(command);
+    const runs = (program: string) => commands.some(resolved => resolved.program === program);
+
     // Update git context if git command was run
-    if (command.startsWith('git ') && block.status === 'completed') {
+    if (runs('git')) {
       setTimeout(() => this.detectGitContext(), 500); // Async update
     }
 
     // Update project context if package management command was run
-    if ((command.includes('npm ') || command.includes('yarn ')) && 
-        (command.includes('install') || command.includes('add')) &&
-        block.status === 'completed') {
+    const installsPackages = commands.some(resolved =>
+      ['npm', 'yarn', 'pnpm'].includes(resolved.program) && ['install', 'i', 'add'].includes(resolved.args[0])
+    );
+    if (installsPackages) {
       setTimeout(() => this.detectProjectContext(), 1000); // Async update
     }
+  }
 
-    // Change directory updates
-    if (command.startsWith('cd ') && block.status === 'completed') {
-      // Update working directory context
-      try {
-        this.context.workingDirectory = process.cwd();
-        await this.detectProjectContext();
-        await this.detectGitContext();
-      } catch (error) {
-        console.warn('Failed to update directory context:', error);
+  // The shell reports every cd, pushd or popd, and any other way it changed
+  // directory, whether the command was typed or sent by executeCommand()
+  protected handleWorkingDirectoryChange(cwd: string): void {
+    this.context.workingDirectory = cwd;
+    this.updateDirectoryContext(cwd).catch(error => {
+      console.warn('Failed to update directory context:', error);
+    });
+  }
+
+  private async updateDirectoryContext(cwd: string): Promise<void> {
+    await this.updateProjectEnvironment();
+    if (this.context.workingDirectory !== cwd) return;
+
+    await this.detectProjectContext();
+    await this.detectGitContext();
+  }
+
+  // Load, keep or unload the .portal/env of the project the cwd is now in.
+  // A file is only loaded once its directory is trusted, and trust is asked
+  // for again whenever the file changes.
+  private updateProjectEnvironment(): Promise<void> {
+    return this.enqueueEnvironmentUpdate(async () => {
+      const found = await findProjectEnvironment(this.context.workingDirectory);
+      const current = this.projectEnvironment;
+      if (current && found && current.file.file === found.file && current.file.hash === found.hash) {
+        return;
+      }
+
+      if (current) {
+        this.unloadProjectEnvironment();
+        this.projectEnvironment = null;
+        this.directoryEnvironmentCallback?.(null);
       }
+      if (!found) return;
+
+      const decision = await this.environmentTrust.getDecision(found.directory, found.hash);
+      if (decision === 'trusted') {
+        await this.loadProjectEnvironment(found);
+      } else if (decision === 'denied') {
+        this.setProjectEnvironmentState(found, 'denied');
+      } else {
+        this.setProjectEnvironmentState(found, 'awaiting-trust');
+        this.requestEnvironmentTrust(found, await this.environmentTrust.hasChanged(found.directory, found.hash));
+      }
+    });
+  }
+
+  private requestEnvironmentTrust(file: IProjectEnvironmentFile, changed: boolean): void {
+    if (!this.environmentTrustCallback) {
+      this.dataCallback?.(
+        `\n🔐 ${file.file} ${changed ? 'changed since it was last reviewed' : 'is not trusted yet'}; ` +
+        'load it with "portal env trust" or ignore it with "portal env deny"\n'
+      );
+      return;
     }
+
+    this.environmentTrustCallback({
+      directory: file.directory,
+      file: file.file,
+      variables: this.environment.getRedactor().redactEnvironment(file.variables),
+      path: file.path,
+      node: file.tools.node,
+      python: file.tools.python,
+      notes: file.notes,
+      changed,
+    });
+  }
+
+  // Trust or deny the .portal/env of the project the cwd is in; false if
+  // `directory` isn't that project. Can change an earlier answer.
+  respondToEnvironmentTrust(directory: string, trusted: boolean): Promise<boolean> {
+    return this.enqueueEnvironmentUpdate(async () => {
+      const project = this.projectEnvironment;
+      if (!project || project.file.directory !== directory) {
+        return false;
+      }
+
+      await this.environmentTrust.setDecision(directory, project.file.hash, trusted ? 'trusted' : 'denied');
+
+      if (trusted && project.status.state !== 'active') {
+        await this.loadProjectEnvironment(project.file);
+      } else if (!trusted && project.status.state !== 'denied') {
+        this.unloadProjectEnvironment();
+        this.setProjectEnvironmentState(project.file, 'denied');
+      }
+      return true;
+    });
+  }
+
+  private async loadProjectEnvironment(file: IProjectEnvironmentFile): Promise<void> {
+    const problems = [...file.problems];
+    const toolPath: string[] = [];
+    const versions: Partial<Record<ProjectTool, string>> = {};
+
+    for (const [tool, version] of Object.entries(file.tools) as [ProjectTool, string][]) {
+      const resolved = await resolveTool(tool, version, this.environment.getEnvironment());
+      if (resolved) {
+        toolPath.push(resolved.bin);
+        versions[tool] = resolved.version;
+      } else {
+        problems.push(`${tool} ${version} is not installed`);
+      }
+    }
+
+    // The project's own directories win over the tool versions
+    this.environment.setProjectEnvironment({
+      directory: file.directory,
+      variables: file.variables,
+      path: [...file.path, ...toolPath],
+    });
+    this.context.environmentNotes = file.notes;
+    this.setProjectEnvironmentState(file, 'active', versions, problems);
+
+    const loaded = [
+      `${Object.keys(file.variables).length} variables`,
+      ...Object.entries(versions).map(([tool, version]) => `${tool} ${version}`),
+    ];
+    this.dataCallback?.(`🔐 Loaded ${file.file} (${loaded.join(', ')})\n`);
+    for (const problem of problems) {
+      this.dataCallback?.(`   ⚠️  ${problem}\n`);
+    }
+  }
+
+  private unloadProjectEnvironment(): void {
+    const project = this.projectEnvironment;
+    if (project?.status.state !== 'active') return;
+
+    this.environment.setProjectEnvironment(null);
+    delete this.context.environmentNotes;
+    this.dataCallback?.(`🔐 Unloaded ${project.file.file}\n`);
+  }
+
+  private setProjectEnvironmentState(
+    file: IProjectEnvironmentFile,
+    state: DirectoryEnvironmentState,
+    versions: Partial<Record<ProjectTool, string>> = {},
+    problems: string[] = file.problems
+  ): void {
+    this.projectEnvironment = {
+      file,
+      status: {
+        directory: file.directory,
+        state,
+        variables: Object.keys(file.variables),
+        path: file.path,
+        node: versions.node,
+        python: versions.python,
+        notes: file.notes,
+        problems,
+      },
+    };
+    this.directoryEnvironmentCallback?.(this.getDirectoryEnvironmentStatus());
+  }
+
+  private enqueueEnvironmentUpdate<T>(update: () => Promise<T>): Promise<T> {
+    const result = this.projectEnvironmentUpdate.then(update);
+    this.projectEnvironmentUpdate = result.catch(error => {
+      console.warn('Failed to update project environment:', error);
+    });
+    return result;
+  }
+
+  getDirectoryEnvironmentStatus(): DirectoryEnvironmentStatus | null {
+    return this.projectEnvironment && { ...this.projectEnvironment.status };
+  }
+
+  onEnvironmentTrustRequest(callback: (request: EnvironmentTrustRequest) => void): void {
+    this.environmentTrustCallback = callback;
+
+    // A project found before anyone listened still needs an answer
+    this.enqueueEnvironmentUpdate(async () => {
+      const project = this.projectEnvironment;
+      if (project?.status.state === 'awaiting-trust') {
+        this.requestEnvironmentTrust(project.file, await this.environmentTrust.hasChanged(project.file.directory, project.file.hash));
+      }
+    }).catch(() => {});
+  }
+
+  onDirectoryEnvironmentChange(callback: (status: DirectoryEnvironmentStatus | null) => void): void {
+    this.directoryEnvironmentCallback = callback;
   }
 
   private async analyzeError(command: string, error: any): Promise<void> {
@@ -394,8 +720,8 @@ export class IntegratedTerminal extends TerminalManager {
       'tar': 'Try: tar -tf <file> to list contents, tar -xvf to extract',
     };
 
-    const firstWord = command.split(' ')[0];
-    return suggestions[firstWord] || `Command "${firstWord}" - use man ${firstWord} for help`;
+    const program = ShellParser.getCommands(command)[0]?.program ?? command.trim();
+    return suggestions[program] || `Command "${program}" - use man ${program} for help`;
   }
 
   async getAISuggestion(prompt: string): Promise<string> {
@@ -458,6 +784,7 @@ export class IntegratedTerminal extends TerminalManager {
     mcp: { enabled: boolean; servers: number };
     performance: any;
     context: ITerminalContext;
+    environment: DirectoryEnvironmentStatus | null;
   }> {
     const mcpContext = await this.getMCPContext();
     const performance = this.getPerformanceMetrics();
@@ -477,6 +804,7 @@ export class IntegratedTerminal extends TerminalManager {
       },
       performance,
       context: this.context,
+      environment: this.getDirectoryEnvironmentStatus(),
     };
   }
 
@@ -485,6 +813,7 @@ export class IntegratedTerminal extends TerminalManager {
     aiSuggestions?: boolean;
     mcpContext?: boolean;
     errorAnalysis?: boolean;
+    source?: CommandSource;
   } = {}): Promise<{
     block: CommandBlock;
     aiSuggestion?: string;
@@ -513,11 +842,12 @@ export class IntegratedTerminal extends TerminalManager {
 
     // Execute command
     try {
-      result.block = await this.executeCommand(command);
+      result.block = await this.executeCommand(command, { source: options.source });
     } catch (error) {
       // Create error block
       result.block = new CommandBlock(command);
-      result.block.addOutput(`Error: ${error}\n`);
+      this.trackBlock(result.block);
+      result.block.addOutput(`Error: ${error}\n`, 'stderr');
       result.block.setCompleted(1);
 
       // Get error analysis if enabled
@@ -561,10 +891,28 @@ ${this.context.projectContext ? `- Project: ${this.context.projectContext.type}`
     }
   }
 
+  // The shell and the commands of running blocks, for the resource sampler
+  private trackedProcesses: ProcessSource = () => {
+    const processes: ITrackedProcess[] = [];
+    const shellPid = this.ptySession.getPid();
+    if (shellPid) {
+      processes.push({ pid: shellPid, role: 'shell' });
+    }
+
+    for (const job of this.getJobs()) {
+      if (job.status === 'running' && job.pid) {
+        processes.push({ pid: job.pid, role: 'block', label: job.command });
+      }
+    }
+    return processes;
+  };
+
   // Performance monitoring
   startPerformanceMonitoring(): void {
     if (!this.integratedOptions.performanceMonitoring) return;
 
+    this.performanceMonitor.startMonitoring();
+
     setInterval(() => {
       const metrics = this.getPerformanceMetrics();
       
@@ -584,6 +932,7 @@ ${this.context.projectContext ? `- Project: ${this.context.projectContext.type}`
       // Stop monitoring
       this.performanceMonitor?.stopMonitoring();
       this.performanceMonitor?.destroy();
+      this.resourceSampler?.removeProcessSource(this.trackedProcesses);
       
       // Clean up integrations
       if (this.aiClient?.destroy) {
@@ -596,6 +945,7 @@ ${this.context.projectContext ? `- Project: ${this.context.projectContext.type}`
       
       // Clean up error handler
       this.errorHandler?.removeAllListeners();
+      this.integratedOptions.commandHistory?.off('import', this.seedRecentCommands);
       
     } catch (error) {
       console.warn('Integration cleanup failed:', error);
@@ -611,25 +961,31 @@ ${this.context.projectContext ? `- Project: ${this.context.projectContext.type}`
       terminal: 'ok' | 'error';
       ai: 'ok' | 'disabled' | 'error';
       mcp: 'ok' | 'disabled' | 'error';
+      system: 'ok' | 'warning' | 'critical';
     };
     metrics: any;
+    issues: string[];
   }> {
     const metrics = this.getPerformanceMetrics();
+    // Samples the app and this terminal's processes if the last sample is stale
+    const performance = await this.performanceMonitor.performHealthCheck();
     
     const components = {
       terminal: 'ok' as const,
       ai: this.aiClient ? 'ok' as const : 'disabled' as const,
       mcp: this.mcpClient ? 'ok' as const : 'disabled' as const,
+      system: performance.components.system,
     };
 
     let overall: 'healthy' | 'degraded' | 'unhealthy' = 'healthy';
     
-    if (metrics.errorRate > 20) {
+    if (metrics.errorRate > 20 || components.system === 'critical') {
       overall = 'unhealthy';
-    } else if (metrics.errorRate > 10 || metrics.averageResponseTime > 3000) {
+    } else if (metrics.errorRate > 10 || metrics.averageResponseTime > 3000 || components.system === 'warning') {
       overall = 'degraded';
     }
 
-    return { overall, components, metrics };
+    const { systemResources } = this.performanceMonitor.getMetrics();
+    return { overall, components, metrics: { ...metrics, systemResources }, issues: performance.issues };
   }
 }
\ No newline at end of file
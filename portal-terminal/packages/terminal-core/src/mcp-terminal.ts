@@ -1,6 +1,6 @@
 import { TerminalManager } from './terminal-manager';
 import { CommandBlock } from './command-block';
-import { TerminalOptions } from './types';
+import { CommandSource, TerminalOptions } from './types';
 
 export interface IMCPTerminalOptions extends TerminalOptions {
   mcpEnabled?: boolean;
@@ -79,9 +79,9 @@ export class MCPTerminal extends TerminalManager {
     return '';
   }
 
-  async executeCommand(command: string): Promise<CommandBlock> {
-    // Execute the base command
-    const block = await super.executeCommand(command);
+  async executeCommand(command: string, options: { source?: CommandSource } = {}): Promise<CommandBlock> {
+    // Execute the base command, recorded as coming from an MCP tool
+    const block = await super.executeCommand(command, { ...options, source: 'mcp-tool' });
     
     // Enhance with MCP context if available
     if (this.mcpEnabled && this.mcpClient) {
@@ -94,7 +94,7 @@ export class MCPTerminal extends TerminalManager {
   private async enhanceBlockWithMCP(block: CommandBlock, command: string): Promise<void> {
     try {
       const relevantContext = await this.mcpClient.getRelevantContext(
-        command,
+        this.environment.redact(command),
         process.cwd()
       );
 
@@ -0,0 +1,318 @@
+import * as fs from 'fs';
+import * as fsPromises from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { StringDecoder } from 'string_decoder';
+import { checkPrivateDirectory } from './private-directory';
+import { OutputChunk, OutputInfo, OutputStream } from './types';
+
+export interface IOutputBufferOptions {
+  maxMemoryBytes?: number;
+  // Must be private to the user; a new temp directory of this process by default
+  spillDirectory?: string;
+}
+
+interface ISpillFile {
+  path: string;
+  handle: fsPromises.FileHandle;
+}
+
+const DEFAULT_MAX_MEMORY_BYTES = 2 * 1024 * 1024;
+
+// Evict down to this share of the limit so spills happen in batches
+const EVICTION_TARGET = 0.75;
+
+// Every Nth line start in the spill file is indexed so paging can seek close to it
+const LINE_INDEX_INTERVAL = 1000;
+
+const READ_SIZE = 64 * 1024;
+
+// Spill files of this process and its own spill directory, removed when it exits
+const spillFiles = new Set<string>();
+let processSpillDirectory: Promise<string> | null = null;
+let createdSpillDirectory: string | null = null;
+let exitCleanupRegistered = false;
+
+function registerExitCleanup(): void {
+  if (exitCleanupRegistered) return;
+
+  exitCleanupRegistered = true;
+  process.once('exit', () => {
+    for (const file of spillFiles) {
+      try {
+        fs.unlinkSync(file);
+      } catch {
+        // Already gone
+      }
+    }
+    if (createdSpillDirectory) {
+      fs.rmSync(createdSpillDirectory, { recursive: true, force: true });
+    }
+  });
+}
+
+// mkdtemp picks a name nobody could have claimed and creates it 0700
+function getProcessSpillDirectory(): Promise<string> {
+  if (!processSpillDirectory) {
+    registerExitCleanup();
+    processSpillDirectory = fsPromises.mkdtemp(path.join(os.tmpdir(), 'portal-output-')).then(
+      directory => {
+        createdSpillDirectory = directory;
+        return directory;
+      },
+      error => {
+        processSpillDirectory = null;
+        throw error;
+      }
+    );
+  }
+  return processSpillDirectory;
+}
+
+/**
+ * Keeps the most recent output of a block in memory and appends anything
+ * older to a temp file, so a command that prints gigabytes holds a bounded
+ * amount of memory. Lines can be paged from either part by line number.
+ * Writes to the file are asynchronous and queued in order.
+ */
+export class OutputBuffer {
+  private chunks: OutputChunk[] = [];
+  private text: string | null = '';
+  private memoryBytes = 0;
+  private totalBytes = 0;
+  private streamBytes: Record<OutputStream, number> = { stdout: 0, stderr: 0 };
+  private newlines = 0;
+  private endsWithNewline = true;
+  private spilledBytes = 0;
+  private spilledNewlines = 0;
+  // Byte offsets in the spill file of every LINE_INDEX_INTERVAL-th line
+  private lineIndex: number[] = [0];
+  private spillFile: Promise<ISpillFile> | null = null;
+  // Appends to and removal of the spill file, in order, off the output path
+  private spillWrites: Promise<void> = Promise.resolve();
+  private maxMemoryBytes: number;
+  private spillDirectory?: string;
+
+  constructor(private id: string, options: IOutputBufferOptions = {}) {
+    this.maxMemoryBytes = options.maxMemoryBytes || DEFAULT_MAX_MEMORY_BYTES;
+    this.spillDirectory = options.spillDirectory;
+  }
+
+  append(data: string, stream: OutputStream): OutputChunk {
+    const byteLength = Buffer.byteLength(data);
+    const chunk: OutputChunk = {
+      stream,
+      data,
+      offset: this.totalBytes,
+      streamOffset: this.streamBytes[stream],
+      byteLength,
+      timestamp: new Date(),
+    };
+
+    this.chunks.push(chunk);
+    if (this.text !== null) {
+      this.text += data;
+    }
+
+    this.memoryBytes += byteLength;
+    this.totalBytes += byteLength;
+    this.streamBytes[stream] += byteLength;
+    this.newlines += countNewlines(data);
+    this.endsWithNewline = data.endsWith('\n');
+
+    if (this.memoryBytes > this.maxMemoryBytes) {
+      this.spill();
+    }
+
+    return chunk;
+  }
+
+  // Chunks still in memory, oldest first
+  getChunks(): OutputChunk[] {
+    return this.chunks;
+  }
+
+  // Output still in memory
+  getText(): string {
+    if (this.text === null) {
+      this.text = this.chunks.map(chunk => chunk.data).join('');
+    }
+    return this.text;
+  }
+
+  getInfo(): OutputInfo {
+    return {
+      totalBytes: this.totalBytes,
+      spilledBytes: this.spilledBytes,
+      lineCount: this.newlines + (this.endsWithNewline ? 0 : 1),
+      windowStartLine: this.spilledNewlines,
+    };
+  }
+
+  /**
+   * Lines [start, end) of the whole output, reading the spilled part from
+   * disk. Line numbers are zero-based; a trailing newline doesn't start a line.
+   */
+  async getLines(start: number, end: number): Promise<string[]> {
+    end = Math.min(end, this.getInfo().lineCount);
+    if (start >= end) {
+      return [];
+    }
+
+    if (!this.spillFile || start >= this.spilledNewlines + 1) {
+      return this.getText().split('\n').slice(start - this.spilledNewlines, end - this.spilledNewlines);
+    }
+
+    // Everything counted as spilled is on disk once the pending appends are
+    const { path: spillPath } = await this.spillFile;
+    await this.spillWrites;
+
+    const indexed = Math.min(Math.floor(start / LINE_INDEX_INTERVAL), this.lineIndex.length - 1);
+    let line = indexed * LINE_INDEX_INTERVAL;
+    let position = this.lineIndex[indexed];
+    let pending = '';
+    const lines: string[] = [];
+    const decoder = new StringDecoder('utf8');
+    const buffer = Buffer.alloc(READ_SIZE);
+
+    const handle = await fsPromises.open(spillPath, 'r');
+    try {
+      while (position < this.spilledBytes && line < end) {
+        const { bytesRead } = await handle.read(buffer, 0, Math.min(READ_SIZE, this.spilledBytes - position), position);
+        if (bytesRead === 0) break;
+        position += bytesRead;
+
+        const parts = (pending + decoder.write(buffer.subarray(0, bytesRead))).split('\n');
+        pending = parts.pop()!;
+        for (const part of parts) {
+          if (line >= start && line < end) lines.push(part);
+          line++;
+        }
+      }
+    } finally {
+      await handle.close();
+    }
+
+    // The first line in memory continues the last line on disk
+    if (line < end) {
+      for (const part of (pending + decoder.end() + this.getText()).split('\n')) {
+        if (line >= end) break;
+        if (line >= start) lines.push(part);
+        line++;
+      }
+    }
+
+    return lines;
+  }
+
+  // Resolves once spilled output, or its removal, has reached the disk
+  flush(): Promise<void> {
+    return this.spillWrites;
+  }
+
+  clear(): void {
+    this.chunks = [];
+    this.text = '';
+    this.memoryBytes = 0;
+    this.totalBytes = 0;
+    this.streamBytes = { stdout: 0, stderr: 0 };
+    this.newlines = 0;
+    this.endsWithNewline = true;
+    this.spilledBytes = 0;
+    this.spilledNewlines = 0;
+    this.lineIndex = [0];
+    this.removeSpillFile();
+  }
+
+  dispose(): void {
+    this.chunks = [];
+    this.text = '';
+    this.memoryBytes = 0;
+    this.removeSpillFile();
+  }
+
+  // Move the oldest chunks to disk, keeping at least the newest one in memory
+  private spill(): void {
+    const target = this.maxMemoryBytes * EVICTION_TARGET;
+    let count = 0;
+    let bytes = 0;
+    while (count < this.chunks.length - 1 && this.memoryBytes - bytes > target) {
+      bytes += this.chunks[count].byteLength;
+      count++;
+    }
+    if (count === 0) return;
+
+    const evicted = this.chunks.splice(0, count);
+    const data = Buffer.from(evicted.map(chunk => chunk.data).join(''));
+
+    if (!this.spillFile) {
+      this.spillFile = this.openSpillFile();
+      // A failure is reported by the write waiting for it
+      this.spillFile.catch(() => {});
+    }
+    const spillFile = this.spillFile;
+    this.enqueueSpillWrite(async () => {
+      const { handle } = await spillFile;
+      await handle.write(data);
+    });
+
+    for (let index = data.indexOf(0x0a); index !== -1; index = data.indexOf(0x0a, index + 1)) {
+      this.spilledNewlines++;
+      if (this.spilledNewlines % LINE_INDEX_INTERVAL === 0) {
+        this.lineIndex.push(this.spilledBytes + index + 1);
+      }
+    }
+
+    this.spilledBytes += data.length;
+    this.memoryBytes -= data.length;
+    this.text = null;
+  }
+
+  // Created exclusively, never opened or followed if something is already
+  // there, in a directory only this user can enter; written through the
+  // one handle from then on
+  private async openSpillFile(): Promise<ISpillFile> {
+    const directory = this.spillDirectory ?? await getProcessSpillDirectory();
+    checkPrivateDirectory(directory, { hidden: true });
+
+    const filePath = path.join(directory, `${process.pid}-${this.id}.log`);
+    const handle = await fsPromises.open(filePath, 'wx', 0o600);
+    registerExitCleanup();
+    spillFiles.add(filePath);
+    return { path: filePath, handle };
+  }
+
+  // After the appends still pending, so none of them writes to a removed file
+  private removeSpillFile(): void {
+    const spillFile = this.spillFile;
+    if (!spillFile) return;
+
+    this.spillFile = null;
+    this.enqueueSpillWrite(async () => {
+      const { path: filePath, handle } = await spillFile;
+      await handle.close();
+      await fsPromises.rm(filePath, { force: true });
+      spillFiles.delete(filePath);
+    });
+  }
+
+  private enqueueSpillWrite(write: () => Promise<void>): void {
+    this.spillWrites = this.spillWrites.then(write).catch(error => {
+      console.warn('Failed to write spilled output:', error);
+    });
+  }
+}
+
+function countNewlines(data: string): number {
+  let count = 0;
+  for (let index = data.indexOf('\n'); index !== -1; index = data.indexOf('\n', index + 1)) {
+    count++;
+  }
+  return count;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -1,4 +1,5 @@
 import { EventEmitter } from 'events';
+import { IProcessUsage, IResourcePoint, ResourceSampler } from './resource-sampler';
 
 export interface IPerformanceMetrics {
   commandExecution: {
@@ -23,10 +24,15 @@ export interface IPerformanceMetrics {
     resourceAccessCount: number;
   };
   systemResources: {
+    // Resident bytes of the app and the commands it runs
     memoryUsage: number;
+    // Percent of the machine
     cpuUsage: number;
+    // Percent of the disk in use
     diskUsage: number;
     networkLatency?: number;
+    // From the latest sample, per tracked process
+    processes?: IProcessUsage[];
   };
   userExperience: {
     errorRate: number;
@@ -50,21 +56,26 @@ export class PerformanceMonitor extends EventEmitter {
   private metrics: IPerformanceMetrics;
   private responseTimes: number[] = [];
   private aiResponseTimes: number[] = [];
+  private aiResponseTimesByModel: Record<string, number[]> = {};
   private mcpResponseTimes: number[] = [];
   private alerts: IPerformanceAlert[] = [];
   private monitoringInterval: NodeJS.Timeout | null = null;
+  private sampler: ResourceSampler;
   
   // Performance thresholds
   private thresholds = {
     commandResponseTime: 2000, // 2s warning threshold
     aiResponseTime: 500, // 500ms for 20B model
-    memoryUsage: 200 * 1024 * 1024, // 200MB
+    memoryUsage: 1024 * 1024 * 1024, // 1GB across the app and running commands
+    cpuUsage: 80, // 80% of the machine
+    diskUsage: 90, // 90% of the disk
     errorRate: 10, // 10% error rate
     mcpContextTime: 1000, // 1s for MCP context
   };
 
-  constructor() {
+  constructor(options: { sampler?: ResourceSampler } = {}) {
     super();
+    this.sampler = options.sampler || new ResourceSampler();
     this.initializeMetrics();
   }
 
@@ -176,6 +187,7 @@ export class PerformanceMonitor extends EventEmitter {
 
     const duration = performance.now() - aiData.startTime;
     this.aiResponseTimes.push(duration);
+    (this.aiResponseTimesByModel[aiData.model] ||= []).push(duration);
     
     this.metrics.aiPerformance.totalRequests++;
     this.updateAIMetrics();
@@ -230,12 +242,7 @@ export class PerformanceMonitor extends EventEmitter {
   }
 
   // System resource monitoring
-  updateSystemResources(resources: {
-    memoryUsage: number;
-    cpuUsage: number;
-    diskUsage: number;
-    networkLatency?: number;
-  }): void {
+  updateSystemResources(resources: IPerformanceMetrics['systemResources']): void {
     this.metrics.systemResources = resources;
     
     // Check resource thresholds
@@ -246,12 +253,19 @@ export class PerformanceMonitor extends EventEmitter {
       );
     }
 
-    if (resources.cpuUsage > 80) {
-      this.generateAlert('warning', 'cpuUsage', resources.cpuUsage, 80,
+    if (resources.cpuUsage > this.thresholds.cpuUsage) {
+      this.generateAlert('warning', 'cpuUsage', resources.cpuUsage, this.thresholds.cpuUsage,
         `High CPU usage: ${Math.round(resources.cpuUsage)}%`,
         ['Reduce concurrent operations', 'Use lighter AI models', 'Check background processes']
       );
     }
+
+    if (resources.diskUsage > this.thresholds.diskUsage) {
+      this.generateAlert('warning', 'diskUsage', resources.diskUsage, this.thresholds.diskUsage,
+        `Disk almost full: ${Math.round(resources.diskUsage)}% used`,
+        ['Clear build caches and node_modules you no longer need', 'Remove old Docker images']
+      );
+    }
   }
 
   // Feature usage tracking
@@ -332,9 +346,12 @@ export class PerformanceMonitor extends EventEmitter {
     }
 
     this.monitoringInterval = setInterval(() => {
-      this.collectSystemMetrics();
-      this.checkPerformanceThresholds();
-      this.cleanupOldData();
+      this.collectSystemMetrics(intervalMs)
+        .catch(error => console.warn('Failed to sample system resources:', error))
+        .then(() => {
+          this.checkPerformanceThresholds();
+          this.cleanupOldData();
+        });
     }, intervalMs);
     
     console.log('📊 Performance monitoring started');
@@ -349,15 +366,22 @@ export class PerformanceMonitor extends EventEmitter {
     console.log('📊 Performance monitoring stopped');
   }
 
-  private collectSystemMetrics(): void {
-    // Would collect actual system metrics
-    const mockMetrics = {
-      memoryUsage: process.memoryUsage().heapUsed,
-      cpuUsage: Math.random() * 20 + 5, // Mock CPU usage
-      diskUsage: Math.random() * 1000000000, // Mock disk usage
-    };
-    
-    this.updateSystemResources(mockMetrics);
+  // Monitors of a shared sampler take turns: a sample younger than maxAgeMs
+  // is reused rather than taken again
+  private async collectSystemMetrics(maxAgeMs: number): Promise<void> {
+    const sample = await this.sampler.getRecent(maxAgeMs);
+    this.updateSystemResources({
+      memoryUsage: sample.memoryUsage,
+      cpuUsage: sample.cpuUsage,
+      diskUsage: sample.diskUsage,
+      networkLatency: sample.networkLatency,
+      processes: sample.processes,
+    });
+  }
+
+  // A sample older than this is taken again before a health check
+  private ensureFreshSample(maxAgeMs: number = 5000): Promise<void> {
+    return this.collectSystemMetrics(maxAgeMs);
   }
 
   private checkPerformanceThresholds(): void {
@@ -521,22 +545,34 @@ export class PerformanceMonitor extends EventEmitter {
     
     // Auto-optimize based on metrics
     if (this.aiResponseTimes.length > 100) {
-      // Adjust AI model selection based on performance
-      const fastModelUsage = this.metrics.aiPerformance.modelUsage['gpt-oss-20b'] || 0;
-      const totalUsage = Object.values(this.metrics.aiPerformance.modelUsage).reduce((a, b) => a + b, 0);
-      
-      if (fastModelUsage / totalUsage < 0.7) {
-        actions.push('Increased fast model usage for simple queries');
-        improvements.push('30% faster AI responses');
+      // Compare the models by what they actually took
+      const averages = Object.entries(this.aiResponseTimesByModel)
+        .filter(([, times]) => times.length >= 10)
+        .map(([model, times]) => ({ model, average: times.reduce((a, b) => a + b, 0) / times.length }))
+        .sort((a, b) => a.average - b.average);
+      const fastest = averages[0];
+      const overall = this.metrics.aiPerformance.averageResponseTime;
+
+      if (fastest && overall > 0 && fastest.average < overall * 0.9) {
+        actions.push(`Prefer ${fastest.model} for simple queries`);
+        improvements.push(
+          `${fastest.model} averaged ${Math.round(fastest.average)}ms against ${Math.round(overall)}ms overall ` +
+          `(${Math.round((1 - fastest.average / overall) * 100)}% faster)`
+        );
       }
     }
     
     // Cleanup old data more aggressively if memory is high
     if (this.metrics.systemResources.memoryUsage > this.thresholds.memoryUsage * 0.8) {
+      const dropped = Math.max(0, this.responseTimes.length - 500) + Math.max(0, this.aiResponseTimes.length - 500);
       this.responseTimes = this.responseTimes.slice(-500);
       this.aiResponseTimes = this.aiResponseTimes.slice(-500);
+      for (const model of Object.keys(this.aiResponseTimesByModel)) {
+        this.aiResponseTimesByModel[model] = this.aiResponseTimesByModel[model].slice(-500);
+      }
+      this.sampler.clearSeries();
       actions.push('Reduced memory usage by cleaning old metrics');
-      improvements.push('10% lower memory footprint');
+      improvements.push(`Dropped ${dropped} old timings and the resource history`);
     }
     
     return { actionsApplied: actions, expectedImprovements: improvements };
@@ -576,13 +612,24 @@ export class PerformanceMonitor extends EventEmitter {
 
   // Real-time performance streaming
   startPerformanceStreaming(callback: (metrics: any) => void): void {
-    const streamInterval = setInterval(() => {
+    const streamInterval = setInterval(async () => {
+      try {
+        await this.collectSystemMetrics(1000);
+      } catch (error) {
+        console.warn('Failed to sample system resources:', error);
+      }
+
+      const resources = this.metrics.systemResources;
       callback({
         timestamp: Date.now(),
         commandResponseTime: this.responseTimes.slice(-1)[0] || 0,
         aiResponseTime: this.aiResponseTimes.slice(-1)[0] || 0,
         mcpResponseTime: this.mcpResponseTimes.slice(-1)[0] || 0,
-        memoryUsage: this.metrics.systemResources.memoryUsage,
+        memoryUsage: resources.memoryUsage,
+        cpuUsage: resources.cpuUsage,
+        diskUsage: resources.diskUsage,
+        networkLatency: resources.networkLatency,
+        processes: resources.processes,
         errorRate: this.metrics.userExperience.errorRate,
       });
     }, 1000);
@@ -598,6 +645,11 @@ export class PerformanceMonitor extends EventEmitter {
     }
   }
 
+  // Oldest first, downsampled past the last few minutes
+  getResourceHistory(since: number = 0): IResourcePoint[] {
+    return this.sampler.getSeries(since);
+  }
+
   // Health check
   async performHealthCheck(): Promise<{
     overall: 'healthy' | 'degraded' | 'unhealthy';
@@ -610,12 +662,23 @@ export class PerformanceMonitor extends EventEmitter {
     score: number;
     issues: string[];
   }> {
+    try {
+      await this.ensureFreshSample();
+    } catch (error) {
+      console.warn('Failed to sample system resources:', error);
+    }
+
     const issues: string[] = [];
-    const components = {
-      commands: 'ok' as const,
-      ai: 'ok' as const,
-      mcp: 'ok' as const,
-      system: 'ok' as const,
+    const components: {
+      commands: 'ok' | 'slow' | 'error';
+      ai: 'ok' | 'slow' | 'error';
+      mcp: 'ok' | 'slow' | 'error';
+      system: 'ok' | 'warning' | 'critical';
+    } = {
+      commands: 'ok',
+      ai: 'ok',
+      mcp: 'ok',
+      system: 'ok',
     };
 
     // Check command performance
@@ -642,9 +705,24 @@ export class PerformanceMonitor extends EventEmitter {
     }
     
     // Check system resources
-    if (this.metrics.systemResources.memoryUsage > this.thresholds.memoryUsage) {
-      components.system = 'warning';
-      issues.push('High memory usage');
+    const resources = this.metrics.systemResources;
+    const systemChecks = [
+      { value: resources.memoryUsage, warning: this.thresholds.memoryUsage, critical: this.thresholds.memoryUsage * 2,
+        issue: `High memory usage: ${Math.round(resources.memoryUsage / 1024 / 1024)}MB` },
+      { value: resources.cpuUsage, warning: this.thresholds.cpuUsage, critical: 95,
+        issue: `High CPU usage: ${Math.round(resources.cpuUsage)}%` },
+      { value: resources.diskUsage, warning: this.thresholds.diskUsage, critical: 98,
+        issue: `Disk almost full: ${Math.round(resources.diskUsage)}% used` },
+    ];
+
+    for (const check of systemChecks) {
+      if (check.value <= check.warning) continue;
+      issues.push(check.issue);
+      if (check.value > check.critical) {
+        components.system = 'critical';
+      } else if (components.system === 'ok') {
+        components.system = 'warning';
+      }
     }
 
     // Calculate overall health
@@ -1,5 +1,11 @@
 import { IntegratedTerminal, IIntegratedTerminalOptions, ITerminalContext } from './integrated-terminal';
 import { CommandBlock } from './command-block';
+import { JobSignal } from './command-executor';
+import { COMMAND_SOURCES, IAuditQuery } from './audit-log';
+import { CommandSource } from './types';
+import { IMPORTED_HISTORY_SHELLS, ImportedHistoryShell } from './shell-history';
+
+const JOB_SIGNALS: JobSignal[] = ['SIGINT', 'SIGTERM', 'SIGKILL', 'SIGSTOP', 'SIGCONT'];
 
 export interface IPortalTerminalOptions extends IIntegratedTerminalOptions {
   enableAllFeatures?: boolean;
@@ -146,22 +152,57 @@ export class PortalTerminal extends IntegratedTerminal {
   }
 
   // Override executeCommand to add Portal-specific enhancements
-  async executeCommand(command: string): Promise<CommandBlock> {
+  async executeCommand(command: string, options: { source?: CommandSource } = {}): Promise<CommandBlock> {
     // Handle special Portal commands
     if (await this.handleSpecialCommands(command)) {
       // Special command was handled, create a success block
       const block = new CommandBlock(command);
+      this.trackBlock(block);
       block.setCompleted(0);
       return block;
     }
 
     // Execute through integrated terminal
-    return super.executeCommand(command);
+    return super.executeCommand(command, options);
   }
 
   private async handleSpecialCommands(command: string): Promise<boolean> {
     const cmd = command.trim().toLowerCase();
 
+    // Job control takes arguments, so it's matched on the subcommand
+    const [prefix, subcommand, ...args] = command.trim().split(/\s+/);
+    if (prefix.toLowerCase() === 'portal') {
+      switch (subcommand?.toLowerCase()) {
+        case 'jobs':
+          this.showJobs();
+          return true;
+
+        case 'kill':
+          this.killJob(args);
+          return true;
+
+        case 'bg':
+          this.backgroundJob(args[0]);
+          return true;
+
+        case 'fg':
+          await this.foregroundJob(args[0]);
+          return true;
+
+        case 'audit':
+          await this.showAudit(args);
+          return true;
+
+        case 'env':
+          await this.manageEnvironment(args, command.trim().replace(/^portal\s+env\s+\S+\s*/i, ''));
+          return true;
+
+        case 'history':
+          await this.importHistory(args);
+          return true;
+      }
+    }
+
     switch (cmd) {
       case 'help':
       case 'portal help':
@@ -210,6 +251,33 @@ export class PortalTerminal extends IntegratedTerminal {
   performance      - Performance metrics
   context          - Current context info
 
+⚙️  Job Control:
+  <command> &                     - Run a command in the background
+  portal jobs                     - List running jobs
+  portal kill [-SIGNAL] <blockId> - Signal a job (INT, TERM, KILL, STOP, CONT)
+  portal bg <blockId>             - Resume a job in the background
+  portal fg <blockId>             - Resume a job and wait for it
+
+🔁 Retries:
+  portal retry <n> -- <command>   - Retry transient failures (e.g. network errors) up to n times
+
+🧾 Audit:
+  portal audit [options] [text]   - Commands run through Portal (--source, --since 2h, --limit)
+  portal audit verify             - Check that the audit log hasn't been edited
+
+📥 History:
+  portal history import [shells] - Bring in bash, zsh and fish history (or just the shells named)
+
+🔐 Environment:
+  portal env                      - Variables of this session, .env and .portal/env (secrets masked)
+  portal env set KEY=value        - Set a variable for commands run in this session
+  portal env unset KEY            - Unset a variable for this session
+  portal env reset KEY            - Take a variable from .env or the launching environment again
+  portal env trust | deny         - Load or ignore the project's .portal/env
+
+🔍 Dry Run:
+  portal preview -- <command>     - List the files an rm, mv or chmod -R would touch, without running it
+
 🤖 AI Features:
   • Smart command suggestions
   • Error analysis and fixes
@@ -374,6 +442,226 @@ ${context.mcpContext ? `
     this.dataCallback?.(contextText);
   }
 
+  private showJobs(): void {
+    const jobs = this.getJobs();
+    if (jobs.length === 0) {
+      this.dataCallback?.('\nNo jobs running\n\n');
+      return;
+    }
+
+    const rows = jobs.map(job => [
+      job.blockId,
+      String(job.pid ?? '-'),
+      job.status,
+      job.background ? 'bg' : 'fg',
+      job.startTime.toLocaleTimeString(),
+      job.command,
+    ]);
+    const widths = rows[0].slice(0, -1).map((_, column) =>
+      Math.max(...rows.map(row => row[column].length))
+    );
+    const lines = rows.map(row =>
+      '  ' + row.map((cell, column) => column < widths.length ? cell.padEnd(widths[column]) : cell).join('  ')
+    );
+
+    this.dataCallback?.(`\n⚙️  Jobs\n\n${lines.join('\n')}\n\n`);
+  }
+
+  private async showAudit(args: string[]): Promise<void> {
+    const auditLog = this.options.auditLog;
+    if (!auditLog) {
+      this.dataCallback?.('\nNo audit log is kept for this terminal\n\n');
+      return;
+    }
+
+    if (args[0] === 'verify') {
+      const result = await auditLog.verify();
+      this.dataCallback?.(result.valid
+        ? `\n✅ Audit log intact: ${result.entries} entries\n\n`
+        : `\n❌ Audit log has been tampered with: ${result.reason}\n   ${result.entries} entries verified before that\n\n`);
+      return;
+    }
+
+    const query = parseAuditQuery(args);
+    if (typeof query === 'string') {
+      this.dataCallback?.(`\n${query}\nUsage: portal audit [verify] [--source <${COMMAND_SOURCES.join('|')}>] [--since <30m|2h|7d>] [--limit <n>] [text]\n\n`);
+      return;
+    }
+
+    await auditLog.load();
+    const entries = auditLog.query({ limit: 20, ...query });
+    if (entries.length === 0) {
+      this.dataCallback?.('\nNo matching commands in the audit log\n\n');
+      return;
+    }
+
+    const rows = entries.map(entry => [
+      new Date(entry.timestamp).toLocaleString(),
+      entry.event === 'start' ? 'started' : entry.exitCode === undefined ? '-' : `exit ${entry.exitCode}`,
+      entry.source,
+      entry.user,
+      entry.cwd,
+      entry.command,
+    ]);
+    const widths = rows[0].slice(0, -1).map((_, column) =>
+      Math.max(...rows.map(row => row[column].length))
+    );
+    const lines = rows.map(row =>
+      '  ' + row.map((cell, column) => column < widths.length ? cell.padEnd(widths[column]) : cell).join('  ')
+    );
+
+    this.dataCallback?.(`\n🧾 Audit log\n\n${lines.join('\n')}\n\n`);
+  }
+
+  // `portal history import` with no shells named reads all of them
+  private async importHistory(args: string[]): Promise<void> {
+    const [action, ...names] = args.map(arg => arg.toLowerCase());
+    const unknown = names.filter(name => !IMPORTED_HISTORY_SHELLS.includes(name as ImportedHistoryShell));
+    if (action !== 'import' || unknown.length > 0) {
+      this.dataCallback?.(`\nUsage: portal history import [${IMPORTED_HISTORY_SHELLS.join('|')}...]\n\n`);
+      return;
+    }
+
+    const shells = names.length > 0 ? names as ImportedHistoryShell[] : IMPORTED_HISTORY_SHELLS;
+    const imported = await this.importShellHistory(shells);
+    this.dataCallback?.(imported > 0
+      ? `\n📥 Imported ${imported} command${imported === 1 ? '' : 's'} from ${shells.join(', ')} history\n\n`
+      : `\nNo new commands in ${shells.join(', ')} history\n\n`);
+  }
+
+  // `assignment` is the rest of the command line after the action, spaces kept
+  private async manageEnvironment(args: string[], assignment: string): Promise<void> {
+    const [action, key] = args;
+
+    try {
+      switch (action) {
+        case 'set': {
+          const match = assignment.match(/^([^=\s]+)=(.*)$/s);
+          if (!match) {
+            this.dataCallback?.('\nUsage: portal env set KEY=value\n\n');
+            return;
+          }
+          this.environment.set(match[1], match[2]);
+          this.dataCallback?.(`\n✅ ${match[1]} set for this session\n\n`);
+          return;
+        }
+
+        case 'unset':
+        case 'reset':
+          if (!key) {
+            this.dataCallback?.(`\nUsage: portal env ${action} KEY\n\n`);
+            return;
+          }
+          if (action === 'unset') {
+            this.environment.unset(key);
+          } else if (!this.environment.reset(key)) {
+            this.dataCallback?.(`\n${key} isn't set or unset for this session\n\n`);
+            return;
+          }
+          this.dataCallback?.(`\n✅ ${key} ${action === 'unset' ? 'unset' : 'reset'} for this session\n\n`);
+          return;
+
+        case 'trust':
+        case 'deny': {
+          const project = this.getDirectoryEnvironmentStatus();
+          if (!project) {
+            this.dataCallback?.('\nNo .portal/env here or in a parent directory\n\n');
+          } else {
+            await this.respondToEnvironmentTrust(project.directory, action === 'trust');
+            this.dataCallback?.(`\n✅ ${action === 'trust' ? 'Trusted' : 'Denied'} the environment of ${project.directory}\n\n`);
+          }
+          return;
+        }
+
+        case undefined:
+          break;
+
+        default:
+          this.dataCallback?.('\nUsage: portal env [set KEY=value | unset KEY | reset KEY | trust | deny]\n\n');
+          return;
+      }
+    } catch (error) {
+      this.dataCallback?.(`\n❌ ${error instanceof Error ? error.message : String(error)}\n\n`);
+      return;
+    }
+
+    const redactor = this.environment.getRedactor();
+    const overrides = this.environment.getOverrides();
+    const directory = this.environment.getDirectoryEnvironment();
+    const project = this.getDirectoryEnvironmentStatus();
+    const lines = [
+      ...Object.entries(redactor.redactEnvironment(overrides.set)).map(([name, value]) => `  ${name}=${value}`),
+      ...overrides.unset.map(name => `  unset ${name}`),
+    ];
+
+    let text = `\n🔐 Session environment\n\n${lines.length > 0 ? lines.join('\n') : '  No variables set for this session'}\n`;
+    if (directory) {
+      const variables = redactor.redactEnvironment(directory.variables);
+      text += `\n📄 From ${directory.directory}/.env\n\n${Object.entries(variables).map(([name, value]) => `  ${name}=${value}`).join('\n')}\n`;
+    }
+    if (project) {
+      const states = { active: 'loaded', 'awaiting-trust': 'not trusted yet', denied: 'denied' };
+      const tools = [project.node && `node ${project.node}`, project.python && `python ${project.python}`].filter(Boolean);
+      text += `\n📦 ${project.directory}/.portal/env (${states[project.state]})\n\n`;
+      text += `  ${project.variables.length} variables${tools.length > 0 ? `, ${tools.join(', ')}` : ''}\n`;
+      text += project.path.map(entry => `  PATH += ${entry}\n`).join('');
+      text += project.problems.map(problem => `  ⚠️  ${problem}\n`).join('');
+    }
+    this.dataCallback?.(`${text}\n`);
+  }
+
+  private killJob(args: string[]): void {
+    let signal: JobSignal = 'SIGTERM';
+    if (args[0]?.startsWith('-')) {
+      const name = args.shift()!.slice(1).toUpperCase();
+      const requested = (name.startsWith('SIG') ? name : `SIG${name}`) as JobSignal;
+      if (!JOB_SIGNALS.includes(requested)) {
+        this.dataCallback?.(`\n❌ Unsupported signal: ${name}. Use one of ${JOB_SIGNALS.join(', ')}\n\n`);
+        return;
+      }
+      signal = requested;
+    }
+
+    const blockId = args[0];
+    if (!blockId) {
+      this.dataCallback?.('\nUsage: portal kill [-SIGNAL] <blockId>\n\n');
+      return;
+    }
+
+    try {
+      if (this.signalBlock(blockId, signal)) {
+        this.dataCallback?.(`\nSent ${signal} to job ${blockId}\n\n`);
+      } else {
+        this.dataCallback?.(`\n❌ No job running for block ${blockId}\n\n`);
+      }
+    } catch (error) {
+      this.dataCallback?.(`\n❌ ${error instanceof Error ? error.message : String(error)}\n\n`);
+    }
+  }
+
+  private backgroundJob(blockId?: string): void {
+    if (!blockId) {
+      this.dataCallback?.('\nUsage: portal bg <blockId>\n\n');
+      return;
+    }
+
+    if (!this.backgroundBlock(blockId)) {
+      this.dataCallback?.(`\n❌ No job running for block ${blockId}\n\n`);
+    }
+  }
+
+  private async foregroundJob(blockId?: string): Promise<void> {
+    if (!blockId) {
+      this.dataCallback?.('\nUsage: portal fg <blockId>\n\n');
+      return;
+    }
+
+    const block = await this.foregroundBlock(blockId);
+    if (!block) {
+      this.dataCallback?.(`\n❌ No job running for block ${blockId}\n\n`);
+    }
+  }
+
   private checkModelAvailability(modelId: string): string {
     // Mock model availability check
     return modelId.includes('20b') ? '📥 Download required' : '📥 Download required';
@@ -459,7 +747,7 @@ ${context.mcpContext ? `
     } catch (error) {
       // Create error block for failed execution
       result.block = new CommandBlock(command);
-      result.block.addOutput(`Error: ${error}\n`);
+      result.block.addOutput(`Error: ${error}\n`, 'stderr');
       result.block.setCompleted(1);
       
       result.performanceData.responseTime = Date.now() - startTime;
@@ -550,4 +838,45 @@ ${context.mcpContext ? `
       console.warn('Shutdown error:', error);
     }
   }
-}
\ No newline at end of file
+}
+
+const DURATION_UNITS: Record<string, number> = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+
+// `--source ai-suggestion --since 2h --limit 50 git push`; returns an error message for bad arguments
+function parseAuditQuery(args: string[]): IAuditQuery | string {
+  const query: IAuditQuery = {};
+  const text: string[] = [];
+
+  for (let index = 0; index < args.length; index++) {
+    const value = args[index + 1];
+    switch (args[index]) {
+      case '--source':
+        if (!COMMAND_SOURCES.includes(value as CommandSource)) return `Unknown source: ${value ?? ''}`;
+        query.source = value as CommandSource;
+        index++;
+        break;
+
+      case '--since': {
+        const match = /^(\d+)([mhd])$/.exec(value ?? '');
+        if (!match) return `Invalid duration: ${value ?? ''}`;
+        query.since = Date.now() - parseInt(match[1], 10) * DURATION_UNITS[match[2]];
+        index++;
+        break;
+      }
+
+      case '--limit':
+        if (!/^\d+$/.test(value ?? '')) return `Invalid limit: ${value ?? ''}`;
+        query.limit = parseInt(value, 10);
+        index++;
+        break;
+
+      default:
+        text.push(args[index]);
+    }
+  }
+
+  if (text.length > 0) {
+    query.command = text.join(' ');
+  }
+  return query;
+}
@@ -0,0 +1,24 @@
+import * as fs from 'fs';
+
+/**
+ * Throws unless `directory` is a directory, not a link to one, that belongs
+ * to this user and that other users can't write to. With `hidden` they
+ * can't list or enter it either.
+ */
+export function checkPrivateDirectory(directory: string, options: { hidden?: boolean } = {}): void {
+  const stats = fs.lstatSync(directory);
+  if (!stats.isDirectory()) {
+    throw new Error(`${directory} is not a directory`);
+  }
+  if (process.getuid && stats.uid !== process.getuid()) {
+    throw new Error(`${directory} belongs to another user`);
+  }
+  if (process.platform === 'win32') return;
+
+  if ((stats.mode & 0o022) !== 0) {
+    throw new Error(`${directory} can be written by other users`);
+  }
+  if (options.hidden && (stats.mode & 0o055) !== 0) {
+    throw new Error(`${directory} can be read by other users`);
+  }
+}
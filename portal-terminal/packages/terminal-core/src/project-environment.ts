@@ -0,0 +1,182 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { parseEnvFile } from './environment-manager';
+
+export type ProjectTool = 'node' | 'python';
+
+export interface IProjectEnvironmentFile {
+  // The directory holding .portal/env; the environment applies to everything below it
+  directory: string;
+  file: string;
+  // sha256 of the file, so trust is asked for again after it changes
+  hash: string;
+  variables: Record<string, string>;
+  // Absolute directories put in front of PATH, in order
+  path: string[];
+  tools: Partial<Record<ProjectTool, string>>;
+  // Passed to the AI with the terminal context
+  notes: string[];
+  // Lines that couldn't be understood
+  problems: string[];
+}
+
+export interface IResolvedTool {
+  version: string;
+  bin: string;
+}
+
+export const PROJECT_ENVIRONMENT_FILE = path.join('.portal', 'env');
+
+/**
+ * Parses a `.portal/env` file. Besides dotenv `KEY=value` lines it takes a
+ * few direnv-style directives:
+ *
+ *   path_add node_modules/.bin     # put a directory in front of PATH
+ *   use node 20                    # prefer an installed node 20.x
+ *   use python 3.12
+ *   note Deploys go through `make release`, never `npm publish`
+ */
+export function parseProjectEnvironment(
+  content: string,
+  directory: string
+): Pick<IProjectEnvironmentFile, 'variables' | 'path' | 'tools' | 'notes' | 'problems'> {
+  const result = {
+    variables: parseEnvFile(content),
+    path: [] as string[],
+    tools: {} as Partial<Record<ProjectTool, string>>,
+    notes: [] as string[],
+    problems: [] as string[],
+  };
+
+  for (const [index, rawLine] of content.split(/\r?\n/).entries()) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || /^(?:export\s+)?[A-Za-z_][A-Za-z0-9_.]*\s*=/.test(line)) {
+      continue;
+    }
+
+    const [directive, ...rest] = line.split(/\s+/);
+    const argument = line.slice(directive.length).trim();
+
+    switch (directive) {
+      case 'path_add':
+      case 'PATH_add':
+        if (argument) {
+          result.path.push(path.resolve(directory, expandHome(argument)));
+          continue;
+        }
+        break;
+
+      case 'use':
+        if ((rest[0] === 'node' || rest[0] === 'python') && rest[1]) {
+          result.tools[rest[0]] = rest[1].replace(/^v/, '');
+          continue;
+        }
+        break;
+
+      case 'note':
+        if (argument) {
+          result.notes.push(argument);
+          continue;
+        }
+        break;
+    }
+
+    result.problems.push(`Line ${index + 1} not understood: ${line}`);
+  }
+
+  return result;
+}
+
+// The nearest .portal/env at or above `cwd`, not looking above the home directory
+export async function findProjectEnvironment(
+  cwd: string,
+  options: { home?: string } = {}
+): Promise<IProjectEnvironmentFile | null> {
+  const home = options.home || os.homedir();
+
+  for (let directory = path.resolve(cwd); ; directory = path.dirname(directory)) {
+    const file = path.join(directory, PROJECT_ENVIRONMENT_FILE);
+    try {
+      const content = await fs.readFile(file, 'utf8');
+      return {
+        directory,
+        file,
+        hash: createHash('sha256').update(content).digest('hex'),
+        ...parseProjectEnvironment(content, directory),
+      };
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code !== 'ENOENT' && code !== 'ENOTDIR') {
+        console.warn(`Failed to read ${file}:`, error);
+      }
+    }
+
+    if (directory === home || directory === path.dirname(directory)) {
+      return null;
+    }
+  }
+}
+
+/**
+ * The bin directory of the newest installed version matching `version`
+ * ("20" matches 20.11.1), from nvm, fnm, volta or asdf for node and pyenv or
+ * asdf for python.
+ */
+export async function resolveTool(
+  tool: ProjectTool,
+  version: string,
+  env: Record<string, string | undefined> = process.env
+): Promise<IResolvedTool | null> {
+  const home = env.HOME || os.homedir();
+  const installs: { root: string; bin: (versionDirectory: string) => string }[] = tool === 'node'
+    ? [
+        { root: path.join(env.NVM_DIR || path.join(home, '.nvm'), 'versions', 'node'), bin: dir => path.join(dir, 'bin') },
+        { root: path.join(home, '.local', 'share', 'fnm', 'node-versions'), bin: dir => path.join(dir, 'installation', 'bin') },
+        { root: path.join(env.VOLTA_HOME || path.join(home, '.volta'), 'tools', 'image', 'node'), bin: dir => path.join(dir, 'bin') },
+        { root: path.join(env.ASDF_DATA_DIR || path.join(home, '.asdf'), 'installs', 'nodejs'), bin: dir => path.join(dir, 'bin') },
+      ]
+    : [
+        { root: path.join(env.PYENV_ROOT || path.join(home, '.pyenv'), 'versions'), bin: dir => path.join(dir, 'bin') },
+        { root: path.join(env.ASDF_DATA_DIR || path.join(home, '.asdf'), 'installs', 'python'), bin: dir => path.join(dir, 'bin') },
+      ];
+
+  let best: IResolvedTool | null = null;
+  for (const install of installs) {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(install.root);
+    } catch {
+      continue;
+    }
+
+    for (const entry of entries) {
+      const installed = entry.replace(/^v/, '');
+      if (!matchesVersion(installed, version)) continue;
+      if (!best || compareVersions(installed, best.version) > 0) {
+        best = { version: installed, bin: install.bin(path.join(install.root, entry)) };
+      }
+    }
+  }
+
+  return best;
+}
+
+function matchesVersion(installed: string, wanted: string): boolean {
+  return installed === wanted || installed.startsWith(`${wanted}.`);
+}
+
+function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(part => parseInt(part, 10) || 0);
+  const partsB = b.split('.').map(part => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const difference = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+function expandHome(value: string): string {
+  return value === '~' || value.startsWith('~/') ? path.join(os.homedir(), value.slice(1)) : value;
+}
@@ -0,0 +1,119 @@
+import * as pty from 'node-pty';
+import { ShellDetector, IShellInfo } from './shell-detector';
+
+export interface IPtySessionOptions {
+  shell?: string;
+  cwd?: string;
+  env?: Record<string, string>;
+  cols?: number;
+  rows?: number;
+  shellIntegration?: boolean;
+}
+
+export class PtySession {
+  private ptyProcess: pty.IPty | null = null;
+  private shellInfo: IShellInfo;
+  private cols: number;
+  private rows: number;
+  private dataCallback?: (data: string) => void;
+  private exitCallback?: (exitCode: number, signal?: number) => void;
+
+  constructor(private options: IPtySessionOptions = {}) {
+    this.cols = options.cols || 80;
+    this.rows = options.rows || 24;
+
+    this.shellInfo = options.shell
+      ? ShellDetector.forShell(options.shell)
+      : ShellDetector.detectDefaultShell();
+  }
+
+  start(): void {
+    if (this.ptyProcess) {
+      return;
+    }
+
+    const launchInfo = this.options.shellIntegration !== false
+      ? ShellDetector.withShellIntegration(this.shellInfo)
+      : this.shellInfo;
+
+    const env = Object.fromEntries(
+      Object.entries({
+        ...process.env,
+        ...launchInfo.env,
+        ...this.options.env,
+      }).filter(([_, value]) => value !== undefined)
+    ) as Record<string, string>;
+
+    this.ptyProcess = pty.spawn(launchInfo.path, launchInfo.args, {
+      name: 'xterm-256color',
+      cols: this.cols,
+      rows: this.rows,
+      cwd: this.options.cwd || process.cwd(),
+      env,
+    });
+
+    this.ptyProcess.onData((data: string) => {
+      this.dataCallback?.(data);
+    });
+
+    this.ptyProcess.onExit(({ exitCode, signal }) => {
+      this.ptyProcess = null;
+      this.exitCallback?.(exitCode, signal);
+    });
+  }
+
+  write(data: string): void {
+    if (!this.ptyProcess) {
+      throw new Error('PTY session not running');
+    }
+
+    this.ptyProcess.write(data);
+  }
+
+  resize(cols: number, rows: number): void {
+    if (cols <= 0 || rows <= 0) {
+      return;
+    }
+
+    this.cols = cols;
+    this.rows = rows;
+    this.ptyProcess?.resize(cols, rows);
+  }
+
+  kill(signal?: string): void {
+    if (!this.ptyProcess) {
+      return;
+    }
+
+    try {
+      this.ptyProcess.kill(signal);
+    } catch (error) {
+      console.warn('Failed to kill PTY session:', error);
+    }
+    this.ptyProcess = null;
+  }
+
+  onData(callback: (data: string) => void): void {
+    this.dataCallback = callback;
+  }
+
+  onExit(callback: (exitCode: number, signal?: number) => void): void {
+    this.exitCallback = callback;
+  }
+
+  isRunning(): boolean {
+    return this.ptyProcess !== null;
+  }
+
+  getPid(): number | undefined {
+    return this.ptyProcess?.pid;
+  }
+
+  getShellInfo(): IShellInfo {
+    return this.shellInfo;
+  }
+
+  getDimensions(): { cols: number; rows: number } {
+    return { cols: this.cols, rows: this.rows };
+  }
+}
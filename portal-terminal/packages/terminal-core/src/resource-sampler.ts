@@ -0,0 +1,367 @@
+import * as fs from 'fs/promises';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+
+// The app's own process, its renderer, a terminal's shell, or a block's command
+export type ProcessRole = 'main' | 'renderer' | 'shell' | 'block';
+
+export interface ITrackedProcess {
+  pid: number;
+  role: ProcessRole;
+  // e.g. the block's command
+  label?: string;
+}
+
+// Lists processes to sample; asked again on every sample
+export type ProcessSource = () => ITrackedProcess[];
+
+export interface IProcessUsage extends ITrackedProcess {
+  // Percent of one core, like top, including descendants not tracked themselves
+  cpuUsage: number;
+  // Resident bytes, including those descendants
+  memoryUsage: number;
+  processCount: number;
+}
+
+export interface IResourceSample {
+  timestamp: number;
+  // Percent of the whole machine used by the tracked processes
+  cpuUsage: number;
+  memoryUsage: number;
+  // Percent of the filesystem holding diskPath in use
+  diskUsage: number;
+  networkLatency?: number;
+  processes: IProcessUsage[];
+}
+
+// A sample, or the average of several once downsampled
+export interface IResourcePoint {
+  timestamp: number;
+  cpuUsage: number;
+  memoryUsage: number;
+  diskUsage: number;
+  networkLatency?: number;
+  // How many samples were averaged into it
+  samples: number;
+}
+
+export interface IResourceSamplerOptions {
+  procRoot?: string;
+  // Filesystem whose usage is reported; the home directory by default
+  diskPath?: string;
+  // TCP connect time to this host is reported as networkLatency; nothing is probed when unset
+  latencyProbe?: { host: string; port: number; timeoutMs?: number };
+}
+
+interface ICpuTicks {
+  ticks: number;
+  timestamp: number;
+}
+
+interface IProcStat {
+  pid: number;
+  ppid: number;
+  // utime + stime
+  ticks: number;
+  startTime: string;
+  rssPages: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Full resolution for five minutes, then minute averages for the hour and
+// quarter-hour averages for the day; older points are dropped
+const SERIES_TIERS: { maxAge: number; resolution: number }[] = [
+  { maxAge: 5 * MINUTE, resolution: 0 },
+  { maxAge: HOUR, resolution: MINUTE },
+  { maxAge: DAY, resolution: 15 * MINUTE },
+];
+
+// USER_HZ and the page size on every Linux Portal runs on
+const CLOCK_TICKS_PER_SECOND = 100;
+const PAGE_SIZE = 4096;
+
+/**
+ * Samples CPU and memory of the app and the commands it runs, reading /proc
+ * where there is one. Each tracked process is charged for its descendants
+ * that aren't tracked themselves, so a block includes what its command
+ * spawned and the main process includes its helpers. Without /proc only the
+ * current process is measured, through process.cpuUsage().
+ */
+export class ResourceSampler {
+  private sources: ProcessSource[] = [];
+  private previousTicks = new Map<string, ICpuTicks>();
+  private previousOwnUsage: { usage: NodeJS.CpuUsage; timestamp: number } | null = null;
+  private series: IResourcePoint[] = [];
+  private latest: IResourceSample | null = null;
+  private pendingSample: Promise<IResourceSample> | null = null;
+  private procRoot: string;
+  private diskPath: string;
+  private latencyProbe?: IResourceSamplerOptions['latencyProbe'];
+
+  constructor(options: IResourceSamplerOptions = {}) {
+    this.procRoot = options.procRoot || '/proc';
+    this.diskPath = options.diskPath || os.homedir();
+    this.latencyProbe = options.latencyProbe;
+  }
+
+  addProcessSource(source: ProcessSource): void {
+    this.sources.push(source);
+  }
+
+  removeProcessSource(source: ProcessSource): void {
+    this.sources = this.sources.filter(existing => existing !== source);
+  }
+
+  // Callers while a sample is being taken get that one
+  sample(): Promise<IResourceSample> {
+    if (!this.pendingSample) {
+      this.pendingSample = this.takeSample().finally(() => {
+        this.pendingSample = null;
+      });
+    }
+    return this.pendingSample;
+  }
+
+  // The latest sample while it's younger than maxAgeMs, otherwise a new one.
+  // Monitors sharing the sampler call this on their own timers, and only the
+  // first of them in each interval samples.
+  async getRecent(maxAgeMs: number): Promise<IResourceSample> {
+    const latest = this.latest;
+    if (latest && Date.now() - latest.timestamp < maxAgeMs) {
+      return latest;
+    }
+    return this.sample();
+  }
+
+  getLatest(): IResourceSample | null {
+    return this.latest;
+  }
+
+  // Oldest first; recent points are single samples, older ones averages
+  getSeries(since: number = 0): IResourcePoint[] {
+    return this.series.filter(point => point.timestamp >= since);
+  }
+
+  clearSeries(): void {
+    this.series = [];
+  }
+
+  private async takeSample(): Promise<IResourceSample> {
+    const timestamp = Date.now();
+    const [processes, diskUsage, networkLatency] = await Promise.all([
+      this.sampleProcesses(timestamp),
+      this.sampleDisk(),
+      this.sampleLatency(),
+    ]);
+
+    const cores = Math.max(os.cpus().length, 1);
+    const sample: IResourceSample = {
+      timestamp,
+      cpuUsage: processes.reduce((sum, usage) => sum + usage.cpuUsage, 0) / cores,
+      memoryUsage: processes.reduce((sum, usage) => sum + usage.memoryUsage, 0),
+      diskUsage,
+      networkLatency,
+      processes,
+    };
+
+    this.latest = sample;
+    this.series = downsample([...this.series, {
+      timestamp,
+      cpuUsage: sample.cpuUsage,
+      memoryUsage: sample.memoryUsage,
+      diskUsage,
+      networkLatency,
+      samples: 1,
+    }], timestamp);
+
+    return sample;
+  }
+
+  private trackedProcesses(): ITrackedProcess[] {
+    const tracked = new Map<number, ITrackedProcess>([[process.pid, { pid: process.pid, role: 'main' }]]);
+    for (const source of this.sources) {
+      try {
+        for (const entry of source()) {
+          tracked.set(entry.pid, entry);
+        }
+      } catch (error) {
+        console.warn('Failed to list processes to sample:', error);
+      }
+    }
+    return Array.from(tracked.values());
+  }
+
+  private async sampleProcesses(timestamp: number): Promise<IProcessUsage[]> {
+    const table = await this.readProcessTable();
+    if (!table) {
+      return [this.sampleOwnProcess(timestamp)];
+    }
+
+    const tracked = this.trackedProcesses().filter(entry => table.has(entry.pid));
+    const usage = new Map<number, IProcessUsage>(tracked.map(entry => [
+      entry.pid,
+      { ...entry, cpuUsage: 0, memoryUsage: 0, processCount: 0 },
+    ]));
+    const seen = new Set<string>();
+
+    for (const stat of table.values()) {
+      // Charged to the nearest tracked ancestor, if any
+      let owner: IProcessUsage | undefined;
+      for (let pid: number | undefined = stat.pid; pid && !owner; pid = table.get(pid)?.ppid) {
+        owner = usage.get(pid);
+      }
+      if (!owner) continue;
+
+      const key = `${stat.pid}:${stat.startTime}`;
+      const previous = this.previousTicks.get(key);
+      seen.add(key);
+      this.previousTicks.set(key, { ticks: stat.ticks, timestamp });
+
+      owner.memoryUsage += stat.rssPages * PAGE_SIZE;
+      owner.processCount++;
+      if (previous && timestamp > previous.timestamp) {
+        const seconds = (stat.ticks - previous.ticks) / CLOCK_TICKS_PER_SECOND;
+        owner.cpuUsage += Math.max(0, (seconds * 1000) / (timestamp - previous.timestamp)) * 100;
+      }
+    }
+
+    // Processes that exited
+    for (const key of this.previousTicks.keys()) {
+      if (!seen.has(key)) this.previousTicks.delete(key);
+    }
+
+    return Array.from(usage.values());
+  }
+
+  private sampleOwnProcess(timestamp: number): IProcessUsage {
+    const usage = process.cpuUsage();
+    const previous = this.previousOwnUsage;
+    this.previousOwnUsage = { usage, timestamp };
+
+    const elapsed = previous ? timestamp - previous.timestamp : 0;
+    const cpuMicros = previous
+      ? usage.user - previous.usage.user + usage.system - previous.usage.system
+      : 0;
+
+    return {
+      pid: process.pid,
+      role: 'main',
+      cpuUsage: elapsed > 0 ? (cpuMicros / 1000 / elapsed) * 100 : 0,
+      memoryUsage: process.memoryUsage().rss,
+      processCount: 1,
+    };
+  }
+
+  // null where there is no /proc
+  private async readProcessTable(): Promise<Map<number, IProcStat> | null> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.procRoot);
+    } catch {
+      return null;
+    }
+
+    const table = new Map<number, IProcStat>();
+    await Promise.all(entries.filter(entry => /^\d+$/.test(entry)).map(async entry => {
+      try {
+        const stat = parseProcStat(await fs.readFile(path.join(this.procRoot, entry, 'stat'), 'utf8'));
+        if (stat) table.set(stat.pid, stat);
+      } catch {
+        // Exited between listing and reading
+      }
+    }));
+
+    return table.size > 0 ? table : null;
+  }
+
+  private async sampleDisk(): Promise<number> {
+    try {
+      const stats = await fs.statfs(this.diskPath);
+      const used = stats.blocks - stats.bfree;
+      // Like df, blocks reserved for root don't count as available
+      return used + stats.bavail > 0 ? (used / (used + stats.bavail)) * 100 : 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  private sampleLatency(): Promise<number | undefined> {
+    const probe = this.latencyProbe;
+    if (!probe) return Promise.resolve(undefined);
+
+    return new Promise(resolve => {
+      const start = Date.now();
+      const socket = net.connect({ host: probe.host, port: probe.port });
+      const finish = (latency?: number) => {
+        socket.destroy();
+        resolve(latency);
+      };
+
+      socket.setTimeout(probe.timeoutMs || 2000, () => finish(undefined));
+      socket.once('connect', () => finish(Date.now() - start));
+      socket.once('error', () => finish(undefined));
+    });
+  }
+}
+
+// `pid (comm) state ppid ...`; comm may itself hold spaces and parentheses
+function parseProcStat(content: string): IProcStat | null {
+  const commEnd = content.lastIndexOf(')');
+  if (commEnd < 0) return null;
+
+  // Fields from the state on, so field n of proc(5) is at n - 3
+  const fields = content.slice(commEnd + 2).split(' ');
+  return {
+    pid: parseInt(content, 10),
+    ppid: Number(fields[1]),
+    ticks: Number(fields[11]) + Number(fields[12]),
+    startTime: fields[19],
+    rssPages: Number(fields[21]),
+  };
+}
+
+function downsample(points: IResourcePoint[], now: number): IResourcePoint[] {
+  const result: IResourcePoint[] = [];
+
+  for (const point of points) {
+    const tier = SERIES_TIERS.find(candidate => now - point.timestamp <= candidate.maxAge);
+    if (!tier) continue;
+
+    if (tier.resolution === 0) {
+      result.push(point);
+      continue;
+    }
+
+    const bucket = Math.floor(point.timestamp / tier.resolution) * tier.resolution;
+    const last = result[result.length - 1];
+    if (last && last.timestamp === bucket) {
+      result[result.length - 1] = mergePoints(last, { ...point, timestamp: bucket });
+    } else {
+      result.push({ ...point, timestamp: bucket });
+    }
+  }
+
+  return result;
+}
+
+function mergePoints(a: IResourcePoint, b: IResourcePoint): IResourcePoint {
+  const samples = a.samples + b.samples;
+  const average = (x: number, y: number) => (x * a.samples + y * b.samples) / samples;
+  const latencies = [a, b].filter(point => point.networkLatency !== undefined);
+
+  return {
+    timestamp: a.timestamp,
+    cpuUsage: average(a.cpuUsage, b.cpuUsage),
+    memoryUsage: average(a.memoryUsage, b.memoryUsage),
+    diskUsage: average(a.diskUsage, b.diskUsage),
+    networkLatency: latencies.length > 0
+      ? latencies.reduce((sum, point) => sum + point.networkLatency! * point.samples, 0) /
+        latencies.reduce((sum, point) => sum + point.samples, 0)
+      : undefined,
+    samples,
+  };
+}
@@ -0,0 +1,49 @@
+import { RetryPolicy, RetryRule } from './types';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  factor: 2,
+  jitter: 0.5,
+  retryOn: ['network_error'],
+};
+
+// Exit codes of commands the user interrupted or killed, which are never retried
+export const INTERRUPTED_EXIT_CODES = [130, 137, 143];
+
+/**
+ * Strips a `portal retry <n> -- <command>` prefix. Returns null for commands
+ * without one.
+ */
+export function parseRetryCommand(command: string): { command: string; maxRetries: number } | null {
+  const match = command.match(/^\s*portal\s+retry\s+(\d+)\s+--\s+(.+)$/s);
+  if (!match) {
+    return null;
+  }
+
+  return { command: match[2].trim(), maxRetries: parseInt(match[1], 10) };
+}
+
+// First rule whose pattern matches the command, merged over the defaults
+export function matchRetryRule(
+  command: string,
+  rules: RetryRule[],
+  defaults: RetryPolicy = DEFAULT_RETRY_POLICY
+): RetryPolicy | null {
+  const trimmed = command.trim();
+  const rule = rules.find(({ pattern }) =>
+    typeof pattern === 'string' ? trimmed.startsWith(pattern) : pattern.test(trimmed)
+  );
+
+  return rule ? { ...defaults, ...rule.policy } : null;
+}
+
+/**
+ * Exponential backoff capped at maxDelay. Jitter takes up to that fraction off
+ * each delay so clients failing together don't retry in lockstep.
+ */
+export function computeRetryDelay(policy: RetryPolicy, attempt: number, random: () => number = Math.random): number {
+  const delay = Math.min(policy.baseDelay * Math.pow(policy.factor, attempt - 1), policy.maxDelay);
+  return Math.round(delay - delay * policy.jitter * random());
+}
@@ -0,0 +1,181 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { TerminalSession, ISnapshotOptions } from './terminal-session';
+import { TerminalSessionSnapshot } from './types';
+
+export interface ISessionStoreOptions extends ISnapshotOptions {
+  directory?: string;
+  saveInterval?: number;
+  maxStoredSessions?: number;
+}
+
+const LAST_SESSIONS_FILE = 'last-sessions.json';
+
+/**
+ * Persists terminal sessions as JSON snapshots, one file per session name.
+ *
+ * Events:
+ * - `saved` (session name)
+ * - `save-error` (session name, error)
+ */
+export class SessionStore extends EventEmitter {
+  private directory: string;
+  private saveInterval: number;
+  private maxStoredSessions: number;
+  private snapshotOptions: ISnapshotOptions;
+  private sessions = new Map<string, TerminalSession>();
+  private lastSavedAt = new Map<string, number>();
+  private autoSaveTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: ISessionStoreOptions = {}) {
+    super();
+    this.directory = options.directory || path.join(os.homedir(), '.portal', 'sessions');
+    this.saveInterval = options.saveInterval || 30000;
+    this.maxStoredSessions = options.maxStoredSessions || 50;
+    this.snapshotOptions = {
+      maxBlocks: options.maxBlocks,
+      maxOutputBytes: options.maxOutputBytes,
+    };
+  }
+
+  // Tracked sessions are saved by the auto-save timer and on saveAll()
+  track(session: TerminalSession): void {
+    this.sessions.set(session.name, session);
+  }
+
+  untrack(session: TerminalSession): void {
+    if (this.sessions.get(session.name) === session) {
+      this.sessions.delete(session.name);
+    }
+  }
+
+  getTrackedSessions(): TerminalSession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  async save(session: TerminalSession): Promise<void> {
+    const snapshot = session.toSnapshot(this.snapshotOptions);
+    const filePath = this.getSessionPath(session.name);
+    const tempPath = `${filePath}.tmp`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write then rename so a crash mid-save never leaves a torn snapshot
+    await fs.writeFile(tempPath, JSON.stringify(snapshot, null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, filePath);
+
+    this.lastSavedAt.set(session.name, session.updatedAt.getTime());
+    this.emit('saved', session.name);
+  }
+
+  // Saves sessions changed since their last save and records which were open
+  async saveAll(options: { force?: boolean } = {}): Promise<void> {
+    const pending = this.getTrackedSessions().filter(session =>
+      options.force || this.lastSavedAt.get(session.name) !== session.updatedAt.getTime()
+    );
+
+    await Promise.all(pending.map(session =>
+      this.save(session).catch(error => {
+        this.emit('save-error', session.name, error);
+      })
+    ));
+
+    await this.writeLastSessions(Array.from(this.sessions.keys()));
+    await this.pruneSessions();
+  }
+
+  async load(name: string): Promise<TerminalSession | null> {
+    try {
+      const data = await fs.readFile(this.getSessionPath(name), 'utf8');
+      const snapshot = JSON.parse(data) as TerminalSessionSnapshot;
+      const session = TerminalSession.fromSnapshot(snapshot);
+      this.lastSavedAt.set(session.name, session.updatedAt.getTime());
+      return session;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`Failed to load session "${name}":`, error);
+      }
+      return null;
+    }
+  }
+
+  async list(): Promise<string[]> {
+    const snapshots = await this.listSnapshotFiles();
+    return snapshots.map(({ name }) => name);
+  }
+
+  async remove(name: string): Promise<void> {
+    await fs.rm(this.getSessionPath(name), { force: true });
+    this.lastSavedAt.delete(name);
+  }
+
+  // Names of the sessions that were open when the app last saved
+  async getLastSessions(): Promise<string[]> {
+    try {
+      const data = await fs.readFile(path.join(this.directory, LAST_SESSIONS_FILE), 'utf8');
+      const names = JSON.parse(data);
+      return Array.isArray(names) ? names.filter(name => typeof name === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+
+  startAutoSave(): void {
+    if (this.autoSaveTimer) return;
+
+    this.autoSaveTimer = setInterval(() => {
+      this.saveAll().catch(error => console.warn('Session auto-save failed:', error));
+    }, this.saveInterval);
+
+    // Don't keep the process alive just to save sessions
+    this.autoSaveTimer.unref?.();
+  }
+
+  stopAutoSave(): void {
+    if (this.autoSaveTimer) {
+      clearInterval(this.autoSaveTimer);
+      this.autoSaveTimer = null;
+    }
+  }
+
+  private getSessionPath(name: string): string {
+    const safeName = encodeURIComponent(name);
+    return path.join(this.directory, `${safeName}.session.json`);
+  }
+
+  private async listSnapshotFiles(): Promise<{ name: string; mtime: number }[]> {
+    try {
+      const files = await fs.readdir(this.directory);
+      const snapshots = await Promise.all(
+        files
+          .filter(file => file.endsWith('.session.json'))
+          .map(async file => {
+            const stat = await fs.stat(path.join(this.directory, file));
+            return {
+              name: decodeURIComponent(file.slice(0, -'.session.json'.length)),
+              mtime: stat.mtimeMs,
+            };
+          })
+      );
+      return snapshots.sort((a, b) => b.mtime - a.mtime);
+    } catch {
+      return [];
+    }
+  }
+
+  private async writeLastSessions(names: string[]): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, LAST_SESSIONS_FILE), JSON.stringify(names), { mode: 0o600 });
+  }
+
+  // Keep only the most recently saved snapshots, never touching open sessions
+  private async pruneSessions(): Promise<void> {
+    const snapshots = await this.listSnapshotFiles();
+    const stale = snapshots
+      .slice(this.maxStoredSessions)
+      .filter(({ name }) => !this.sessions.has(name));
+
+    await Promise.all(stale.map(({ name }) => this.remove(name)));
+  }
+}
@@ -1,6 +1,8 @@
 import * as os from 'os';
 import * as fs from 'fs';
 import * as path from 'path';
+import { execFile } from 'child_process';
+import { installShellIntegration, SUPPORTED_INTEGRATION_SHELLS } from './shell-integration';
 
 export interface IShellInfo {
   name: string;
@@ -9,6 +11,45 @@ export interface IShellInfo {
   env: Record<string, string>;
 }
 
+// How the history file is written: bash and plain are one command per line,
+// zsh may prefix `: <time>:<duration>;`, fish is YAML-ish `- cmd:` entries
+export type ShellHistoryFormat = 'bash' | 'zsh' | 'fish' | 'plain' | 'none';
+
+export interface IShellCapabilities {
+  // Portal's OSC 133 hooks can be loaded, see withShellIntegration()
+  shellIntegration: boolean;
+  // What a new terminal starts the shell with
+  args: string[];
+  rcFile?: string;
+  historyFile?: string;
+  historyFormat: ShellHistoryFormat;
+}
+
+export interface IInstalledShell {
+  name: string;
+  path: string;
+  version?: string;
+  // The user's login shell ($SHELL, or what detectDefaultShell() picks)
+  isDefault: boolean;
+  capabilities: IShellCapabilities;
+}
+
+export interface IListShellsOptions {
+  // Defaults to /etc/shells
+  shellsFile?: string;
+  env?: Record<string, string | undefined>;
+  // Run each shell once to read its version; on by default
+  probeVersions?: boolean;
+}
+
+// Shells worth offering; /etc/shells also lists things like tmux and rbash
+const KNOWN_SHELLS = [
+  'bash', 'zsh', 'fish', 'sh', 'dash', 'ksh', 'mksh', 'tcsh', 'csh',
+  'nu', 'elvish', 'xonsh', 'pwsh', 'powershell', 'cmd',
+];
+
+const VERSION_PROBE_TIMEOUT = 2000;
+
 export class ShellDetector {
   static detectDefaultShell(): IShellInfo {
     const platform = os.platform();
@@ -25,6 +66,247 @@ export class ShellDetector {
     }
   }
 
+  /**
+   * The shell info for starting a given shell, with the arguments its
+   * capabilities call for (a login shell where the shell supports one).
+   */
+  static forShell(shellPath: string, env: Record<string, string | undefined> = process.env): IShellInfo {
+    const name = this.getShellName(shellPath);
+
+    return {
+      name,
+      path: shellPath,
+      args: this.getCapabilities(name, env).args,
+      env: {
+        TERM: 'xterm-256color',
+        COLORTERM: 'truecolor',
+        ...(os.platform() !== 'win32' && { LANG: env.LANG || 'en_US.UTF-8' }),
+      },
+    };
+  }
+
+  /**
+   * Installed shells from /etc/shells and PATH, the default one first. Paths
+   * that resolve to the same binary are listed once, under the first name seen.
+   */
+  static async listShells(options: IListShellsOptions = {}): Promise<IInstalledShell[]> {
+    const env = options.env || process.env;
+    const candidates: string[] = [];
+
+    if (os.platform() !== 'win32') {
+      try {
+        const content = await fs.promises.readFile(options.shellsFile || '/etc/shells', 'utf8');
+        for (const line of content.split('\n')) {
+          const shellPath = line.trim();
+          if (shellPath && !shellPath.startsWith('#')) {
+            candidates.push(shellPath);
+          }
+        }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.warn('Failed to read the list of shells:', error);
+        }
+      }
+    }
+
+    const extensions = os.platform() === 'win32' ? ['.exe'] : [''];
+    for (const directory of (env.PATH || '').split(path.delimiter).filter(Boolean)) {
+      for (const name of KNOWN_SHELLS) {
+        for (const extension of extensions) {
+          candidates.push(path.join(directory, name + extension));
+        }
+      }
+    }
+
+    const defaultPath = env.SHELL || this.detectDefaultShell().path;
+    const defaultTarget = await this.resolveExecutable(defaultPath);
+    const seen = new Set<string>();
+    const shells: IInstalledShell[] = [];
+
+    for (const candidate of candidates) {
+      const name = this.getShellName(candidate);
+      if (!KNOWN_SHELLS.includes(name)) continue;
+
+      const target = await this.resolveExecutable(candidate);
+      if (!target || seen.has(target)) continue;
+      seen.add(target);
+
+      shells.push({
+        name,
+        path: candidate,
+        isDefault: target === defaultTarget,
+        capabilities: this.getCapabilities(name, env),
+      });
+    }
+
+    if (options.probeVersions !== false) {
+      await Promise.all(shells.map(async shell => {
+        shell.version = await this.probeVersion(shell);
+      }));
+    }
+
+    // A stable sort keeps the /etc/shells order otherwise
+    return shells.sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+  }
+
+  static getCapabilities(name: string, env: Record<string, string | undefined> = process.env): IShellCapabilities {
+    const home = env.HOME || os.homedir();
+    const isWindows = os.platform() === 'win32';
+    const configHome = env.XDG_CONFIG_HOME || path.join(home, '.config');
+    const dataHome = env.XDG_DATA_HOME || path.join(home, '.local', 'share');
+    const shellIntegration = SUPPORTED_INTEGRATION_SHELLS.includes(name);
+
+    switch (name) {
+      case 'bash':
+        return {
+          shellIntegration,
+          args: ['--login'],
+          rcFile: path.join(home, '.bashrc'),
+          historyFile: env.HISTFILE || path.join(home, '.bash_history'),
+          historyFormat: 'bash',
+        };
+
+      case 'zsh': {
+        const zdotdir = env.ZDOTDIR || home;
+        return {
+          shellIntegration,
+          args: ['--login'],
+          rcFile: path.join(zdotdir, '.zshrc'),
+          historyFile: env.HISTFILE || path.join(zdotdir, '.zsh_history'),
+          historyFormat: 'zsh',
+        };
+      }
+
+      case 'fish':
+        return {
+          shellIntegration,
+          args: ['--login'],
+          rcFile: path.join(configHome, 'fish', 'config.fish'),
+          historyFile: path.join(dataHome, 'fish', 'fish_history'),
+          historyFormat: 'fish',
+        };
+
+      case 'sh':
+      case 'dash':
+      case 'ksh':
+      case 'mksh':
+        // Interactive POSIX shells read $ENV, login shells ~/.profile
+        return {
+          shellIntegration,
+          args: ['-l'],
+          rcFile: env.ENV || path.join(home, name.endsWith('ksh') ? '.kshrc' : '.profile'),
+          historyFormat: 'none',
+        };
+
+      case 'tcsh':
+      case 'csh':
+        return {
+          shellIntegration,
+          args: ['-l'],
+          rcFile: path.join(home, name === 'tcsh' ? '.tcshrc' : '.cshrc'),
+          historyFile: path.join(home, '.history'),
+          historyFormat: 'none',
+        };
+
+      case 'nu':
+        return {
+          shellIntegration,
+          args: ['--login'],
+          rcFile: path.join(configHome, 'nushell', 'config.nu'),
+          historyFile: path.join(configHome, 'nushell', 'history.txt'),
+          historyFormat: 'plain',
+        };
+
+      case 'pwsh':
+      case 'powershell': {
+        const psReadLine = isWindows
+          ? path.join(env.APPDATA || path.join(home, 'AppData', 'Roaming'), 'Microsoft', 'Windows', 'PowerShell', 'PSReadLine')
+          : path.join(dataHome, 'powershell', 'PSReadLine');
+        return {
+          shellIntegration,
+          args: ['-NoLogo'],
+          rcFile: isWindows
+            ? path.join(home, 'Documents', name === 'pwsh' ? 'PowerShell' : 'WindowsPowerShell', 'Microsoft.PowerShell_profile.ps1')
+            : path.join(configHome, 'powershell', 'Microsoft.PowerShell_profile.ps1'),
+          historyFile: path.join(psReadLine, 'ConsoleHost_history.txt'),
+          historyFormat: 'plain',
+        };
+      }
+
+      case 'cmd':
+        return { shellIntegration, args: ['/K'], historyFormat: 'none' };
+
+      default:
+        return { shellIntegration, args: [], historyFormat: 'none' };
+    }
+  }
+
+  /**
+   * Returns a copy of the shell info that loads Portal's shell integration
+   * (OSC 133/633/7 markers) on top of the user's own rc files.
+   */
+  static withShellIntegration(shellInfo: IShellInfo, integrationDir?: string): IShellInfo {
+    if (!SUPPORTED_INTEGRATION_SHELLS.includes(shellInfo.name)) {
+      return shellInfo;
+    }
+
+    let baseDir: string;
+    try {
+      baseDir = installShellIntegration(integrationDir);
+    } catch (error) {
+      console.warn('Failed to install shell integration:', error);
+      return shellInfo;
+    }
+
+    const env: Record<string, string> = {
+      ...shellInfo.env,
+      PORTAL_SHELL_INTEGRATION: '1',
+    };
+
+    switch (shellInfo.name) {
+      case 'bash': {
+        // --rcfile is ignored by login shells, so the script sources the profile files itself
+        const isLogin = shellInfo.args.includes('--login') || shellInfo.args.includes('-l');
+        if (isLogin) {
+          env.PORTAL_LOGIN_SHELL = '1';
+        }
+        return {
+          ...shellInfo,
+          args: [
+            ...shellInfo.args.filter(arg => arg !== '--login' && arg !== '-l'),
+            '--rcfile',
+            path.join(baseDir, 'bash', 'portal.bash'),
+          ],
+          env,
+        };
+      }
+
+      case 'zsh':
+        return {
+          ...shellInfo,
+          env: {
+            ...env,
+            PORTAL_USER_ZDOTDIR: process.env.ZDOTDIR || os.homedir(),
+            ZDOTDIR: path.join(baseDir, 'zsh'),
+          },
+        };
+
+      case 'fish':
+        return {
+          ...shellInfo,
+          args: [
+            ...shellInfo.args,
+            '--init-command',
+            `source '${path.join(baseDir, 'fish', 'portal.fish')}'`,
+          ],
+          env,
+        };
+
+      default:
+        return shellInfo;
+    }
+  }
+
   private static detectWindowsShell(): IShellInfo {
     // Check for PowerShell Core first, then Windows PowerShell, then cmd
     const shells = [
@@ -49,36 +331,48 @@ export class ShellDetector {
   }
 
   private static detectMacShell(): IShellInfo {
-    // Check user's default shell from environment or /etc/passwd
-    const userShell = process.env.SHELL || '/bin/zsh';
-    const shellName = path.basename(userShell);
-
-    return {
-      name: shellName,
-      path: userShell,
-      args: shellName === 'zsh' ? ['--login'] : [],
-      env: {
-        TERM: 'xterm-256color',
-        COLORTERM: 'truecolor',
-        LANG: process.env.LANG || 'en_US.UTF-8',
-      },
-    };
+    return this.forShell(process.env.SHELL || '/bin/zsh');
   }
 
   private static detectLinuxShell(): IShellInfo {
-    const userShell = process.env.SHELL || '/bin/bash';
-    const shellName = path.basename(userShell);
+    return this.forShell(process.env.SHELL || '/bin/bash');
+  }
 
-    return {
-      name: shellName,
-      path: userShell,
-      args: shellName === 'bash' ? ['--login'] : [],
-      env: {
-        TERM: 'xterm-256color',
-        COLORTERM: 'truecolor',
-        LANG: process.env.LANG || 'en_US.UTF-8',
-      },
-    };
+  private static getShellName(shellPath: string): string {
+    return path.basename(shellPath).replace(/\.exe$/i, '').toLowerCase();
+  }
+
+  // The real path of an executable file, or null when there isn't one
+  private static async resolveExecutable(shellPath: string): Promise<string | null> {
+    try {
+      const target = await fs.promises.realpath(shellPath);
+      await fs.promises.access(target, fs.constants.X_OK);
+      return (await fs.promises.stat(target)).isFile() ? target : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private static probeVersion(shell: IInstalledShell): Promise<string | undefined> {
+    // dash and most sh builds have no version flag and would wait on stdin
+    if (shell.name === 'sh' || shell.name === 'dash') {
+      return Promise.resolve(undefined);
+    }
+
+    const args = shell.name === 'cmd'
+      ? ['/c', 'ver']
+      : shell.name === 'powershell'
+        ? ['-NoProfile', '-Command', '$PSVersionTable.PSVersion.ToString()']
+        : ['--version'];
+
+    return new Promise(resolve => {
+      const child = execFile(shell.path, args, { timeout: VERSION_PROBE_TIMEOUT }, (_error, stdout, stderr) => {
+        // Some shells (ksh, tcsh) print their version and still exit non-zero
+        const match = `${stdout}\n${stderr}`.match(/\d+\.\d+(?:\.\d+)?/);
+        resolve(match?.[0]);
+      });
+      child.stdin?.end();
+    });
   }
 
   private static shellExists(shellPath: string): boolean {
@@ -0,0 +1,184 @@
+import * as fs from 'fs/promises';
+import { ShellDetector } from './shell-detector';
+
+export type ImportedHistoryShell = 'bash' | 'zsh' | 'fish';
+
+export interface IImportedCommand {
+  command: string;
+  // From the shell's own record where it keeps one, otherwise its position in
+  // the file, counted in milliseconds from the epoch
+  timestamp: number;
+  shell: ImportedHistoryShell;
+}
+
+export interface IShellHistoryImportOptions {
+  shells?: ImportedHistoryShell[];
+  env?: Record<string, string | undefined>;
+  // Most recent unique commands to keep
+  limit?: number;
+}
+
+export const IMPORTED_HISTORY_SHELLS: ImportedHistoryShell[] = ['bash', 'zsh', 'fish'];
+
+// zsh writes bytes 0x83-0x9f and NUL as 0x83 followed by the byte XOR 32
+const ZSH_META = 0x83;
+
+const ZSH_EXTENDED_ENTRY = /^: (\d+):\d+;/;
+
+/**
+ * Reads the history files of bash, zsh and fish so a new Portal install
+ * starts with the commands the user already knows. Where each file lives
+ * comes from ShellDetector.getCapabilities(), so HISTFILE and ZDOTDIR count.
+ */
+export class ShellHistoryImporter {
+  // Commands in file order; timestamps are missing where the shell didn't record them
+  static parse(content: string, shell: ImportedHistoryShell): { command: string; timestamp?: number }[] {
+    switch (shell) {
+      case 'bash':
+        return this.parseBash(content);
+      case 'zsh':
+        return this.parseZsh(content);
+      case 'fish':
+        return this.parseFish(content);
+    }
+  }
+
+  static async read(
+    shell: ImportedHistoryShell,
+    env: Record<string, string | undefined> = process.env
+  ): Promise<IImportedCommand[]> {
+    const historyFile = ShellDetector.getCapabilities(shell, env).historyFile;
+    if (!historyFile) return [];
+
+    let data: Buffer;
+    try {
+      data = await fs.readFile(historyFile);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`Failed to read ${shell} history:`, error);
+      }
+      return [];
+    }
+
+    const content = (shell === 'zsh' ? unmetafy(data) : data).toString('utf8');
+    const parsed = this.parse(content, shell);
+
+    // Nothing tells when untimed entries ran, so they get the first
+    // milliseconds of the epoch: older than anything timed and weighted least
+    // by frecency, with their order kept
+    return parsed.map((entry, index) => ({
+      command: entry.command,
+      timestamp: entry.timestamp ?? index + 1,
+      shell,
+    }));
+  }
+
+  /**
+   * Every shell's history merged oldest first, each command once at its
+   * latest use, keeping the most recent `limit`.
+   */
+  static async readAll(options: IShellHistoryImportOptions = {}): Promise<IImportedCommand[]> {
+    const { shells = IMPORTED_HISTORY_SHELLS, env = process.env, limit = 5000 } = options;
+    const latest = new Map<string, IImportedCommand>();
+
+    for (const shell of shells) {
+      for (const entry of await this.read(shell, env)) {
+        const existing = latest.get(entry.command);
+        if (!existing || entry.timestamp >= existing.timestamp) {
+          latest.set(entry.command, entry);
+        }
+      }
+    }
+
+    return Array.from(latest.values())
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(-limit);
+  }
+
+  // With HISTTIMEFORMAT set, bash writes a `#<epoch>` line before each command
+  private static parseBash(content: string): { command: string; timestamp?: number }[] {
+    const entries: { command: string; timestamp?: number }[] = [];
+    let timestamp: number | undefined;
+
+    for (const line of content.split('\n')) {
+      const time = line.match(/^#(\d{9,})$/);
+      if (time) {
+        timestamp = parseInt(time[1], 10) * 1000;
+        continue;
+      }
+
+      const command = line.trim();
+      if (command) {
+        entries.push({ command, timestamp });
+      }
+      timestamp = undefined;
+    }
+
+    return entries;
+  }
+
+  // Plain or EXTENDED_HISTORY (`: <start>:<elapsed>;<command>`); multi-line
+  // commands continue after a trailing backslash
+  private static parseZsh(content: string): { command: string; timestamp?: number }[] {
+    const entries: { command: string; timestamp?: number }[] = [];
+    const lines = content.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      let line = lines[i];
+      let timestamp: number | undefined;
+
+      const extended = line.match(ZSH_EXTENDED_ENTRY);
+      if (extended) {
+        timestamp = parseInt(extended[1], 10) * 1000;
+        line = line.slice(extended[0].length);
+      }
+
+      const parts = [line];
+      while (parts[parts.length - 1].endsWith('\\') && i + 1 < lines.length) {
+        parts[parts.length - 1] = parts[parts.length - 1].slice(0, -1);
+        parts.push(lines[++i]);
+      }
+
+      const command = parts.join('\n').trim();
+      if (command) {
+        entries.push({ command, timestamp });
+      }
+    }
+
+    return entries;
+  }
+
+  // fish keeps a YAML-like list of `- cmd:` items with a `when:` epoch
+  private static parseFish(content: string): { command: string; timestamp?: number }[] {
+    const entries: { command: string; timestamp?: number }[] = [];
+
+    for (const line of content.split('\n')) {
+      const command = line.match(/^- cmd: (.*)$/);
+      if (command) {
+        entries.push({ command: unescapeFish(command[1]).trim() });
+        continue;
+      }
+
+      const when = line.match(/^\s+when: (\d+)$/);
+      if (when && entries.length > 0) {
+        entries[entries.length - 1].timestamp = parseInt(when[1], 10) * 1000;
+      }
+    }
+
+    return entries.filter(entry => entry.command);
+  }
+}
+
+function unescapeFish(value: string): string {
+  return value.replace(/\\(\\|n)/g, (_, escaped) => (escaped === 'n' ? '\n' : '\\'));
+}
+
+function unmetafy(data: Buffer): Buffer {
+  if (!data.includes(ZSH_META)) return data;
+
+  const bytes: number[] = [];
+  for (let i = 0; i < data.length; i++) {
+    bytes.push(data[i] === ZSH_META && i + 1 < data.length ? data[++i] ^ 32 : data[i]);
+  }
+  return Buffer.from(bytes);
+}
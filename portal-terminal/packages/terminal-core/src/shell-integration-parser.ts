@@ -0,0 +1,185 @@
+import { EventEmitter } from 'events';
+
+const OSC_START = '\x1b]';
+const BEL = '\x07';
+const ST = '\x1b\\';
+const MAX_PENDING_SEQUENCE = 4096;
+
+export type ShellIntegrationPhase = 'idle' | 'prompt' | 'input' | 'executing';
+
+/**
+ * Parses shell integration markers out of a PTY stream.
+ *
+ * Events (emitted in stream order):
+ * - `prompt-start`, `command-start`, `command-executed`
+ * - `command-line` (commandLine: string)
+ * - `command-finished` (exitCode: number | undefined)
+ * - `cwd-change` (cwd: string)
+ * - `text` (data: string, phase: ShellIntegrationPhase) for everything between markers
+ */
+export class ShellIntegrationParser extends EventEmitter {
+  private pending = '';
+  private phase: ShellIntegrationPhase = 'idle';
+
+  /**
+   * Feeds a chunk of PTY output and returns it with integration markers removed.
+   * Other OSC sequences (titles, hyperlinks) are passed through untouched.
+   */
+  process(data: string): string {
+    const input = this.pending + data;
+    this.pending = '';
+
+    let output = '';
+    let index = 0;
+
+    while (index < input.length) {
+      const start = input.indexOf(OSC_START, index);
+
+      if (start === -1) {
+        let text = input.slice(index);
+        // A trailing ESC may be the start of a sequence split across chunks
+        if (text.endsWith('\x1b')) {
+          this.pending = '\x1b';
+          text = text.slice(0, -1);
+        }
+        output += this.emitText(text);
+        break;
+      }
+
+      output += this.emitText(input.slice(index, start));
+
+      const bel = input.indexOf(BEL, start + 2);
+      const st = input.indexOf(ST, start + 2);
+      let end = -1;
+      let terminatorLength = 0;
+
+      if (bel !== -1 && (st === -1 || bel < st)) {
+        end = bel;
+        terminatorLength = 1;
+      } else if (st !== -1) {
+        end = st;
+        terminatorLength = 2;
+      }
+
+      if (end === -1) {
+        const partial = input.slice(start);
+        if (partial.length > MAX_PENDING_SEQUENCE) {
+          output += this.emitText(partial);
+        } else {
+          this.pending = partial;
+        }
+        break;
+      }
+
+      const payload = input.slice(start + 2, end);
+      if (!this.handleSequence(payload)) {
+        output += this.emitText(input.slice(start, end + terminatorLength));
+      }
+      index = end + terminatorLength;
+    }
+
+    return output;
+  }
+
+  getPhase(): ShellIntegrationPhase {
+    return this.phase;
+  }
+
+  reset(): void {
+    this.pending = '';
+    this.phase = 'idle';
+  }
+
+  private emitText(text: string): string {
+    if (text) {
+      this.emit('text', text, this.phase);
+    }
+    return text;
+  }
+
+  private handleSequence(payload: string): boolean {
+    const [code, ...params] = payload.split(';');
+
+    switch (code) {
+      case '133':
+      case '633':
+        return this.handleCommandMarker(code, params);
+
+      case '7':
+        this.emitCwd(params.join(';'));
+        return true;
+
+      default:
+        return false;
+    }
+  }
+
+  private handleCommandMarker(code: string, params: string[]): boolean {
+    const [marker, ...args] = params;
+
+    switch (marker) {
+      case 'A':
+        this.phase = 'prompt';
+        this.emit('prompt-start');
+        return true;
+
+      case 'B':
+        this.phase = 'input';
+        this.emit('command-start');
+        return true;
+
+      case 'C':
+        this.phase = 'executing';
+        this.emit('command-executed');
+        return true;
+
+      case 'D': {
+        const exitCode = args.length > 0 && args[0] !== '' ? parseInt(args[0], 10) : undefined;
+        this.phase = 'idle';
+        this.emit('command-finished', Number.isNaN(exitCode) ? undefined : exitCode);
+        return true;
+      }
+
+      case 'E':
+        if (code === '633') {
+          this.emit('command-line', unescapeValue(args.join(';')));
+          return true;
+        }
+        return false;
+
+      case 'P':
+        if (code === '633') {
+          const property = unescapeValue(args.join(';'));
+          if (property.startsWith('Cwd=')) {
+            this.emit('cwd-change', property.slice(4));
+          }
+          return true;
+        }
+        return false;
+
+      default:
+        return false;
+    }
+  }
+
+  private emitCwd(uri: string): void {
+    if (!uri.startsWith('file://')) {
+      return;
+    }
+
+    try {
+      const cwd = decodeURIComponent(new URL(uri).pathname);
+      if (cwd) {
+        this.emit('cwd-change', cwd);
+      }
+    } catch {
+      // Ignore malformed cwd reports
+    }
+  }
+}
+
+function unescapeValue(value: string): string {
+  return value.replace(/\\(\\|x([0-9a-fA-F]{2}))/g, (_match: string, _escaped: string, hex?: string) =>
+    hex ? String.fromCharCode(parseInt(hex, 16)) : '\\'
+  );
+}
@@ -0,0 +1,185 @@
+import * as os from 'os';
+import * as fs from 'fs';
+import * as path from 'path';
+import { checkPrivateDirectory } from './private-directory';
+
+// Shell integration scripts emit OSC 133 (prompt/command/output/finish),
+// OSC 633;E (the exact command line) and OSC 7 (cwd) so the terminal core can
+// find command boundaries in the PTY stream instead of guessing them.
+
+const BASH_INTEGRATION = `# Portal Terminal shell integration (bash)
+if [ -n "$PORTAL_LOGIN_SHELL" ]; then
+  [ -f /etc/profile ] && . /etc/profile
+  for __portal_profile in ~/.bash_profile ~/.bash_login ~/.profile; do
+    if [ -f "$__portal_profile" ]; then . "$__portal_profile"; break; fi
+  done
+  unset __portal_profile
+elif [ -f ~/.bashrc ]; then
+  . ~/.bashrc
+fi
+
+if [ -z "$__PORTAL_SHELL_INTEGRATION" ]; then
+  __PORTAL_SHELL_INTEGRATION=1
+  __portal_in_command=0
+  __portal_at_prompt=0
+
+  __portal_escape() {
+    local s="$1"
+    s="\${s//\\\\/\\\\\\\\}"
+    s="\${s//;/\\\\x3b}"
+    s="\${s//$'\\n'/\\\\x0a}"
+    builtin printf '%s' "$s"
+  }
+
+  # The DEBUG trap also fires for every PROMPT_COMMAND entry, so only the
+  # first command after the prompt has been drawn counts as user input
+  __portal_preexec() {
+    [ "$__portal_at_prompt" = 1 ] || return
+    [ -n "$COMP_LINE" ] && return
+    # An empty command line goes straight to PROMPT_COMMAND
+    case "$BASH_COMMAND" in __portal_precmd*) return ;; esac
+    __portal_at_prompt=0
+    __portal_in_command=1
+    local cmd
+    cmd="$(HISTTIMEFORMAT= builtin history 1 | sed 's/^ *[0-9]* *//')"
+    builtin printf '\\e]633;E;%s\\a\\e]133;C\\a' "$(__portal_escape "$cmd")"
+  }
+
+  __portal_precmd() {
+    local ret=$?
+    if [ "$__portal_in_command" = 1 ]; then
+      builtin printf '\\e]133;D;%s\\a' "$ret"
+    fi
+    __portal_in_command=0
+    __portal_at_prompt=0
+    builtin printf '\\e]7;file://%s%s\\a' "$HOSTNAME" "$PWD"
+    return $ret
+  }
+
+  trap '__portal_preexec' DEBUG
+  PROMPT_COMMAND=$'__portal_precmd\\n'"$PROMPT_COMMAND"$'\\n__portal_at_prompt=1'
+  PS1="\\[\\e]133;A\\a\\]$PS1\\[\\e]133;B\\a\\]"
+fi
+`;
+
+const ZSH_ENV = `# Portal Terminal shell integration (zsh env)
+if [ -f "\${PORTAL_USER_ZDOTDIR:-$HOME}/.zshenv" ]; then
+  __portal_zdotdir="$ZDOTDIR"
+  ZDOTDIR="\${PORTAL_USER_ZDOTDIR:-$HOME}"
+  . "$ZDOTDIR/.zshenv"
+  ZDOTDIR="$__portal_zdotdir"
+  unset __portal_zdotdir
+fi
+`;
+
+const ZSH_PROFILE = `# Portal Terminal shell integration (zsh profile)
+[ -f "\${PORTAL_USER_ZDOTDIR:-$HOME}/.zprofile" ] && . "\${PORTAL_USER_ZDOTDIR:-$HOME}/.zprofile"
+`;
+
+const ZSH_RC = `# Portal Terminal shell integration (zsh)
+ZDOTDIR="\${PORTAL_USER_ZDOTDIR:-$HOME}"
+[ -f "$ZDOTDIR/.zshrc" ] && . "$ZDOTDIR/.zshrc"
+
+if [ -z "$__PORTAL_SHELL_INTEGRATION" ]; then
+  __PORTAL_SHELL_INTEGRATION=1
+  __portal_in_command=0
+
+  __portal_escape() {
+    local s="$1"
+    s="\${s//\\\\/\\\\\\\\}"
+    s="\${s//;/\\\\x3b}"
+    s="\${s//$'\\n'/\\\\x0a}"
+    builtin print -rn -- "$s"
+  }
+
+  __portal_preexec() {
+    __portal_in_command=1
+    builtin printf '\\e]633;E;%s\\a\\e]133;C\\a' "$(__portal_escape "$1")"
+  }
+
+  __portal_precmd() {
+    local ret=$?
+    if [ "$__portal_in_command" = 1 ]; then
+      builtin printf '\\e]133;D;%s\\a' "$ret"
+    fi
+    __portal_in_command=0
+    builtin printf '\\e]7;file://%s%s\\a' "$HOST" "$PWD"
+  }
+
+  autoload -Uz add-zsh-hook
+  add-zsh-hook preexec __portal_preexec
+  add-zsh-hook precmd __portal_precmd
+  PS1=$'%{\\e]133;A\\a%}'"$PS1"$'%{\\e]133;B\\a%}'
+fi
+`;
+
+const FISH_INTEGRATION = `# Portal Terminal shell integration (fish)
+if not set -q __PORTAL_SHELL_INTEGRATION
+  set -g __PORTAL_SHELL_INTEGRATION 1
+
+  function __portal_escape
+    string replace -a '\\\\' '\\\\\\\\' -- $argv | string replace -a ';' '\\\\x3b' | string join '\\\\x0a'
+  end
+
+  function __portal_preexec --on-event fish_preexec
+    printf '\\e]633;E;%s\\a\\e]133;C\\a' (__portal_escape $argv)
+  end
+
+  function __portal_postexec --on-event fish_postexec
+    printf '\\e]133;D;%s\\a' $status
+  end
+
+  function __portal_cwd --on-event fish_prompt
+    printf '\\e]7;file://%s%s\\a' (hostname) $PWD
+  end
+
+  functions -c fish_prompt __portal_original_prompt
+  function fish_prompt
+    printf '\\e]133;A\\a'
+    __portal_original_prompt
+    printf '\\e]133;B\\a'
+  end
+end
+`;
+
+const INTEGRATION_FILES: Record<string, string> = {
+  'bash/portal.bash': BASH_INTEGRATION,
+  'zsh/.zshenv': ZSH_ENV,
+  'zsh/.zprofile': ZSH_PROFILE,
+  'zsh/.zshrc': ZSH_RC,
+  'fish/portal.fish': FISH_INTEGRATION,
+};
+
+export const SUPPORTED_INTEGRATION_SHELLS = ['bash', 'zsh', 'fish'];
+
+// Every shell sources these scripts, so they live with the user's other
+// Portal files rather than in a temp directory others can write to
+export function getShellIntegrationDir(): string {
+  return path.join(os.homedir(), '.portal', 'shell-integration');
+}
+
+/**
+ * Writes the integration scripts to a directory only the user can write to
+ * and returns its path. Throws if the directory belongs to someone else or
+ * others can write to it. Scripts are rewritten on every call so upgrades
+ * take effect immediately.
+ */
+export function installShellIntegration(baseDir: string = getShellIntegrationDir()): string {
+  fs.mkdirSync(baseDir, { recursive: true, mode: 0o700 });
+  checkPrivateDirectory(baseDir);
+
+  for (const [relativePath, contents] of Object.entries(INTEGRATION_FILES)) {
+    const filePath = path.join(baseDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+    checkPrivateDirectory(path.dirname(filePath));
+
+    // Replaced rather than written through, so a planted link isn't followed
+    const tempPath = `${filePath}.tmp`;
+    fs.rmSync(tempPath, { force: true });
+    fs.writeFileSync(tempPath, contents, { mode: 0o600, flag: 'wx' });
+    fs.renameSync(tempPath, filePath);
+  }
+
+  return baseDir;
+}
+
@@ -0,0 +1,591 @@
+import * as path from 'path';
+import {
+  ResolvedCommand,
+  ShellAndOrList,
+  ShellCommand,
+  ShellList,
+  ShellPipeline,
+  ShellRedirectOperator,
+  ShellRedirection,
+  ShellScript,
+  ShellSimpleCommand,
+  ShellWord,
+} from './types';
+
+// Programs that run the command after them, with their options taking a value
+const WRAPPERS: Record<string, string[]> = {
+  sudo: ['-u', '-g', '-h', '-p', '-C', '-D', '-r', '-t'],
+  doas: ['-u', '-C'],
+  env: ['-u', '-C', '-S'],
+  nohup: [],
+  time: [],
+  command: [],
+  builtin: [],
+  exec: ['-a'],
+  nice: ['-n'],
+  xargs: ['-I', '-n', '-P', '-L', '-d', '-E', '-s'],
+};
+
+const ELEVATING = new Set(['sudo', 'doas']);
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'fish']);
+
+const REDIRECTION = /^(\d*)(&>>|&>|<<<|<<-|<<|<>|<&|>&|>>|>\||<|>)/;
+const ASSIGNMENT = /^([A-Za-z_][A-Za-z0-9_]*)\+?=/;
+const BLANK = /[ \t\r]/;
+// Characters that end an unquoted word
+const METACHARACTERS = new Set(['\n', ';', '&', '|', '(', ')', '<', '>']);
+
+export interface IShellParserOptions {
+  // Off for Windows command lines, where \ separates paths
+  backslashEscapes?: boolean;
+}
+
+interface IResolveContext {
+  subshell: boolean;
+  elevated: boolean;
+}
+
+/**
+ * Parses POSIX/bash command lines into pipelines, simple commands,
+ * assignments, redirections and substitutions. It never throws: syntax
+ * problems, like an unterminated quote in a line still being typed, are
+ * collected in `errors` next to the best-effort tree.
+ *
+ * Keywords (if, for, case, functions) are not recognized and parse as
+ * simple commands.
+ */
+export class ShellParser {
+  private pos = 0;
+  private errors: string[] = [];
+  private pendingHeredocs: ShellRedirection[] = [];
+
+  private constructor(private input: string, private backslashEscapes: boolean) {}
+
+  static parse(line: string, options: IShellParserOptions = {}): ShellScript {
+    const parser = new ShellParser(line, options.backslashEscapes ?? true);
+    const body = parser.parseList();
+    return { body, errors: parser.errors };
+  }
+
+  // Every command the line would run, including those in subshells,
+  // substitutions and `sh -c` scripts, in the order they appear
+  static getCommands(line: string | ShellScript, options?: IShellParserOptions): ResolvedCommand[] {
+    const script = typeof line === 'string' ? ShellParser.parse(line, options) : line;
+    const commands: ResolvedCommand[] = [];
+    collectList(script.body, { subshell: false, elevated: false }, commands);
+    return commands;
+  }
+
+  private parseList(closer?: ')' | '}'): ShellList {
+    const items: ShellList['items'] = [];
+
+    while (true) {
+      this.skipSeparators();
+      if (this.pos >= this.input.length || this.atCloser(closer)) break;
+
+      const command = this.parseAndOr();
+      if (!command) {
+        this.errors.push(`Unexpected "${this.input[this.pos]}" at position ${this.pos}`);
+        this.pos++;
+        continue;
+      }
+
+      this.skipBlanks();
+      const background = this.input[this.pos] === '&';
+      if (background || this.input[this.pos] === ';') {
+        this.pos++;
+      }
+      items.push({ command, background });
+    }
+
+    return { type: 'list', items };
+  }
+
+  private parseAndOr(): ShellAndOrList | null {
+    const first = this.parsePipeline();
+    if (!first) return null;
+
+    const list: ShellAndOrList = { type: 'and-or', pipelines: [first], operators: [] };
+    while (true) {
+      this.skipBlanks();
+      const operator = this.input.startsWith('&&', this.pos) ? '&&'
+        : this.input.startsWith('||', this.pos) ? '||'
+        : null;
+      if (!operator) break;
+
+      this.pos += 2;
+      this.skipSeparators();
+      const next = this.parsePipeline();
+      if (!next) {
+        this.errors.push(`Missing command after ${operator}`);
+        break;
+      }
+      list.pipelines.push(next);
+      list.operators.push(operator);
+    }
+
+    return list;
+  }
+
+  private parsePipeline(): ShellPipeline | null {
+    this.skipBlanks();
+    const negated = this.isReservedWord('!');
+    if (negated) {
+      this.pos++;
+      this.skipBlanks();
+    }
+
+    const first = this.parseCommand();
+    if (!first) {
+      if (negated) this.errors.push('Missing command after !');
+      return null;
+    }
+
+    const pipeline: ShellPipeline = { type: 'pipeline', negated, commands: [first] };
+    while (true) {
+      this.skipBlanks();
+      if (this.input[this.pos] !== '|' || this.input[this.pos + 1] === '|') break;
+
+      // `|&` also pipes stderr
+      this.pos += this.input[this.pos + 1] === '&' ? 2 : 1;
+      this.skipSeparators();
+      const next = this.parseCommand();
+      if (!next) {
+        this.errors.push('Missing command after |');
+        break;
+      }
+      pipeline.commands.push(next);
+    }
+
+    return pipeline;
+  }
+
+  private parseCommand(): ShellCommand | null {
+    this.skipBlanks();
+
+    if (this.input[this.pos] === '(') {
+      this.pos++;
+      const body = this.parseList(')');
+      this.expect(')');
+      return { type: 'subshell', body, redirections: this.parseRedirections() };
+    }
+
+    if (this.isReservedWord('{')) {
+      this.pos++;
+      const body = this.parseList('}');
+      if (this.isReservedWord('}')) {
+        this.pos++;
+      } else {
+        this.errors.push('Missing }');
+      }
+      return { type: 'group', body, redirections: this.parseRedirections() };
+    }
+
+    return this.parseSimpleCommand();
+  }
+
+  private parseSimpleCommand(): ShellSimpleCommand | null {
+    const command: ShellSimpleCommand = { type: 'simple', assignments: [], words: [], redirections: [] };
+
+    while (true) {
+      this.skipBlanks();
+
+      const redirection = this.parseRedirection();
+      if (redirection) {
+        command.redirections.push(redirection);
+        continue;
+      }
+      if (this.atWordEnd()) break;
+
+      const word = this.parseWord();
+      const assignment = command.words.length === 0 ? ASSIGNMENT.exec(word.raw) : null;
+      if (assignment) {
+        const length = assignment[0].length;
+        command.assignments.push({
+          name: assignment[1],
+          value: { ...word, raw: word.raw.slice(length), value: word.value.slice(length) },
+        });
+      } else {
+        command.words.push(word);
+      }
+    }
+
+    const isEmpty = !command.words.length && !command.assignments.length && !command.redirections.length;
+    return isEmpty ? null : command;
+  }
+
+  private parseRedirections(): ShellRedirection[] {
+    const redirections: ShellRedirection[] = [];
+    while (true) {
+      this.skipBlanks();
+      const redirection = this.parseRedirection();
+      if (!redirection) return redirections;
+      redirections.push(redirection);
+    }
+  }
+
+  private parseRedirection(): ShellRedirection | null {
+    const rest = this.input.slice(this.pos, this.pos + 16);
+    const match = REDIRECTION.exec(rest);
+    // <(...) and >(...) are process substitutions, which are words
+    if (!match || (!match[1] && /^[<>]\(/.test(rest))) return null;
+
+    this.pos += match[0].length;
+    this.skipBlanks();
+
+    const operator = match[2] as ShellRedirectOperator;
+    let target: ShellWord = { raw: '', value: '', quoted: false, substitutions: [] };
+    if (this.atWordEnd()) {
+      this.errors.push(`Missing target after ${operator}`);
+    } else {
+      target = this.parseWord();
+    }
+
+    const redirection: ShellRedirection = { operator, target };
+    if (match[1]) {
+      redirection.fd = Number(match[1]);
+    }
+    if (operator === '<<' || operator === '<<-') {
+      this.pendingHeredocs.push(redirection);
+    }
+    return redirection;
+  }
+
+  private parseWord(): ShellWord {
+    const start = this.pos;
+    const substitutions: ShellList[] = [];
+    let value = '';
+    let quoted = false;
+
+    while (this.pos < this.input.length) {
+      const char = this.input[this.pos];
+      const next = this.input[this.pos + 1];
+
+      if (char === '\\' && this.backslashEscapes) {
+        // A backslash-newline joins lines; any other escaped character is literal
+        if (next !== '\n') {
+          value += next ?? '\\';
+          quoted = true;
+        }
+        this.pos += 2;
+      } else if (char === "'") {
+        value += this.readUntil("'", 'single quote');
+        quoted = true;
+      } else if (char === '$' && next === "'") {
+        this.pos++;
+        value += decodeAnsiC(this.readUntil("'", 'single quote', true));
+        quoted = true;
+      } else if (char === '"') {
+        value += this.parseDoubleQuoted(substitutions);
+        quoted = true;
+      } else if (char === '$') {
+        value += this.parseDollar(substitutions);
+      } else if (char === '`') {
+        value += this.parseBackticks(substitutions);
+      } else if ((char === '<' || char === '>') && next === '(' && this.pos === start) {
+        this.pos += 2;
+        substitutions.push(this.parseList(')'));
+        this.expect(')');
+        value += this.input.slice(start, this.pos);
+      } else if (BLANK.test(char) || METACHARACTERS.has(char)) {
+        break;
+      } else {
+        value += char;
+        this.pos++;
+      }
+    }
+
+    return { raw: this.input.slice(start, this.pos), value, quoted, substitutions };
+  }
+
+  private parseDoubleQuoted(substitutions: ShellList[]): string {
+    let value = '';
+    this.pos++;
+
+    while (this.pos < this.input.length && this.input[this.pos] !== '"') {
+      const char = this.input[this.pos];
+      const next = this.input[this.pos + 1];
+
+      if (char === '\\' && this.backslashEscapes && next !== undefined && '$`"\\\n'.includes(next)) {
+        if (next !== '\n') value += next;
+        this.pos += 2;
+      } else if (char === '$') {
+        value += this.parseDollar(substitutions);
+      } else if (char === '`') {
+        value += this.parseBackticks(substitutions);
+      } else {
+        value += char;
+        this.pos++;
+      }
+    }
+
+    if (this.pos >= this.input.length) {
+      this.errors.push('Unterminated double quote');
+    }
+    this.pos++;
+    return value;
+  }
+
+  // Expansions are kept as written; $(...) is parsed for the commands it runs
+  private parseDollar(substitutions: ShellList[]): string {
+    const start = this.pos;
+    const next = this.input[this.pos + 1];
+
+    if (next === '(' && this.input[this.pos + 2] === '(') {
+      this.pos = this.findClosing(this.pos + 1, '(', ')', 'arithmetic expansion');
+    } else if (next === '(') {
+      this.pos += 2;
+      substitutions.push(this.parseList(')'));
+      this.expect(')');
+    } else if (next === '{') {
+      this.pos = this.findClosing(this.pos + 1, '{', '}', 'parameter expansion');
+    } else {
+      const name = /^(?:[A-Za-z_][A-Za-z0-9_]*|[0-9@*#?$!-])?/.exec(this.input.slice(this.pos + 1))![0];
+      this.pos += 1 + name.length;
+    }
+
+    return this.input.slice(start, this.pos);
+  }
+
+  private parseBackticks(substitutions: ShellList[]): string {
+    const start = this.pos;
+    let end = this.pos + 1;
+    while (end < this.input.length && this.input[end] !== '`') {
+      end += this.input[end] === '\\' ? 2 : 1;
+    }
+
+    const inner = this.input.slice(start + 1, Math.min(end, this.input.length)).replace(/\\([`\\$])/g, '$1');
+    const script = ShellParser.parse(inner, { backslashEscapes: this.backslashEscapes });
+    substitutions.push(script.body);
+    this.errors.push(...script.errors);
+
+    if (end >= this.input.length) {
+      this.errors.push('Unterminated backquote');
+    }
+    this.pos = end + 1;
+    return this.input.slice(start, Math.min(this.pos, this.input.length));
+  }
+
+  // Position after the bracket matching the one at `from`, skipping quoted text
+  private findClosing(from: number, open: string, close: string, what: string): number {
+    let depth = 0;
+    for (let i = from; i < this.input.length; i++) {
+      const char = this.input[i];
+      if (char === '\\') {
+        i++;
+      } else if (char === "'" || char === '"') {
+        const end = this.input.indexOf(char, i + 1);
+        i = end === -1 ? this.input.length : end;
+      } else if (char === open) {
+        depth++;
+      } else if (char === close && --depth === 0) {
+        return i + 1;
+      }
+    }
+
+    this.errors.push(`Unterminated ${what}`);
+    return this.input.length;
+  }
+
+  // Text up to the closing quote, which is consumed
+  private readUntil(quote: string, what: string, allowEscapes = false): string {
+    let end = this.pos + 1;
+    while (end < this.input.length && this.input[end] !== quote) {
+      end += allowEscapes && this.input[end] === '\\' ? 2 : 1;
+    }
+
+    if (end >= this.input.length) {
+      this.errors.push(`Unterminated ${what}`);
+    }
+    const text = this.input.slice(this.pos + 1, Math.min(end, this.input.length));
+    this.pos = end + 1;
+    return text;
+  }
+
+  private readHeredocs(): void {
+    for (const heredoc of this.pendingHeredocs) {
+      const delimiter = heredoc.target.value;
+      const lines: string[] = [];
+      let found = false;
+
+      while (this.pos < this.input.length) {
+        let end = this.input.indexOf('\n', this.pos);
+        if (end === -1) end = this.input.length;
+        let line = this.input.slice(this.pos, end);
+        this.pos = Math.min(end + 1, this.input.length);
+
+        if (heredoc.operator === '<<-') line = line.replace(/^\t+/, '');
+        if (line === delimiter) {
+          found = true;
+          break;
+        }
+        lines.push(line);
+      }
+
+      if (!found) {
+        this.errors.push(`Unterminated here-document ${delimiter}`);
+      }
+      heredoc.body = lines.length ? lines.join('\n') + '\n' : '';
+    }
+    this.pendingHeredocs = [];
+  }
+
+  private skipBlanks(): void {
+    while (this.pos < this.input.length) {
+      const char = this.input[this.pos];
+      if (BLANK.test(char)) {
+        this.pos++;
+      } else if (char === '\\' && this.input[this.pos + 1] === '\n') {
+        this.pos += 2;
+      } else if (char === '#') {
+        const end = this.input.indexOf('\n', this.pos);
+        this.pos = end === -1 ? this.input.length : end;
+      } else {
+        return;
+      }
+    }
+  }
+
+  // Blanks, comments and newlines between commands
+  private skipSeparators(): void {
+    this.skipBlanks();
+    while (this.input[this.pos] === '\n') {
+      this.pos++;
+      this.readHeredocs();
+      this.skipBlanks();
+    }
+  }
+
+  private atWordEnd(): boolean {
+    const char = this.input[this.pos];
+    return char === undefined || BLANK.test(char) || METACHARACTERS.has(char);
+  }
+
+  private atCloser(closer?: ')' | '}'): boolean {
+    return closer === ')' ? this.input[this.pos] === ')' : closer === '}' && this.isReservedWord('}');
+  }
+
+  // `{`, `}` and `!` are only special as whole words
+  private isReservedWord(word: string): boolean {
+    if (!this.input.startsWith(word, this.pos)) return false;
+    const after = this.input[this.pos + word.length];
+    return after === undefined || BLANK.test(after) || METACHARACTERS.has(after);
+  }
+
+  private expect(char: string): void {
+    if (this.input[this.pos] === char) {
+      this.pos++;
+    } else {
+      this.errors.push(`Missing ${char}`);
+    }
+  }
+}
+
+function collectList(list: ShellList, context: IResolveContext, commands: ResolvedCommand[]): void {
+  for (const item of list.items) {
+    for (const pipeline of item.command.pipelines) {
+      // Background jobs and every part of a pipeline run in child shells
+      const subshell = context.subshell || item.background || pipeline.commands.length > 1;
+      let previous: ResolvedCommand | undefined;
+
+      for (const command of pipeline.commands) {
+        let resolved: ResolvedCommand | undefined;
+        if (command.type === 'simple') {
+          resolved = collectSimpleCommand(command, { ...context, subshell }, commands);
+        } else {
+          collectList(command.body, { ...context, subshell: subshell || command.type === 'subshell' }, commands);
+          collectSubstitutions(command.redirections.map(redirection => redirection.target), context, commands);
+        }
+
+        if (previous && resolved) {
+          previous.pipedTo = resolved.program;
+        }
+        previous = resolved;
+      }
+    }
+  }
+}
+
+function collectSimpleCommand(
+  command: ShellSimpleCommand,
+  context: IResolveContext,
+  commands: ResolvedCommand[]
+): ResolvedCommand | undefined {
+  // Substitutions run before the command that uses their output
+  collectSubstitutions([
+    ...command.assignments.map(assignment => assignment.value),
+    ...command.words,
+    ...command.redirections.map(redirection => redirection.target),
+  ], context, commands);
+
+  const words = command.words.map(word => word.value);
+  const assignments: Record<string, string> = {};
+  for (const assignment of command.assignments) {
+    assignments[assignment.name] = assignment.value.value;
+  }
+
+  const wrappers: string[] = [];
+  let elevated = context.elevated;
+  let index = 0;
+
+  while (index < words.length && WRAPPERS[path.basename(words[index])]) {
+    const wrapper = path.basename(words[index++]);
+    wrappers.push(wrapper);
+    elevated = elevated || ELEVATING.has(wrapper);
+
+    while (index < words.length && words[index].startsWith('-')) {
+      if (words[index] === '--') {
+        index++;
+        break;
+      }
+      index += WRAPPERS[wrapper].includes(words[index]) ? 2 : 1;
+    }
+
+    if (wrapper === 'env') {
+      for (let match; index < words.length && (match = /^([A-Za-z_][A-Za-z0-9_]*)=/.exec(words[index])); index++) {
+        assignments[match[1]] = words[index].slice(match[0].length);
+      }
+    }
+  }
+
+  if (index >= words.length) {
+    return undefined;
+  }
+
+  const resolved: ResolvedCommand = {
+    program: path.basename(words[index]),
+    executable: words[index],
+    args: words.slice(index + 1),
+    argWords: command.words.slice(index + 1),
+    wrappers,
+    elevated,
+    assignments,
+    redirections: command.redirections,
+    subshell: context.subshell,
+  };
+  commands.push(resolved);
+
+  // `bash -c "script"` and `sh -ec "script"` run the script in a new shell
+  if (SHELLS.has(resolved.program)) {
+    const scriptIndex = resolved.args.findIndex(arg => /^-[a-z]*c[a-z]*$/.test(arg));
+    if (scriptIndex !== -1 && resolved.args[scriptIndex + 1] !== undefined) {
+      const script = ShellParser.parse(resolved.args[scriptIndex + 1]);
+      collectList(script.body, { subshell: true, elevated }, commands);
+    }
+  }
+
+  return resolved;
+}
+
+function collectSubstitutions(words: ShellWord[], context: IResolveContext, commands: ResolvedCommand[]): void {
+  for (const word of words) {
+    for (const substitution of word.substitutions) {
+      collectList(substitution, { ...context, subshell: true }, commands);
+    }
+  }
+}
+
+function decodeAnsiC(text: string): string {
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', e: '\x1b', a: '\x07', '\\': '\\', "'": "'", '"': '"' };
+  return text.replace(/\\(.)/g, (escape, char: string) => escapes[char] ?? escape);
+}
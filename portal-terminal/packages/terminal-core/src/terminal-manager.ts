@@ -1,45 +1,281 @@
-import { CommandExecutor, ICommandExecutorOptions } from './command-executor';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandExecutor, ICommandExecutorOptions, IJobInfo, JobSignal } from './command-executor';
 import { CommandValidator } from './command-validator';
-import { ShellDetector } from './shell-detector';
 import { CommandBlock } from './command-block';
-import { TerminalOptions } from './types';
+import { formatPreview, parsePreviewCommand } from './command-preview';
+import { DiagnosticsExtractor } from './diagnostics';
+import { EnvironmentManager } from './environment-manager';
+import { PtySession } from './pty-session';
+import { ShellIntegrationParser } from './shell-integration-parser';
+import { parseRetryCommand } from './retry-policy';
+import { TerminalSession } from './terminal-session';
+import {
+  TerminalOptions,
+  CommandOutputEvent,
+  CommandStatusChangeEvent,
+  RetryPolicy,
+  ConfirmationRequest,
+  ConfirmationResponse,
+  CommandSource,
+} from './types';
+
+// Control characters the PTY line discipline turns into signals for the foreground job
+const SHELL_SIGNAL_KEYS: Partial<Record<JobSignal, string>> = {
+  SIGINT: '\x03',
+};
+
+// A command held back until its confirmation request is answered
+interface IPendingCommand {
+  block: CommandBlock;
+  options: { background: boolean; retry?: Partial<RetryPolicy> | false };
+}
 
 export class TerminalManager {
   private executor: CommandExecutor;
+  protected ptySession: PtySession;
   protected dataCallback?: (data: string) => void;
   private exitCallback?: (exitCode: number) => void;
+  private commandStartCallback?: (block: CommandBlock) => void;
+  private commandOutputCallback?: (block: CommandBlock, event: CommandOutputEvent) => void;
+  private commandCompleteCallback?: (block: CommandBlock) => void;
+  private shellIntegration = new ShellIntegrationParser();
+  private currentShellBlock: CommandBlock | null = null;
+  // A command from executeCommand() written to the shell, until the shell runs it
+  private submittedShellBlock: CommandBlock | null = null;
+  private pendingCommandLine: string | null = null;
+  // Variables the shell was last given, and the script giving it the changes
+  // since while the shell sources it
+  private shellEnvironment: Record<string, string> | null = null;
+  private shellEnvironmentFile: string | null = null;
+  // Keystrokes were written since the prompt was drawn, so its input line may
+  // hold something the user is typing
+  private promptInputTyped = false;
+  private currentWorkingDirectory: string;
+  protected session: TerminalSession;
+  protected environment: EnvironmentManager;
   private isStarted = false;
   private activeProcesses: Map<string, CommandBlock> = new Map();
   private maxConcurrentCommands: number;
   private memoryThreshold: number;
+  private maxBlockOutputBytes?: number;
+  private maxBlocks: number;
+  protected validator: CommandValidator;
+  private confirmationCallback?: (request: ConfirmationRequest) => void;
+  private pendingConfirmations: Map<string, IPendingCommand> = new Map();
+  // Remembered answers to confirmation requests, by command
+  private sessionDecisions: Map<string, boolean> = new Map();
 
   constructor(protected options: TerminalOptions = {}) {
     this.maxConcurrentCommands = options.maxConcurrentCommands || 10;
     this.memoryThreshold = options.memoryThreshold || 500 * 1024 * 1024; // 500MB default
+    this.maxBlockOutputBytes = options.maxBlockOutputBytes;
+    this.maxBlocks = options.maxBlocks || 1000;
+    this.validator = options.validator || new CommandValidator();
+    this.currentWorkingDirectory = options.cwd || process.cwd();
+
+    this.session = new TerminalSession(options.sessionName || 'default', this.currentWorkingDirectory);
+    if (options.env) {
+      this.session.setEnvironment(options.env);
+    }
+    this.environment = this.createEnvironment(this.session.environment);
 
     const executorOptions: ICommandExecutorOptions = {
       shell: options.shell,
       cwd: options.cwd,
       env: options.env,
       timeout: options.timeout || 30000, // 30 second timeout
-      maxRetries: options.maxRetries || 3,
-      retryDelay: options.retryDelay || 100,
+      maxRetries: options.maxRetries,
+      retryDelay: options.retryDelay,
+      retryPolicy: options.retryPolicy,
+      retryRules: options.retryRules,
     };
     
     this.executor = new CommandExecutor(executorOptions);
+
+    // One long-lived shell per terminal so cd, export, aliases and
+    // interactive programs behave like they do in a regular terminal
+    this.ptySession = new PtySession({
+      shell: options.shell,
+      cwd: options.cwd,
+      env: options.env,
+      cols: options.cols,
+      rows: options.rows,
+      shellIntegration: options.shellIntegration,
+    });
+
+    this.setupShellIntegration();
+  }
+
+  // Build command blocks from OSC 133/633/7 markers so commands typed
+  // directly into the shell get accurate boundaries, exit codes and cwd
+  private setupShellIntegration(): void {
+    this.shellIntegration.on('command-line', (commandLine: string) => {
+      this.pendingCommandLine = commandLine;
+    });
+
+    this.shellIntegration.on('prompt-start', () => {
+      this.removeShellEnvironmentFile();
+
+      // Back at the prompt without running the submitted command, e.g. on a syntax error
+      const block = this.submittedShellBlock;
+      if (block) {
+        this.submittedShellBlock = null;
+        block.setCompleted(2);
+      }
+    });
+
+    this.shellIntegration.on('command-start', () => {
+      this.promptInputTyped = false;
+      this.syncShellEnvironment();
+    });
+
+    this.shellIntegration.on('command-executed', () => {
+      // Sourcing the environment script isn't a command of the user's
+      if (this.shellEnvironmentFile) {
+        this.pendingCommandLine = null;
+        return;
+      }
+
+      const submitted = this.submittedShellBlock;
+      const block = submitted || new CommandBlock(this.pendingCommandLine ?? '', { maxOutputBytes: this.maxBlockOutputBytes });
+      block.cwd = block.cwd || this.currentWorkingDirectory;
+      block.setRunning();
+
+      this.pendingCommandLine = null;
+      this.submittedShellBlock = null;
+      this.currentShellBlock = block;
+      if (!submitted) {
+        this.trackBlock(block);
+      }
+    });
+
+    this.shellIntegration.on('text', (data: string, phase: string) => {
+      if (phase === 'executing') {
+        this.currentShellBlock?.addOutput(data);
+      }
+    });
+
+    this.shellIntegration.on('command-finished', (exitCode?: number) => {
+      const block = this.currentShellBlock;
+      if (!block) return;
+
+      this.currentShellBlock = null;
+      block.setCompleted(exitCode ?? 0);
+    });
+
+    this.shellIntegration.on('cwd-change', (cwd: string) => {
+      this.currentWorkingDirectory = cwd;
+      this.session.setWorkingDirectory(cwd);
+      this.loadDirectoryEnvironment(cwd);
+      this.loadDirectoryRules(cwd);
+      this.handleWorkingDirectoryChange(cwd);
+    });
+  }
+
+  // Called after the shell reported a new working directory
+  protected handleWorkingDirectoryChange(cwd: string): void {}
+
+  // Changes to the session, .env and project variables reach the shell at its
+  // prompt through a script it sources, so commands typed into it see them
+  // too. The script is private to the user and removed once sourced. It's
+  // only typed at a prompt nothing was typed at yet; changes made while the
+  // user is typing wait for the next prompt.
+  private syncShellEnvironment(): void {
+    if (
+      !this.shellEnvironment ||
+      this.shellEnvironmentFile ||
+      this.promptInputTyped ||
+      this.shellIntegration.getPhase() !== 'input' ||
+      this.currentShellBlock ||
+      this.submittedShellBlock
+    ) {
+      return;
+    }
+
+    const environment = this.environment.getEnvironment();
+    const script = formatEnvironmentScript(this.ptySession.getShellInfo().name, this.shellEnvironment, environment);
+    this.shellEnvironment = environment;
+    if (!script) return;
+
+    try {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'portal-env-'));
+      this.shellEnvironmentFile = path.join(directory, 'env');
+      fs.writeFileSync(this.shellEnvironmentFile, script, { mode: 0o600 });
+    } catch (error) {
+      console.warn('Failed to pass the environment to the shell:', error);
+      this.removeShellEnvironmentFile();
+      return;
+    }
+
+    // The leading space keeps it out of the history of shells set to ignore
+    // such lines (bash HISTCONTROL=ignorespace, zsh HIST_IGNORE_SPACE); other
+    // shells record it like any command
+    this.ptySession.write(` source '${this.shellEnvironmentFile}'\r`);
+  }
+
+  private removeShellEnvironmentFile(): void {
+    if (!this.shellEnvironmentFile) return;
+
+    fs.rmSync(path.dirname(this.shellEnvironmentFile), { recursive: true, force: true });
+    this.shellEnvironmentFile = null;
+  }
+
+  // Variables set for the session are kept with it; .env files are not, as
+  // they're read again from the directory
+  private createEnvironment(base: Record<string, string>): EnvironmentManager {
+    const environment = new EnvironmentManager({ base });
+    environment.on('change', () => {
+      this.session.environment = environment.getSessionEnvironment();
+      this.session.addCommandEnvironment(environment.getEnvironment());
+      this.session.touch();
+      this.syncShellEnvironment();
+    });
+    return environment;
+  }
+
+  private loadDirectoryEnvironment(cwd: string): void {
+    this.environment.loadDirectory(cwd)
+      .catch(error => console.warn('Failed to load directory environment:', error));
+  }
+
+  // A validator from CommandValidator.load() follows the shell into other
+  // projects and their .portal/rules.json
+  private loadDirectoryRules(cwd: string): void {
+    this.validator.forDirectory(cwd)
+      .then(validator => {
+        if (validator && this.currentWorkingDirectory === cwd) {
+          this.validator = validator;
+        }
+      })
+      .catch(error => console.warn('Failed to load command rules:', error));
   }
 
   start(): void {
+    if (this.isStarted) {
+      return;
+    }
     this.isStarted = true;
-    
-    // Send initial shell info
-    const shellInfo = ShellDetector.detectDefaultShell();
-    const welcomeMessage = `Welcome to Portal Terminal\nShell: ${shellInfo.name} (${shellInfo.path})\nCWD: ${this.options.cwd || process.cwd()}\n\n`;
-    
-    setTimeout(() => {
-      this.dataCallback?.(welcomeMessage);
-      this.dataCallback?.('$ ');
-    }, 100);
+
+    const shellInfo = this.ptySession.getShellInfo();
+    const welcomeMessage = `Welcome to Portal Terminal\r\nShell: ${shellInfo.name} (${shellInfo.path})\r\nCWD: ${this.currentWorkingDirectory}\r\n\r\n`;
+    this.dataCallback?.(welcomeMessage);
+
+    this.ptySession.onData((data) => {
+      this.shellIntegration.process(data);
+      this.dataCallback?.(data);
+    });
+
+    this.ptySession.onExit((exitCode) => {
+      this.isStarted = false;
+      this.killAll();
+      this.exitCallback?.(exitCode);
+    });
+
+    this.ptySession.start();
+    this.shellEnvironment = this.environment.getEnvironment();
+    this.loadDirectoryEnvironment(this.currentWorkingDirectory);
   }
 
   async write(data: string): Promise<void> {
@@ -47,44 +283,70 @@ export class TerminalManager {
       throw new Error('Terminal not started');
     }
 
-    // Echo the input character
-    this.dataCallback?.(data);
-
-    // Handle Enter key (carriage return)
-    if (data === '\r') {
-      this.dataCallback?.('\n');
-      
-      // Get the current command (this is simplified - in a real implementation,
-      // we'd track the current line being typed)
-      // For now, we'll implement a simple echo
-      this.dataCallback?.('$ ');
-    }
+    // Raw keystrokes go straight to the shell; the PTY handles echo and line editing
+    this.promptInputTyped = true;
+    this.ptySession.write(data);
   }
 
-  executeCommand(command: string): CommandBlock {
+  // The command is typed into the shell when it is at its prompt, otherwise
+  // it runs as a job of its own (see canRunInShell()). A trailing `&` runs the
+  // command as a background job, as in a shell, and
+  // `portal retry <n> -- <command>` retries transient failures up to n times
+  // and `portal preview -- <command>` only shows what the command would change.
+  // A command matching a confirm rule gets a pending block and only runs once
+  // its confirmation request is approved, or when called with `confirmed`.
+  // `requireConfirmation` asks for approval even when no rule matches, with
+  // the given reason.
+  executeCommand(
+    command: string,
+    options: {
+      background?: boolean;
+      retry?: Partial<RetryPolicy> | false;
+      confirmed?: boolean;
+      source?: CommandSource;
+      parentId?: string;
+      requireConfirmation?: string;
+    } = {}
+  ): CommandBlock {
     if (!this.isStarted) {
       throw new Error('Terminal not started');
     }
 
+    const previewCommand = parsePreviewCommand(command);
+    if (previewCommand) {
+      return this.previewCommand(previewCommand);
+    }
+
+    let retry = options.retry;
+    const retryCommand = parseRetryCommand(command);
+    if (retryCommand) {
+      command = retryCommand.command;
+      retry = { ...(retry || {}), maxRetries: retryCommand.maxRetries };
+    }
+
+    const backgroundMatch = command.match(/^(.*[^&])&\s*$/s);
+    const background = options.background || !!backgroundMatch;
+    if (backgroundMatch) {
+      command = backgroundMatch[1].trim();
+    }
+
     // Check memory pressure
     this.checkMemoryPressure();
 
     // Check concurrent process limit
     if (this.activeProcesses.size >= this.maxConcurrentCommands) {
-      const block = new CommandBlock(command);
-      block.addOutput('Error: Maximum concurrent commands reached\n');
-      block.setCompleted(1);
-      return block;
+      return this.rejectCommand(command, 'Error: Maximum concurrent commands reached', options);
     }
 
+    // Validated, confirmed and run in the directory it was submitted in, even
+    // if the shell moves on while a confirmation is pending
+    const cwd = this.currentWorkingDirectory;
+
     // Validate command first
-    const validation = CommandValidator.validateCommand(command);
-    
-    if (!validation.isValid) {
-      const block = new CommandBlock(command);
-      block.addOutput(`Error: ${validation.errors.join(', ')}\n`);
-      block.setCompleted(1);
-      return block;
+    const validation = this.validator.validateCommand(command, { cwd });
+
+    if (validation.decision === 'deny') {
+      return this.rejectCommand(command, `Error: ${validation.errors.join(', ')}`, options);
     }
 
     // Show warnings if any
@@ -92,45 +354,326 @@ export class TerminalManager {
       this.dataCallback?.(`Warning: ${validation.warnings.join(', ')}\n`);
     }
 
-    // Create command block and track it
-    const block = new CommandBlock(command);
+    const block = new CommandBlock(command, { maxOutputBytes: this.maxBlockOutputBytes });
+    block.source = options.source;
+    block.parentId = options.parentId;
+    block.cwd = cwd;
+
+    const needsConfirmation = validation.decision === 'confirm' || !!options.requireConfirmation;
+    if (needsConfirmation && !options.confirmed) {
+      const remembered = this.sessionDecisions.get(command);
+      if (remembered === false) {
+        return this.rejectCommand(command, 'Command not run: declined earlier in this session', options);
+      }
+
+      if (remembered === undefined) {
+        // Without a listener nobody can approve the command
+        if (!this.confirmationCallback) {
+          const reasons = [...(validation.confirmations || []), options.requireConfirmation].filter(Boolean);
+          return this.rejectCommand(command, `Confirmation required: ${reasons.join(', ')}`, options);
+        }
+
+        this.trackBlock(block);
+        this.pendingConfirmations.set(block.id, { block, options: { background, retry } });
+        this.confirmationCallback({
+          blockId: block.id,
+          command,
+          cwd,
+          rules: (validation.matchedRules || []).filter(rule => rule.severity === 'confirm'),
+          warnings: options.requireConfirmation ? [...validation.warnings, options.requireConfirmation] : validation.warnings,
+          suggestions: validation.suggestions || [],
+          previewable: !!validation.previewable,
+        });
+        return block;
+      }
+    }
+
+    this.trackBlock(block);
+    this.runBlock(block, { background, retry });
+    return block;
+  }
+
+  // Answer a confirmation request; returns false if the block isn't waiting for one
+  respondToConfirmation(blockId: string, response: ConfirmationResponse): boolean {
+    const pending = this.pendingConfirmations.get(blockId);
+    if (!pending) {
+      return false;
+    }
+
+    this.pendingConfirmations.delete(blockId);
+    if (response.remember) {
+      this.sessionDecisions.set(pending.block.command, response.approved);
+    }
+
+    if (!response.approved) {
+      this.finishRejected(pending.block, 'Command not run: confirmation declined');
+    } else if (this.activeProcesses.size >= this.maxConcurrentCommands) {
+      this.finishRejected(pending.block, 'Error: Maximum concurrent commands reached');
+    } else {
+      this.runBlock(pending.block, pending.options);
+    }
+    return true;
+  }
+
+  // A dry run of the command: a block listing the files it would remove, move
+  // or change, with nothing run. The command itself doesn't need to be allowed.
+  previewCommand(command: string): CommandBlock {
+    const block = new CommandBlock(command.trim());
+    block.dryRun = true;
+    block.cwd = this.currentWorkingDirectory;
+    block.setRunning();
+    this.trackBlock(block);
+
+    // Resolved against the same directory executeCommand() would run it in
+    this.validator.preview(command, { cwd: block.cwd, env: this.environment.getEnvironment() })
+      .then(preview => {
+        block.addOutput(formatPreview(preview));
+        block.setCompleted(0);
+      })
+      .catch(error => {
+        block.addOutput(`Error: ${error instanceof Error ? error.message : String(error)}\n`, 'stderr');
+        block.setCompleted(1);
+      });
+    return block;
+  }
+
+  getPendingConfirmations(): string[] {
+    return Array.from(this.pendingConfirmations.keys());
+  }
+
+  private runBlock(block: CommandBlock, options: IPendingCommand['options']): void {
     this.activeProcesses.set(block.id, block);
 
+    if (this.canRunInShell(block, options)) {
+      this.runInShell(block);
+      return;
+    }
+
     // Execute the command asynchronously
-    this.executeCommandAsync(block).catch(error => {
-      block.addOutput(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+    this.executeCommandAsync(block, options).catch(error => {
+      block.addOutput(`Error: ${error instanceof Error ? error.message : String(error)}\n`, 'stderr');
       block.setCompleted(1);
       this.activeProcesses.delete(block.id);
       
       this.dataCallback?.(block.output);
       this.dataCallback?.('\n$ ');
     });
+  }
+
+  // Foreground commands go to the shell when it waits at its prompt, so cd,
+  // export, aliases and functions work and persist as if typed. Background
+  // jobs, retried commands, recovery actions, multi-line commands and those
+  // submitted while the shell is busy (or has no shell integration) run as
+  // jobs of their own in the directory they were submitted in, as do
+  // commands confirmed after the shell moved to another one.
+  private canRunInShell(block: CommandBlock, options: IPendingCommand['options']): boolean {
+    return !options.background &&
+      block.source !== 'recovery' &&
+      !block.command.includes('\n') &&
+      !this.executor.willRetry(block.command, options.retry) &&
+      this.ptySession.isRunning() &&
+      this.shellIntegration.getPhase() === 'input' &&
+      block.cwd === this.currentWorkingDirectory &&
+      !this.currentShellBlock &&
+      !this.submittedShellBlock &&
+      !this.shellEnvironmentFile;
+  }
+
+  // The shell reports the command's start, output and exit code through its
+  // integration markers, which complete the block
+  private runInShell(block: CommandBlock): void {
+    this.submittedShellBlock = block;
+    block.waitForExit().then(() => this.activeProcesses.delete(block.id));
+
+    // Ctrl+E Ctrl+U first clears anything typed at the prompt
+    this.ptySession.write(`\x05\x15${block.command}\r`);
+  }
 
+  // A block for a command that won't run, recorded with the reason
+  private rejectCommand(
+    command: string,
+    reason: string,
+    options: { source?: CommandSource; parentId?: string } = {}
+  ): CommandBlock {
+    const block = new CommandBlock(command);
+    block.cwd = this.currentWorkingDirectory;
+    block.source = options.source;
+    block.parentId = options.parentId;
+    this.trackBlock(block);
+    this.finishRejected(block, reason);
     return block;
   }
 
-  private async executeCommandAsync(block: CommandBlock): Promise<void> {
+  private finishRejected(block: CommandBlock, reason: string): void {
+    block.addOutput(`${reason}\n`, 'stderr');
+    block.setCompleted(1);
+  }
+
+  private async executeCommandAsync(
+    block: CommandBlock,
+    options: { background: boolean; retry?: Partial<RetryPolicy> | false }
+  ): Promise<void> {
+    // Send output to terminal as it arrives rather than after the command
+    // exits; background jobs keep writing to the terminal, as in a shell
+    const streamToTerminal = (event: CommandOutputEvent) => this.dataCallback?.(event.data);
+    block.on('output', streamToTerminal);
+
+    // Start on the next tick so callers can subscribe to the returned block
+    // before its status changes or any output arrives
+    await new Promise(resolve => setImmediate(resolve));
+
     try {
-      const result = await this.executor.executeCommand(block.command);
-      
-      // Update the block with results
-      block.addOutput(result.output);
-      block.setCompleted(result.exitCode);
-      
-      // Send output to terminal
-      this.dataCallback?.(result.output);
-      this.dataCallback?.('\n$ ');
-      
+      // Killed before it got the chance to start
+      if (block.isFinished()) return;
+
+      await this.executor.executeCommand(block.command, block, {
+        ...options,
+        env: this.environment.getEnvironment(),
+        cwd: block.cwd || this.currentWorkingDirectory,
+      });
     } catch (error) {
-      block.addOutput(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+      block.addOutput(`Error: ${error instanceof Error ? error.message : String(error)}\n`, 'stderr');
       block.setCompleted(1);
-      
-      this.dataCallback?.(block.output);
-      this.dataCallback?.('\n$ ');
     } finally {
-      // Remove from active processes
-      this.activeProcesses.delete(block.id);
+      // The prompt comes back once the command exits or is moved to the background
+      this.dataCallback?.('\n$ ');
+
+      block.waitForExit().then(() => {
+        block.off('output', streamToTerminal);
+        this.activeProcesses.delete(block.id);
+      });
+    }
+  }
+
+  // Resolves when the block exits or its job is moved to the background
+  protected waitForForeground(block: CommandBlock): Promise<CommandBlock> {
+    if (block.isFinished() || this.executor.getJob(block.id)?.background) {
+      return Promise.resolve(block);
+    }
+
+    return new Promise(resolve => {
+      const onBackground = (job: IJobInfo) => {
+        if (job.blockId !== block.id) return;
+        this.executor.off('job-background', onBackground);
+        resolve(block);
+      };
+
+      this.executor.on('job-background', onBackground);
+      block.waitForExit().then(() => {
+        this.executor.off('job-background', onBackground);
+        resolve(block);
+      });
+    });
+  }
+
+  getJobs(): IJobInfo[] {
+    return this.executor.getJobs();
+  }
+
+  // Page through a block's output by line, including output spilled to disk.
+  // Restored blocks only have the output that was saved with the session.
+  async getBlockOutputLines(blockId: string, start: number, end: number): Promise<string[]> {
+    const block = this.session.getBlock(blockId);
+    if (!block) {
+      return [];
+    }
+
+    if (block instanceof CommandBlock) {
+      return block.getOutputLines(start, end);
+    }
+
+    return block.output.replace(/\n$/, '').split('\n').slice(start, end);
+  }
+
+  // Send a signal to the process running a block. Blocks from executeCommand
+  // are executor jobs with their own process group; a block typed into the
+  // shell is the PTY's foreground job, which is signalled through the line
+  // discipline like a keypress would.
+  signalBlock(blockId: string, signal: JobSignal): boolean {
+    if (this.currentShellBlock?.id === blockId || this.submittedShellBlock?.id === blockId) {
+      const controlCharacter = SHELL_SIGNAL_KEYS[signal];
+      if (!controlCharacter) {
+        throw new Error(`${signal} can't be sent to a command running in the shell`);
+      }
+
+      this.ptySession.write(controlCharacter);
+      return true;
+    }
+
+    return this.executor.signal(blockId, signal);
+  }
+
+  // Interrupt a block like Ctrl+C; a command that dies from it exits with 130
+  cancelBlock(blockId: string): boolean {
+    if (this.pendingConfirmations.has(blockId)) {
+      return this.respondToConfirmation(blockId, { approved: false });
+    }
+    return this.signalBlock(blockId, 'SIGINT');
+  }
+
+  writeStdin(blockId: string, data: string): boolean {
+    if (this.currentShellBlock?.id === blockId) {
+      this.ptySession.write(data);
+      return true;
+    }
+
+    return this.executor.writeStdin(blockId, data);
+  }
+
+  backgroundBlock(blockId: string): boolean {
+    return this.executor.background(blockId);
+  }
+
+  foregroundBlock(blockId: string): Promise<CommandBlock | null> {
+    return this.executor.foreground(blockId);
+  }
+
+  // Relay a block's lifecycle to the start/output/complete callbacks
+  protected trackBlock(block: CommandBlock): void {
+    this.session.addBlock(block);
+    this.evictBlocks();
+    this.commandStartCallback?.(block);
+
+    block.on('output', (event: CommandOutputEvent) => {
+      this.commandOutputCallback?.(block, event);
+    });
+
+    // Recorded once as it starts, so a command that never exits is on record too
+    const auditLog = this.options.auditLog;
+    const recordStart = () => {
+      auditLog?.recordStart(block, this.session.id)
+        .catch(error => console.warn('Failed to record audit entry:', error));
+    };
+    if (block.startTime) {
+      recordStart();
+    } else if (auditLog) {
+      const onStatusChange = (event: CommandStatusChangeEvent) => {
+        if (event.status !== 'running') return;
+        block.off('statusChange', onStatusChange);
+        recordStart();
+      };
+      block.on('statusChange', onStatusChange);
     }
+
+    block.once('exit', () => {
+      if (!block.dryRun) {
+        const diagnostics = DiagnosticsExtractor.extract(block.output, { cwd: block.cwd || this.currentWorkingDirectory });
+        block.diagnostics = diagnostics.length > 0 ? diagnostics : undefined;
+      }
+
+      this.session.touch();
+      this.commandCompleteCallback?.(block);
+
+      auditLog?.record(block, this.session.id)
+        .catch(error => console.warn('Failed to record audit entry:', error));
+    });
+
+    // A finding is read from the output after exit; the finished block is
+    // reported again so views pick it up
+    block.on('finding', () => {
+      this.session.touch();
+      this.commandCompleteCallback?.(block);
+    });
   }
 
   onData(callback: (data: string) => void): void {
@@ -141,21 +684,77 @@ export class TerminalManager {
     this.exitCallback = callback;
   }
 
+  onCommandStart(callback: (block: CommandBlock) => void): void {
+    this.commandStartCallback = callback;
+  }
+
+  onCommandOutput(callback: (block: CommandBlock, event: CommandOutputEvent) => void): void {
+    this.commandOutputCallback = callback;
+  }
+
+  onCommandComplete(callback: (block: CommandBlock) => void): void {
+    this.commandCompleteCallback = callback;
+  }
+
+  onConfirmationRequest(callback: (request: ConfirmationRequest) => void): void {
+    this.confirmationCallback = callback;
+  }
+
+  getWorkingDirectory(): string {
+    return this.currentWorkingDirectory;
+  }
+
+  getSession(): TerminalSession {
+    return this.session;
+  }
+
+  // Commands executeCommand() runs as jobs get the current environment; the
+  // shell is given its changes at its next prompt
+  getEnvironment(): EnvironmentManager {
+    return this.environment;
+  }
+
+  // Continue a saved session: its blocks are kept and the shell starts in its
+  // cwd with its environment. Only possible before start().
+  restoreSession(session: TerminalSession): void {
+    if (this.isStarted) {
+      throw new Error('Cannot restore a session into a running terminal');
+    }
+
+    this.session = session;
+    this.environment = this.createEnvironment(session.environment);
+    this.currentWorkingDirectory = session.workingDirectory;
+    this.ptySession = new PtySession({
+      shell: this.options.shell,
+      cwd: session.workingDirectory,
+      env: session.environment,
+      cols: this.options.cols,
+      rows: this.options.rows,
+      shellIntegration: this.options.shellIntegration,
+    });
+  }
+
   resize(cols: number, rows: number): void {
-    // Store dimensions for future PTY integration
-    console.log(`Terminal resized to ${cols}x${rows}`);
+    this.ptySession.resize(cols, rows);
   }
 
   killAll(): void {
+    // Commands waiting for confirmation won't get one
+    for (const blockId of this.getPendingConfirmations()) {
+      this.respondToConfirmation(blockId, { approved: false });
+    }
+
     // Kill all active processes
+    this.submittedShellBlock = null;
+    this.removeShellEnvironmentFile();
     this.activeProcesses.forEach((block) => {
-      if (block.status === 'running') {
-        block.addOutput('\nProcess terminated by user\n');
+      if (!block.isFinished()) {
+        block.addOutput('\nProcess terminated by user\n', 'stderr');
         block.setCompleted(130); // SIGINT exit code
       }
     });
     this.activeProcesses.clear();
-    this.executor.kill();
+    this.executor.killAll();
   }
 
   private checkMemoryPressure(): void {
@@ -168,15 +767,65 @@ export class TerminalManager {
       // Kill half of the active processes
       const processesToKill = sortedProcesses.slice(0, Math.ceil(sortedProcesses.length / 2));
       processesToKill.forEach(([id, block]) => {
-        block.addOutput('\nProcess terminated due to memory pressure\n');
+        block.addOutput('\nProcess terminated due to memory pressure\n', 'stderr');
         block.setCompleted(137); // SIGKILL exit code
         this.activeProcesses.delete(id);
       });
     }
   }
 
+  // Finished blocks past maxBlocks leave the session, oldest first, and their
+  // output spilled to disk is deleted
+  private evictBlocks(): void {
+    const excess = this.session.blocks.length - this.maxBlocks;
+    if (excess <= 0) return;
+
+    const evicted = new Set(this.session.blocks
+      .filter(block => block.status !== 'pending' && block.status !== 'running')
+      .slice(0, excess));
+    this.session.blocks = this.session.blocks.filter(block => !evicted.has(block));
+    evicted.forEach(disposeBlock);
+  }
+
+  // Save the session before this; its blocks' output is deleted
   async destroy(): Promise<void> {
     this.killAll();
+    this.ptySession.kill();
     this.isStarted = false;
+    this.session.blocks.forEach(disposeBlock);
+  }
+}
+
+// Blocks of a restored session are plain objects with nothing on disk
+function disposeBlock(block: TerminalSession['blocks'][number]): void {
+  if (block instanceof CommandBlock) {
+    block.dispose();
+  }
+}
+
+// Sets and unsets what changed from `previous` to `environment`, in the
+// syntax of the shell; empty when nothing did. Names a shell can't assign
+// are skipped.
+function formatEnvironmentScript(
+  shell: string,
+  previous: Record<string, string>,
+  environment: Record<string, string>
+): string {
+  const fish = shell === 'fish';
+  const quote = fish
+    ? (value: string) => `'${value.replace(/[\\']/g, '\\$&')}'`
+    : (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+  const keys = new Set([...Object.keys(previous), ...Object.keys(environment)]);
+  const lines: string[] = [];
+
+  for (const key of keys) {
+    if (previous[key] === environment[key] || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) continue;
+
+    if (environment[key] === undefined) {
+      lines.push(fish ? `set -e ${key}` : `unset ${key}`);
+    } else {
+      lines.push(fish ? `set -gx ${key} ${quote(environment[key])}` : `export ${key}=${quote(environment[key])}`);
+    }
   }
-}
\ No newline at end of file
+  return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
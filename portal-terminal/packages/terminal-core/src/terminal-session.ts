@@ -1,4 +1,17 @@
-import { TerminalSession as ITerminalSession, CommandBlock } from './types';
+import {
+  TerminalSession as ITerminalSession,
+  TerminalSessionSnapshot,
+  EnvironmentDiff,
+  CommandBlock,
+} from './types';
+import { REDACTED, SecretRedactor } from './secret-redactor';
+
+const SNAPSHOT_VERSION = 1;
+
+export interface ISnapshotOptions {
+  maxBlocks?: number;
+  maxOutputBytes?: number;
+}
 
 export class TerminalSession implements ITerminalSession {
   public id: string;
@@ -8,6 +21,9 @@ export class TerminalSession implements ITerminalSession {
   public environment: Record<string, string>;
   public createdAt: Date;
   public updatedAt: Date;
+  // Variables commands ran with beyond the session's own, e.g. from a .env
+  // file; their secrets are masked too but never saved
+  private commandVariables = new Map<string, Record<string, string>>();
 
   constructor(name: string, workingDirectory: string = process.cwd()) {
     this.id = Date.now().toString();
@@ -34,15 +50,154 @@ export class TerminalSession implements ITerminalSession {
     return this.blocks.slice(-count);
   }
 
+  // Marks the session changed, e.g. when a block it holds finishes
+  touch(): void {
+    this.updatedAt = new Date();
+  }
+
+  setWorkingDirectory(workingDirectory: string): void {
+    if (workingDirectory === this.workingDirectory) return;
+
+    this.workingDirectory = workingDirectory;
+    this.updatedAt = new Date();
+  }
+
+  setEnvironment(environment: Record<string, string>): void {
+    this.environment = { ...this.environment, ...environment };
+    this.updatedAt = new Date();
+  }
+
+  // Remember the variables of an environment commands ran with, so output
+  // holding their secrets stays masked after leaving the directory
+  addCommandEnvironment(environment: Record<string, string>): void {
+    for (const [key, value] of Object.entries(environment)) {
+      if (this.environment[key] !== value) {
+        this.commandVariables.set(`${key}=${value}`, { [key]: value });
+      }
+    }
+  }
+
+  getEnvironmentDiff(base: NodeJS.ProcessEnv = process.env): EnvironmentDiff {
+    const set: Record<string, string> = {};
+    for (const [key, value] of Object.entries(this.environment)) {
+      if (base[key] !== value) {
+        set[key] = value;
+      }
+    }
+
+    const unset = Object.keys(base).filter(key => base[key] !== undefined && !(key in this.environment));
+
+    return { set, unset };
+  }
+
+  // Keeps the most recent blocks and the tail of each block's output. Secrets
+  // in the environment, commands and output are masked.
+  toSnapshot(options: ISnapshotOptions = {}): TerminalSessionSnapshot {
+    const { maxBlocks = 100, maxOutputBytes = 64 * 1024 } = options;
+    const redactor = this.createRedactor();
+    const environment = this.getEnvironmentDiff();
+
+    return {
+      version: SNAPSHOT_VERSION,
+      id: this.id,
+      name: this.name,
+      blocks: this.blocks.slice(-maxBlocks).map(block => snapshotBlock(block, maxOutputBytes, redactor)),
+      workingDirectory: this.workingDirectory,
+      environment: { ...environment, set: redactor.redactEnvironment(environment.set) },
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+      savedAt: new Date(),
+    };
+  }
+
+  // Replays the saved environment diff on top of the current process
+  // environment; masked secrets keep their value from the current process
+  static fromSnapshot(snapshot: TerminalSessionSnapshot): TerminalSession {
+    const session = new TerminalSession(snapshot.name, snapshot.workingDirectory);
+    session.id = snapshot.id;
+
+    for (const key of snapshot.environment?.unset || []) {
+      delete session.environment[key];
+    }
+    for (const [key, value] of Object.entries(snapshot.environment?.set || {})) {
+      if (value !== REDACTED) {
+        session.environment[key] = value;
+      }
+    }
+
+    session.blocks = (snapshot.blocks || []).map(reviveBlock);
+    session.createdAt = new Date(snapshot.createdAt);
+    session.updatedAt = new Date(snapshot.updatedAt);
+    return session;
+  }
+
+  // Masks secrets like toSnapshot(), but keeps everything else
   toJSON(): ITerminalSession {
+    const redactor = this.createRedactor();
+
     return {
       id: this.id,
       name: this.name,
-      blocks: this.blocks,
+      blocks: this.blocks.map(block => snapshotBlock(block, Infinity, redactor)),
       workingDirectory: this.workingDirectory,
-      environment: this.environment,
+      environment: redactor.redactEnvironment(this.environment),
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
     };
   }
-}
\ No newline at end of file
+
+  private createRedactor(): SecretRedactor {
+    const redactor = new SecretRedactor({ environment: this.environment });
+    for (const variable of this.commandVariables.values()) {
+      redactor.addEnvironment(variable);
+    }
+    return redactor;
+  }
+}
+
+function snapshotBlock(block: CommandBlock, maxOutputBytes: number, redactor: SecretRedactor): CommandBlock {
+  return {
+    id: block.id,
+    command: redactor.redactText(block.command),
+    output: redactor.redactText(tailBytes(block.output, maxOutputBytes, block.outputInfo?.totalBytes)),
+    timestamp: block.timestamp,
+    status: block.status,
+    exitCode: block.exitCode,
+    cwd: block.cwd,
+    startTime: block.startTime,
+    endTime: block.endTime,
+    duration: block.duration,
+    dryRun: block.dryRun,
+    source: block.source,
+    parentId: block.parentId,
+    finding: block.finding,
+    diagnostics: block.diagnostics?.map(diagnostic => ({
+      ...diagnostic,
+      message: redactor.redactText(diagnostic.message),
+    })),
+  };
+}
+
+// totalBytes counts output that already spilled out of the in-memory window
+function tailBytes(output: string, maxBytes: number, totalBytes?: number): string {
+  const buffer = Buffer.from(output);
+  const total = Math.max(totalBytes ?? 0, buffer.length);
+  if (total <= maxBytes) {
+    return output;
+  }
+
+  // Drop a multi-byte character cut in half at the start of the tail
+  const tail = buffer.subarray(Math.max(0, buffer.length - maxBytes)).toString().replace(/^\uFFFD+/, '');
+  return `[${total - Math.min(buffer.length, maxBytes)} bytes of earlier output not saved]\n${tail}`;
+}
+
+function reviveBlock(block: CommandBlock): CommandBlock {
+  return {
+    ...block,
+    // A command still running when the app quit did not finish
+    status: block.status === 'running' || block.status === 'pending' ? 'error' : block.status,
+    timestamp: new Date(block.timestamp),
+    startTime: block.startTime ? new Date(block.startTime) : undefined,
+    endTime: block.endTime ? new Date(block.endTime) : undefined,
+  };
+}
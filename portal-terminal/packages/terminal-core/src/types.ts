@@ -1,10 +1,375 @@
+import type { AuditLog } from './audit-log';
+import type { CommandValidator } from './command-validator';
+
+export type OutputStream = 'stdout' | 'stderr';
+
+export type CommandStatus = 'pending' | 'running' | 'completed' | 'error';
+
+// Where a command came from: typed by the user, an accepted AI suggestion,
+// the command palette, a tool call from an MCP server or a recovery action
+// the ErrorHandler ran for a failed command
+export type CommandSource = 'typed' | 'ai-suggestion' | 'palette' | 'mcp-tool' | 'recovery';
+
+export interface CommandOutputEvent {
+  data: string;
+  stream: OutputStream;
+  timestamp: Date;
+}
+
+export interface OutputChunk extends CommandOutputEvent {
+  // Byte offsets of this chunk in the merged output and within its own stream
+  offset: number;
+  streamOffset: number;
+  byteLength: number;
+}
+
+// Palette index 0-15 for the themeable basic colors, otherwise a #rrggbb color
+export type TerminalColor = number | string;
+
+export interface TextStyle {
+  fg?: TerminalColor;
+  bg?: TerminalColor;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  inverse?: boolean;
+  strikethrough?: boolean;
+}
+
+export interface StyledSpan {
+  text: string;
+  style?: TextStyle;
+  // OSC 8 hyperlink target
+  href?: string;
+}
+
+export type StyledLine = StyledSpan[];
+
+// Replaces styled lines from `start` (inclusive) to the end
+export interface StyledOutputUpdate {
+  start: number;
+  lines: StyledLine[];
+}
+
+// Size of a block's output; everything before windowStartLine was spilled to disk
+export interface OutputInfo {
+  totalBytes: number;
+  spilledBytes: number;
+  lineCount: number;
+  windowStartLine: number;
+}
+
+export interface CommandStatusChangeEvent {
+  status: CommandStatus;
+  previousStatus: CommandStatus;
+  timestamp: Date;
+}
+
+export interface CommandExitEvent {
+  exitCode?: number;
+  duration?: number;
+  timestamp: Date;
+}
+
+// One run of a command that has a retry policy
+export interface CommandAttempt {
+  attempt: number;
+  startTime: Date;
+  endTime?: Date;
+  exitCode?: number;
+  // ErrorHandler classification of a failed attempt, e.g. network_error
+  errorType?: string;
+  error?: string;
+  // Byte offset in the block's output where this attempt's output starts
+  outputOffset: number;
+  // Wait before the next attempt, when this one was retried
+  retryDelay?: number;
+}
+
 export interface CommandBlock {
   id: string;
   command: string;
   output: string;
+  chunks?: OutputChunk[];
+  outputInfo?: OutputInfo;
+  // Output with escape sequences applied, for display
+  styledLines?: StyledLine[];
+  attempts?: CommandAttempt[];
   timestamp: Date;
-  status: 'pending' | 'running' | 'completed' | 'error';
+  status: CommandStatus;
   exitCode?: number;
+  cwd?: string;
+  startTime?: Date;
+  endTime?: Date;
+  duration?: number;
+  // Output is a preview of the command; nothing was run
+  dryRun?: boolean;
+  // Typed when unset
+  source?: CommandSource;
+  // The failed block a recovery action ran for
+  parentId?: string;
+  // What a recovery action's output says about its parent's failure
+  finding?: string;
+  // Compiler, linter and test problems read from the output once it finished
+  diagnostics?: Diagnostic[];
+}
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+// The tool whose output a diagnostic was read from
+export type DiagnosticSource = 'tsc' | 'eslint' | 'jest' | 'cargo' | 'go';
+
+export interface Diagnostic {
+  // Absolute when the block's working directory is known
+  file: string;
+  line: number;
+  column?: number;
+  severity: DiagnosticSeverity;
+  message: string;
+  // e.g. TS2322, no-unused-vars, E0425, or the failing Go test
+  rule?: string;
+  source: DiagnosticSource;
+}
+
+// A word of a command line. Expansions like $HOME or *.txt are not performed.
+export interface ShellWord {
+  // As written, with quotes and escapes
+  raw: string;
+  // With quotes and escapes removed
+  value: string;
+  quoted: boolean;
+  // Commands run by $(...), `...`, <(...) and >(...) in the word
+  substitutions: ShellList[];
+}
+
+export interface ShellAssignment {
+  name: string;
+  value: ShellWord;
+}
+
+export type ShellRedirectOperator =
+  '<' | '>' | '>>' | '>|' | '<>' | '<<' | '<<-' | '<<<' | '<&' | '>&' | '&>' | '&>>';
+
+export interface ShellRedirection {
+  fd?: number;
+  operator: ShellRedirectOperator;
+  // File, descriptor or here-document delimiter
+  target: ShellWord;
+  // Here-document contents, when the command line includes them
+  body?: string;
+}
+
+// `NAME=value program args > file`
+export interface ShellSimpleCommand {
+  type: 'simple';
+  assignments: ShellAssignment[];
+  words: ShellWord[];
+  redirections: ShellRedirection[];
+}
+
+// `( list )` runs in a subshell, `{ list; }` in the current shell
+export interface ShellCompoundCommand {
+  type: 'subshell' | 'group';
+  body: ShellList;
+  redirections: ShellRedirection[];
+}
+
+export type ShellCommand = ShellSimpleCommand | ShellCompoundCommand;
+
+export interface ShellPipeline {
+  type: 'pipeline';
+  // Preceded by `!`
+  negated: boolean;
+  commands: ShellCommand[];
+}
+
+// Pipelines joined by && and ||; operators[i] sits between pipelines i and i + 1
+export interface ShellAndOrList {
+  type: 'and-or';
+  pipelines: ShellPipeline[];
+  operators: ('&&' | '||')[];
+}
+
+export interface ShellList {
+  type: 'list';
+  items: { command: ShellAndOrList; background: boolean }[];
+}
+
+export interface ShellScript {
+  body: ShellList;
+  // Unterminated quotes, unbalanced parentheses and other syntax problems
+  errors: string[];
+}
+
+// A command the shell would run, after looking through wrappers like sudo,
+// env and nice: `sudo -u root env A=1 rm -rf x` is program rm, elevated
+export interface ResolvedCommand {
+  program: string;
+  // The executable as written, e.g. /bin/rm
+  executable: string;
+  args: string[];
+  // The arguments as parsed, for expanding variables and globs in them
+  argWords: ShellWord[];
+  // Wrappers the program is run through, outermost first
+  wrappers: string[];
+  elevated: boolean;
+  // Variables set for this command only
+  assignments: Record<string, string>;
+  redirections: ShellRedirection[];
+  // Program the output is piped into, if any
+  pipedTo?: string;
+  // Runs in a child shell (subshell, pipeline, substitution, background job
+  // or sh -c), so builtins like cd don't affect the terminal's shell
+  subshell: boolean;
+}
+
+// How a matching command rule is enforced; block is the most severe
+export type RuleSeverity = 'block' | 'confirm' | 'warn';
+
+/**
+ * Matches commands by their tokens rather than by substring, so
+ * `echo "shutdown"` is not the shutdown command. Every field given must match.
+ */
+export interface CommandMatcher {
+  // Program name after wrappers like sudo, env or sh -c; any of a list
+  command?: string | string[];
+  // Arguments that must all be present, in any order. An entry may list
+  // alternatives and use * and ? wildcards; short flags match combined (-rf)
+  args?: (string | string[])[];
+  // Only when run through sudo or doas (true), or only without (false)
+  elevated?: boolean;
+  // Output piped into one of these programs
+  pipedTo?: string[];
+  // Regular expression tested against the whole command line
+  pattern?: string;
+  ignoreCase?: boolean;
+}
+
+// Where a rule applies. Directories cover their subdirectories and may start
+// with ~; branch names may use * wildcards.
+export interface RuleScope {
+  directories?: string[];
+  excludeDirectories?: string[];
+  branches?: string[];
+  excludeBranches?: string[];
+}
+
+export interface CommandRule {
+  id: string;
+  match: CommandMatcher;
+  severity: RuleSeverity;
+  message: string;
+  // A safer command to run instead
+  suggestion?: string;
+  scope?: RuleScope;
+}
+
+// What happens to a command once its rules are checked
+export type CommandDecision = 'allow' | 'confirm' | 'deny';
+
+// Sent when a command matched a confirm rule; its block stays pending until
+// the request is answered
+export interface ConfirmationRequest {
+  blockId: string;
+  command: string;
+  cwd: string;
+  rules: CommandRule[];
+  warnings: string[];
+  suggestions: string[];
+  // TerminalManager.previewCommand() can show which files it would touch
+  previewable: boolean;
+}
+
+export interface ConfirmationResponse {
+  approved: boolean;
+  // Give the same answer for this command for the rest of the session
+  remember?: boolean;
+}
+
+// Sent when the cwd enters a project whose .portal/env hasn't been trusted
+// yet; nothing from the file is loaded until the request is answered
+export interface EnvironmentTrustRequest {
+  directory: string;
+  file: string;
+  // Secret values are masked
+  variables: Record<string, string>;
+  path: string[];
+  node?: string;
+  python?: string;
+  notes: string[];
+  // The file was trusted or denied before, and changed since
+  changed: boolean;
+}
+
+export type DirectoryEnvironmentState = 'active' | 'awaiting-trust' | 'denied';
+
+// The .portal/env of the project the cwd is in, for the status bar
+export interface DirectoryEnvironmentStatus {
+  directory: string;
+  state: DirectoryEnvironmentState;
+  variables: string[];
+  path: string[];
+  // Versions in use, once active and installed
+  node?: string;
+  python?: string;
+  notes: string[];
+  problems: string[];
+}
+
+// Contents of ~/.portal/rules.json and a project's .portal/rules.json
+export interface CommandPolicyConfig {
+  // Added to the default pack; in the user config a rule with an existing id
+  // replaces it, in a project config it can only make that rule stricter
+  rules?: CommandRule[];
+  // Ids of rules to turn off; user config only
+  disable?: string[];
+  // Mistyped command -> intended command
+  typos?: Record<string, string>;
+}
+
+// What a previewed command would do to a path
+export type PreviewAction = 'remove' | 'move' | 'chmod' | 'chown';
+
+export interface PreviewEntry {
+  // Relative to the directory the command runs in, when inside it
+  path: string;
+  type: 'file' | 'directory' | 'symlink' | 'other' | 'missing';
+  // Affected files and directories, counting the path itself and, for a
+  // recursive command, everything under it
+  files: number;
+  directories: number;
+  bytes: number;
+  // Where a moved path ends up
+  destination?: string;
+  // Why the path would be skipped or fail, or what else it would replace
+  note?: string;
+}
+
+// One rm, mv, chmod -R or chown -R of a command line
+export interface PreviewOperation {
+  action: PreviewAction;
+  command: string;
+  cwd: string;
+  entries: PreviewEntry[];
+  files: number;
+  directories: number;
+  bytes: number;
+  // Stopped counting a very large tree; the totals are a lower bound
+  truncated: boolean;
+}
+
+// What a command line would do to the file system, found without running it
+export interface CommandPreview {
+  command: string;
+  cwd: string;
+  operations: PreviewOperation[];
+  files: number;
+  directories: number;
+  bytes: number;
+  truncated: boolean;
+  // Parts the preview couldn't resolve, like $(...) or cd -
+  problems: string[];
 }
 
 export interface TerminalSession {
@@ -17,15 +382,64 @@ export interface TerminalSession {
   updatedAt: Date;
 }
 
+export interface EnvironmentDiff {
+  set: Record<string, string>;
+  unset: string[];
+}
+
+// On-disk form of a session: bounded block output and only the environment
+// variables that differ from the launching process
+export interface TerminalSessionSnapshot {
+  version: number;
+  id: string;
+  name: string;
+  blocks: CommandBlock[];
+  workingDirectory: string;
+  environment: EnvironmentDiff;
+  createdAt: Date;
+  updatedAt: Date;
+  savedAt: Date;
+}
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelay: number;
+  maxDelay: number;
+  factor: number;
+  // Fraction of each delay that is randomized, from 0 (none) to 1 (full jitter)
+  jitter: number;
+  // ErrorHandler error types treated as transient
+  retryOn: string[];
+}
+
+export interface RetryRule {
+  // A string matches as a command prefix
+  pattern: string | RegExp;
+  policy?: Partial<RetryPolicy>;
+}
+
 export interface TerminalOptions {
   shell?: string;
   cwd?: string;
   env?: Record<string, string>;
+  sessionName?: string;
   cols?: number;
   rows?: number;
+  shellIntegration?: boolean;
   timeout?: number;
   maxRetries?: number;
   retryDelay?: number;
+  // Retries are off unless a rule matches or the command uses `portal retry`
+  retryPolicy?: Partial<RetryPolicy>;
+  retryRules?: RetryRule[];
   maxConcurrentCommands?: number;
   memoryThreshold?: number;
+  // Output kept in memory per block before older output spills to a temp file
+  maxBlockOutputBytes?: number;
+  // Blocks kept in the session; the oldest finished ones are dropped past it. 1000 by default
+  maxBlocks?: number;
+  // Rules applied before commands run; see CommandValidator.load()
+  validator?: CommandValidator;
+  // Every command that runs is recorded here
+  auditLog?: AuditLog;
 }
\ No newline at end of file